@@ -0,0 +1,36 @@
+import { CROP_CONCURRENCY, prepareQueuedImages } from '../lib/cardCapture';
+import { QueuedImage } from '../lib/useExtractionQueue';
+
+const photo = (name: string): QueuedImage => ({ image: new Blob([name]), fileName: `${name}.jpg`, mimeType: 'image/jpeg' });
+
+describe('prepareQueuedImages', () => {
+  const browser = globalThis as { createImageBitmap?: unknown };
+
+  afterEach(() => {
+    delete browser.createImageBitmap;
+    jest.restoreAllMocks();
+  });
+
+  test('decodes a few photos at a time and keeps the order', async () => {
+    let decoding = 0;
+    let mostAtOnce = 0;
+    // Every decode fails after a moment, so each photo is passed on as it was
+    browser.createImageBitmap = async () => {
+      decoding++;
+      mostAtOnce = Math.max(mostAtOnce, decoding);
+      await new Promise(resolve => setTimeout(resolve, 5));
+      decoding--;
+      throw new Error('not an image');
+    };
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const images = ['a', 'b', 'c', 'd', 'e'].map(photo);
+    images[1].back = { image: new Blob(['b-back']), mimeType: 'image/jpeg' };
+
+    const prepared = await prepareQueuedImages(images, true);
+
+    expect(mostAtOnce).toBe(CROP_CONCURRENCY);
+    expect(prepared.map(image => image.fileName)).toEqual(['a.jpg', 'b.jpg', 'c.jpg', 'd.jpg', 'e.jpg']);
+    expect(prepared[1].back.image).toBe(images[1].back.image);
+    expect(console.warn).toHaveBeenCalledTimes(6);
+  });
+});
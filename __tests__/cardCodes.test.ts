@@ -0,0 +1,79 @@
+/** @jest-environment node */
+import { isCompleteContact, parseMeCard, readCardCodes, withCardCodes } from '../lib/cardCodes';
+import { extractionResult } from './support/memoryBackend';
+
+const vcard = [
+  'BEGIN:VCARD',
+  'VERSION:3.0',
+  'FN:Jane Doe',
+  'ORG:Acme Ltd',
+  'TITLE:Head of Sales',
+  'TEL;TYPE=CELL:+44 7700 900123',
+  'EMAIL:jane@acme.test',
+  'URL:https://acme.test',
+  'END:VCARD',
+].join('\r\n');
+
+describe('card codes', () => {
+  test('reads a MeCard, with escaped separators', () => {
+    const data = parseMeCard('MECARD:N:Doe,Jane;ORG:Acme\\; Sons;TEL:+442079460000;EMAIL:jane@acme.test;URL:https://www.linkedin.com/in/janedoe;ADR:,,1 High St,London,,EC1A 1AA,UK;;');
+
+    expect(data).toEqual({
+      contactPerson: 'Jane Doe',
+      companyName: 'Acme; Sons',
+      phones: [{ type: 'work', value: '+442079460000' }],
+      emails: [{ type: 'work', value: 'jane@acme.test' }],
+      socialProfiles: [{ network: 'linkedin', value: 'https://www.linkedin.com/in/janedoe' }],
+      address: '1 High St, London, EC1A 1AA, UK',
+    });
+    expect(parseMeCard('WIFI:S:office;T:WPA;P:secret;;')).toBeNull();
+  });
+
+  test('sorts codes into the contact and links, ignoring anything else', () => {
+    const codes = readCardCodes([
+      { format: 'ean_13', text: '5012345678900' },
+      { format: 'qr_code', text: 'www.acme.test/jane' },
+      { format: 'qr_code', text: vcard },
+      { format: 'qr_code', text: 'https://acme.test/jane' },
+    ]);
+
+    expect(codes.contact).toMatchObject({ contactPerson: 'Jane Doe', companyName: 'Acme Ltd', jobTitle: 'Head of Sales', website: 'https://acme.test' });
+    expect(codes.contactFormat).toBe('qr_code');
+    expect(codes.urls).toEqual(['https://www.acme.test/jane', 'https://acme.test/jane']);
+    expect(isCompleteContact(codes)).toBe(true);
+    expect(isCompleteContact(readCardCodes([{ format: 'qr_code', text: 'MECARD:N:Doe,Jane;;' }]))).toBe(false);
+  });
+
+  test('a complete contact stands in for the providers', () => {
+    const result = withCardCodes(null, readCardCodes([{ format: 'qr_code', text: vcard }]));
+
+    expect(result.provider).toBeUndefined();
+    expect(result.codeFormat).toBe('qr_code');
+    expect(result.data).toMatchObject({ contactPerson: 'Jane Doe', phoneNumber: '+44 7700 900123', email: 'jane@acme.test', address: '' });
+    expect(result.extraction.contactPerson).toEqual({ confidence: 1, sourceText: 'Jane Doe' });
+    expect(result.extraction.address).toBeUndefined();
+  });
+
+  test('code values win over what a model read, and links are kept with the card', () => {
+    const modelResult = extractionResult({
+      companyName: 'Acme Ltd',
+      contactPerson: 'Jane Dae',
+      phoneNumber: '+442079460000',
+      phones: [{ type: 'work', value: '+442079460000' }],
+    });
+    const codes = readCardCodes([
+      { format: 'qr_code', text: 'MECARD:N:Doe,Jane;EMAIL:jane@acme.test;;' },
+      { format: 'qr_code', text: 'https://twitter.com/acme' },
+    ]);
+
+    const result = withCardCodes(modelResult, codes);
+
+    expect(result.provider).toBe('gemini');
+    expect(result.data).toMatchObject({ companyName: 'Acme Ltd', contactPerson: 'Jane Doe', email: 'jane@acme.test', phoneNumber: '+442079460000' });
+    expect(result.extraction.contactPerson.confidence).toBe(1);
+    expect(result.extraction.companyName.confidence).toBe(0.98);
+    expect(result.data.socialProfiles).toEqual([{ network: 'twitter', value: 'https://twitter.com/acme' }]);
+    expect(result.data.codeUrls).toEqual(['https://twitter.com/acme']);
+    expect(withCardCodes(modelResult, readCardCodes([]))).toBe(modelResult);
+  });
+});
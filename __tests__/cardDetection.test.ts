@@ -0,0 +1,115 @@
+import { cardSize, detectCard, MAX_CARD_EDGE, Point, Quad, quadShift, RgbaImage, scaleQuad, warpQuad } from '../lib/cardDetection';
+
+const WIDTH = 240;
+const HEIGHT = 180;
+
+const insideQuad = (quad: Quad, x: number, y: number) =>
+  quad.every((corner, i) => {
+    const next = quad[(i + 1) % 4];
+    return (next.x - corner.x) * (y - corner.y) - (next.y - corner.y) * (x - corner.x) >= 0;
+  });
+
+// A photo of a card: `card` brightness inside the quad with lines of dark "text", on a background
+// of `table` brightness, with a little noise
+const photo = (quad: Quad | null, { card = 235, table = 60, text = true } = {}): RgbaImage => {
+  const data = new Uint8ClampedArray(WIDTH * HEIGHT * 4);
+  let seed = 1;
+  const noise = () => {
+    seed = (seed * 16807) % 2147483647;
+    return (seed % 21) - 10;
+  };
+  for (let y = 0; y < HEIGHT; y++) {
+    for (let x = 0; x < WIDTH; x++) {
+      const px = x + 0.5;
+      const py = y + 0.5;
+      let value = table;
+      if (quad && insideQuad(quad, px, py)) {
+        // Text lines across the middle of the card, like a name and a phone number
+        const [topLeft, , , bottomLeft] = quad;
+        const along = (py - topLeft.y) / (bottomLeft.y - topLeft.y);
+        value = text && (Math.abs(along - 0.4) < 0.04 || Math.abs(along - 0.6) < 0.03) && x % 5 < 3 ? 40 : card;
+      }
+      const index = (y * WIDTH + x) * 4;
+      data[index] = data[index + 1] = data[index + 2] = value + noise();
+      data[index + 3] = 255;
+    }
+  }
+  return { width: WIDTH, height: HEIGHT, data };
+};
+
+const rotate = (points: Point[], degrees: number): Quad => {
+  const angle = (degrees * Math.PI) / 180;
+  const cx = WIDTH / 2;
+  const cy = HEIGHT / 2;
+  return points.map(({ x, y }) => ({
+    x: cx + (x - cx) * Math.cos(angle) - (y - cy) * Math.sin(angle),
+    y: cy + (x - cx) * Math.sin(angle) + (y - cy) * Math.cos(angle),
+  })) as Quad;
+};
+
+const upright: Quad = [{ x: 40, y: 40 }, { x: 200, y: 40 }, { x: 200, y: 140 }, { x: 40, y: 140 }];
+
+describe('detectCard', () => {
+  test('finds an upright card', () => {
+    expect(quadShift(detectCard(photo(upright)), upright)).toBeLessThan(2);
+  });
+
+  test('finds a turned card seen at an angle', () => {
+    const skewed: Quad = [{ x: 55, y: 30 }, { x: 195, y: 50 }, { x: 210, y: 150 }, { x: 35, y: 135 }];
+    expect(quadShift(detectCard(photo(skewed)), skewed)).toBeLessThan(3);
+    const turned = rotate(upright, 20);
+    expect(quadShift(detectCard(photo(turned)), turned)).toBeLessThan(3);
+  });
+
+  test('finds a card turned close to 45 degrees', () => {
+    const turned = rotate([{ x: 70, y: 40 }, { x: 170, y: 40 }, { x: 170, y: 140 }, { x: 70, y: 140 }], 45);
+    const found = detectCard(photo(turned));
+    // The corners come back clockwise from whichever is top left
+    const offsets = [0, 1, 2, 3].map(shift => quadShift(found, [0, 1, 2, 3].map(i => turned[(i + shift) % 4]) as Quad));
+    expect(Math.min(...offsets)).toBeLessThan(3);
+  });
+
+  test('finds a dark card on a light table', () => {
+    expect(quadShift(detectCard(photo(upright, { card: 50, table: 220, text: false })), upright)).toBeLessThan(2);
+  });
+
+  test('finds nothing without a clear card', () => {
+    expect(detectCard(photo(null))).toBeNull();
+    // Fills the frame: nothing to crop
+    expect(detectCard(photo([{ x: 0, y: 0 }, { x: WIDTH, y: 0 }, { x: WIDTH, y: HEIGHT }, { x: 0, y: HEIGHT }]))).toBeNull();
+    // Too small to be the card being photographed
+    expect(detectCard(photo([{ x: 110, y: 80 }, { x: 140, y: 80 }, { x: 140, y: 100 }, { x: 110, y: 100 }]))).toBeNull();
+  });
+});
+
+describe('warpQuad', () => {
+  test('straightens the card into a rectangle', () => {
+    const skewed: Quad = [{ x: 55, y: 30 }, { x: 195, y: 50 }, { x: 210, y: 150 }, { x: 35, y: 135 }];
+    const source = photo(skewed, { text: false });
+    const { width, height } = cardSize(skewed);
+    const flat = warpQuad(source, skewed, width, height);
+
+    expect(flat.data).toHaveLength(width * height * 4);
+    // Nothing of the table is left, apart from a blurred pixel at the very edge
+    let tablePixels = 0;
+    for (let y = 1; y < height - 1; y++) {
+      for (let x = 1; x < width - 1; x++) {
+        if (flat.data[(y * width + x) * 4] < 150) tablePixels++;
+      }
+    }
+    expect(tablePixels).toBe(0);
+  });
+
+  test('copies an upright card pixel for pixel', () => {
+    const source = photo(upright);
+    const flat = warpQuad(source, upright, 160, 100);
+    [[0, 0], [80, 43], [159, 99]].forEach(([x, y]) => {
+      expect(flat.data[(y * 160 + x) * 4]).toBe(source.data[((y + 40) * WIDTH + x + 40) * 4]);
+    });
+  });
+});
+
+test('cardSize keeps the aspect ratio and fits the longest side', () => {
+  expect(cardSize(upright)).toEqual({ width: 160, height: 100 });
+  expect(cardSize(scaleQuad(upright, 20))).toEqual({ width: MAX_CARD_EDGE, height: 1000 });
+});
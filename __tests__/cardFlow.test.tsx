@@ -0,0 +1,185 @@
+import React from 'react';
+import { act, render, screen, within } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import CardVault from '../components/CardVault';
+import { CARD_SCHEMA_VERSION } from '../lib/migrations';
+import { createTestBackend, TEST_USER_ID } from './support/memoryBackend';
+
+const card = {
+  companyName: 'Acme Ltd',
+  contactPerson: 'Jane Doe',
+  jobTitle: 'Head of Sales',
+  email: 'jane@acme.test',
+  phoneNumber: '+442079460000',
+};
+
+describe('card flow', () => {
+  // The list's search and filters are kept in the URL, so one test's search would carry into the next
+  beforeEach(() => window.history.replaceState(null, '', '/'));
+
+  test('uploads, extracts, saves, edits and deletes a card without a network', async () => {
+    const user = userEvent.setup();
+    const backend = createTestBackend(card);
+    render(<CardVault createBackend={() => backend} />);
+
+    expect(await screen.findByText('No company cards uploaded yet.')).toBeInTheDocument();
+
+    // Upload: the single image opens for review as soon as it has been read
+    const image = new File(['front of card'], 'card.jpg', { type: 'image/jpeg' });
+    await user.upload(screen.getByLabelText('Choose Images'), image);
+    expect(await screen.findByDisplayValue('Acme Ltd')).toBeInTheDocument();
+    expect(backend.extracted).toEqual([image]);
+
+    // Save
+    await user.click(screen.getByRole('button', { name: 'Accept' }));
+    expect(await screen.findByText('Information extracted and saved successfully!')).toBeInTheDocument();
+    const [saved] = backend.cards.cards();
+    expect(saved).toMatchObject({ ...card, uploadedBy: TEST_USER_ID });
+    expect(saved.extraction.companyName.confidence).toBe(0.98);
+
+    // Edit
+    await user.click(screen.getByRole('heading', { name: 'Acme Ltd' }));
+    await user.click(screen.getByRole('button', { name: 'Edit' }));
+    const companyName = screen.getByLabelText('Company Name');
+    await user.clear(companyName);
+    await user.type(companyName, 'Acme Group');
+    await user.click(screen.getByRole('button', { name: 'Save Changes' }));
+    expect(await screen.findByText('Company card updated successfully!')).toBeInTheDocument();
+    expect(screen.getByRole('heading', { name: 'Acme Group' })).toBeInTheDocument();
+    expect(backend.cards.cards()[0]).toMatchObject({ companyName: 'Acme Group', revision: 1, updatedBy: TEST_USER_ID });
+
+    // Delete: the card moves to the trash and stays restorable
+    await user.click(screen.getByRole('button', { name: 'Delete' }));
+    const dialog = screen.getByText('Confirm Deletion').parentElement;
+    await user.click(within(dialog).getByRole('button', { name: 'Delete' }));
+    expect(await screen.findByText('No company cards uploaded yet.')).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: 'Trash (1)' })).toBeInTheDocument();
+    expect(backend.cards.cards()[0]).toMatchObject({ deletedBy: TEST_USER_ID, revision: 2 });
+    expect(backend.cards.auditLog().map(entry => entry.action)).toEqual(['delete', 'edit']);
+  });
+
+  test('reads both sides of a two-sided card as one card', async () => {
+    const user = userEvent.setup();
+    const backend = createTestBackend(card);
+    render(<CardVault createBackend={() => backend} />);
+    await screen.findByText('No company cards uploaded yet.');
+
+    await user.click(screen.getByLabelText(/Two-sided cards/));
+    const front = new File(['front of card'], 'front.jpg', { type: 'image/jpeg' });
+    const back = new File(['back of card'], 'back.jpg', { type: 'image/jpeg' });
+    await user.upload(screen.getByLabelText('Choose Images'), [front, back]);
+
+    expect(await screen.findByDisplayValue('Acme Ltd')).toBeInTheDocument();
+    expect(backend.extracted).toEqual([front]);
+    expect(backend.extractedBacks).toEqual([back]);
+    expect(screen.getByAltText('Back of the business card')).toBeInTheDocument();
+
+    await user.click(screen.getByRole('button', { name: 'Accept' }));
+    expect(await screen.findByText('Information extracted and saved successfully!')).toBeInTheDocument();
+    const [saved] = backend.cards.cards();
+    expect(Object.keys(saved.images)).toEqual(['front', 'back']);
+    expect(backend.images.get(saved.images.front.path)).toBe(front);
+    expect(backend.images.get(saved.images.back.path)).toBe(back);
+  });
+
+  test('saves a card read offline straight away and uploads its photo after reconnecting', async () => {
+    const user = userEvent.setup();
+    const backend = createTestBackend(card);
+    // Offline OCR reads the card on the device. Like Firestore and Storage, the backend applies the
+    // card locally but only confirms writes and uploads once the device is back online.
+    let online = false;
+    const reconnected: (() => void)[] = [];
+    const whenOnline = () => (online ? Promise.resolve() : new Promise<void>(resolve => reconnected.push(resolve)));
+    backend.extraction.canExtractOffline = () => true;
+    const { createCard } = backend.cards;
+    backend.cards.createCard = (id, newCard) => {
+      createCard(id, newCard);
+      return whenOnline();
+    };
+    const { put } = backend.blobStore;
+    backend.blobStore.put = async (...args) => {
+      await whenOnline();
+      return put(...args);
+    };
+    const onLine = jest.spyOn(navigator, 'onLine', 'get').mockImplementation(() => online);
+    render(<CardVault createBackend={() => backend} />);
+    await screen.findByText('No company cards uploaded yet.');
+    act(() => { window.dispatchEvent(new Event('offline')); });
+
+    const image = new File(['front of card'], 'card.jpg', { type: 'image/jpeg' });
+    await user.upload(screen.getByLabelText('Choose Images'), image);
+    await user.click(await screen.findByRole('button', { name: 'Accept' }));
+
+    expect(await screen.findByText("Information extracted and saved successfully! Its photos will upload when you're back online.")).toBeInTheDocument();
+    expect(screen.getByText('Saved; photos wait for connection')).toBeInTheDocument();
+    expect(backend.cards.cards()[0].images).toEqual({});
+
+    online = true;
+    act(() => {
+      reconnected.forEach(resolve => resolve());
+      window.dispatchEvent(new Event('online'));
+    });
+    expect(await screen.findByText('1 of 1 saved')).toBeInTheDocument();
+    const [saved] = backend.cards.cards();
+    expect(backend.images.get(saved.images.front.path)).toBe(image);
+    onLine.mockRestore();
+  });
+
+  test('restores a deleted card from the trash', async () => {
+    const user = userEvent.setup();
+    const backend = createTestBackend(card);
+    const { ids } = backend.cards.createCards([{ ...card, timestamp: 1, deletedAt: Date.now(), deletedBy: TEST_USER_ID }]);
+    render(<CardVault createBackend={() => backend} />);
+
+    await user.click(await screen.findByRole('button', { name: 'Trash (1)' }));
+    await user.click(screen.getByRole('button', { name: 'Restore' }));
+
+    expect(await screen.findByRole('heading', { name: 'Acme Ltd' })).toBeInTheDocument();
+    expect(backend.cards.cards()[0]).not.toHaveProperty('deletedAt');
+    expect(backend.cards.auditLog()).toMatchObject([{ cardId: ids[0], action: 'restore' }]);
+  });
+
+  test('loads a large vault a page at a time and searches past the first page', async () => {
+    const user = userEvent.setup();
+    const backend = createTestBackend(card);
+    backend.cards.createCards(Array.from({ length: 120 }, (_, index) => ({
+      companyName: `Company ${index}`,
+      contactPerson: index === 5 ? 'Zora Quist' : '',
+      timestamp: 1000 + index,
+      uploadedBy: TEST_USER_ID,
+      schemaVersion: CARD_SCHEMA_VERSION,
+    })));
+    render(<CardVault createBackend={() => backend} />);
+
+    // Newest first, with only the first page read and only the rows near the top drawn
+    expect(await screen.findByRole('heading', { name: 'Company 119' })).toBeInTheDocument();
+    expect(await screen.findByText('50 of 120 cards loaded. Scroll down for more.')).toBeInTheDocument();
+    expect(screen.queryByRole('heading', { name: 'Company 90' })).not.toBeInTheDocument();
+
+    // A search with no matches loaded yet keeps reading pages until it finds them
+    await user.type(screen.getByLabelText('Search cards'), 'Quist');
+    expect(await screen.findByRole('heading', { name: 'Company 5' })).toBeInTheDocument();
+    expect(screen.getByText('Showing 1 of 120 cards')).toBeInTheDocument();
+  });
+
+  test('shows follow-ups due anywhere in the vault, not just on the loaded pages', async () => {
+    const user = userEvent.setup();
+    const backend = createTestBackend(card);
+    const reminder = { id: 'reminder-1', dueDate: '2026-01-05', note: 'Send the quote', done: false, createdAt: 1, createdBy: TEST_USER_ID };
+    backend.cards.createCards(Array.from({ length: 120 }, (_, index) => ({
+      companyName: `Company ${index}`,
+      contactPerson: '',
+      timestamp: 1000 + index,
+      uploadedBy: TEST_USER_ID,
+      schemaVersion: CARD_SCHEMA_VERSION,
+      ...(index === 3 ? { reminders: [reminder], nextDueDate: reminder.dueDate } : {}),
+    })));
+    render(<CardVault createBackend={() => backend} />);
+
+    expect(await screen.findByText('50 of 120 cards loaded. Scroll down for more.')).toBeInTheDocument();
+    await user.click(screen.getByRole('button', { name: 'Due today (1)' }));
+    expect(screen.getByText('1 follow-up due today or overdue.')).toBeInTheDocument();
+    expect(screen.getByRole('heading', { name: 'Company 3' })).toBeInTheDocument();
+    expect(screen.getByText('Due 2026-01-05: Send the quote')).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,148 @@
+/** @jest-environment node */
+// Reading the card list a page at a time against the whole-collection listener it replaced, on the
+// Firestore emulator seeded with a large vault. Not part of `npm test`; run it with the emulators:
+//
+//   firebase emulators:exec --only auth,firestore "npm run benchmark"
+//
+// BENCHMARK_CARDS sets the size of the vault (10,000 by default). Every read uses a fresh client, so
+// nothing is served from a cache warmed by an earlier one.
+
+import { deleteApp, initializeApp } from 'firebase/app';
+import { connectAuthEmulator, getAuth, signInAnonymously } from 'firebase/auth';
+import { collection, connectFirestoreEmulator, Firestore, getFirestore, onSnapshot, query } from 'firebase/firestore';
+import { CardCursor, CardRange, CardRepository, CardSnapshot, cursorOf } from '../lib/cardRepository';
+import { findStoredDuplicates } from '../lib/duplicates';
+import { createFirestoreCardRepository } from '../lib/firestoreCardRepository';
+import { CARD_SCHEMA_VERSION } from '../lib/migrations';
+import { PAGE_SIZE } from '../lib/useCards';
+import { CompanyData, Vault } from '../lib/types';
+import { personalVault } from '../lib/workspaces';
+
+const CARD_COUNT = Number(process.env.BENCHMARK_CARDS) || 10000;
+const PAGES_SCROLLED = 5;
+const PROJECT_ID = 'demo-cardvault';
+const APP_ID = 'card-vault-benchmark';
+
+jest.setTimeout(15 * 60 * 1000);
+
+const emulatorHost = process.env.FIRESTORE_EMULATOR_HOST;
+const describeWithEmulator = emulatorHost ? describe : describe.skip;
+
+// A Firebase client of its own, connected to the emulators
+const createClient = (name: string) => {
+  const app = initializeApp({ projectId: PROJECT_ID, apiKey: 'benchmark' }, name);
+  const auth = getAuth(app);
+  connectAuthEmulator(auth, `http://${process.env.FIREBASE_AUTH_EMULATOR_HOST || '127.0.0.1:9099'}`, { disableWarnings: true });
+  const db = getFirestore(app);
+  const [host, port] = emulatorHost.split(':');
+  connectFirestoreEmulator(db, host, Number(port));
+  return { app, auth, db };
+};
+
+const timed = async <T>(read: () => Promise<T>): Promise<{ ms: number; result: T }> => {
+  const started = performance.now();
+  const result = await read();
+  return { ms: Math.round(performance.now() - started), result };
+};
+
+// Resolves with the first snapshot from the server, then stops listening
+const firstSnapshot = (listen: (onChange: (snapshot: CardSnapshot) => void, onError: (error: Error) => void) => () => void) =>
+  new Promise<CardSnapshot>((resolve, reject) => {
+    let stop: () => void = () => undefined;
+    stop = listen((snapshot) => {
+      resolve(snapshot);
+      setTimeout(() => stop());
+    }, reject);
+  });
+
+const seedCard = (index: number, uid: string): Omit<CompanyData, 'id'> => ({
+  companyName: `Company ${index}`,
+  contactPerson: `Contact ${index}`,
+  email: `contact${index}@company${index}.test`,
+  phoneNumber: `+4420${String(70000000 + index)}`,
+  website: `https://company${index}.test`,
+  tags: index % 10 === 0 ? ['lead'] : [],
+  timestamp: Date.UTC(2024, 0, 1) + index * 60000,
+  uploadedBy: uid,
+  schemaVersion: CARD_SCHEMA_VERSION,
+});
+
+describeWithEmulator('card list benchmark', () => {
+  const owner = emulatorHost ? createClient('owner') : null;
+  let uid = '';
+  let vault: Vault;
+  const results: Record<string, string> = {};
+
+  beforeAll(async () => {
+    uid = (await signInAnonymously(owner.auth)).user.uid;
+    vault = personalVault(APP_ID, uid);
+    const repository = createFirestoreCardRepository(owner.db, vault);
+    const { ms } = await timed(() => repository.createCards(Array.from({ length: CARD_COUNT }, (_, index) => seedCard(index, uid))).write);
+    results[`Seeding ${CARD_COUNT} cards`] = `${ms} ms`;
+  });
+
+  afterAll(async () => {
+    console.table(results);
+    await deleteApp(owner.app);
+  });
+
+  // Reads with a fresh client signed in as the same owner
+  const withClient = async <T>(name: string, read: (repository: CardRepository, db: Firestore) => Promise<T>): Promise<T> => {
+    const { app, auth, db } = createClient(name);
+    await auth.updateCurrentUser(owner.auth.currentUser);
+    try {
+      return await read(createFirestoreCardRepository(db, vault), db);
+    } finally {
+      await deleteApp(app);
+    }
+  };
+
+  test('the whole-collection listener', async () => {
+    const { ms, result } = await withClient('whole', (_repository, db) => timed(() => new Promise<number>((resolve, reject) => {
+      const stop = onSnapshot(query(collection(db, vault.cardsPath)), (snapshot) => {
+        const cards = snapshot.docs.map(cardDoc => ({ id: cardDoc.id, ...cardDoc.data() } as CompanyData));
+        cards.sort((a, b) => (b.timestamp || 0) - (a.timestamp || 0));
+        resolve(cards.length);
+        setTimeout(() => stop());
+      }, reject);
+    })));
+    results[`Whole collection (${result} cards)`] = `${ms} ms`;
+    expect(result).toBe(CARD_COUNT);
+  });
+
+  test('the first page, newest first', async () => {
+    const range: CardRange = { order: { sort: 'date', dir: 'desc' }, after: null, limit: PAGE_SIZE };
+    const { ms, result } = await withClient('first-page', repository => timed(() => firstSnapshot((onChange, onError) => repository.subscribeToRange(range, onChange, onError))));
+    results[`First page (${result.cards.length} cards)`] = `${ms} ms`;
+    expect(result.cards).toHaveLength(PAGE_SIZE);
+    expect(result.cards[0].companyName).toBe(`Company ${CARD_COUNT - 1}`);
+  });
+
+  test('scrolling page by page, by company name', async () => {
+    const order = { sort: 'companyName' as const, dir: 'asc' as const };
+    const times = await withClient('scroll', async (repository) => {
+      const pageTimes: number[] = [];
+      let after: CardCursor | null = null;
+      for (let page = 0; page < PAGES_SCROLLED; page++) {
+        const { ms, result } = await timed(() => firstSnapshot((onChange, onError) => repository.subscribeToRange({ order, after, limit: PAGE_SIZE }, onChange, onError)));
+        pageTimes.push(ms);
+        after = cursorOf(result.cards[result.cards.length - 1], order);
+      }
+      return pageTimes;
+    });
+    results[`Next ${PAGES_SCROLLED} pages by name (each)`] = `${times.join(', ')} ms`;
+  });
+
+  test('counting the vault', async () => {
+    const { ms, result } = await withClient('count', repository => timed(() => repository.countCards()));
+    results['Count'] = `${ms} ms`;
+    expect(result).toBe(CARD_COUNT);
+  });
+
+  test('checking a new card for duplicates', async () => {
+    const index = Math.floor(CARD_COUNT / 2);
+    const { ms, result } = await withClient('duplicates', repository => timed(() => findStoredDuplicates(seedCard(index, uid), repository, [])));
+    results['Duplicate check'] = `${ms} ms`;
+    expect(result[0]?.company.companyName).toBe(`Company ${index}`);
+  });
+});
@@ -0,0 +1,59 @@
+import { OcrLine, parseCardText } from '../lib/cardText';
+
+const lines = (...texts: string[]): OcrLine[] => texts.map(text => ({ text, confidence: 90 }));
+
+describe('parseCardText', () => {
+  test('types every number by its label; the first one that is not a fax is the main number', () => {
+    const { data } = parseCardText(lines('Jane Doe', 'Fax: +44 20 7946 0001', 'Mobile: 07700 900123', 'Tel: 020 7946 0003'));
+
+    expect(data.phones).toEqual([
+      { type: 'fax', value: '+44 20 7946 0001' },
+      { type: 'mobile', value: '07700 900123' },
+      { type: 'work', value: '020 7946 0003' },
+    ]);
+    expect(data.phoneNumber).toBe('07700 900123');
+  });
+
+  test('keeps the extension printed after a number', () => {
+    const { data } = parseCardText(lines('Jane Doe', 'Tel: +1 555 010 0199 ext. 42'));
+
+    expect(data.phoneNumber).toBe('+1 555 010 0199 ext. 42');
+  });
+
+  test('picks out the job title and social profiles', () => {
+    const { data } = parseCardText(lines('Jane Doe', 'Head of Sales', 'Acme Ltd', 'linkedin.com/in/janedoe'));
+
+    expect(data).toMatchObject({ contactPerson: 'Jane Doe', jobTitle: 'Head of Sales', companyName: 'Acme Ltd', website: '' });
+    expect(data.socialProfiles).toEqual([{ network: 'linkedin', value: 'linkedin.com/in/janedoe' }]);
+  });
+
+  test("finds a company without a legal suffix from the email's domain", () => {
+    const { data } = parseCardText(lines('Jane Doe', 'Sales Director', 'Blue Harbour', 'jane@blueharbour.test'));
+
+    expect(data).toMatchObject({ contactPerson: 'Jane Doe', companyName: 'Blue Harbour', email: 'jane@blueharbour.test' });
+  });
+
+  test('joins a two-line address and keeps the website apart from the email', () => {
+    const { data } = parseCardText(lines('Acme Ltd', 'jane@acme.test', 'acme.test', 'Unit 4, Mill Road', 'Cambridge CB1 2AB'));
+
+    expect(data.address).toBe('Unit 4, Mill Road, Cambridge CB1 2AB');
+    expect(data.website).toBe('acme.test');
+  });
+
+  test("scores guesses below pattern matches and scales both by the OCR's confidence", () => {
+    const { extraction } = parseCardText([
+      { text: 'Jane Doe', confidence: 80 },
+      { text: 'jane@acme.test', confidence: 50 },
+    ]);
+
+    expect(extraction.contactPerson).toEqual({ confidence: 0.48, sourceText: 'Jane Doe' });
+    expect(extraction.email).toEqual({ confidence: 0.48, sourceText: 'jane@acme.test' });
+  });
+
+  test('leaves fields it could not find empty, without metadata', () => {
+    const { data, extraction } = parseCardText(lines('x', 'Jane Doe'));
+
+    expect(data).toMatchObject({ contactPerson: 'Jane Doe', email: '', phoneNumber: '', website: '' });
+    expect(extraction.email).toBeUndefined();
+  });
+});
@@ -0,0 +1,56 @@
+import { buildCsv, CsvExportOptions, mapImportRows, parseCsv } from '../lib/csv';
+import { CompanyData } from '../lib/types';
+
+const card = (fields: Partial<CompanyData>): CompanyData => ({
+  id: 'card',
+  companyName: 'Acme Ltd',
+  contactPerson: 'Jane Doe',
+  phoneNumber: '',
+  email: '',
+  website: '',
+  address: '',
+  phones: [],
+  emails: [],
+  socialProfiles: [],
+  timestamp: 1,
+  ...fields,
+});
+
+const options: CsvExportOptions = { columns: ['companyName', 'contactPerson', 'phoneNumber', 'mobilePhone'], delimiter: ',', dateFormat: 'iso', includeBom: false };
+const exportRow = (company: CompanyData) => parseCsv(buildCsv([company], options))[1];
+
+describe('buildCsv', () => {
+  test.each([
+    ['=HYPERLINK("https://evil.example","Click")'],
+    ['+SUM(1,2)'],
+    ['-2+3'],
+    ['@cmd'],
+    ['\t=1+1'],
+  ])('turns %j into text so spreadsheets don\'t run it', (value) => {
+    expect(exportRow(card({ companyName: value }))[0]).toBe(`'${value}`);
+  });
+
+  test('leaves phone numbers, with or without extensions, as they are', () => {
+    const row = exportRow(card({
+      phoneNumber: '+15550100199;ext=42',
+      phones: [{ type: 'mobile', value: '+447700900123' }, { type: 'mobile', value: '+447700900456' }],
+    }));
+
+    expect(row.slice(2)).toEqual(['+15550100199;ext=42', '+447700900123; +447700900456']);
+    expect(exportRow(card({ phoneNumber: '+1 555 CALL NOW' }))[2]).toBe("'+1 555 CALL NOW");
+  });
+});
+
+test('exported cards import with their original values', () => {
+  const [headers, ...rows] = parseCsv(buildCsv([card({
+    companyName: '=1+1',
+    phoneNumber: '+15550100199;ext=42',
+    phones: [{ type: 'mobile', value: '+15550100199;ext=42' }, { type: 'mobile', value: '+447700900123' }],
+  })], options));
+
+  const [imported] = mapImportRows(rows, { companyName: 0, contactPerson: 1, phoneNumber: 2, mobilePhone: 3 });
+
+  expect(headers).toHaveLength(4);
+  expect(imported.data).toMatchObject({ companyName: '=1+1', phoneNumber: '+15550100199;ext=42' });
+  expect(imported.data.phones.map(phone => phone.value)).toEqual(['+15550100199;ext=42', '+447700900123']);
+});
@@ -0,0 +1,78 @@
+import { dedupeCompanies, DUPLICATE_THRESHOLD, findDuplicates, scoreDuplicate } from '../lib/duplicates';
+import { levenshtein } from '../lib/text';
+import { CompanyData } from '../lib/types';
+
+const card = (fields: Partial<CompanyData>): CompanyData => ({
+  id: fields.id || fields.contactPerson || 'card',
+  companyName: 'Acme Ltd',
+  contactPerson: '',
+  phoneNumber: '',
+  email: '',
+  website: 'https://acme.example',
+  address: '',
+  phones: [],
+  emails: [],
+  socialProfiles: [],
+  timestamp: 1,
+  ...fields,
+});
+
+const jane = card({ contactPerson: 'Jane Doe', email: 'jane@acme.example', phoneNumber: '+442079460000;ext=12' });
+
+describe('scoreDuplicate', () => {
+  test('colleagues at one company are not duplicates', () => {
+    const john = card({ contactPerson: 'John Smith', email: 'john@acme.example', phoneNumber: '+442079460000;ext=13' });
+
+    expect(scoreDuplicate(john, jane).score).toBeLessThan(DUPLICATE_THRESHOLD);
+  });
+
+  test('a shared switchboard number does not make colleagues one person', () => {
+    const switchboard = '+442079460000';
+    const colleagues = [card({ contactPerson: 'Jane Doe', phoneNumber: switchboard }), card({ contactPerson: 'John Smith', phoneNumber: switchboard })];
+
+    expect(findDuplicates(colleagues[0], [colleagues[1]])).toEqual([]);
+  });
+
+  test('the website and company name alone are never enough', () => {
+    expect(scoreDuplicate(card({}), card({ id: 'other' })).score).toBe(0);
+  });
+
+  test('the same person is found by email, phone or name', () => {
+    expect(scoreDuplicate(card({ email: 'JANE@acme.example' }), jane)).toMatchObject({ reasons: expect.arrayContaining(['Same email', 'Same website']) });
+    expect(scoreDuplicate(card({ phoneNumber: '+44 20 7946 0000 ext. 12' }), jane).score).toBeGreaterThanOrEqual(DUPLICATE_THRESHOLD);
+    expect(scoreDuplicate(card({ contactPerson: 'Doe, Jane', email: 'jane.doe@example.com' }), jane).score).toBeGreaterThanOrEqual(DUPLICATE_THRESHOLD);
+  });
+});
+
+describe('dedupeCompanies', () => {
+  test('merges cards for the same person and keeps colleagues apart', () => {
+    const cards = [
+      jane,
+      card({ id: 'jane-2', contactPerson: 'Jane Doe', email: 'jane@acme.example', jobTitle: 'Head of Sales' }),
+      card({ contactPerson: 'John Smith', email: 'john@acme.example' }),
+      card({ contactPerson: 'Mary Jones', email: 'mary@acme.example' }),
+    ];
+
+    const unique = dedupeCompanies(cards);
+
+    expect(unique.map(company => company.contactPerson)).toEqual(['Jane Doe', 'John Smith', 'Mary Jones']);
+    expect(unique[0]).toMatchObject({ id: jane.id, jobTitle: 'Head of Sales' });
+  });
+
+  test('matches on contact details merged in from earlier duplicates', () => {
+    const unique = dedupeCompanies([
+      jane,
+      card({ id: 'jane-2', contactPerson: 'Jane Doe', email: 'jane@acme.example', emails: [{ type: 'personal', value: 'jane@home.example' }] }),
+      card({ id: 'jane-3', contactPerson: 'J. D.', email: 'jane@home.example' }),
+    ]);
+
+    expect(unique).toHaveLength(1);
+  });
+});
+
+test('levenshtein counts insertions, deletions and substitutions', () => {
+  expect(levenshtein('kitten', 'sitting')).toBe(3);
+  expect(levenshtein('', 'abc')).toBe(3);
+  expect(levenshtein('jane doe', 'jane doe')).toBe(0);
+  expect(levenshtein('smyth', 'smith')).toBe(1);
+});
@@ -0,0 +1,115 @@
+/** @jest-environment node */
+import { EnrichmentError, fetchPage, lookupCompany } from '../lib/companySite';
+import { acceptSuggestions, parsePage, pendingSuggestions } from '../lib/enrichment';
+import { CompanyData } from '../lib/types';
+import { LocalServer, startLocalServer } from './support/localServer';
+
+const homePage = `<!doctype html>
+<html>
+<head>
+  <title>Acme</title>
+  <meta name="description" content="Acme makes anvils &amp; rockets.">
+  <link rel="icon" href="/favicon.png">
+  <link rel="apple-touch-icon" href="/touch.png">
+  <script type="application/ld+json">
+    {"@context": "https://schema.org", "@type": "Organization", "logo": "/logo.svg",
+     "sameAs": ["https://www.linkedin.com/company/acme/"]}
+  </script>
+</head>
+<body>
+  <a href="https://twitter.com/acme?ref=site">Twitter</a>
+  <a href="https://twitter.com/intent/tweet?url=x">Share</a>
+  <a href="https://www.linkedin.com/in/someone">Our CEO</a>
+</body>
+</html>`;
+
+describe('parsePage', () => {
+  test('finds the logo, description and one profile per network', () => {
+    expect(parsePage(homePage, 'https://acme.test/')).toEqual({
+      logoUrl: 'https://acme.test/logo.svg',
+      description: 'Acme makes anvils & rockets.',
+      socialProfiles: [
+        { network: 'linkedin', value: 'https://www.linkedin.com/company/acme' },
+        { network: 'twitter', value: 'https://twitter.com/acme' },
+      ],
+    });
+  });
+
+  test('falls back to the touch icon and then the favicon', () => {
+    expect(parsePage('<link rel="apple-touch-icon" href="touch.png">', 'https://acme.test/en/').logoUrl).toBe('https://acme.test/en/touch.png');
+    expect(parsePage('<p>Nothing here</p>', 'https://acme.test/en/').logoUrl).toBe('https://acme.test/favicon.ico');
+  });
+});
+
+describe('suggestions', () => {
+  const card: CompanyData = {
+    id: 'card-1',
+    companyName: 'Acme',
+    website: 'acme.test',
+    socialProfiles: [{ network: 'linkedin', value: 'linkedin.com/company/acme' }],
+    enrichment: {
+      domain: 'acme.test',
+      fetchedAt: 1,
+      status: 'found',
+      suggestions: parsePage(homePage, 'https://acme.test/'),
+    },
+  };
+
+  test('skips profiles the card already has', () => {
+    expect(pendingSuggestions(card).socialProfiles).toEqual([{ network: 'twitter', value: 'https://twitter.com/acme' }]);
+  });
+
+  test('accepting a suggestion writes it and drops it from the suggestions', () => {
+    const update = acceptSuggestions(card, ['description']);
+    expect(update.companyDescription).toBe('Acme makes anvils & rockets.');
+    expect(pendingSuggestions({ ...card, ...update }).description).toBeUndefined();
+  });
+});
+
+describe('fetchPage', () => {
+  let site: LocalServer;
+
+  beforeAll(async () => {
+    site = await startLocalServer((request, response) => {
+      if (request.url === '/old') {
+        response.writeHead(301, { Location: '/' });
+      } else if (request.url === '/logo.svg') {
+        response.writeHead(200, { 'Content-Type': 'image/svg+xml' });
+      } else if (request.url === '/') {
+        response.writeHead(200, { 'Content-Type': 'text/html; charset=utf-8' });
+        response.write(homePage);
+      } else {
+        response.writeHead(404);
+      }
+      response.end();
+    });
+  });
+
+  afterAll(() => site.close());
+
+  test('follows redirects and reads the page', async () => {
+    const page = await fetchPage(`${site.url}/old`, { allowPrivateHosts: true });
+    expect(page.url).toBe(`${site.url}/`);
+    expect(page.html).toBe(homePage);
+  });
+
+  test('rejects pages that are not HTML, and error responses', async () => {
+    await expect(fetchPage(`${site.url}/logo.svg`, { allowPrivateHosts: true })).rejects.toThrow('The website did not return a web page.');
+    await expect(fetchPage(`${site.url}/missing`, { allowPrivateHosts: true })).rejects.toMatchObject({ status: 502 });
+  });
+
+  test('refuses private addresses unless they are allowed', async () => {
+    const requestsBefore = site.requests.length;
+    const error = await fetchPage(`${site.url}/`, { allowPrivateHosts: false }).catch(caught => caught);
+    expect(error).toBeInstanceOf(EnrichmentError);
+    expect(error.message).toBe('127.0.0.1 is not a public website.');
+    expect(site.requests).toHaveLength(requestsBefore);
+  });
+
+  test('lookupCompany falls back to http and resolves links against the final address', async () => {
+    const host = site.url.replace('http://', '');
+    const profile = await lookupCompany(host, { allowPrivateHosts: true });
+    expect(profile.logoUrl).toBe(`${site.url}/logo.svg`);
+    expect(profile.description).toBe('Acme makes anvils & rockets.');
+  });
+});
@@ -0,0 +1,90 @@
+import { extractCard } from '../lib/extractClient';
+import { DEFAULT_EXTRACTION_SETTINGS } from '../lib/extractionSettings';
+import { tesseractExtractor } from '../lib/tesseractExtractor';
+import { CARD_FIXTURES } from './fixtures/cards';
+
+const [fixture] = CARD_FIXTURES;
+const ocrResult = { data: { ...fixture.expected, contactPerson: 'Jane Dae' }, extraction: {} };
+const signedIn = async () => 'id-token';
+
+// The /api/extract route, answering for each provider in turn from `replies`
+const mockRoute = (replies: Record<string, { status: number; body: unknown }>) => {
+  const fetchMock = jest.fn(async (url: string, init: RequestInit) => {
+    const { provider } = JSON.parse(init.body as string);
+    const reply = replies[provider];
+    return { ok: reply.status < 400, status: reply.status, statusText: '', json: async () => reply.body } as Response;
+  });
+  global.fetch = fetchMock as unknown as typeof fetch;
+  return fetchMock;
+};
+
+const requestedProviders = (fetchMock: jest.Mock) => fetchMock.mock.calls.map(([, init]) => JSON.parse(init.body).provider);
+
+describe('extractCard', () => {
+  let online: jest.SpyInstance;
+
+  beforeEach(() => {
+    online = jest.spyOn(navigator, 'onLine', 'get').mockReturnValue(true);
+    jest.spyOn(tesseractExtractor, 'isConfigured').mockReturnValue(true);
+    jest.spyOn(tesseractExtractor, 'extract').mockResolvedValue(ocrResult);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  test('uses the chosen provider when it works', async () => {
+    const fetchMock = mockRoute({ openai: { status: 200, body: { data: fixture.expected, extraction: {} } } });
+
+    const result = await extractCard(fixture.image, fixture.mimeType, { ...DEFAULT_EXTRACTION_SETTINGS, provider: 'openai', fallback: true }, signedIn);
+
+    expect(result).toMatchObject({ data: fixture.expected, provider: 'openai' });
+    expect(requestedProviders(fetchMock)).toEqual(['openai']);
+    expect(fetchMock.mock.calls[0][1].headers).toMatchObject({ Authorization: 'Bearer id-token' });
+    expect(tesseractExtractor.extract).not.toHaveBeenCalled();
+  });
+
+  test('reads offline until the user is signed in', async () => {
+    const fetchMock = mockRoute({});
+
+    const result = await extractCard(fixture.image, fixture.mimeType, { ...DEFAULT_EXTRACTION_SETTINGS, provider: 'gemini', fallback: true }, async () => null);
+
+    expect(fetchMock).not.toHaveBeenCalled();
+    expect(result.provider).toBe('tesseract');
+  });
+
+  test('falls back through the other providers, ending with offline OCR', async () => {
+    const fetchMock = mockRoute({
+      gemini: { status: 502, body: { error: 'quota' } },
+      openai: { status: 500, body: { error: 'down' } },
+    });
+
+    const result = await extractCard(fixture.image, fixture.mimeType, { ...DEFAULT_EXTRACTION_SETTINGS, provider: 'gemini', fallback: true }, signedIn);
+
+    expect(requestedProviders(fetchMock)).toEqual(['gemini', 'openai']);
+    expect(result).toMatchObject({ data: ocrResult.data, provider: 'tesseract' });
+  });
+
+  test('skips the server providers while offline', async () => {
+    online.mockReturnValue(false);
+    const fetchMock = mockRoute({});
+
+    const result = await extractCard(fixture.image, fixture.mimeType, { ...DEFAULT_EXTRACTION_SETTINGS, provider: 'gemini', fallback: true }, signedIn);
+
+    expect(fetchMock).not.toHaveBeenCalled();
+    expect(result.provider).toBe('tesseract');
+  });
+
+  test('without fallback, the chosen provider\'s error is final', async () => {
+    mockRoute({ gemini: { status: 502, body: { error: 'quota' } } });
+
+    await expect(extractCard(fixture.image, fixture.mimeType, { ...DEFAULT_EXTRACTION_SETTINGS, provider: 'gemini', fallback: false }, signedIn)).rejects.toThrow('Extraction failed: quota');
+    expect(tesseractExtractor.extract).not.toHaveBeenCalled();
+  });
+
+  test('fails when no provider can run', async () => {
+    online.mockReturnValue(false);
+    (tesseractExtractor.isConfigured as jest.Mock).mockReturnValue(false);
+
+    await expect(extractCard(fixture.image, fixture.mimeType, { ...DEFAULT_EXTRACTION_SETTINGS, provider: 'gemini', fallback: true }, signedIn)).rejects.toThrow('no extraction provider is available');
+  });
+});
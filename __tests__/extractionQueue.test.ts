@@ -0,0 +1,68 @@
+import { act, renderHook, waitFor } from '@testing-library/react';
+import { StoredQueueItem } from '../lib/offlineQueue';
+import { useExtractionQueue } from '../lib/useExtractionQueue';
+import { DEFAULT_EXTRACTION_SETTINGS } from '../lib/extractionSettings';
+
+// IndexedDB stood in for by a list, shared by every user of the "device"
+const stored: StoredQueueItem[] = [];
+jest.mock('../lib/offlineQueue', () => ({
+  isOfflineQueueAvailable: () => true,
+  loadQueuedItems: async (uid: string) => stored.filter(item => item.uid === uid),
+  putQueuedItem: async (item: StoredQueueItem) => {
+    const index = stored.findIndex(existing => existing.id === item.id);
+    if (index === -1) stored.push(item);
+    else stored[index] = item;
+  },
+  deleteQueuedItem: async (id: string) => {
+    const index = stored.findIndex(item => item.id === id);
+    if (index !== -1) stored.splice(index, 1);
+  },
+  clearQueuedItems: async () => {
+    stored.length = 0;
+  },
+}));
+
+const scan = (id: string, uid?: string): StoredQueueItem => ({
+  id,
+  fileName: `${id}.png`,
+  image: new Blob(['card'], { type: 'image/png' }),
+  mimeType: 'image/png',
+  status: 'pending',
+  autoSave: true,
+  uid,
+  vaultId: 'personal',
+  createdAt: 1,
+});
+
+describe('the offline scan queue', () => {
+  beforeEach(() => {
+    stored.splice(0, stored.length, scan('alice-scan', 'alice'), scan('bob-scan', 'bob'), scan('old-scan'));
+  });
+
+  test("only brings back the signed-in user's scans", async () => {
+    const { result, rerender } = renderHook(({ uid }) => useExtractionQueue(null, DEFAULT_EXTRACTION_SETTINGS, uid), {
+      initialProps: { uid: 'alice' as string | null },
+    });
+    await waitFor(() => expect(result.current.items.map(item => item.id)).toEqual(['alice-scan']));
+
+    rerender({ uid: 'bob' });
+    await waitFor(() => expect(result.current.items.map(item => item.id)).toEqual(['bob-scan']));
+    // Alice's scan is kept for her, not deleted because it left the screen
+    expect(stored.map(item => item.id)).toContain('alice-scan');
+
+    rerender({ uid: null });
+    await waitFor(() => expect(result.current.items).toEqual([]));
+  });
+
+  test('new scans record who took them, and clearing forgets every scan on the device', async () => {
+    const { result } = renderHook(() => useExtractionQueue(null, DEFAULT_EXTRACTION_SETTINGS, 'alice'));
+    await waitFor(() => expect(result.current.items).toHaveLength(1));
+
+    act(() => result.current.enqueue([{ image: new Blob(['card']), fileName: 'new.png', mimeType: 'image/png' }]));
+    await waitFor(() => expect(stored.filter(item => item.uid === 'alice')).toHaveLength(2));
+
+    await act(() => result.current.clear());
+    expect(result.current.items).toEqual([]);
+    expect(stored).toEqual([]);
+  });
+});
@@ -0,0 +1,234 @@
+/** @jest-environment node */
+// Firestore security rules, checked against the emulator. Skipped by a plain `npm test`; run them with
+//
+//   firebase emulators:exec --only firestore "npm test"
+
+import { readFileSync } from 'fs';
+import { assertFails, assertSucceeds, initializeTestEnvironment, RulesTestEnvironment } from '@firebase/rules-unit-testing';
+import { collection, deleteDoc, doc, Firestore, getDoc, getDocs, query, setDoc, updateDoc, where, writeBatch } from 'firebase/firestore';
+import { createFirestoreCardRepository } from '../lib/firestoreCardRepository';
+import { invitationsPath, legacyCardsPath, userCardsPath, workspaceCardsPath, workspaceMembersPath, workspacesPath } from '../lib/firestorePaths';
+import { importLegacyCards } from '../lib/legacyCards';
+import { personalVault } from '../lib/workspaces';
+
+const APP_ID = 'card-vault-test';
+const describeWithEmulator = process.env.FIRESTORE_EMULATOR_HOST ? describe : describe.skip;
+
+const card = (uploadedBy: string) => ({ companyName: 'Acme Ltd', contactPerson: 'Jane Doe', timestamp: 1, uploadedBy });
+
+const member = (uid: string, role: string, inviteId?: string) => ({
+  uid,
+  appId: APP_ID,
+  workspaceId: 'team',
+  workspaceName: 'Team',
+  role,
+  ...(inviteId ? { inviteId } : {}),
+});
+
+const invitation = (email: string | null, role = 'editor', expiresAt = Date.now() + 60 * 60 * 1000) => ({
+  appId: APP_ID,
+  workspaceId: 'team',
+  workspaceName: 'Team',
+  email,
+  role,
+  createdBy: 'owen',
+  createdAt: 1,
+  expiresAt,
+});
+
+describeWithEmulator('firestore rules', () => {
+  let env: RulesTestEnvironment;
+
+  beforeAll(async () => {
+    env = await initializeTestEnvironment({
+      projectId: 'demo-cardvault',
+      firestore: { rules: readFileSync('firestore.rules', 'utf8') },
+    });
+  });
+
+  afterAll(() => env.cleanup());
+
+  beforeEach(async () => {
+    await env.clearFirestore();
+    await env.withSecurityRulesDisabled(async (context) => {
+      const db = context.firestore();
+      await setDoc(doc(db, userCardsPath(APP_ID, 'alice'), 'card-1'), card('alice'));
+      await setDoc(doc(db, legacyCardsPath(APP_ID), 'old-card'), card('alice'));
+      // A workspace owned by owen, with an editor and a viewer
+      await setDoc(doc(db, workspacesPath(APP_ID), 'team'), { name: 'Team', ownerId: 'owen', createdAt: 1 });
+      await setDoc(doc(db, workspaceMembersPath(APP_ID, 'team'), 'owen'), member('owen', 'owner'));
+      await setDoc(doc(db, workspaceMembersPath(APP_ID, 'team'), 'erin'), member('erin', 'editor'));
+      await setDoc(doc(db, workspaceMembersPath(APP_ID, 'team'), 'vic'), member('vic', 'viewer'));
+      await setDoc(doc(db, workspaceCardsPath(APP_ID, 'team'), 'team-card'), card('erin'));
+      await setDoc(doc(db, invitationsPath(APP_ID), 'for-carol'), invitation('carol@example.com'));
+      await setDoc(doc(db, invitationsPath(APP_ID), 'link'), invitation(null, 'viewer'));
+      await setDoc(doc(db, invitationsPath(APP_ID), 'expired'), invitation(null, 'editor', 1));
+    });
+  });
+
+  describe('private vaults', () => {
+    test('the owner reads, writes and deletes their own cards', async () => {
+      const db = env.authenticatedContext('alice').firestore();
+      const cards = userCardsPath(APP_ID, 'alice');
+
+      await assertSucceeds(getDoc(doc(db, cards, 'card-1')));
+      await assertSucceeds(getDocs(collection(db, cards)));
+      await assertSucceeds(setDoc(doc(db, cards, 'card-2'), card('alice')));
+      await assertSucceeds(updateDoc(doc(db, cards, 'card-1'), { companyName: 'Acme Group' }));
+      await assertSucceeds(deleteDoc(doc(db, cards, 'card-2')));
+    });
+
+    test("another user can't read or change them", async () => {
+      const db = env.authenticatedContext('bob').firestore();
+      const cards = userCardsPath(APP_ID, 'alice');
+
+      await assertFails(getDoc(doc(db, cards, 'card-1')));
+      await assertFails(getDocs(collection(db, cards)));
+      await assertFails(setDoc(doc(db, cards, 'card-2'), card('bob')));
+      await assertFails(setDoc(doc(db, cards, 'card-2'), card('alice')));
+      await assertFails(updateDoc(doc(db, cards, 'card-1'), { companyName: 'Bob Inc' }));
+      await assertFails(deleteDoc(doc(db, cards, 'card-1')));
+    });
+
+    test('signed-out visitors get nothing', async () => {
+      const db = env.unauthenticatedContext().firestore();
+
+      await assertFails(getDoc(doc(db, userCardsPath(APP_ID, 'alice'), 'card-1')));
+      await assertFails(setDoc(doc(db, userCardsPath(APP_ID, 'alice'), 'card-2'), card('alice')));
+    });
+
+    test('cards must name the vault owner as their uploader', async () => {
+      const db = env.authenticatedContext('alice').firestore();
+      const cards = userCardsPath(APP_ID, 'alice');
+
+      await assertFails(setDoc(doc(db, cards, 'card-2'), card('bob')));
+      await assertFails(updateDoc(doc(db, cards, 'card-1'), { uploadedBy: 'bob' }));
+    });
+  });
+
+  describe('workspace roles', () => {
+    const teamCards = workspaceCardsPath(APP_ID, 'team');
+
+    test('editors write cards, as themselves', async () => {
+      const db = env.authenticatedContext('erin').firestore();
+
+      await assertSucceeds(setDoc(doc(db, teamCards, 'new-card'), card('erin')));
+      await assertSucceeds(updateDoc(doc(db, teamCards, 'team-card'), { companyName: 'Acme Group' }));
+      await assertFails(setDoc(doc(db, teamCards, 'other-card'), card('owen')));
+      await assertFails(updateDoc(doc(db, teamCards, 'team-card'), { uploadedBy: 'owen' }));
+      await assertSucceeds(deleteDoc(doc(db, teamCards, 'new-card')));
+    });
+
+    test('viewers only read', async () => {
+      const db = env.authenticatedContext('vic').firestore();
+
+      await assertSucceeds(getDocs(collection(db, teamCards)));
+      await assertFails(setDoc(doc(db, teamCards, 'new-card'), card('vic')));
+      await assertFails(updateDoc(doc(db, teamCards, 'team-card'), { companyName: 'Vic Inc' }));
+      await assertFails(deleteDoc(doc(db, teamCards, 'team-card')));
+    });
+
+    test("people outside the workspace can't see it", async () => {
+      const db = env.authenticatedContext('mallory').firestore();
+
+      await assertFails(getDoc(doc(db, workspacesPath(APP_ID), 'team')));
+      await assertFails(getDocs(collection(db, teamCards)));
+      await assertFails(getDocs(collection(db, workspaceMembersPath(APP_ID, 'team'))));
+      await assertFails(setDoc(doc(db, teamCards, 'new-card'), card('mallory')));
+    });
+
+    test('only owners change roles, and nobody promotes themselves', async () => {
+      const members = workspaceMembersPath(APP_ID, 'team');
+
+      await assertFails(updateDoc(doc(env.authenticatedContext('vic').firestore(), members, 'vic'), { role: 'owner' }));
+      await assertFails(updateDoc(doc(env.authenticatedContext('erin').firestore(), members, 'vic'), { role: 'editor' }));
+      await assertSucceeds(updateDoc(doc(env.authenticatedContext('owen').firestore(), members, 'vic'), { role: 'editor' }));
+    });
+
+    test('anyone can leave, and owners remove members', async () => {
+      const members = workspaceMembersPath(APP_ID, 'team');
+
+      await assertFails(deleteDoc(doc(env.authenticatedContext('vic').firestore(), members, 'erin')));
+      await assertSucceeds(deleteDoc(doc(env.authenticatedContext('vic').firestore(), members, 'vic')));
+      await assertSucceeds(deleteDoc(doc(env.authenticatedContext('owen').firestore(), members, 'erin')));
+    });
+
+    test('a new workspace can only be founded by its owner', async () => {
+      const db = env.authenticatedContext('alice').firestore();
+      const batch = writeBatch(db);
+      batch.set(doc(db, workspacesPath(APP_ID), 'new-team'), { name: 'New team', ownerId: 'alice', createdAt: 1 });
+      batch.set(doc(db, workspaceMembersPath(APP_ID, 'new-team'), 'alice'), { ...member('alice', 'owner'), workspaceId: 'new-team' });
+      await assertSucceeds(batch.commit());
+
+      await assertFails(setDoc(doc(db, workspaceMembersPath(APP_ID, 'team'), 'alice'), member('alice', 'owner')));
+    });
+  });
+
+  describe('invitations', () => {
+    const join = (uid: string, role: string, inviteId: string, email?: string, emailVerified = true) =>
+      setDoc(
+        doc(env.authenticatedContext(uid, email ? { email, email_verified: emailVerified } : {}).firestore(), workspaceMembersPath(APP_ID, 'team'), uid),
+        member(uid, role, inviteId)
+      );
+
+    test('an email invitation admits the person it was sent to, with its role', async () => {
+      await assertFails(join('carol', 'editor', 'for-carol', 'mallory@example.com'));
+      await assertFails(join('carol', 'owner', 'for-carol', 'carol@example.com'));
+      await assertSucceeds(join('carol', 'editor', 'for-carol', 'carol@example.com'));
+    });
+
+    test("an email invitation doesn't admit an account that hasn't verified the address", async () => {
+      await assertFails(join('mallory', 'editor', 'for-carol', 'carol@example.com', false));
+
+      const unverified = env.authenticatedContext('mallory', { email: 'carol@example.com', email_verified: false }).firestore();
+      await assertFails(getDocs(query(collection(unverified, invitationsPath(APP_ID)), where('email', '==', 'carol@example.com'))));
+      await assertFails(deleteDoc(doc(unverified, invitationsPath(APP_ID), 'for-carol')));
+    });
+
+    test('link invitations admit anyone signed in until they expire', async () => {
+      await assertSucceeds(join('dave', 'viewer', 'link'));
+      await assertFails(join('eve', 'editor', 'link'));
+      await assertFails(join('eve', 'editor', 'expired'));
+    });
+
+    test('invitees find and decline their own invitations; owners manage them', async () => {
+      const carol = env.authenticatedContext('carol', { email: 'carol@example.com', email_verified: true }).firestore();
+      const mallory = env.authenticatedContext('mallory', { email: 'mallory@example.com', email_verified: true }).firestore();
+      const invitations = collection(carol, invitationsPath(APP_ID));
+
+      await assertSucceeds(getDocs(query(invitations, where('email', '==', 'carol@example.com'))));
+      await assertFails(getDocs(query(collection(mallory, invitationsPath(APP_ID)), where('email', '==', 'carol@example.com'))));
+      await assertFails(setDoc(doc(mallory, invitationsPath(APP_ID), 'forged'), invitation('mallory@example.com')));
+      await assertFails(deleteDoc(doc(mallory, invitationsPath(APP_ID), 'for-carol')));
+      await assertSucceeds(deleteDoc(doc(carol, invitationsPath(APP_ID), 'for-carol')));
+
+      const owen = env.authenticatedContext('owen').firestore();
+      await assertSucceeds(setDoc(doc(owen, invitationsPath(APP_ID), 'new'), invitation('frank@example.com')));
+      await assertFails(setDoc(doc(owen, invitationsPath(APP_ID), 'as-owner'), invitation('frank@example.com', 'owner')));
+    });
+  });
+
+  test('users can only find and remove their own cards in the old shared collection', async () => {
+    const legacy = legacyCardsPath(APP_ID);
+    const alice = env.authenticatedContext('alice').firestore();
+    const bob = env.authenticatedContext('bob').firestore();
+
+    await assertSucceeds(getDocs(query(collection(alice, legacy), where('uploadedBy', '==', 'alice'))));
+    await assertFails(getDocs(collection(alice, legacy)));
+    await assertFails(getDocs(query(collection(bob, legacy), where('uploadedBy', '==', 'alice'))));
+    await assertFails(getDoc(doc(bob, legacy, 'old-card')));
+    await assertFails(setDoc(doc(alice, legacy, 'new-card'), card('alice')));
+    await assertFails(updateDoc(doc(alice, legacy, 'old-card'), { companyName: 'Acme Group' }));
+    await assertFails(deleteDoc(doc(bob, legacy, 'old-card')));
+    await assertSucceeds(deleteDoc(doc(alice, legacy, 'old-card')));
+  });
+
+  test("a user's old shared cards move into their private vault", async () => {
+    // The test context hands out the compat SDK's Firestore, which the modular functions also accept
+    const db = env.authenticatedContext('alice').firestore() as unknown as Firestore;
+
+    expect(await importLegacyCards(db, APP_ID, 'alice', createFirestoreCardRepository(db, personalVault(APP_ID, 'alice')))).toBe(1);
+    expect((await getDoc(doc(db, userCardsPath(APP_ID, 'alice'), 'old-card'))).data()).toMatchObject({ companyName: 'Acme Ltd', uploadedBy: 'alice' });
+    expect(await importLegacyCards(db, APP_ID, 'alice', createFirestoreCardRepository(db, personalVault(APP_ID, 'alice')))).toBe(0);
+  });
+});
@@ -0,0 +1,69 @@
+// Card photos shared by the extraction provider tests, with the fields each provider should read
+// off them. The images are plain renders, so the offline OCR reads them reliably.
+
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { ExtractedCardData } from '../../lib/types';
+
+export interface CardFixture {
+  name: string;
+  // Bare base64, as the providers receive it
+  image: string;
+  mimeType: string;
+  expected: ExtractedCardData;
+}
+
+const fixture = (name: string, expected: ExtractedCardData): CardFixture => ({
+  name,
+  image: readFileSync(join(__dirname, 'cards', `${name}.png`)).toString('base64'),
+  mimeType: 'image/png',
+  expected,
+});
+
+export const CARD_FIXTURES: CardFixture[] = [
+  fixture('acme-ltd', {
+    companyName: 'ACME LTD',
+    companyNameLatin: '',
+    contactPerson: 'Jane Doe',
+    contactPersonLatin: '',
+    jobTitle: 'Head of Sales',
+    phoneNumber: '+44 20 7946 0958',
+    email: 'jane.doe@acme-ltd.com',
+    website: 'www.acme-ltd.com',
+    address: '1 High Street, London EC1A 1BB',
+    postalAddress: { street: '1 High Street', city: 'London', postalCode: 'EC1A 1BB' },
+    phones: [{ type: 'work', value: '+44 20 7946 0958' }],
+    emails: [{ type: 'work', value: 'jane.doe@acme-ltd.com' }],
+    socialProfiles: [],
+  }),
+  fixture('northwind', {
+    companyName: 'Northwind Trading GmbH',
+    companyNameLatin: '',
+    contactPerson: 'Max Mustermann',
+    contactPersonLatin: '',
+    jobTitle: 'Managing Director',
+    phoneNumber: '+49 170 1234567',
+    email: 'max@northwind.de',
+    website: '',
+    address: 'Hauptstrasse 5, 10115 Berlin',
+    postalAddress: { street: 'Hauptstrasse 5', city: 'Berlin', postalCode: '10115' },
+    phones: [{ type: 'mobile', value: '+49 170 1234567' }, { type: 'fax', value: '+49 30 1234568' }],
+    emails: [{ type: 'work', value: 'max@northwind.de' }],
+    socialProfiles: [],
+  }),
+  fixture('globex', {
+    companyName: 'GLOBEX',
+    companyNameLatin: '',
+    contactPerson: 'Hank Scorpio',
+    contactPersonLatin: '',
+    jobTitle: 'Chief Executive Officer',
+    phoneNumber: '+1 (555) 010-2030',
+    email: 'hank@globex.example',
+    website: 'https://globex.example',
+    address: '42 Cypress Creek Road, Springfield',
+    postalAddress: { street: '42 Cypress Creek Road', city: 'Springfield' },
+    phones: [{ type: 'work', value: '+1 (555) 010-2030' }],
+    emails: [{ type: 'work', value: 'hank@globex.example' }],
+    socialProfiles: [],
+  }),
+];
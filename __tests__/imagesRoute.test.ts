@@ -0,0 +1,84 @@
+/** @jest-environment node */
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { DELETE, GET, PUT } from '../app/api/images/[...path]/route';
+
+// ID tokens are "token-<uid>"; anything else is rejected, like an expired or forged token
+jest.mock('../lib/firebaseAdmin', () => ({
+  serverAppId: 'card-vault-app',
+  isAdminConfigured: () => false,
+  adminAuth: () => ({
+    verifyIdToken: async (token: string) => {
+      if (!token.startsWith('token-')) throw new Error('invalid token');
+      return { uid: token.slice('token-'.length) };
+    },
+  }),
+}));
+
+const env = process.env as Record<string, string | undefined>;
+const path = ['card-vault-app', 'users', 'alice', 'cards', 'card-1', 'front.png'];
+
+const upload = (uid?: string, imagePath = path) => PUT(
+  new Request('http://localhost/api/images', {
+    method: 'PUT',
+    headers: { 'Content-Type': 'image/png', ...(uid ? { Authorization: `Bearer token-${uid}` } : {}) },
+    body: new Uint8Array([1, 2, 3]),
+  }),
+  { params: { path: imagePath } }
+);
+
+describe('/api/images', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'cardvault-images-'));
+    env.LOCAL_BLOB_DIR = dir;
+    env.NEXT_PUBLIC_FIREBASE_PROJECT_ID = 'demo-cardvault';
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    env.NODE_ENV = 'test';
+    delete env.LOCAL_BLOB_DIR;
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  test('the vault owner uploads, reads and deletes their images', async () => {
+    expect((await upload('alice')).status).toBe(204);
+
+    const image = await GET(new Request('http://localhost/api/images'), { params: { path } });
+    expect(image.headers.get('content-type')).toBe('image/png');
+    expect(new Uint8Array(await image.arrayBuffer())).toEqual(new Uint8Array([1, 2, 3]));
+
+    const deleted = await DELETE(new Request('http://localhost/api/images', { method: 'DELETE', headers: { Authorization: 'Bearer token-alice' } }), { params: { path } });
+    expect(deleted.status).toBe(204);
+  });
+
+  test('writes need a signed-in user with access to the vault in the path', async () => {
+    expect((await upload()).status).toBe(401);
+    expect((await upload('bob')).status).toBe(403);
+    expect((await upload('alice', ['elsewhere', 'front.png'])).status).toBe(403);
+    expect((await upload('alice', ['card-vault-app', 'users', 'alice', '', 'front.png'])).status).toBe(403);
+    // Workspace roles are looked up with the Admin SDK, which isn't configured here
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    expect((await upload('alice', ['card-vault-app', 'workspaces', 'team', 'cards', 'card-1', 'front.png'])).status).toBe(503);
+  });
+
+  test('paths that climb out of the checked vault are refused', async () => {
+    const bobsImage = ['card-vault-app', 'users', 'bob', 'cards', 'card-1', 'front.png'];
+    expect((await upload('bob', bobsImage)).status).toBe(204);
+    const viaAlice = ['card-vault-app', 'users', 'alice', '..', 'bob', 'cards', 'card-1', 'front.png'];
+
+    expect((await upload('alice', viaAlice)).status).toBe(403);
+    const deleted = await DELETE(new Request('http://localhost/api/images', { method: 'DELETE', headers: { Authorization: 'Bearer token-alice' } }), { params: { path: viaAlice } });
+    expect(deleted.status).toBe(403);
+    expect((await GET(new Request('http://localhost/api/images'), { params: { path: bobsImage } })).status).toBe(200);
+  });
+
+  test('is switched off in production', async () => {
+    env.NODE_ENV = 'production';
+    expect((await upload('alice')).status).toBe(404);
+    expect((await GET(new Request('http://localhost/api/images'), { params: { path } })).status).toBe(404);
+  });
+});
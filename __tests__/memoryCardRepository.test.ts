@@ -0,0 +1,182 @@
+import { CardRange, CardSnapshot, cursorOf, DELETE_FIELD } from '../lib/cardRepository';
+import { fieldChanges, invertChanges, storedFieldValue, undoUpdate } from '../lib/history';
+import { createMemoryCardRepository } from '../lib/memoryCardRepository';
+import { CARD_SCHEMA_VERSION, upgradeStoredCards, upgradeVault } from '../lib/migrations';
+
+const edit = (cardId: string, at: number) => ({ cardId, cardLabel: 'Acme', action: 'edit' as const, changes: [], at, by: 'user-1' });
+
+describe('memory card repository', () => {
+  test('tells listeners about every write', async () => {
+    const repository = createMemoryCardRepository();
+    const snapshots: CardSnapshot[] = [];
+    const byName: CardRange = { order: { sort: 'companyName', dir: 'asc' }, after: null };
+    const unsubscribe = repository.subscribeToRange(byName, snapshot => snapshots.push(snapshot), () => undefined);
+
+    const id = repository.newCardId();
+    await repository.createCard(id, { companyName: 'Acme' });
+    await repository.updateCard(id, { jobTitle: 'CEO' });
+    unsubscribe();
+    await repository.updateCard(id, { jobTitle: 'CTO' });
+
+    expect(snapshots.map(snapshot => snapshot.cards)).toEqual([
+      [],
+      [{ id, companyName: 'Acme', companyNameSort: 'acme' }],
+      [{ id, companyName: 'Acme', companyNameSort: 'acme', jobTitle: 'CEO' }],
+    ]);
+    expect(snapshots[2]).toMatchObject({ hasPendingWrites: false, confirmedIds: [id] });
+  });
+
+  test('reads the list in ranges, breaking ties by id like Firestore', async () => {
+    const repository = createMemoryCardRepository([
+      { id: 'card-a', timestamp: 1 },
+      { id: 'card-b', timestamp: 3 },
+      { id: 'card-c', timestamp: 2 },
+      { id: 'card-d', timestamp: 2 },
+      { id: 'card-e' },
+    ]);
+    const order = { sort: 'date' as const, dir: 'desc' as const };
+    const read = (range: CardRange) => {
+      let ids: string[] = [];
+      repository.subscribeToRange(range, snapshot => { ids = snapshot.cards.map(card => card.id); }, () => undefined)();
+      return ids;
+    };
+
+    const first = read({ order, after: null, limit: 2 });
+    expect(first).toEqual(['card-b', 'card-d']);
+    const boundary = cursorOf(repository.cards().find(card => card.id === 'card-d'), order);
+    expect(read({ order, after: boundary, limit: 2 })).toEqual(['card-c', 'card-a']);
+    expect(read({ order, after: null, until: boundary })).toEqual(first);
+    // A card without the sort field is in no range, so cards are always stored with one (see lib/migrations.ts)
+    expect(read({ order, after: null })).not.toContain('card-e');
+  });
+
+  test('sorts names without regard to case or accents', async () => {
+    const repository = createMemoryCardRepository();
+    const { write } = repository.createCards(['zeta', 'Émile', 'alpha', 'Beta'].map(companyName => ({ companyName })));
+    await write;
+    let names: string[] = [];
+    repository.subscribeToRange({ order: { sort: 'companyName', dir: 'asc' }, after: null }, snapshot => {
+      names = snapshot.cards.map(card => card.companyName);
+    }, () => undefined)();
+
+    expect(names).toEqual(['alpha', 'Beta', 'Émile', 'zeta']);
+  });
+
+  test('follows single cards and the trash, and looks cards up without listening', async () => {
+    const repository = createMemoryCardRepository([
+      { id: 'card-a', email: 'jane@acme.test', timestamp: 1 },
+      { id: 'card-b', email: 'joe@globex.test', timestamp: 2, deletedAt: 5 },
+    ]);
+    const trash: string[][] = [];
+    const followed: string[][] = [];
+    repository.subscribeToTrash(snapshot => trash.push(snapshot.cards.map(card => card.id)), () => undefined);
+    repository.subscribeToCard('card-a', snapshot => followed.push(snapshot.cards.map(card => card.id)), () => undefined);
+
+    await repository.updateCard('card-a', { deletedAt: 6 });
+    await repository.purgeCard('card-a', { ...edit('card-a', 7), action: 'purge' });
+
+    expect(trash).toEqual([['card-b'], ['card-a', 'card-b'], ['card-b']]);
+    expect(followed).toEqual([['card-a'], ['card-a'], []]);
+    expect(await repository.countCards()).toBe(1);
+    expect(await repository.findCards('email', 'joe@globex.test', 10)).toMatchObject([{ id: 'card-b' }]);
+    expect(await repository.fetchCard('card-a')).toBeNull();
+  });
+
+  test('keeps ids given to imported cards and rejects writes to missing ones', async () => {
+    const repository = createMemoryCardRepository();
+    const { ids, write } = repository.createCards([{ id: 'guest-card', companyName: 'Acme' }, { companyName: 'Globex' }]);
+    await write;
+
+    expect(ids[0]).toBe('guest-card');
+    expect(repository.cards().map(card => card.id)).toEqual(ids);
+    await expect(repository.updateCard('missing', { companyName: 'x' })).rejects.toThrow('No card with id "missing".');
+  });
+
+  test('commits changes with their log entry and undoes them', async () => {
+    const repository = createMemoryCardRepository([{ id: 'card-a', companyName: 'Acme', postalAddress: { city: 'Berlin' } }]);
+    const [before] = repository.cards();
+    const after = { ...before, companyName: 'Acme Group', postalAddress: undefined };
+    const changes = fieldChanges(before, after, ['companyName', 'postalAddress']);
+    const update = Object.fromEntries(changes.map(change => [change.field, storedFieldValue(change.field, change.after)]));
+    const { entry, write } = repository.commitChange('card-a', update, { ...edit('card-a', 1), changes });
+    await write;
+
+    expect(repository.cards()[0]).toEqual({ id: 'card-a', companyName: 'Acme Group', companyNameSort: 'acme group', revision: 1, updatedAt: 1, updatedBy: 'user-1' });
+    expect(repository.auditLog()).toEqual([entry]);
+
+    await repository.commitChange('card-a', undoUpdate(entry, 'user-1'), { ...edit('card-a', 2), action: 'undo', changes: invertChanges(entry), undoes: entry.id }).write;
+    expect(repository.cards()[0]).toMatchObject({ companyName: 'Acme', postalAddress: { city: 'Berlin' }, revision: 2 });
+  });
+
+  test('list operations keep one copy of each item', async () => {
+    const repository = createMemoryCardRepository([{ id: 'card-a', tags: ['lead'] }]);
+    await repository.addToList('card-a', 'tags', 'lead');
+    await repository.addToList('card-a', 'tags', 'expo');
+    await repository.replaceInList('card-a', 'tags', 'lead', 'customer');
+    await repository.removeFromList('card-a', 'tags', 'expo');
+
+    expect(repository.cards()[0].tags).toEqual(['customer']);
+  });
+
+  test('lists the cards with follow-ups due by a date', async () => {
+    const repository = createMemoryCardRepository([{ id: 'card-a' }, { id: 'card-b', nextDueDate: '2026-10-20' }]);
+    const due: string[][] = [];
+    repository.subscribeToDue('2026-10-18', snapshot => due.push(snapshot.cards.map(card => card.id)), () => undefined);
+    const reminder = { id: 'reminder-1', dueDate: '2026-10-17', note: '', done: false, createdAt: 1, createdBy: 'user-1' };
+
+    await repository.addToList('card-a', 'reminders', reminder, { nextDueDate: reminder.dueDate });
+    await repository.replaceInList('card-a', 'reminders', reminder, { ...reminder, done: true }, { nextDueDate: DELETE_FIELD });
+
+    expect(due).toEqual([[], ['card-a'], []]);
+    expect(repository.cards()[0]).not.toHaveProperty('nextDueDate');
+  });
+
+  test('history is newest first and survives a purge', async () => {
+    const repository = createMemoryCardRepository([{ id: 'card-a' }, { id: 'card-b' }]);
+    await repository.commitChange('card-a', {}, edit('card-a', 1)).write;
+    await repository.commitChange('card-b', {}, edit('card-b', 2)).write;
+    await repository.purgeCard('card-a', { ...edit('card-a', 3), action: 'purge' });
+
+    const history: string[][] = [];
+    repository.subscribeToCardHistory('card-a', entries => history.push(entries.map(entry => entry.action)), () => undefined);
+    expect(history).toEqual([['purge', 'edit']]);
+    expect(repository.cards().map(card => card.id)).toEqual(['card-b']);
+  });
+
+  test('schema upgrades are written back', async () => {
+    const repository = createMemoryCardRepository([{ id: 'card-a', phoneNumber: '+1 555 0100', email: 'a@acme.test' }]);
+    expect(await upgradeStoredCards(repository, repository.cards())).toBe(1);
+    expect(repository.cards()[0]).toMatchObject({
+      phones: [{ type: 'work', value: '+1 555 0100' }],
+      emails: [{ type: 'work', value: 'a@acme.test' }],
+    });
+  });
+
+  test('upgrades every outdated card in the vault, so name sorts can see them', async () => {
+    const reminder = { id: 'reminder-1', dueDate: '2026-10-17', note: '', done: false, createdAt: 1, createdBy: 'user-1' };
+    const repository = createMemoryCardRepository([
+      { id: 'card-a', companyName: 'Acme', contactPerson: '', timestamp: 1, schemaVersion: 3, reminders: [reminder] },
+      { id: 'card-b', companyName: 'Globex', contactPerson: '', timestamp: 2, schemaVersion: 3 },
+      { id: 'card-c', companyName: 'Initech', timestamp: 3 },
+    ]);
+    const byName: CardRange = { order: { sort: 'companyName', dir: 'asc' }, after: null };
+    let names: string[] = [];
+    repository.subscribeToRange(byName, snapshot => { names = snapshot.cards.map(card => card.companyName); }, () => undefined);
+    expect(names).toEqual([]);
+
+    expect(await upgradeVault(repository)).toBe(2);
+    expect(names).toEqual(['Acme', 'Globex']);
+    expect(repository.cards()[0]).toMatchObject({ schemaVersion: CARD_SCHEMA_VERSION, companyNameSort: 'acme', nextDueDate: '2026-10-17' });
+    // Without a schemaVersion it can't be queried for; the date-ordered list upgrades it when read
+    expect(repository.cards()[2]).not.toHaveProperty('companyNameSort');
+  });
+
+  test('puts derived fields that have fallen behind right', async () => {
+    const repository = createMemoryCardRepository([
+      { id: 'card-a', companyName: 'Acme AG', companyNameSort: 'acme', contactPerson: '', contactPersonSort: '', timestamp: 1, schemaVersion: CARD_SCHEMA_VERSION, nextDueDate: '2026-10-17' },
+    ]);
+    expect(await upgradeStoredCards(repository, repository.cards())).toBe(1);
+    expect(repository.cards()[0].companyNameSort).toBe('acme ag');
+    expect(repository.cards()[0]).not.toHaveProperty('nextDueDate');
+  });
+});
@@ -0,0 +1,126 @@
+/** @jest-environment node */
+import { join } from 'path';
+import { tmpdir } from 'os';
+import type { Worker as OcrWorker } from 'tesseract.js';
+import { ExtractionError } from '../lib/extraction';
+import { extractWithGemini } from '../lib/gemini';
+import { extractWithOpenAi } from '../lib/openaiVision';
+import { tesseractExtractor } from '../lib/tesseractExtractor';
+import { CARD_FIXTURES, CardFixture } from './fixtures/cards';
+import { LocalServer, startLocalServer } from './support/localServer';
+
+// The OCR engine is loaded from node_modules instead of the CDN the browser uses, so the tests
+// need no network
+const ocrWorkers: OcrWorker[] = [];
+jest.mock('tesseract.js', () => {
+  const tesseract = jest.requireActual('tesseract.js');
+  return {
+    ...tesseract,
+    createWorker: async (langs: string, oem: number, options = {}) => {
+      const worker = await tesseract.createWorker(langs, oem, {
+        ...options,
+        langPath: join(process.cwd(), 'node_modules/@tesseract.js-data/eng/4.0.0_best_int'),
+        cachePath: join(tmpdir(), 'cardvault-ocr-cache'),
+      });
+      ocrWorkers.push(worker);
+      return worker;
+    },
+  };
+});
+
+// What a model would answer for a card: every field read with high confidence, and the lists as they are
+const modelAnswer = (fixture: CardFixture) => JSON.stringify(Object.fromEntries(
+  Object.entries(fixture.expected).map(([field, value]) => [
+    field,
+    typeof value === 'string' ? { value, confidence: value ? 0.95 : 0, sourceText: value } : value,
+  ])
+));
+
+describe('hosted extraction providers', () => {
+  let api: LocalServer;
+  let reply: { status: number; body: unknown } | null;
+
+  beforeEach(async () => {
+    reply = null;
+    // Answers for whichever fixture image the request carries, like a model reading the card
+    api = await startLocalServer((request, response) => {
+      const fixture = CARD_FIXTURES.find(candidate => request.body.includes(candidate.image));
+      const answer = fixture && modelAnswer(fixture);
+      const body = reply?.body ?? (request.url.startsWith('/v1beta/')
+        ? { candidates: [{ content: { parts: [{ text: answer }] } }] }
+        : { choices: [{ message: { content: answer } }] });
+      response.writeHead(reply?.status ?? 200, { 'Content-Type': 'application/json' });
+      response.end(JSON.stringify(body));
+    });
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await api.close();
+  });
+
+  test.each(CARD_FIXTURES.map(fixture => [fixture.name, fixture] as const))('Gemini reads %s', async (name, fixture) => {
+    const result = await extractWithGemini(fixture.image, fixture.mimeType, { apiKey: 'key', baseUrl: `${api.url}/`, model: 'test-model' });
+
+    // The models' answers are checked for the card's script; the fixtures are all in Latin script
+    expect(result.data).toEqual({ ...fixture.expected, script: 'Latn' });
+    expect(result.extraction.contactPerson).toEqual({ confidence: 0.95, sourceText: fixture.expected.contactPerson });
+    const [request] = api.requests;
+    expect(request.url).toBe('/v1beta/models/test-model:generateContent?key=key');
+    expect(JSON.parse(request.body).contents[0].parts[1].inlineData).toEqual({ mimeType: 'image/png', data: fixture.image });
+  });
+
+  test.each(CARD_FIXTURES.map(fixture => [fixture.name, fixture] as const))('the OpenAI-compatible provider reads %s', async (name, fixture) => {
+    const result = await extractWithOpenAi(fixture.image, fixture.mimeType, { apiKey: 'key', baseUrl: api.url, model: 'test-model' });
+
+    expect(result.data).toEqual({ ...fixture.expected, script: 'Latn' });
+    const [request] = api.requests;
+    expect(request.url).toBe('/chat/completions');
+    expect(request.headers.authorization).toBe('Bearer key');
+    const body = JSON.parse(request.body);
+    expect(body.model).toBe('test-model');
+    expect(body.messages[0].content[1].image_url.url).toBe(`data:image/png;base64,${fixture.image}`);
+  });
+
+  test('both sides of a two-sided card go in one request', async () => {
+    const [fixture] = CARD_FIXTURES;
+    const back = { image: 'YmFjaw==', mimeType: 'image/jpeg' };
+    await extractWithGemini(fixture.image, fixture.mimeType, { apiKey: 'key', baseUrl: api.url }, back);
+    const geminiParts = JSON.parse(api.requests[0].body).contents[0].parts;
+    expect(geminiParts.map(part => part.inlineData?.data)).toEqual([undefined, fixture.image, 'YmFjaw==']);
+    expect(geminiParts[0].text).toContain('back of the same card');
+
+    await extractWithOpenAi(fixture.image, fixture.mimeType, { apiKey: 'key', baseUrl: api.url }, back);
+    const openAiContent = JSON.parse(api.requests[1].body).messages[0].content;
+    expect(openAiContent.map(part => part.image_url?.url)).toEqual([undefined, `data:image/png;base64,${fixture.image}`, 'data:image/jpeg;base64,YmFjaw==']);
+    expect(api.requests).toHaveLength(2);
+  });
+
+  test('API errors and empty answers become extraction errors', async () => {
+    const [fixture] = CARD_FIXTURES;
+    reply = { status: 429, body: { error: 'quota' } };
+    await expect(extractWithGemini(fixture.image, fixture.mimeType, { apiKey: 'key', baseUrl: api.url })).rejects.toMatchObject({ name: 'ExtractionError', status: 502 });
+
+    reply = { status: 200, body: { choices: [] } };
+    await expect(extractWithOpenAi(fixture.image, fixture.mimeType, { apiKey: 'key', baseUrl: api.url })).rejects.toBeInstanceOf(ExtractionError);
+  });
+
+  test('providers without a key fail before calling the API', async () => {
+    const [fixture] = CARD_FIXTURES;
+    await expect(extractWithOpenAi(fixture.image, fixture.mimeType, { apiKey: '', baseUrl: api.url })).rejects.toThrow('OPENAI_API_KEY');
+    expect(api.requests).toHaveLength(0);
+  });
+});
+
+describe('offline OCR provider', () => {
+  afterAll(() => Promise.all(ocrWorkers.map(worker => worker.terminate())));
+
+  test.each(CARD_FIXTURES.map(fixture => [fixture.name, fixture] as const))('reads %s', async (name, fixture) => {
+    const result = await tesseractExtractor.extract(fixture.image, fixture.mimeType);
+
+    expect(result.data).toEqual(fixture.expected);
+    // Pattern matches come back more confident than the guessed names
+    expect(result.extraction.phoneNumber.confidence).toBeGreaterThan(result.extraction.contactPerson.confidence);
+  }, 60000);
+});
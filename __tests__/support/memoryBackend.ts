@@ -0,0 +1,66 @@
+// A backend that runs the whole app in memory: one signed-in guest, cards in a MemoryCardRepository,
+// images in a map and an extraction service that answers every image with the same card
+
+import { User } from 'firebase/auth';
+import { Backend } from '../../lib/backend';
+import { BlobStore } from '../../lib/blobStore';
+import { ExtractionService } from '../../lib/extractionService';
+import { createMemoryCardRepository, MemoryCardRepository } from '../../lib/memoryCardRepository';
+import { ExtractedCardData, ExtractionResult } from '../../lib/types';
+
+export const TEST_USER_ID = 'test-user';
+
+// Every field read with high confidence, so nothing is flagged for review
+export const extractionResult = (data: ExtractedCardData): ExtractionResult => ({
+  data,
+  extraction: Object.fromEntries(Object.entries(data).map(([field, value]) => [field, { confidence: 0.98, sourceText: String(value) }])),
+  provider: 'gemini',
+});
+
+export interface TestBackend extends Backend {
+  cards: MemoryCardRepository;
+  // Stored card images by path
+  images: Map<string, Blob>;
+  extracted: Blob[];
+  // The back sent with each extracted image, or undefined for one-sided cards
+  extractedBacks: (Blob | undefined)[];
+}
+
+export const createTestBackend = (card: ExtractedCardData): TestBackend => {
+  const cards = createMemoryCardRepository();
+  const images = new Map<string, Blob>();
+  const blobStore: BlobStore = {
+    put: async (path, data, contentType) => {
+      images.set(path, data);
+      return { path, url: `memory:${path}`, contentType };
+    },
+    delete: async (path) => { images.delete(path); },
+  };
+  const extracted: Blob[] = [];
+  const extractedBacks: (Blob | undefined)[] = [];
+  const extraction: ExtractionService = {
+    extract: async (image, _mimeType, _settings, back) => {
+      extracted.push(image);
+      extractedBacks.push(back?.image);
+      return extractionResult(card);
+    },
+    canExtractOffline: () => false,
+  };
+  return {
+    appId: 'card-vault-app',
+    auth: null,
+    workspaces: null,
+    blobStore,
+    extraction,
+    cardRepository: () => cards,
+    importLegacyCards: async () => 0,
+    watchUser: (onUser) => {
+      onUser({ uid: TEST_USER_ID, isAnonymous: true } as User);
+      return () => undefined;
+    },
+    cards,
+    images,
+    extracted,
+    extractedBacks,
+  };
+};
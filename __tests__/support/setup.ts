@@ -0,0 +1,13 @@
+// Runs before every test file
+import '@testing-library/jest-dom';
+import { randomUUID } from 'crypto';
+
+// jsdom has no object URLs or crypto.randomUUID; the upload queue uses both
+if (typeof window !== 'undefined') {
+  let nextUrl = 0;
+  URL.createObjectURL = () => `blob:test/${nextUrl++}`;
+  URL.revokeObjectURL = () => undefined;
+  if (!globalThis.crypto?.randomUUID) {
+    Object.defineProperty(globalThis, 'crypto', { value: { ...globalThis.crypto, randomUUID } });
+  }
+}
@@ -0,0 +1,42 @@
+import { samePhone } from '../lib/contactFields';
+import { normalizePhoneNumber, validateField } from '../lib/validation';
+
+describe('normalizePhoneNumber', () => {
+  test('converts international and 00-prefixed numbers to E.164', () => {
+    expect(normalizePhoneNumber('+44 (0)20 7946 0000')).toBe('+442079460000');
+    expect(normalizePhoneNumber('0049 30 1234567')).toBe('+49301234567');
+  });
+
+  test('adds the default calling code to local numbers', () => {
+    expect(normalizePhoneNumber('020 7946 0000', '44')).toBe('+442079460000');
+    expect(normalizePhoneNumber('020 7946 0000', '')).toBeNull();
+  });
+
+  test.each([
+    ['+1 555 010 0199 ext. 42'],
+    ['+1 555 010 0199 x42'],
+    ['+1 555 010 0199 #42'],
+    ['+1 555 010 0199 extension 42'],
+    ['+15550100199;ext=42'],
+  ])('keeps the extension of %s', (printed) => {
+    expect(normalizePhoneNumber(printed)).toBe('+15550100199;ext=42');
+  });
+
+  test('rejects text and numbers of the wrong length', () => {
+    expect(normalizePhoneNumber('call us')).toBeNull();
+    expect(normalizePhoneNumber('+1 555')).toBeNull();
+    expect(validateField('phoneNumber', '+1 555 010 0199 ext. 42')).toBeNull();
+  });
+});
+
+describe('samePhone', () => {
+  test('matches local and international forms of one number', () => {
+    expect(samePhone('+44 20 7946 0000', '020 7946 0000')).toBe(true);
+  });
+
+  test('tells extensions on one switchboard apart', () => {
+    expect(samePhone('+15550100199;ext=42', '+1 555 010 0199 ext. 42')).toBe(true);
+    expect(samePhone('+15550100199;ext=42', '+15550100199;ext=43')).toBe(false);
+    expect(samePhone('+15550100199;ext=42', '+15550100199')).toBe(false);
+  });
+});
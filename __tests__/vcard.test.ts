@@ -0,0 +1,100 @@
+/** @jest-environment node */
+import { cardToVCard, parseVCards, VCardVersion } from '../lib/vcard';
+import { CompanyData } from '../lib/types';
+
+const card: CompanyData = {
+  id: 'card-1',
+  companyName: 'Müller; Söhne, GmbH',
+  contactPerson: 'Zoë Müller-Lüdenscheidt',
+  phoneNumber: '+49 30 1234567',
+  email: 'zoe@mueller.example',
+  website: 'https://mueller.example',
+  address: 'Hauptstraße 1, Berlin, 10115, Germany',
+  jobTitle: 'Geschäftsführerin',
+  phones: [
+    { type: 'work', value: '+49 30 1234567' },
+    { type: 'mobile', value: '+49 170 7654321' },
+    { type: 'fax', value: '+49 30 1234568' },
+  ],
+  emails: [
+    { type: 'work', value: 'zoe@mueller.example' },
+    { type: 'personal', value: 'zoe@home.example' },
+  ],
+  socialProfiles: [{ network: 'linkedin', value: 'https://www.linkedin.com/in/zoe-mueller' }],
+  postalAddress: { street: 'Hauptstraße 1', city: 'Berlin', postalCode: '10115', country: 'Germany' },
+  timestamp: Date.UTC(2024, 0, 2, 3, 4, 5),
+};
+
+describe.each<VCardVersion>(['3.0', '4.0'])('vCard %s', (version) => {
+  test('keeps phone extensions', () => {
+    const phones = [{ type: 'work' as const, value: '+15550100199;ext=42' }];
+    const [imported] = parseVCards(cardToVCard({ ...card, phoneNumber: phones[0].value, phones }, version));
+    expect(imported.data.phones).toEqual(phones);
+  });
+
+  test('reads back every field it writes', () => {
+    const [imported] = parseVCards(cardToVCard(card, version));
+    expect(imported.data).toMatchObject({
+      companyName: card.companyName,
+      contactPerson: card.contactPerson,
+      jobTitle: card.jobTitle,
+      phoneNumber: card.phoneNumber.replace(/\s/g, version === '4.0' ? '' : ' '),
+      email: card.email,
+      website: card.website,
+      address: card.address,
+      emails: card.emails,
+      socialProfiles: card.socialProfiles,
+      postalAddress: card.postalAddress,
+    });
+    expect(imported.data.phones.map(phone => phone.type)).toEqual(['work', 'mobile', 'fax']);
+  });
+
+  test('keeps lines within 75 octets without splitting characters', () => {
+    const vcard = cardToVCard({ ...card, jobTitle: 'Ü'.repeat(80) }, version);
+    vcard.split('\r\n').forEach(line => expect(Buffer.byteLength(line)).toBeLessThanOrEqual(75));
+    expect(parseVCards(vcard)[0].data.jobTitle).toBe('Ü'.repeat(80));
+  });
+
+  test('escapes backslashes and line breaks', () => {
+    const vcard = cardToVCard({ ...card, jobTitle: 'Head of Sales\\Marketing\nEMEA' }, version);
+    expect(parseVCards(vcard)[0].data.jobTitle).toBe('Head of Sales\\Marketing\nEMEA');
+  });
+});
+
+test('keeps every phone and email, preferred first', () => {
+  const [imported] = parseVCards([
+    'BEGIN:VCARD',
+    'VERSION:3.0',
+    'FN:Jane Doe',
+    'TEL;TYPE=WORK:+44 20 7946 0000',
+    'item1.TEL;TYPE=CELL,PREF:+44 7700 900123',
+    'EMAIL;TYPE=INTERNET:jane@home.example',
+    'EMAIL;TYPE=INTERNET,PREF:jane@acme.example',
+    'END:VCARD',
+  ].join('\r\n'));
+
+  expect(imported.data.phones.map(phone => phone.value)).toEqual(['+44 7700 900123', '+44 20 7946 0000']);
+  expect(imported.data.emails.map(email => email.value)).toEqual(['jane@acme.example', 'jane@home.example']);
+  expect(imported.data).toMatchObject({ phoneNumber: '+44 7700 900123', email: 'jane@acme.example' });
+});
+
+test('reads vCard 4.0 PREF values, tel: URIs and lines folded by other apps', () => {
+  const [imported] = parseVCards([
+    'BEGIN:VCARD',
+    'VERSION:4.0',
+    'FN:Jane',
+    '  Doe',
+    'ORG:Acme Ltd;Sales',
+    'TEL;VALUE=uri;PREF=2:tel:+1-555-0100',
+    'TEL;VALUE=uri;PREF=1:tel:+1-555-0199',
+    'END:VCARD',
+  ].join('\n'));
+
+  expect(imported.data).toMatchObject({ contactPerson: 'Jane Doe', companyName: 'Acme Ltd', phoneNumber: '+1-555-0199' });
+});
+
+test('imports several contacts from one file and skips empty ones', () => {
+  const file = [card, { ...card, id: 'card-2', contactPerson: 'Max Mustermann' }].map(company => cardToVCard(company)).join('')
+    + 'BEGIN:VCARD\r\nVERSION:3.0\r\nEND:VCARD\r\n';
+  expect(parseVCards(file).map(contact => contact.data.contactPerson)).toEqual(['Zoë Müller-Lüdenscheidt', 'Max Mustermann']);
+});
@@ -0,0 +1,115 @@
+/** @jest-environment node */
+import { deliverWebhook, verifyWebhookSignature, WebhookPayload } from '../lib/webhooks';
+import { WebhookEndpoint } from '../lib/integrations';
+import { isPrivateAddress } from '../lib/publicFetch';
+import { LocalServer, startLocalServer } from './support/localServer';
+
+const payload: WebhookPayload = {
+  id: 'delivery-1',
+  event: 'card.created',
+  occurredAt: 1700000000000,
+  source: 'app',
+  vault: { kind: 'personal', id: 'user-1' },
+  card: { id: 'card-1', companyName: 'Acme Ltd' },
+};
+
+const endpointFor = (server: LocalServer): WebhookEndpoint => ({
+  id: 'endpoint-1',
+  url: `${server.url}/hooks`,
+  events: ['card.created'],
+  active: true,
+  secret: 'shh',
+  createdAt: 1,
+});
+
+const noWait = () => Promise.resolve();
+
+describe('deliverWebhook', () => {
+  let server: LocalServer;
+  let statuses: number[];
+
+  beforeEach(async () => {
+    statuses = [];
+    server = await startLocalServer((request, response) => {
+      if (request.url === '/moved') response.setHeader('Location', '/hooks');
+      response.statusCode = request.url === '/moved' ? 307 : statuses.shift() ?? 200;
+      response.end();
+    });
+  });
+
+  afterEach(() => server.close());
+
+  test('posts a signed payload the receiver can verify', async () => {
+    const delivery = await deliverWebhook(endpointFor(server), payload, { sleep: noWait, allowPrivateHosts: true });
+
+    expect(delivery).toMatchObject({ status: 'delivered', attempts: 1, responseStatus: 200, cardId: 'card-1', error: null });
+    const [request] = server.requests;
+    expect(request.method).toBe('POST');
+    expect(request.url).toBe('/hooks');
+    expect(request.headers['x-cardvault-event']).toBe('card.created');
+    expect(request.headers['x-cardvault-delivery']).toBe('delivery-1');
+    expect(JSON.parse(request.body)).toEqual(payload);
+    const timestamp = request.headers['x-cardvault-timestamp'] as string;
+    const signature = request.headers['x-cardvault-signature'] as string;
+    expect(verifyWebhookSignature('shh', request.body, timestamp, signature)).toBe(true);
+    expect(verifyWebhookSignature('wrong secret', request.body, timestamp, signature)).toBe(false);
+    expect(verifyWebhookSignature('shh', `${request.body} `, timestamp, signature)).toBe(false);
+  });
+
+  test('retries server errors with backoff', async () => {
+    statuses = [503, 502];
+    const waits: number[] = [];
+    const delivery = await deliverWebhook(endpointFor(server), payload, { sleep: async ms => { waits.push(ms); }, allowPrivateHosts: true });
+
+    expect(delivery).toMatchObject({ status: 'delivered', attempts: 3, responseStatus: 200 });
+    expect(waits).toEqual([1000, 4000]);
+    expect(server.requests).toHaveLength(3);
+  });
+
+  test('gives up on client errors and after the last retry', async () => {
+    statuses = [400];
+    expect(await deliverWebhook(endpointFor(server), payload, { sleep: noWait, allowPrivateHosts: true })).toMatchObject({ status: 'failed', attempts: 1, responseStatus: 400 });
+
+    statuses = [500, 500, 500];
+    expect(await deliverWebhook(endpointFor(server), payload, { sleep: noWait, allowPrivateHosts: true })).toMatchObject({ status: 'failed', attempts: 3, responseStatus: 500 });
+  });
+
+  test('reports receivers that cannot be reached', async () => {
+    const endpoint = endpointFor(server);
+    await server.close();
+    // A fresh server for afterEach to close; nothing listens on the old port any more
+    server = await startLocalServer((request, response) => response.end());
+    const delivery = await deliverWebhook(endpoint, payload, { sleep: noWait, retryDelaysMs: [], allowPrivateHosts: true });
+
+    expect(delivery).toMatchObject({ status: 'failed', attempts: 1, responseStatus: null });
+    expect(delivery.error).toBeTruthy();
+  });
+  test('refuses receivers on private addresses unless they are allowed', async () => {
+    const delivery = await deliverWebhook(endpointFor(server), payload, { sleep: noWait });
+
+    expect(delivery).toMatchObject({ status: 'failed', attempts: 1, responseStatus: null, error: '127.0.0.1 is not a public address.' });
+    expect(server.requests).toHaveLength(0);
+  });
+
+  test("doesn't follow redirects", async () => {
+    const endpoint = { ...endpointFor(server), url: `${server.url}/moved` };
+    const delivery = await deliverWebhook(endpoint, payload, { sleep: noWait, allowPrivateHosts: true });
+
+    expect(delivery).toMatchObject({ status: 'failed', attempts: 1, responseStatus: 307 });
+    expect(delivery.error).toContain('Redirected to /hooks');
+    expect(server.requests.map(request => request.url)).toEqual(['/moved']);
+  });
+});
+
+test('isPrivateAddress covers loopback, private, link-local and mapped addresses', () => {
+  ['127.0.0.1', '10.1.2.3', '172.20.0.1', '192.168.1.1', '169.254.169.254', '::1', 'fd00::1', 'fe80::1', '::ffff:10.0.0.1']
+    .forEach(address => expect(isPrivateAddress(address)).toBe(true));
+  ['93.184.216.34', '172.32.0.1', '2606:4700::1111', '::ffff:8.8.8.8'].forEach(address => expect(isPrivateAddress(address)).toBe(false));
+});
+
+describe('verifyWebhookSignature', () => {
+  test('rejects old timestamps', () => {
+    expect(verifyWebhookSignature('shh', '{}', '1000', 'sha256=00', 1000 + 10 * 60 * 1000)).toBe(false);
+    expect(verifyWebhookSignature('shh', '{}', null, null)).toBe(false);
+  });
+});
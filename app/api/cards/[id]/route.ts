@@ -0,0 +1,36 @@
+import { NextResponse } from 'next/server';
+import { ApiError, authenticateApiToken, errorResponse, readJsonBody } from '../../../../lib/apiAuth';
+import { getCard, upsertCard } from '../../../../lib/cardsApi';
+import { adminDb } from '../../../../lib/firebaseAdmin';
+
+export const maxDuration = 60;
+
+interface RouteContext {
+  params: { id: string };
+}
+
+const cardId = (context: RouteContext): string => {
+  if (!/^[\w-]{1,128}$/.test(context.params.id)) throw new ApiError('Invalid card id.', 400);
+  return context.params.id;
+};
+
+export async function GET(request: Request, context: RouteContext) {
+  try {
+    const token = await authenticateApiToken(request);
+    return NextResponse.json({ card: await getCard(adminDb(), token.vault, cardId(context)) });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+// Updates the fields in the body, or creates the card under this id when there is none
+export async function PUT(request: Request, context: RouteContext) {
+  try {
+    const token = await authenticateApiToken(request);
+    const id = cardId(context);
+    const { card, created } = await upsertCard(adminDb(), token, await readJsonBody(request), id);
+    return NextResponse.json({ card, created }, { status: created ? 201 : 200 });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,41 @@
+import { NextResponse } from 'next/server';
+import { authenticateApiToken, errorResponse, readJsonBody } from '../../../lib/apiAuth';
+import { API_MAX_PAGE_SIZE, API_PAGE_SIZE, listCards, upsertCard } from '../../../lib/cardsApi';
+import { adminDb } from '../../../lib/firebaseAdmin';
+
+// Webhook retries can hold a write open for a few seconds
+export const maxDuration = 60;
+
+// Answers depend on the token and the vault's current cards, so the GET must never be prerendered
+export const dynamic = 'force-dynamic';
+
+// Lists the token's vault a page at a time: ?limit=, ?cursor= from the previous page, and
+// ?includeDeleted=true to include cards in the trash
+export async function GET(request: Request) {
+  try {
+    const token = await authenticateApiToken(request);
+    const params = new URL(request.url).searchParams;
+    const limit = Math.min(Math.max(Math.floor(Number(params.get('limit'))) || API_PAGE_SIZE, 1), API_MAX_PAGE_SIZE);
+    const page = await listCards(adminDb(), token.vault, {
+      limit,
+      cursor: params.get('cursor'),
+      includeDeleted: params.get('includeDeleted') === 'true',
+    });
+    return NextResponse.json(page);
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+// Upserts a card: the one with the body's "id", else the one with the same primary email, else a new card
+export async function POST(request: Request) {
+  try {
+    const token = await authenticateApiToken(request);
+    const body = await readJsonBody(request);
+    const id = typeof body.id === 'string' && body.id ? body.id : null;
+    const { card, created } = await upsertCard(adminDb(), token, body, id);
+    return NextResponse.json({ card, created }, { status: created ? 201 : 200 });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,30 @@
+import { NextResponse } from 'next/server';
+import { EnrichmentError, lookupCompany } from '../../../lib/companySite';
+import { websiteDomain } from '../../../lib/enrichment';
+import { EnrichRequestBody, EnrichResponseBody } from '../../../lib/types';
+
+// Allows for a slow site, a redirect or two and the http fallback
+export const maxDuration = 30;
+
+export async function POST(request: Request) {
+  let body: Partial<EnrichRequestBody>;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json<EnrichResponseBody>({ error: 'Request body must be JSON.' }, { status: 400 });
+  }
+
+  const domain = body && typeof body.website === 'string' ? websiteDomain(body.website) : null;
+  if (!domain) {
+    return NextResponse.json<EnrichResponseBody>({ error: 'Missing or invalid "website" in request body.' }, { status: 400 });
+  }
+
+  try {
+    const profile = await lookupCompany(domain);
+    return NextResponse.json<EnrichResponseBody>({ domain, profile });
+  } catch (error) {
+    const status = error instanceof EnrichmentError ? error.status : 500;
+    if (status >= 500) console.error("Error looking up company website:", error);
+    return NextResponse.json<EnrichResponseBody>({ error: error.message }, { status });
+  }
+}
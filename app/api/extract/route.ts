@@ -0,0 +1,70 @@
+import { NextResponse } from 'next/server';
+import { ApiError, verifyUser } from '../../../lib/apiAuth';
+import { ExtractionError, Extractor } from '../../../lib/extraction';
+import { geminiExtractor } from '../../../lib/gemini';
+import { openAiExtractor } from '../../../lib/openaiVision';
+import { EncodedImage, ExtractorsResponseBody, ExtractRequestBody, ExtractResponseBody, ServerExtractorId } from '../../../lib/types';
+
+// Gemini calls can take a while on large images
+export const maxDuration = 60;
+
+// The providers this route can call; the browser-side OCR provider never reaches the server
+const extractors: Record<ServerExtractorId, Extractor> = {
+  gemini: geminiExtractor,
+  openai: openAiExtractor,
+};
+
+const imageType = (mimeType: unknown) => (typeof mimeType === 'string' && mimeType.startsWith('image/') ? mimeType : 'image/jpeg');
+
+// Lets the settings screen show which providers have credentials, without revealing them
+export async function GET() {
+  const providers = (Object.keys(extractors) as ServerExtractorId[]).map(id => ({
+    id,
+    label: extractors[id].label,
+    configured: extractors[id].isConfigured(),
+  }));
+  return NextResponse.json<ExtractorsResponseBody>({ providers });
+}
+
+// Reading a card spends the server's model quota, so only signed-in users (guests included) may ask
+export async function POST(request: Request) {
+  try {
+    await verifyUser(request);
+  } catch (error) {
+    const status = error instanceof ApiError ? error.status : 500;
+    return NextResponse.json<ExtractResponseBody>({ error: error.message }, { status });
+  }
+
+  let body: Partial<ExtractRequestBody>;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json<ExtractResponseBody>({ error: 'Request body must be JSON.' }, { status: 400 });
+  }
+
+  if (!body || typeof body.image !== 'string' || !body.image) {
+    return NextResponse.json<ExtractResponseBody>({ error: 'Missing base64 "image" in request body.' }, { status: 400 });
+  }
+  if (body.back !== undefined && (!body.back || typeof body.back.image !== 'string' || !body.back.image)) {
+    return NextResponse.json<ExtractResponseBody>({ error: '"back" must hold a base64 "image".' }, { status: 400 });
+  }
+  const mimeType = imageType(body.mimeType);
+  const back: EncodedImage | undefined = body.back && { image: body.back.image, mimeType: imageType(body.back.mimeType) };
+  const providerId = body.provider ?? 'gemini';
+  const extractor = Object.prototype.hasOwnProperty.call(extractors, providerId) ? extractors[providerId] : undefined;
+  if (!extractor) {
+    return NextResponse.json<ExtractResponseBody>({ error: `Unknown extraction provider "${providerId}".` }, { status: 400 });
+  }
+  if (!extractor.isConfigured()) {
+    return NextResponse.json<ExtractResponseBody>({ error: `${extractor.label} is not configured on the server.` }, { status: 503 });
+  }
+
+  try {
+    const { data, extraction } = await extractor.extract(body.image, mimeType, back);
+    return NextResponse.json<ExtractResponseBody>({ data, extraction, provider: extractor.id });
+  } catch (error) {
+    const status = error instanceof ExtractionError ? error.status : 500;
+    console.error("Error during extraction:", error);
+    return NextResponse.json<ExtractResponseBody>({ error: error.message }, { status });
+  }
+}
@@ -0,0 +1,85 @@
+import { NextResponse } from 'next/server';
+import { ApiError, errorResponse, requireAdmin, requireVaultRole, vaultRefFromStoragePath, verifyUser } from '../../../../lib/apiAuth';
+import { getLocalBlobStore } from '../../../../lib/localBlobStore';
+
+interface RouteContext {
+  params: { path: string[] };
+}
+
+// Images are shown in <img> tags, which can't send an ID token, so anyone with an image's URL can
+// read it. The route is therefore for development and tests only; production uses Firebase Storage
+// and its rules.
+const unavailable = () => {
+  if (process.env.NODE_ENV === 'production') {
+    return NextResponse.json({ error: 'Local image storage is only available in development.' }, { status: 404 });
+  }
+  if (!getLocalBlobStore()) {
+    return NextResponse.json({ error: 'Local image storage is not configured. Set LOCAL_BLOB_DIR on the server.' }, { status: 404 });
+  }
+  return null;
+};
+
+// Only the vault's owner and editors may change its images, as in storage.rules
+const requireWriteAccess = async (request: Request, key: string) => {
+  const uid = await verifyUser(request);
+  const ref = vaultRefFromStoragePath(key);
+  if (!ref) throw new ApiError('Images must be stored under a vault.', 403);
+  if (ref.kind === 'workspace') requireAdmin('Workspace images in local storage');
+  await requireVaultRole(uid, ref, ['owner', 'editor']);
+};
+
+export async function GET(_request: Request, { params }: RouteContext) {
+  const refused = unavailable();
+  if (refused) return refused;
+
+  try {
+    const blob = await getLocalBlobStore().get(params.path.join('/'));
+    if (!blob) return NextResponse.json({ error: 'Image not found.' }, { status: 404 });
+    return new NextResponse(blob.data, { headers: { 'Content-Type': blob.contentType } });
+  } catch (error) {
+    return NextResponse.json({ error: error.message }, { status: 400 });
+  }
+}
+
+export async function PUT(request: Request, { params }: RouteContext) {
+  const refused = unavailable();
+  if (refused) return refused;
+
+  const contentType = request.headers.get('content-type') || '';
+  if (!contentType.startsWith('image/')) {
+    return NextResponse.json({ error: 'Only image uploads are accepted.' }, { status: 415 });
+  }
+
+  const key = params.path.join('/');
+  try {
+    await requireWriteAccess(request, key);
+  } catch (error) {
+    return errorResponse(error);
+  }
+
+  try {
+    await getLocalBlobStore().put(key, new Uint8Array(await request.arrayBuffer()));
+    return new NextResponse(null, { status: 204 });
+  } catch (error) {
+    return NextResponse.json({ error: error.message }, { status: 400 });
+  }
+}
+
+export async function DELETE(request: Request, { params }: RouteContext) {
+  const refused = unavailable();
+  if (refused) return refused;
+
+  const key = params.path.join('/');
+  try {
+    await requireWriteAccess(request, key);
+  } catch (error) {
+    return errorResponse(error);
+  }
+
+  try {
+    await getLocalBlobStore().delete(key);
+    return new NextResponse(null, { status: 204 });
+  } catch (error) {
+    return NextResponse.json({ error: error.message }, { status: 400 });
+  }
+}
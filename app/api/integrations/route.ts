@@ -0,0 +1,40 @@
+import { NextResponse } from 'next/server';
+import { authenticateUser, errorResponse, readJsonBody, readVaultRef, requireVaultRole, vaultRefFromQuery } from '../../../lib/apiAuth';
+import { adminDb, serverAppId } from '../../../lib/firebaseAdmin';
+import { listApiTokens, listDeliveries, readIntegrationConfig, saveIntegrationConfig, withoutSecrets } from '../../../lib/integrationStore';
+import { IntegrationConfig, IntegrationsResponseBody, vaultRefPaths } from '../../../lib/integrations';
+
+// Answers depend on who is asking, so the GET must never be prerendered
+export const dynamic = 'force-dynamic';
+
+// Webhooks, field mapping, API tokens and recent deliveries for the Integrations dialog; owners only
+export async function GET(request: Request) {
+  try {
+    const uid = await authenticateUser(request);
+    const ref = vaultRefFromQuery(request);
+    await requireVaultRole(uid, ref, ['owner']);
+    const db = adminDb();
+    const paths = vaultRefPaths(serverAppId, ref);
+    const [config, tokens, deliveries] = await Promise.all([
+      readIntegrationConfig(db, paths.configPath),
+      listApiTokens(db, ref),
+      listDeliveries(db, paths.deliveriesPath),
+    ]);
+    return NextResponse.json<IntegrationsResponseBody>({ config: withoutSecrets(config), tokens, deliveries });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+export async function PUT(request: Request) {
+  try {
+    const uid = await authenticateUser(request);
+    const body = await readJsonBody(request);
+    const ref = readVaultRef(body.vault);
+    await requireVaultRole(uid, ref, ['owner']);
+    const config = await saveIntegrationConfig(adminDb(), vaultRefPaths(serverAppId, ref).configPath, body.config as Partial<IntegrationConfig>);
+    return NextResponse.json({ config });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
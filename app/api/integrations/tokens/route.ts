@@ -0,0 +1,33 @@
+import { NextResponse } from 'next/server';
+import { ApiError, authenticateUser, errorResponse, readJsonBody, readVaultRef, requireVaultRole, vaultRefFromQuery } from '../../../../lib/apiAuth';
+import { adminDb } from '../../../../lib/firebaseAdmin';
+import { createApiToken, revokeApiToken } from '../../../../lib/integrationStore';
+
+// Creates an API token for the vault. The response is the only time the token itself is shown.
+export async function POST(request: Request) {
+  try {
+    const uid = await authenticateUser(request);
+    const body = await readJsonBody(request);
+    const ref = readVaultRef(body.vault);
+    await requireVaultRole(uid, ref, ['owner']);
+    const name = typeof body.name === 'string' ? body.name.slice(0, 100) : '';
+    return NextResponse.json(await createApiToken(adminDb(), ref, name, uid), { status: 201 });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+// Revokes ?tokenId= for the vault in ?vaultKind=&vaultId=
+export async function DELETE(request: Request) {
+  try {
+    const uid = await authenticateUser(request);
+    const ref = vaultRefFromQuery(request);
+    await requireVaultRole(uid, ref, ['owner']);
+    const tokenId = new URL(request.url).searchParams.get('tokenId');
+    if (!tokenId || !/^[a-f0-9]{64}$/.test(tokenId)) throw new ApiError('Missing or invalid "tokenId".', 400);
+    await revokeApiToken(adminDb(), ref, tokenId);
+    return new NextResponse(null, { status: 204 });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,29 @@
+import { NextResponse } from 'next/server';
+import { ApiError, authenticateUser, errorResponse, readJsonBody, readVaultRef, requireVaultRole } from '../../../../lib/apiAuth';
+import { adminDb } from '../../../../lib/firebaseAdmin';
+import { MAX_EVENT_CARDS, WEBHOOK_EVENTS, WebhookEvent } from '../../../../lib/integrations';
+import { dispatchCardEvent } from '../../../../lib/webhooks';
+
+// Retries back off for a few seconds per delivery
+export const maxDuration = 60;
+
+// Called by the app once a card change has reached Firestore. The cards are read back from the
+// vault, so the payload is always what was actually saved.
+export async function POST(request: Request) {
+  try {
+    const uid = await authenticateUser(request);
+    const body = await readJsonBody(request);
+    const ref = readVaultRef(body.vault);
+    await requireVaultRole(uid, ref, ['owner', 'editor']);
+    const event = body.event as WebhookEvent;
+    if (!WEBHOOK_EVENTS.includes(event)) throw new ApiError(`Unknown event "${body.event}".`, 400);
+    const cardIds = Array.isArray(body.cardIds) ? body.cardIds.filter(id => typeof id === 'string' && /^[\w-]{1,128}$/.test(id)) : [];
+    if (cardIds.length === 0 || cardIds.length > MAX_EVENT_CARDS) {
+      throw new ApiError(`Send between 1 and ${MAX_EVENT_CARDS} card ids.`, 400);
+    }
+    const deliveries = await dispatchCardEvent(adminDb(), ref, event, cardIds, 'app');
+    return NextResponse.json({ deliveries });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
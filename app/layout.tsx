@@ -3,6 +3,19 @@ import './globals.css'
 export const metadata = {
   title: 'CardVault - Your Digital Rolodex',
   description: 'Digital business card management application',
+  manifest: '/manifest.webmanifest',
+  appleWebApp: {
+    capable: true,
+    title: 'CardVault',
+  },
+  icons: {
+    icon: '/icons/icon-192.png',
+    apple: '/icons/apple-touch-icon.png',
+  },
+}
+
+export const viewport = {
+  themeColor: '#4338ca',
 }
 
 export default function RootLayout({
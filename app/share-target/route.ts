@@ -0,0 +1,7 @@
+import { NextResponse } from 'next/server';
+
+// Shared photos are normally caught by the service worker before they reach the server. This only
+// runs when it isn't installed yet, so send the user to the app with nothing to pick up.
+export async function POST(request: Request) {
+  return NextResponse.redirect(new URL('/?shared=0', request.url), 303);
+}
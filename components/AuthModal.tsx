@@ -0,0 +1,110 @@
+'use client';
+
+import React, { useState } from 'react';
+import { Auth, User } from 'firebase/auth';
+import { AuthMode, describeAuthError, signInWithEmail, signInWithGoogle } from '../lib/auth';
+
+interface AuthModalProps {
+  auth: Auth;
+  onSignedIn: (previousUser: User | null, user: User) => void;
+  onClose: () => void;
+}
+
+// Sign-in / sign-up dialog for email and password or Google
+function AuthModal({ auth, onSignedIn, onClose }: AuthModalProps) {
+  const [mode, setMode] = useState<AuthMode>('signUp');
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState('');
+  const [busy, setBusy] = useState(false);
+
+  const run = async (signIn: () => Promise<User>) => {
+    const previousUser = auth.currentUser;
+    setBusy(true);
+    setError('');
+    try {
+      const user = await signIn();
+      onSignedIn(previousUser, user);
+    } catch (err) {
+      console.error("Error during sign-in:", err);
+      setError(describeAuthError(err));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleSubmit = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    run(() => signInWithEmail(auth, email.trim(), password, mode));
+  };
+
+  return (
+    <div className="fixed inset-0 flex items-center justify-center z-50 modal-overlay p-4">
+      <div className="bg-white p-8 rounded-lg shadow-xl max-w-sm w-full">
+        <h3 className="text-2xl font-semibold text-gray-800 mb-2">
+          {mode === 'signUp' ? 'Create an Account' : 'Sign In'}
+        </h3>
+        <p className="text-sm text-gray-600 mb-6">
+          {mode === 'signUp'
+            ? 'Keep your cards in a private vault you can open from any device. Cards saved as a guest are kept.'
+            : 'Cards saved as a guest on this device are copied into your account.'}
+        </p>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <label htmlFor="auth-email" className="block text-sm font-medium text-gray-700">Email</label>
+            <input
+              type="email"
+              id="auth-email"
+              value={email}
+              onChange={e => setEmail(e.target.value)}
+              required
+              autoComplete="email"
+              className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm p-2 focus:ring-indigo-500 focus:border-indigo-500"
+            />
+          </div>
+          <div>
+            <label htmlFor="auth-password" className="block text-sm font-medium text-gray-700">Password</label>
+            <input
+              type="password"
+              id="auth-password"
+              value={password}
+              onChange={e => setPassword(e.target.value)}
+              required
+              minLength={6}
+              autoComplete={mode === 'signUp' ? 'new-password' : 'current-password'}
+              className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm p-2 focus:ring-indigo-500 focus:border-indigo-500"
+            />
+          </div>
+          {error && <p className="text-sm text-red-600">{error}</p>}
+          <button
+            type="submit"
+            disabled={busy}
+            className="btn-primary text-white py-2 px-5 rounded-full font-semibold w-full disabled:opacity-50"
+          >
+            {mode === 'signUp' ? 'Create Account' : 'Sign In'}
+          </button>
+        </form>
+        <button
+          onClick={() => run(() => signInWithGoogle(auth))}
+          disabled={busy}
+          className="btn-secondary py-2 px-5 rounded-full font-semibold w-full mt-3 disabled:opacity-50"
+        >
+          Continue with Google
+        </button>
+        <div className="flex justify-between items-center mt-6 text-sm">
+          <button
+            onClick={() => { setMode(mode === 'signUp' ? 'signIn' : 'signUp'); setError(''); }}
+            className="font-semibold text-indigo-600 hover:underline"
+          >
+            {mode === 'signUp' ? 'Already have an account? Sign in' : 'New here? Create an account'}
+          </button>
+          <button onClick={onClose} disabled={busy} className="text-gray-500 hover:underline">
+            Cancel
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default AuthModal;
@@ -0,0 +1,218 @@
+'use client';
+
+import React, { useEffect, useRef, useState } from 'react';
+import { CARD_MIME_TYPE, findCard, straightenCard } from '../lib/cardCapture';
+import { Quad, quadShift } from '../lib/cardDetection';
+import { CardPhoto } from '../lib/types';
+import { QueuedImage } from '../lib/useExtractionQueue';
+
+interface CameraCaptureProps {
+  autoCrop: boolean;
+  autoCapture: boolean;
+  onCapture: (image: QueuedImage) => void;
+  onError: (message: string) => void;
+  onClose: () => void;
+}
+
+// How often the preview is checked for a card
+const DETECTION_INTERVAL_MS = 200;
+
+// The card counts as steady once its corners have moved less than this share of the frame's
+// diagonal for STEADY_FRAMES checks in a row (about a second)
+const STEADY_SHIFT = 0.015;
+const STEADY_FRAMES = 5;
+
+// Live camera preview that outlines the card, takes the photo once it is held steady and crops it
+// flat. For two-sided cards the front is kept while the back is taken, and both go out as one card.
+function CameraCapture({ autoCrop, autoCapture, onCapture, onError, onClose }: CameraCaptureProps) {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const capturingRef = useRef(false);
+  // Auto-capture waits after the front is taken until the card moves, so the front isn't taken twice
+  const armedRef = useRef(true);
+  const [frameSize, setFrameSize] = useState<{ width: number; height: number } | null>(null);
+  const [quad, setQuad] = useState<Quad | null>(null);
+  const [steadyFrames, setSteadyFrames] = useState(0);
+  const [autoCaptureOn, setAutoCaptureOn] = useState(autoCapture);
+  const [isCapturing, setIsCapturing] = useState(false);
+  const [twoSided, setTwoSided] = useState(false);
+  const [front, setFront] = useState<CardPhoto | null>(null);
+  const [frontUrl, setFrontUrl] = useState('');
+
+  useEffect(() => {
+    if (!front) return;
+    const url = URL.createObjectURL(front.image);
+    setFrontUrl(url);
+    return () => URL.revokeObjectURL(url);
+  }, [front]);
+
+  useEffect(() => {
+    let stream: MediaStream | null = null;
+    let cancelled = false;
+    navigator.mediaDevices.getUserMedia({ video: { facingMode: 'environment', width: { ideal: 1920 }, height: { ideal: 1080 } } })
+      .then(mediaStream => {
+        stream = mediaStream;
+        if (cancelled) {
+          mediaStream.getTracks().forEach(track => track.stop());
+          return;
+        }
+        if (videoRef.current) videoRef.current.srcObject = mediaStream;
+      })
+      .catch(err => {
+        console.error("Error accessing camera:", err);
+        onError(`Failed to access camera: ${err.message}. Please ensure camera permissions are granted.`);
+      });
+    return () => {
+      cancelled = true;
+      stream?.getTracks().forEach(track => track.stop());
+    };
+  }, []);
+
+  const finish = (frontPhoto: CardPhoto, back?: CardPhoto) => {
+    onCapture({ ...frontPhoto, fileName: `camera-${Date.now()}.jpg`, back });
+  };
+
+  const capture = async () => {
+    const video = videoRef.current;
+    if (!video || !video.videoWidth || capturingRef.current) return;
+    capturingRef.current = true;
+    setIsCapturing(true);
+    try {
+      // Freeze the frame first so the card is found and cut from the same picture
+      const { videoWidth: width, videoHeight: height } = video;
+      const frame = document.createElement('canvas');
+      frame.width = width;
+      frame.height = height;
+      frame.getContext('2d').drawImage(video, 0, 0, width, height);
+      const cardQuad = autoCrop ? findCard(frame, width, height) : null;
+      const photo: CardPhoto = { image: await straightenCard(frame, width, height, cardQuad), mimeType: CARD_MIME_TYPE };
+      if (twoSided && !front) {
+        setFront(photo);
+        setSteadyFrames(0);
+        armedRef.current = false;
+        return;
+      }
+      finish(front || photo, front ? photo : undefined);
+    } catch (err) {
+      console.error("Error capturing photo:", err);
+      onError('Failed to capture image from camera.');
+    } finally {
+      capturingRef.current = false;
+      setIsCapturing(false);
+    }
+  };
+
+  // Outline the card in the preview and track how long it has stayed put
+  const detecting = autoCrop || autoCaptureOn;
+  useEffect(() => {
+    if (!detecting) {
+      setQuad(null);
+      setSteadyFrames(0);
+      return;
+    }
+    let previous: Quad | null = null;
+    const timer = setInterval(() => {
+      const video = videoRef.current;
+      if (!video || !video.videoWidth || capturingRef.current) return;
+      const { videoWidth: width, videoHeight: height } = video;
+      setFrameSize(size => (size?.width === width && size?.height === height ? size : { width, height }));
+      let found: Quad | null = null;
+      try {
+        found = findCard(video, width, height);
+      } catch (err) {
+        console.error("Error detecting the card:", err);
+      }
+      const steady = !!found && !!previous && quadShift(found, previous) < STEADY_SHIFT * Math.hypot(width, height);
+      previous = found;
+      if (!steady) armedRef.current = true;
+      setQuad(found);
+      setSteadyFrames(count => (steady ? count + 1 : 0));
+    }, DETECTION_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [detecting]);
+
+  useEffect(() => {
+    if (autoCaptureOn && armedRef.current && steadyFrames >= STEADY_FRAMES) capture();
+  }, [autoCaptureOn, steadyFrames]);
+
+  const isSteady = steadyFrames >= STEADY_FRAMES;
+  let captureLabel = 'Capture Photo';
+  if (twoSided) captureLabel = front ? 'Capture Back' : 'Capture Front';
+  let status = 'Ensure the card is well-lit and fills the frame for best results.';
+  if (isCapturing) status = 'Capturing...';
+  else if (front && !armedRef.current) status = 'Front captured. Turn the card over to capture the back.';
+  else if (detecting && !quad) status = 'Looking for the card. Place it on a plain, contrasting surface.';
+  else if (quad && autoCaptureOn) status = 'Card found. Hold steady...';
+  else if (quad) status = `Card found. Tap ${captureLabel} when ready.`;
+
+  return (
+    <div className="fixed inset-0 flex items-center justify-center z-50 modal-overlay p-4">
+      <div className="bg-white p-6 rounded-xl shadow-2xl max-w-xl w-full text-center flex flex-col gap-4">
+        <h3 className="text-2xl font-semibold text-gray-800 mb-4">{front ? 'Now the Back of the Card' : 'Take a Picture of the Card'}</h3>
+        <div className="camera-feed-container">
+          <video ref={videoRef} autoPlay playsInline muted className="rounded-lg"></video>
+          {quad && frameSize && (
+            // The video is cropped to fill its box, and "slice" crops the outline the same way
+            <svg
+              className="absolute inset-0 w-full h-full pointer-events-none"
+              viewBox={`0 0 ${frameSize.width} ${frameSize.height}`}
+              preserveAspectRatio="xMidYMid slice"
+              aria-hidden="true"
+            >
+              <polygon
+                points={quad.map(({ x, y }) => `${x},${y}`).join(' ')}
+                fill={isSteady ? 'rgba(34, 197, 94, 0.2)' : 'rgba(250, 204, 21, 0.15)'}
+                stroke={isSteady ? '#22c55e' : '#facc15'}
+                strokeWidth={Math.max(frameSize.width, frameSize.height) / 160}
+                strokeLinejoin="round"
+              />
+            </svg>
+          )}
+        </div>
+        {frontUrl && (
+          <div className="flex items-center justify-center gap-2 text-sm text-gray-600">
+            {/* eslint-disable-next-line @next/next/no-img-element */}
+            <img src={frontUrl} alt="Front of the card" className="h-12 rounded border border-gray-200" />
+            Front
+          </div>
+        )}
+        <p className="text-sm text-gray-600" role="status">{status}</p>
+        <div className="flex flex-wrap justify-center gap-x-6 gap-y-2 text-sm text-gray-700">
+          <label className="flex items-center gap-2">
+            <input type="checkbox" checked={autoCaptureOn} onChange={e => setAutoCaptureOn(e.target.checked)} />
+            Capture automatically when the card is steady
+          </label>
+          <label className="flex items-center gap-2">
+            <input type="checkbox" checked={twoSided} disabled={!!front} onChange={e => setTwoSided(e.target.checked)} />
+            Two-sided card
+          </label>
+        </div>
+        <div className="flex justify-center gap-4 mt-2">
+          <button
+            onClick={capture}
+            disabled={isCapturing}
+            className="btn-primary text-white py-3 px-6 rounded-full font-bold text-lg shadow-lg hover:bg-purple-700 transition duration-300 ease-in-out transform hover:scale-105"
+          >
+            {captureLabel}
+          </button>
+          {front && (
+            <button
+              onClick={() => finish(front)}
+              disabled={isCapturing}
+              className="btn-secondary py-3 px-6 rounded-full font-bold text-lg shadow-lg hover:bg-gray-300 transition duration-300 ease-in-out transform hover:scale-105"
+            >
+              Skip Back
+            </button>
+          )}
+          <button
+            onClick={onClose}
+            className="btn-secondary py-3 px-6 rounded-full font-bold text-lg shadow-lg hover:bg-gray-300 transition duration-300 ease-in-out transform hover:scale-105"
+          >
+            Cancel
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default CameraCapture;
@@ -0,0 +1,143 @@
+'use client';
+
+import React, { useState } from 'react';
+import { activityTimeline, isReminderDue, localDateKey } from '../lib/activity';
+import { CardNote, CompanyData, Reminder } from '../lib/types';
+
+interface CardActivityProps {
+  card: CompanyData;
+  canEdit: boolean;
+  authorLabels: Record<string, string> | null;
+  onAddNote: (text: string) => void;
+  onDeleteNote: (note: CardNote) => void;
+  onAddReminder: (dueDate: string, note: string) => void;
+  onToggleReminder: (reminder: Reminder, done: boolean) => void;
+  onDeleteReminder: (reminder: Reminder) => void;
+  onExportReminder: (reminder: Reminder) => void;
+}
+
+const inputClass = 'border border-gray-300 rounded-md shadow-sm p-2 text-sm focus:ring-indigo-500 focus:border-indigo-500';
+
+const TIMELINE_DOT: Record<string, string> = {
+  added: 'bg-gray-400',
+  note: 'bg-indigo-500',
+  reminder: 'bg-amber-500',
+  completed: 'bg-green-500',
+};
+
+// Follow-up reminders and the dated notes timeline in the Company Details panel
+function CardActivity({ card, canEdit, authorLabels, onAddNote, onDeleteNote, onAddReminder, onToggleReminder, onDeleteReminder, onExportReminder }: CardActivityProps) {
+  const [noteDraft, setNoteDraft] = useState('');
+  const [dueDate, setDueDate] = useState('');
+  const [reminderNote, setReminderNote] = useState('');
+  const today = localDateKey();
+  const reminders = [...(card.reminders || [])].sort((a, b) => Number(a.done) - Number(b.done) || a.dueDate.localeCompare(b.dueDate));
+  const timeline = activityTimeline(card);
+
+  const handleAddNote = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    if (!noteDraft.trim()) return;
+    onAddNote(noteDraft);
+    setNoteDraft('');
+  };
+
+  const handleAddReminder = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    if (!dueDate) return;
+    onAddReminder(dueDate, reminderNote);
+    setDueDate('');
+    setReminderNote('');
+  };
+
+  const authorSuffix = (uid?: string | null) => (authorLabels && uid ? ` · ${authorLabels[uid] || `${uid.slice(0, 8)}…`}` : '');
+
+  return (
+    <div className="space-y-4 border-t border-gray-200 pt-4">
+      <div>
+        <p className="text-sm font-medium text-gray-500">Follow-ups:</p>
+        {reminders.length === 0 && <p className="text-sm text-gray-500 italic mt-1">No follow-ups.</p>}
+        <ul className="mt-1 space-y-1">
+          {reminders.map(reminder => (
+            <li key={reminder.id} className="flex items-start gap-2 text-sm">
+              <input
+                type="checkbox"
+                checked={reminder.done}
+                disabled={!canEdit}
+                onChange={e => onToggleReminder(reminder, e.target.checked)}
+                aria-label={`Mark follow-up on ${reminder.dueDate} as done`}
+                className="mt-1"
+              />
+              <span className={`flex-1 ${reminder.done ? 'line-through text-gray-400' : 'text-gray-800'}`}>
+                <span className={isReminderDue(reminder, today) ? 'font-semibold text-red-600' : 'font-medium'}>{reminder.dueDate}</span>
+                {reminder.note && ` — ${reminder.note}`}
+              </span>
+              {!reminder.done && (
+                <button type="button" onClick={() => onExportReminder(reminder)} className="text-xs font-semibold text-indigo-600 hover:underline">
+                  Add to calendar
+                </button>
+              )}
+              {canEdit && (
+                <button type="button" onClick={() => onDeleteReminder(reminder)} aria-label={`Delete follow-up on ${reminder.dueDate}`} className="text-gray-400 hover:text-red-600">
+                  &times;
+                </button>
+              )}
+            </li>
+          ))}
+        </ul>
+        {canEdit && (
+          <form onSubmit={handleAddReminder} className="flex flex-wrap gap-2 mt-2">
+            <input type="date" value={dueDate} min={today} onChange={e => setDueDate(e.target.value)} required aria-label="Follow-up date" className={inputClass} />
+            <input
+              type="text"
+              value={reminderNote}
+              onChange={e => setReminderNote(e.target.value)}
+              placeholder="What to follow up on"
+              aria-label="Follow-up note"
+              className={`flex-1 min-w-0 ${inputClass}`}
+            />
+            <button type="submit" className="btn-secondary py-1 px-4 rounded-full font-semibold text-sm">
+              Add follow-up
+            </button>
+          </form>
+        )}
+      </div>
+
+      <div>
+        <p className="text-sm font-medium text-gray-500">Notes &amp; activity:</p>
+        {canEdit && (
+          <form onSubmit={handleAddNote} className="mt-1 space-y-2">
+            <textarea
+              value={noteDraft}
+              onChange={e => setNoteDraft(e.target.value)}
+              rows={2}
+              placeholder="Where you met, what you discussed..."
+              aria-label="New note"
+              className={`block w-full ${inputClass}`}
+            />
+            <button type="submit" disabled={!noteDraft.trim()} className="btn-secondary py-1 px-4 rounded-full font-semibold text-sm disabled:opacity-50">
+              Add note
+            </button>
+          </form>
+        )}
+        <ol className="mt-3 space-y-3 border-l-2 border-gray-200 pl-4">
+          {timeline.map(entry => (
+            <li key={entry.key} className="relative">
+              <span className={`absolute -left-[1.4rem] top-1.5 h-2.5 w-2.5 rounded-full ${TIMELINE_DOT[entry.kind]}`} />
+              <p className="text-xs text-gray-500">
+                {new Date(entry.at).toLocaleString()}{authorSuffix(entry.by)}
+              </p>
+              <p className={`text-sm whitespace-pre-wrap ${entry.kind === 'note' ? 'text-gray-800' : 'text-gray-600 italic'}`}>{entry.text}</p>
+              {entry.note && canEdit && (
+                <button type="button" onClick={() => onDeleteNote(entry.note)} className="text-xs text-gray-400 hover:text-red-600">
+                  Delete note
+                </button>
+              )}
+            </li>
+          ))}
+        </ol>
+      </div>
+    </div>
+  );
+}
+
+export default CardActivity;
@@ -0,0 +1,107 @@
+'use client';
+
+import React from 'react';
+import { EMAIL_TYPE_LABELS, PHONE_TYPE_LABELS, SOCIAL_NETWORK_LABELS, socialProfileUrl } from '../lib/contactFields';
+import { cardLabel } from '../lib/history';
+import { languageName, scriptName } from '../lib/scripts';
+import { CompanyData, ExtractedField, FIELD_LABELS } from '../lib/types';
+import { FieldFlag, getFieldFlags, normalizeUrl } from '../lib/validation';
+import FieldFlagNote, { flagBorderClass } from './FieldFlagNote';
+
+interface CardDetailFieldsProps {
+  // The card as selected in the list
+  card: CompanyData;
+  // The same card as last synced, for the logo and description found after it was selected
+  latest: CompanyData;
+}
+
+// One labelled value, outlined when the field is flagged
+const DetailRow = ({ label, flag, children }: { label: string; flag?: FieldFlag; children: React.ReactNode }) => (
+  <div className={flag ? `border-l-4 rounded-md pl-3 py-1 ${flagBorderClass(flag)}` : ''}>
+    <p className="text-sm font-medium text-gray-500">{label}:</p>
+    {children}
+    <FieldFlagNote flag={flag} />
+  </div>
+);
+
+// The contact details in the Company Details panel, with flagged fields outlined
+function CardDetailFields({ card, latest }: CardDetailFieldsProps) {
+  const flags = getFieldFlags(card, card.extraction);
+
+  return (
+    <>
+      {latest.logoUrl && (
+        // eslint-disable-next-line @next/next/no-img-element
+        <img src={latest.logoUrl} alt={`${cardLabel(latest)} logo`} referrerPolicy="no-referrer" className="h-12 max-w-[12rem] object-contain" />
+      )}
+      {(['companyName', 'contactPerson', 'jobTitle'] as ExtractedField[]).map(field => {
+        const latin = field === 'companyName' ? card.companyNameLatin : field === 'contactPerson' ? card.contactPersonLatin : '';
+        return (
+          <DetailRow key={field} label={FIELD_LABELS[field]} flag={flags[field]}>
+            <p dir="auto" className={field === 'companyName' ? 'text-lg font-bold text-gray-900' : 'text-lg text-gray-800'}>
+              {card[field] || 'N/A'}
+            </p>
+            {latin && <p className="text-sm text-gray-600">{latin}</p>}
+          </DetailRow>
+        );
+      })}
+      <DetailRow label="Phone Numbers" flag={flags.phoneNumber}>
+        {card.phones?.length ? card.phones.map((phone, index) => (
+          <p key={index} className="text-lg text-gray-800">
+            <span className="text-sm text-gray-500 mr-2">{PHONE_TYPE_LABELS[phone.type]}</span>
+            {phone.type === 'fax' ? phone.value : <a href={`tel:${phone.value.replace(/[^\d+]/g, '')}`} className="hover:underline">{phone.value}</a>}
+          </p>
+        )) : <p className="text-lg text-gray-800">N/A</p>}
+      </DetailRow>
+      <DetailRow label="Email Addresses" flag={flags.email}>
+        {card.emails?.length ? card.emails.map((email, index) => (
+          <p key={index} className="text-lg text-gray-800 break-all">
+            <span className="text-sm text-gray-500 mr-2">{EMAIL_TYPE_LABELS[email.type]}</span>
+            <a href={`mailto:${email.value}`} className="hover:underline">{email.value}</a>
+          </p>
+        )) : <p className="text-lg text-gray-800">N/A</p>}
+      </DetailRow>
+      <DetailRow label={FIELD_LABELS.website} flag={flags.website}>
+        <p className="text-lg text-gray-800 break-all">{card.website || 'N/A'}</p>
+      </DetailRow>
+      {card.codeUrls?.length > 0 && (
+        <DetailRow label="Links from the Card's Code">
+          {card.codeUrls.map(url => (
+            <p key={url} className="text-lg text-gray-800 break-all">
+              {normalizeUrl(url) ? <a href={normalizeUrl(url)} target="_blank" rel="noopener noreferrer" className="hover:underline">{url}</a> : url}
+            </p>
+          ))}
+        </DetailRow>
+      )}
+      {latest.companyDescription && (
+        <DetailRow label="About">
+          <p dir="auto" className="text-gray-800">{latest.companyDescription}</p>
+        </DetailRow>
+      )}
+      {card.socialProfiles?.length > 0 && (
+        <DetailRow label="Social Profiles">
+          {card.socialProfiles.map((profile, index) => {
+            const url = socialProfileUrl(profile);
+            return (
+              <p key={index} className="text-lg text-gray-800 break-all">
+                <span className="text-sm text-gray-500 mr-2">{SOCIAL_NETWORK_LABELS[profile.network]}</span>
+                {url ? <a href={url} target="_blank" rel="noopener noreferrer" className="hover:underline">{profile.value}</a> : profile.value}
+              </p>
+            );
+          })}
+        </DetailRow>
+      )}
+      <DetailRow label={FIELD_LABELS.address} flag={flags.address}>
+        <p dir="auto" className="text-lg text-gray-800">{card.address || 'N/A'}</p>
+      </DetailRow>
+      {card.language && (
+        <p className="text-xs text-gray-500">
+          Card language: {languageName(card.language)}
+          {card.script && card.script !== 'Latn' ? ` (${scriptName(card.script)} script)` : ''}
+        </p>
+      )}
+    </>
+  );
+}
+
+export default CardDetailFields;
@@ -0,0 +1,86 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { DueReminder } from '../lib/activity';
+import { CompanyData } from '../lib/types';
+
+interface CardListProps {
+  cards: CompanyData[];
+  selectedId: string | null;
+  // Follow-ups to show under each card while the list is filtered to what's due
+  dueToday: DueReminder[] | null;
+  hasMore: boolean;
+  loadingMore: boolean;
+  onSelect: (card: CompanyData) => void;
+  onLoadMore: () => void;
+  // Told which cards are drawn, so only their pages keep listening for changes (see lib/useCards.ts)
+  onShow: (cards: CompanyData[]) => void;
+}
+
+// Every row is the same height, so which rows are on screen follows from the scroll position alone.
+// Rows are 104px tall with a 12px gap; longer names and tag lists are cut off.
+const ROW_HEIGHT = 116;
+const ROW_GAP = 12;
+// The list is at most 24rem tall (max-h-96)
+const LIST_HEIGHT = 384;
+// Rows drawn above and below the visible ones, so scrolling doesn't show blank space
+const OVERSCAN = 5;
+// The next page is read once the rows drawn come this close to the end
+const LOAD_AHEAD = 10;
+
+// The company list, drawing only the rows near the scroll position so thousands of cards stay quick
+function CardList({ cards, selectedId, dueToday, hasMore, loadingMore, onSelect, onLoadMore, onShow }: CardListProps) {
+  const [scrollTop, setScrollTop] = useState(0);
+  const first = Math.max(0, Math.floor(scrollTop / ROW_HEIGHT) - OVERSCAN);
+  const last = Math.min(cards.length, first + Math.ceil(LIST_HEIGHT / ROW_HEIGHT) + 1 + 2 * OVERSCAN);
+  const drawn = cards.slice(first, last);
+
+  useEffect(() => {
+    onShow(drawn);
+  }, [cards, first, last]);
+
+  // Searches and filters that match few cards keep reading pages until the list is full or the vault runs out
+  useEffect(() => {
+    if (hasMore && !loadingMore && last >= cards.length - LOAD_AHEAD) onLoadMore();
+  }, [hasMore, loadingMore, last, cards.length]);
+
+  return (
+    <div className="max-h-96 overflow-y-auto pr-2" onScroll={e => setScrollTop(e.currentTarget.scrollTop)}>
+      <ul className="relative" style={{ height: cards.length * ROW_HEIGHT }}>
+        {drawn.map((company, index) => {
+          const due = dueToday ? dueToday.filter(entry => entry.card.id === company.id) : [];
+          return (
+            <li
+              key={company.id}
+              aria-posinset={first + index + 1}
+              aria-setsize={hasMore ? -1 : cards.length}
+              style={{ top: (first + index) * ROW_HEIGHT, height: ROW_HEIGHT - ROW_GAP }}
+              className={`absolute inset-x-0 p-4 rounded-lg cursor-pointer overflow-hidden transition duration-200 ease-in-out transform hover:scale-[1.01]
+                          ${selectedId === company.id ? 'bg-indigo-100 border-indigo-500 shadow-md' : 'bg-white border border-gray-200 hover:bg-gray-100'}`}
+              onClick={() => onSelect(company)}
+            >
+              <div className="flex items-baseline gap-2 min-w-0">
+                <h3 dir="auto" className="text-lg font-semibold text-gray-900 truncate">{company.companyName || 'N/A'}</h3>
+                {company.companyNameLatin && <span className="text-xs text-gray-500 truncate">{company.companyNameLatin}</span>}
+              </div>
+              <p dir="auto" className="text-sm text-gray-600 truncate">{company.contactPerson || 'No Contact'}</p>
+              <div className="flex flex-nowrap gap-1 mt-1 overflow-hidden text-xs whitespace-nowrap">
+                {due.map(({ reminder }) => (
+                  <span key={reminder.id} className="text-red-600">
+                    Due {reminder.dueDate}{reminder.note ? `: ${reminder.note}` : ''}
+                  </span>
+                ))}
+                {company.tags?.map(tag => (
+                  <span key={tag} className="bg-indigo-50 text-indigo-700 rounded-full px-2">{tag}</span>
+                ))}
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+      {(hasMore || loadingMore) && <p className="text-xs text-gray-500 text-center py-2">Loading more cards...</p>}
+    </div>
+  );
+}
+
+export default CardList;
@@ -0,0 +1,69 @@
+'use client';
+
+import React, { useState } from 'react';
+import { normalizeTag, sameTag } from '../lib/activity';
+
+interface CardTagsProps {
+  cardId: string;
+  tags: string[];
+  knownTags: string[];
+  canEdit: boolean;
+  onAdd: (tag: string) => void;
+  onRemove: (tag: string) => void;
+  onSelect: (tag: string) => void;
+}
+
+// Tag chips for the selected card, with an input that suggests tags already used in the vault
+function CardTags({ cardId, tags, knownTags, canEdit, onAdd, onRemove, onSelect }: CardTagsProps) {
+  const [draft, setDraft] = useState('');
+  const suggestions = knownTags.filter(tag => !tags.some(existing => sameTag(existing, tag)));
+
+  const handleSubmit = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const tag = normalizeTag(draft);
+    if (!tag) return;
+    // Reuse the vault's spelling of a tag that only differs in case or accents
+    const known = knownTags.find(existing => sameTag(existing, tag));
+    if (!tags.some(existing => sameTag(existing, tag))) onAdd(known || tag);
+    setDraft('');
+  };
+
+  return (
+    <div>
+      <p className="text-sm font-medium text-gray-500">Tags:</p>
+      <div className="flex flex-wrap items-center gap-2 mt-1">
+        {tags.length === 0 && !canEdit && <p className="text-lg text-gray-800">None</p>}
+        {tags.map(tag => (
+          <span key={tag} className="inline-flex items-center gap-1 bg-indigo-100 text-indigo-800 rounded-full px-3 py-1 text-sm">
+            <button type="button" onClick={() => onSelect(tag)} className="hover:underline" title={`Show cards tagged "${tag}"`}>
+              {tag}
+            </button>
+            {canEdit && (
+              <button type="button" onClick={() => onRemove(tag)} aria-label={`Remove tag ${tag}`} className="text-indigo-500 hover:text-red-600">
+                &times;
+              </button>
+            )}
+          </span>
+        ))}
+        {canEdit && (
+          <form onSubmit={handleSubmit} className="flex gap-2">
+            <input
+              type="text"
+              value={draft}
+              onChange={e => setDraft(e.target.value)}
+              list={`tag-suggestions-${cardId}`}
+              placeholder="Add tag"
+              aria-label="Add tag"
+              className="w-32 border border-gray-300 rounded-md shadow-sm px-2 py-1 text-sm focus:ring-indigo-500 focus:border-indigo-500"
+            />
+            <datalist id={`tag-suggestions-${cardId}`}>
+              {suggestions.map(tag => <option key={tag} value={tag} />)}
+            </datalist>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default CardTags;
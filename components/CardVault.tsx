@@ -0,0 +1,1107 @@
+'use client';
+
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { sendEmailVerification, signOut, User } from 'firebase/auth';
+import { CARD_SIDES, CardImages, CardSide, CompanyData } from '../lib/types';
+import { Backend } from '../lib/backend';
+import { cardImagePath } from '../lib/blobStore';
+import { canEditCards, PERSONAL_VAULT_ID, personalVault, VIEW_ONLY_MESSAGE } from '../lib/workspaces';
+import { getFieldFlags, markEditedFields, normalizeCardData } from '../lib/validation';
+import { QueuedImage, useExtractionQueue } from '../lib/useExtractionQueue';
+import { applyListView, filterCards, isFiltered } from '../lib/search';
+import { useListView } from '../lib/useListView';
+import { useCards } from '../lib/useCards';
+import { useWorkspaces } from '../lib/useWorkspaces';
+import { OpenVault, useCardChanges } from '../lib/useCardChanges';
+import { useEnrichment } from '../lib/useEnrichment';
+import { useTrash } from '../lib/useTrash';
+import { useCardReview } from '../lib/useCardReview';
+import { useImportExport } from '../lib/useImportExport';
+import { VCardVersion } from '../lib/vcard';
+import { registerServiceWorker, removeUrlParam, SHARED_PARAM, takeSharedImages } from '../lib/pwa';
+import { changedFields } from '../lib/sync';
+import { EXTRACTOR_LABELS } from '../lib/extraction';
+import { withContactLists } from '../lib/contactFields';
+import { CARD_SCHEMA_VERSION } from '../lib/migrations';
+import { collectTags, dueReminders, localDateKey, openReminders } from '../lib/activity';
+import { vaultRef } from '../lib/integrations';
+import { integrationsEnabled } from '../lib/integrationsClient';
+import { needsEnrichment } from '../lib/enrichment';
+import { cardLabel, fieldChanges, storedFieldValue, TRASH_RETENTION_DAYS } from '../lib/history';
+import { DEFAULT_EXTRACTION_SETTINGS, ExtractionSettings, loadExtractionSettings, saveExtractionSettings } from '../lib/extractionSettings';
+import { prepareQueuedImages } from '../lib/cardCapture';
+import { describeAuthError, refreshEmailVerification } from '../lib/auth';
+import ReviewModal from './ReviewModal';
+import UploadQueue from './UploadQueue';
+import ImageViewer from './ImageViewer';
+import CompanyFilters from './CompanyFilters';
+import CardList from './CardList';
+import AuthModal from './AuthModal';
+import CameraCapture from './CameraCapture';
+import WorkspaceSwitcher from './WorkspaceSwitcher';
+import WorkspaceModal from './WorkspaceModal';
+import MergeDialog from './MergeDialog';
+import CsvImportModal from './CsvImportModal';
+import CsvExportModal from './CsvExportModal';
+import SyncStatus from './SyncStatus';
+import ExtractionSettingsModal from './ExtractionSettingsModal';
+import ContactFieldsEditor from './ContactFieldsEditor';
+import CardDetailFields from './CardDetailFields';
+import CardTags from './CardTags';
+import CardActivity from './CardActivity';
+import CompanySuggestions from './CompanySuggestions';
+import HistoryModal from './HistoryModal';
+import TrashModal from './TrashModal';
+import IntegrationsModal from './IntegrationsModal';
+
+interface CardVaultProps {
+  // Called once, in the browser, to connect to storage and sign-in (see lib/backend.ts)
+  createBackend: () => Backend;
+}
+
+// The whole app: the open vault's cards, uploads and extraction, editing, sharing and workspaces. The
+// work behind each part lives in the hooks in lib/ (useWorkspaces, useCards, useCardChanges,
+// useCardReview, useTrash, useEnrichment, useImportExport); this component holds the dialogs' state.
+function CardVault({ createBackend }: CardVaultProps) {
+  const [backend, setBackend] = useState<Backend | null>(null);
+  const auth = backend?.auth ?? null;
+  const blobStore = backend?.blobStore ?? null;
+  const [userId, setUserId] = useState<string | null>(null);
+  const [authUser, setAuthUser] = useState<User | null>(null);
+  // Kept apart from authUser, which Firebase updates in place when the user is reloaded
+  const [emailVerified, setEmailVerified] = useState(false);
+  const [showAuthModal, setShowAuthModal] = useState(false);
+  // Cards the guest had when they opened the sign-in dialog, copied over if they sign in to another account
+  const guestCardsRef = useRef<CompanyData[]>([]);
+
+  const [showWorkspaceModal, setShowWorkspaceModal] = useState(false);
+  const [showCreateWorkspace, setShowCreateWorkspace] = useState(false);
+  const [newWorkspaceName, setNewWorkspaceName] = useState('');
+  const [isAuthReady, setIsAuthReady] = useState(false);
+  const [selectedCompany, setSelectedCompany] = useState<CompanyData | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [message, setMessage] = useState('');
+  const [showTrash, setShowTrash] = useState(false);
+  const [showIntegrations, setShowIntegrations] = useState(false);
+  // The card whose history is open, or 'vault' for the whole vault's activity log
+  const [historyFor, setHistoryFor] = useState<CompanyData | 'vault' | null>(null);
+  const [showEditModal, setShowEditModal] = useState(false);
+  const [editFormData, setEditFormData] = useState<Partial<CompanyData>>({});
+  const [isDragging, setIsDragging] = useState(false);
+  const [extractionSettings, setExtractionSettings] = useState<ExtractionSettings>(DEFAULT_EXTRACTION_SETTINGS);
+  const [showExtractionSettings, setShowExtractionSettings] = useState(false);
+  const extractionQueue = useExtractionQueue(backend?.extraction ?? null, extractionSettings, userId);
+  const listView = useListView();
+  const [viewerSide, setViewerSide] = useState<CardSide | null>(null);
+  const backImageInputRef = useRef<HTMLInputElement>(null);
+  const vcardInputRef = useRef<HTMLInputElement>(null);
+  const spreadsheetInputRef = useRef<HTMLInputElement>(null);
+
+  // State for camera functionality
+  const [showCameraModal, setShowCameraModal] = useState(false);
+  const [twoSidedUploads, setTwoSidedUploads] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // Connect to the backend and set up the auth listener
+  useEffect(() => {
+    try {
+      const connected = createBackend();
+      setBackend(connected);
+
+      return connected.watchUser((user) => {
+        setUserId(user?.uid || null);
+        setAuthUser(user);
+        setEmailVerified(!!user?.emailVerified);
+        if (user) setIsAuthReady(true);
+      }, (error) => {
+        // Without an account the vault can't be opened, so don't invent a user id
+        setMessage(`Authentication failed: ${error.message}`);
+        setIsAuthReady(true);
+      });
+    } catch (error) {
+      console.error("Error initializing Firebase:", error);
+      setMessage(`Firebase initialization failed: ${error.message}`);
+    }
+  }, []);
+
+  const {
+    vaults,
+    activeVault,
+    selectVault,
+    invitations,
+    acceptInvitation,
+    declineInvitation,
+    createWorkspace,
+    uploaderLabels,
+  } = useWorkspaces(backend, authUser, emailVerified, setMessage);
+  const canEdit = canEditCards(activeVault?.role);
+  // Cards are only read and written through the open vault's repository; null until it can be opened
+  const repository = useMemo(
+    () => (backend && isAuthReady && activeVault ? backend.cardRepository(activeVault) : null),
+    [backend, isAuthReady, activeVault?.cardsPath]
+  );
+  const {
+    companies,
+    trashedCards,
+    dueCards,
+    selectedCard: syncedSelectedCard,
+    totalCount,
+    hasMore: morePages,
+    loadingMore: loadingPages,
+    loadMore,
+    showCards,
+    hasPendingWrites,
+    trackEdit,
+    forgetEdit,
+  } = useCards(repository, { sort: listView.view.sort, dir: listView.view.dir }, selectedCompany?.id ?? null, canEdit, setMessage);
+
+  const open: OpenVault = {
+    backend,
+    vault: activeVault,
+    repository,
+    user: authUser,
+    canEdit,
+    online: extractionQueue.online,
+    setMessage,
+    setLoading,
+  };
+  const deselect = (cardId: string) => setSelectedCompany(prev => (prev?.id === cardId ? null : prev));
+  const changes = useCardChanges(open, [...companies, ...trashedCards], deselect);
+  const enrichment = useEnrichment(open, changes);
+  const trash = useTrash(open, trashedCards, changes, deselect);
+  const review = useCardReview(open, extractionQueue, vaults, companies, changes, enrichment, card =>
+    setSelectedCompany(prev => (prev?.id === card.id ? card : prev))
+  );
+  const transfer = useImportExport(open, listView.view, uploaderLabels, changes);
+
+  useEffect(() => {
+    setExtractionSettings(loadExtractionSettings());
+  }, []);
+
+  useEffect(() => {
+    setSelectedCompany(null);
+  }, [activeVault?.id]);
+
+  const handleSaveExtractionSettings = (settings: ExtractionSettings) => {
+    setExtractionSettings(settings);
+    saveExtractionSettings(settings);
+    setShowExtractionSettings(false);
+    setMessage(`Cards will be read with ${EXTRACTOR_LABELS[settings.provider]}.`);
+  };
+
+  // Cards this user added to the old shared list move into their private vault
+  useEffect(() => {
+    if (!backend || !userId) return;
+    backend.importLegacyCards(userId)
+      .then(count => {
+        if (count) setMessage(`Moved ${count} card(s) you added to the old shared list into your private vault.`);
+      })
+      .catch(error => console.error("Error moving cards from the old shared list:", error));
+  }, [backend, userId]);
+
+  // Invitations sent by email are only shown once the address is verified
+  const awaitingVerification = !!authUser && !authUser.isAnonymous && !!authUser.email && !emailVerified;
+
+  const handleResendVerification = async () => {
+    if (!authUser) return;
+    try {
+      await sendEmailVerification(authUser);
+      setMessage(`Sent a verification link to ${authUser.email}.`);
+    } catch (error) {
+      console.error("Error sending verification email:", error);
+      setMessage(`Could not send the verification email: ${describeAuthError(error)}`);
+    }
+  };
+
+  const handleCheckVerification = async () => {
+    if (!authUser) return;
+    try {
+      const verified = await refreshEmailVerification(authUser);
+      setEmailVerified(verified);
+      setMessage(verified ? `${authUser.email} is verified.` : `${authUser.email} isn't verified yet. Follow the link in the email we sent.`);
+    } catch (error) {
+      console.error("Error checking email verification:", error);
+      setMessage(`Could not check verification: ${error.message}`);
+    }
+  };
+
+  const handleCreateWorkspace = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const name = newWorkspaceName.trim();
+    if (!name) return;
+    try {
+      setLoading(true);
+      await createWorkspace(name);
+      setMessage(`Workspace "${name}" created.`);
+      setShowCreateWorkspace(false);
+      setNewWorkspaceName('');
+    } catch (error) {
+      console.error("Error creating workspace:", error);
+      setMessage(`Error creating workspace: ${error.message}`);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    registerServiceWorker();
+  }, []);
+
+  // Photos shared from another app arrive through the service worker; queue them once the vault is open
+  const activeVaultReady = !!activeVault;
+  useEffect(() => {
+    if (!activeVaultReady || !new URLSearchParams(window.location.search).has(SHARED_PARAM)) return;
+    removeUrlParam(SHARED_PARAM);
+    takeSharedImages()
+      .then(images => {
+        if (images.length === 0) {
+          setMessage('The shared photos could not be received. Open CardVault once while online, then share again.');
+          return;
+        }
+        prepareImages(images);
+      })
+      .catch(error => {
+        console.error("Error reading shared photos:", error);
+        setMessage(`Could not open the shared photos: ${error.message}`);
+      });
+  }, [activeVaultReady]);
+
+  // Crop and straighten uploaded or shared photos before queueing them. Camera photos are already
+  // cropped by CameraCapture.
+  const prepareImages = async (images: QueuedImage[]) => {
+    if (!canEdit || images.length === 0) {
+      processImageData(images);
+      return;
+    }
+    processImageData(await prepareQueuedImages(images, extractionSettings.autoCrop));
+  };
+
+  // Queue captured or uploaded images for extraction
+  const processImageData = (images: QueuedImage[]) => {
+    if (!canEdit) {
+      setMessage(VIEW_ONLY_MESSAGE);
+      return;
+    }
+    if (images.length === 0) {
+      setMessage('No image files selected.');
+      return;
+    }
+    extractionQueue.enqueue(images.map(image => ({ ...image, vaultId: activeVault?.id })));
+    if (!extractionQueue.online && extractionQueue.offlineCapable) {
+      setMessage(`You're offline. Reading ${images.length === 1 ? 'the card' : `${images.length} cards`} on this device; changes sync when you're back online.`);
+      return;
+    }
+    if (!extractionQueue.online) {
+      setMessage(`You're offline. ${images.length === 1 ? 'The card' : `${images.length} cards`} will be extracted and saved when you're back online.`);
+      return;
+    }
+    setMessage(images.length === 1 ? 'Extracting information...' : `Extracting ${images.length} cards...`);
+  };
+
+  // With two-sided uploads on, files are paired in the order they were picked: front, back, front, back...
+  const toQueuedImages = (files: FileList | null): QueuedImage[] => {
+    const images = Array.from(files || [])
+      .filter(file => file.type.startsWith('image/'))
+      .map(file => ({ image: file, fileName: file.name, mimeType: file.type || 'image/jpeg' }));
+    if (!twoSidedUploads) return images;
+    const pairs: QueuedImage[] = [];
+    for (let i = 0; i < images.length; i += 2) {
+      const back = images[i + 1];
+      pairs.push(back ? { ...images[i], back: { image: back.image, mimeType: back.mimeType } } : images[i]);
+    }
+    return pairs;
+  };
+
+  // Handler for file input change
+  const handleFileInputChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    prepareImages(toQueuedImages(event.target.files));
+    if (fileInputRef.current) {
+      fileInputRef.current.value = '';
+    }
+  };
+
+  const handleDragOver = (event: React.DragEvent<HTMLElement>) => {
+    event.preventDefault();
+    setIsDragging(true);
+  };
+
+  const handleDragLeave = (event: React.DragEvent<HTMLElement>) => {
+    if (!event.currentTarget.contains(event.relatedTarget as Node)) {
+      setIsDragging(false);
+    }
+  };
+
+  const handleDrop = (event: React.DragEvent<HTMLElement>) => {
+    event.preventDefault();
+    setIsDragging(false);
+    prepareImages(toQueuedImages(event.dataTransfer.files));
+  };
+
+  const handleCameraCapture = (image: QueuedImage) => {
+    setShowCameraModal(false);
+    processImageData([image]);
+  };
+
+
+  const handleSelectCompany = (company: CompanyData) => {
+    setSelectedCompany(company);
+  };
+
+
+  // Attaches a photo of the back of the card to an existing record
+  const handleBackImageChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (backImageInputRef.current) {
+      backImageInputRef.current.value = '';
+    }
+    if (!file || !selectedCompany || !repository || !blobStore) return;
+    if (!canEdit) {
+      setMessage(VIEW_ONLY_MESSAGE);
+      return;
+    }
+
+    try {
+      setLoading(true);
+      setMessage('Uploading back image...');
+      const mimeType = file.type || 'image/jpeg';
+      const back = await blobStore.put(cardImagePath(activeVault.storagePrefix, selectedCompany.id, 'back', mimeType), file, mimeType);
+      const images: CardImages = { ...(selectedCompany.images || {}), back };
+      await repository.updateCard(selectedCompany.id, { images });
+      setSelectedCompany({ ...selectedCompany, images });
+      setMessage('Back image saved.');
+    } catch (error) {
+      console.error("Error uploading back image:", error);
+      setMessage(`Error uploading image: ${error.message}`);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleEditClick = (company: CompanyData) => {
+    if (!canEdit) {
+      setMessage(VIEW_ONLY_MESSAGE);
+      return;
+    }
+    setEditFormData(withContactLists(company));
+    setShowEditModal(true);
+  };
+
+  const handleEditSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    if (!canEdit) {
+      setMessage(VIEW_ONLY_MESSAGE);
+      setShowEditModal(false);
+      return;
+    }
+    if (repository && editFormData.id) {
+      try {
+        setLoading(true);
+        const original = editingOriginal || (editFormData as CompanyData);
+        const updatedFields = normalizeCardData({
+          companyName: editFormData.companyName,
+          companyNameLatin: editFormData.companyNameLatin,
+          contactPerson: editFormData.contactPerson,
+          contactPersonLatin: editFormData.contactPersonLatin,
+          jobTitle: editFormData.jobTitle,
+          phoneNumber: editFormData.phoneNumber,
+          email: editFormData.email,
+          website: editFormData.website,
+          address: editFormData.address,
+          phones: editFormData.phones,
+          emails: editFormData.emails,
+          socialProfiles: editFormData.socialProfiles,
+          postalAddress: editFormData.postalAddress,
+        });
+        // Only changed fields are written, so edits to other fields made elsewhere are kept (see lib/sync.ts)
+        const fields = changedFields(original, updatedFields);
+        if (fields.length === 0) {
+          setMessage('No changes to save.');
+          return;
+        }
+        const update: Partial<CompanyData> = { schemaVersion: CARD_SCHEMA_VERSION };
+        const writes: Record<string, unknown> = {};
+        fields.forEach(field => {
+          Object.assign(update, { [field]: updatedFields[field] });
+          writes[field] = storedFieldValue(field, updatedFields[field]);
+        });
+        if (original.extraction) {
+          update.extraction = markEditedFields(original.extraction, original, editFormData);
+        }
+        const label = cardLabel(original);
+        trackEdit({ cardId: original.id, baseRevision: original.revision || 0, fields, label });
+        const entry = await changes.commit(original, 'edit', { ...update, ...writes }, fieldChanges(original, updatedFields, fields), {}, (error) => {
+          // Usually means the card was purged from the trash on another device
+          console.error("Error updating document:", error);
+          forgetEdit(original.id);
+          setMessage(`Your offline edit to "${label}" could not be synced: ${error.message}`);
+        });
+        changes.announce(entry, extractionQueue.online ? 'Company card updated successfully!' : 'Card updated on this device. It will sync when you are back online.');
+        setSelectedCompany({ ...original, ...update, revision: (original.revision || 0) + 1 } as CompanyData);
+        if (needsEnrichment({ ...original, ...update })) enrichment.enrichCard({ ...original, ...update });
+      } catch (error) {
+        console.error("Error updating document:", error);
+        setMessage(`Error updating card: ${error.message}`);
+      } finally {
+        setLoading(false);
+        setShowEditModal(false);
+      }
+    }
+  };
+
+  const openAuthModal = () => {
+    guestCardsRef.current = [];
+    setShowAuthModal(true);
+    if (!authUser?.isAnonymous || !repository) return;
+    transfer.readAllCards()
+      .then(cards => { guestCardsRef.current = cards; })
+      .catch(error => console.error("Error reading guest cards:", error));
+  };
+
+  // Signing in to an existing account from a guest session leaves the guest vault behind, so copy its cards across
+  const handleSignedIn = async (previousUser: User | null, user: User) => {
+    setShowAuthModal(false);
+    // Linking a guest account keeps its uid, so the auth listener doesn't fire
+    setEmailVerified(user.emailVerified);
+    const guestCards = guestCardsRef.current;
+    guestCardsRef.current = [];
+    if (!backend || !previousUser?.isAnonymous || previousUser.uid === user.uid || guestCards.length === 0) {
+      setMessage(`Signed in as ${user.email || user.displayName || user.uid}.`);
+      return;
+    }
+
+    try {
+      setLoading(true);
+      setMessage(`Moving ${guestCards.length} guest card(s) into your account...`);
+      await backend.cardRepository(personalVault(backend.appId, user.uid)).createCards(guestCards.map(card => ({ ...card, uploadedBy: user.uid }))).write;
+      setMessage(`Signed in and moved ${guestCards.length} guest card(s) into your account.`);
+    } catch (error) {
+      console.error("Error moving guest cards:", error);
+      setMessage(`Signed in, but guest cards could not be moved: ${error.message}`);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSignOut = async () => {
+    if (!auth) return;
+    try {
+      setSelectedCompany(null);
+      // Scans queued on this device are the signed-out user's, so they don't stay for whoever is next
+      const discarded = extractionQueue.items.filter(item => item.status !== 'saved').length;
+      await extractionQueue.clear();
+      await signOut(auth);
+      setMessage(discarded ? `Signed out. ${discarded} unsaved scan(s) were removed from this device.` : 'Signed out.');
+    } catch (error) {
+      console.error("Error signing out:", error);
+      setMessage(`Sign-out failed: ${error.message}`);
+    }
+  };
+
+
+  const handleSpreadsheetFile = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (spreadsheetInputRef.current) spreadsheetInputRef.current.value = '';
+    if (file) transfer.openSpreadsheet(file);
+  };
+
+  const handleVCardImport = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files || []);
+    if (vcardInputRef.current) vcardInputRef.current.value = '';
+    transfer.importVCards(files);
+  };
+
+  // The list arrives in order from the repository, a page at a time, so it is only filtered here.
+  // What's due is read from the whole vault at once (see useCards), so that view is sorted here instead.
+  const dueView = !!listView.view.due;
+  const visibleCompanies = useMemo(
+    () => (dueView ? applyListView(dueCards, listView.view, userId) : filterCards(companies, listView.view, userId)),
+    [dueView, dueCards, companies, listView.view, userId]
+  );
+  const hasMore = morePages && !dueView;
+  const loadingMore = loadingPages && !dueView;
+  const uploaders = useMemo(
+    () => Array.from(new Set(companies.map(company => company.uploadedBy).filter(Boolean))),
+    [companies]
+  );
+  const knownTags = useMemo(() => collectTags(companies), [companies]);
+  const dueToday = useMemo(() => dueReminders(dueCards, localDateKey()), [dueCards]);
+  // The selected card as last synced, so notes and follow-ups added anywhere show up straight away
+  const selectedCard = selectedCompany ? syncedSelectedCard || selectedCompany : null;
+
+  const editingOriginal = selectedCard?.id === editFormData.id ? selectedCard : companies.find(company => company.id === editFormData.id);
+  const editFlags = getFieldFlags(
+    editFormData,
+    editingOriginal ? markEditedFields(editingOriginal.extraction, editingOriginal, editFormData) : editFormData.extraction
+  );
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-purple-50 to-indigo-100 p-4 font-sans text-gray-800 flex flex-col items-center">
+      <header className="w-full max-w-4xl text-center py-8">
+        <h1 className="text-5xl font-extrabold text-transparent bg-clip-text bg-gradient-to-r from-purple-600 to-indigo-700 mb-2 rounded-lg">
+          CardVault
+        </h1>
+        <p className="text-lg text-gray-600">Your Digital Rolodex for Company Cards</p>
+        {userId && (
+          <div className="text-sm text-gray-500 mt-2 flex flex-wrap justify-center items-center gap-2">
+            <span>
+              {authUser?.isAnonymous ? 'Guest' : (authUser?.email || authUser?.displayName)} · User ID: <span className="font-mono bg-gray-200 px-2 py-1 rounded-md">{userId}</span>
+            </span>
+            {authUser?.isAnonymous ? (
+              <button onClick={openAuthModal} className="font-semibold text-indigo-600 hover:underline">
+                Sign in or create account
+              </button>
+            ) : (
+              <button onClick={handleSignOut} className="font-semibold text-indigo-600 hover:underline">
+                Sign out
+              </button>
+            )}
+          </div>
+        )}
+        <div className="mt-2">
+          <SyncStatus
+            online={extractionQueue.online}
+            pendingWrites={hasPendingWrites}
+            queuedScans={extractionQueue.items.filter(item => ['pending', 'extracting', 'saving'].includes(item.status)).length}
+          />
+          <button onClick={() => setShowExtractionSettings(true)} className="ml-3 text-xs font-semibold text-indigo-600 hover:underline">
+            Card reading: {EXTRACTOR_LABELS[extractionSettings.provider]}
+          </button>
+          {integrationsEnabled && authUser && activeVault?.role === 'owner' && (
+            <button onClick={() => setShowIntegrations(true)} className="ml-3 text-xs font-semibold text-indigo-600 hover:underline">
+              Integrations
+            </button>
+          )}
+        </div>
+        {userId && (
+          <WorkspaceSwitcher
+            vaults={vaults}
+            activeVault={activeVault}
+            canCreate={!!authUser && !authUser.isAnonymous}
+            onSelect={selectVault}
+            onCreate={() => setShowCreateWorkspace(true)}
+            onManage={() => setShowWorkspaceModal(true)}
+          />
+        )}
+        {awaitingVerification && (
+          <div className="mt-3 inline-flex flex-wrap items-center justify-center gap-3 bg-yellow-50 border border-yellow-200 rounded-lg px-4 py-2 text-sm">
+            <span>Verify {authUser.email} to see workspace invitations sent to it.</span>
+            <button onClick={handleCheckVerification} className="font-semibold text-indigo-600 hover:underline">I&apos;ve verified it</button>
+            <button onClick={handleResendVerification} className="text-gray-500 hover:underline">Resend email</button>
+          </div>
+        )}
+        {invitations.map(invitation => (
+          <div key={invitation.id} className="mt-3 inline-flex flex-wrap items-center justify-center gap-3 bg-indigo-50 border border-indigo-200 rounded-lg px-4 py-2 text-sm">
+            <span>You&apos;ve been invited to <strong>{invitation.workspaceName}</strong> as {invitation.role}.</span>
+            <button onClick={() => acceptInvitation(invitation)} className="font-semibold text-indigo-600 hover:underline">Join</button>
+            <button onClick={() => declineInvitation(invitation)} className="text-gray-500 hover:underline">Dismiss</button>
+          </div>
+        ))}
+      </header>
+
+      <main className="w-full max-w-4xl bg-white rounded-xl shadow-2xl p-6 md:p-8 flex flex-col gap-6">
+        {/* Upload Section */}
+        <section
+          className={`border rounded-lg p-6 text-center shadow-inner transition ${isDragging ? 'bg-blue-100 border-blue-500 border-dashed' : 'bg-blue-50 border-blue-200'}`}
+          onDragOver={handleDragOver}
+          onDragLeave={handleDragLeave}
+          onDrop={handleDrop}
+        >
+          <h2 className="text-2xl font-semibold text-blue-800 mb-4">Upload Company Cards</h2>
+          {!canEdit && (
+            <p className="text-sm text-gray-600 mb-4">{VIEW_ONLY_MESSAGE}</p>
+          )}
+          <div className={`flex flex-col sm:flex-row justify-center gap-4 ${canEdit ? '' : 'hidden'}`}>
+            <label htmlFor="file-upload" className="cursor-pointer inline-block bg-blue-600 text-white py-3 px-6 rounded-full font-bold text-lg shadow-lg hover:bg-blue-700 transition duration-300 ease-in-out transform hover:scale-105">
+              Choose Images
+            </label>
+            <input
+              id="file-upload"
+              type="file"
+              accept="image/*"
+              multiple
+              onChange={handleFileInputChange}
+              ref={fileInputRef}
+              className="hidden"
+            />
+            <button
+              onClick={() => setShowCameraModal(true)}
+              className="inline-block bg-green-600 text-white py-3 px-6 rounded-full font-bold text-lg shadow-lg hover:bg-green-700 transition duration-300 ease-in-out transform hover:scale-105"
+            >
+              Take Picture
+            </button>
+          </div>
+          <label className={`mt-4 flex items-center justify-center gap-2 text-sm text-gray-700 ${canEdit ? '' : 'hidden'}`}>
+            <input type="checkbox" checked={twoSidedUploads} onChange={e => setTwoSidedUploads(e.target.checked)} />
+            Two-sided cards (pair the images as front, back, front, back...)
+          </label>
+
+          {loading && (
+            <div className="mt-4 flex items-center justify-center">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-500"></div>
+              <p className="ml-3 text-blue-700 font-medium">{message}</p>
+            </div>
+          )}
+          {!loading && message && (
+            <p className="mt-4 text-sm text-gray-700">
+              {message}
+              {changes.undoable && changes.undoable.message === message && (
+                <button onClick={() => changes.undo(changes.undoable.entry)} className="ml-2 font-semibold text-indigo-600 hover:underline">
+                  Undo
+                </button>
+              )}
+            </p>
+          )}
+          <p className="mt-2 text-xs text-gray-500">or drop card images anywhere in this box</p>
+
+          <UploadQueue
+            items={extractionQueue.items}
+            unflaggedCount={review.unflaggedItems.length}
+            onReview={review.openReview}
+            onRetry={extractionQueue.retry}
+            onRemove={extractionQueue.remove}
+            onClearFinished={extractionQueue.clearFinished}
+            onSaveAllUnflagged={review.saveAllUnflagged}
+            online={extractionQueue.online}
+          />
+        </section>
+
+        {/* Company List and Details */}
+        <section className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          {/* Company List */}
+          <div className="bg-gray-50 border border-gray-200 rounded-lg p-6 shadow-inner overflow-hidden">
+            <h2 className="text-2xl font-semibold text-gray-800 mb-4 flex justify-between items-center">
+              All Companies
+              <button
+                onClick={transfer.downloadCsv}
+                className="btn-primary text-white py-2 px-4 rounded-full text-sm font-semibold flex items-center gap-2"
+              >
+                <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor">
+                  <path fillRule="evenodd" d="M3 17a1 1 0 011-1h12a1 1 0 110 2H4a1 1 0 01-1-1zm3.293-7.707a1 1 0 011.414 0L9 10.586V3a1 1 0 112 0v7.586l1.293-1.293a1 1 0 111.414 1.414l-3 3a1 1 0 01-1.414 0l-3-3a1 1 0 010-1.414z" clipRule="evenodd" />
+                </svg>
+                Download CSV
+              </button>
+            </h2>
+            <div className="flex flex-wrap items-center gap-3 mb-4 text-sm">
+              <select
+                value={transfer.vcardVersion}
+                onChange={e => transfer.setVcardVersion(e.target.value as VCardVersion)}
+                aria-label="vCard version"
+                className="border border-gray-300 rounded-md py-1 px-2 bg-white"
+              >
+                <option value="3.0">vCard 3.0</option>
+                <option value="4.0">vCard 4.0</option>
+              </select>
+              <button onClick={transfer.downloadVCard} className="font-semibold text-indigo-600 hover:underline">
+                Export vCard
+              </button>
+              <button onClick={() => transfer.exportAllReminders(openReminders)} className="font-semibold text-indigo-600 hover:underline">
+                Export follow-ups (.ics)
+              </button>
+              <button onClick={() => setHistoryFor('vault')} className="font-semibold text-indigo-600 hover:underline">
+                Activity log
+              </button>
+              <button onClick={() => setShowTrash(true)} className="font-semibold text-indigo-600 hover:underline">
+                Trash{trashedCards.length > 0 ? ` (${trashedCards.length})` : ''}
+              </button>
+              {canEdit && (
+                <>
+                  <button onClick={() => vcardInputRef.current?.click()} disabled={loading} className="font-semibold text-indigo-600 hover:underline disabled:opacity-50">
+                    Import vCard
+                  </button>
+                  <input
+                    ref={vcardInputRef}
+                    type="file"
+                    accept=".vcf,.vcard,text/vcard,text/x-vcard"
+                    multiple
+                    onChange={handleVCardImport}
+                    className="hidden"
+                  />
+                  <button onClick={() => spreadsheetInputRef.current?.click()} disabled={loading} className="font-semibold text-indigo-600 hover:underline disabled:opacity-50">
+                    Import CSV/XLSX
+                  </button>
+                  <input
+                    ref={spreadsheetInputRef}
+                    type="file"
+                    accept=".csv,.tsv,.txt,.xlsx,text/csv,text/tab-separated-values,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+                    onChange={handleSpreadsheetFile}
+                    className="hidden"
+                  />
+                </>
+              )}
+            </div>
+            {companies.length > 0 && (
+              <CompanyFilters
+                view={listView.view}
+                uploaders={uploaders}
+                currentUserId={userId}
+                uploaderLabels={uploaderLabels}
+                tags={knownTags}
+                dueCount={dueToday.length}
+                onChange={listView.updateView}
+                onReset={listView.resetView}
+              />
+            )}
+            {listView.view.due && (
+              <div className="flex flex-wrap items-center justify-between gap-2 bg-amber-50 border border-amber-200 rounded-md p-3 mb-4 text-sm">
+                <span className="text-amber-800">
+                  {dueToday.length === 0 ? 'Nothing is due today.' : `${dueToday.length} follow-up${dueToday.length === 1 ? '' : 's'} due today or overdue.`}
+                </span>
+                {dueToday.length > 0 && (
+                  <button onClick={() => transfer.exportReminders(dueToday)} className="font-semibold text-indigo-600 hover:underline">
+                    Add to calendar (.ics)
+                  </button>
+                )}
+              </div>
+            )}
+            {companies.length === 0 && !hasMore && !loadingMore ? (
+              <p className="text-gray-500 italic">No company cards uploaded yet.</p>
+            ) : visibleCompanies.length === 0 && !hasMore && !loadingMore ? (
+              <p className="text-gray-500 italic">No cards match your search.</p>
+            ) : (
+              <CardList
+                cards={visibleCompanies}
+                selectedId={selectedCompany?.id ?? null}
+                dueToday={listView.view.due ? dueToday : null}
+                hasMore={hasMore}
+                loadingMore={loadingMore}
+                onSelect={handleSelectCompany}
+                onLoadMore={loadMore}
+                onShow={showCards}
+              />
+            )}
+            {totalCount !== null && (hasMore || isFiltered(listView.view)) && (
+              <p className="text-xs text-gray-500 mt-2">
+                {!isFiltered(listView.view)
+                  ? `${companies.length} of ${totalCount} cards loaded. Scroll down for more.`
+                  : hasMore
+                    ? `${visibleCompanies.length} match${visibleCompanies.length === 1 ? '' : 'es'} in the first ${companies.length} of ${totalCount} cards`
+                    : `Showing ${visibleCompanies.length} of ${totalCount} cards`}
+              </p>
+            )}
+          </div>
+
+          {/* Company Details */}
+          <div className="bg-white border border-gray-200 rounded-lg p-6 shadow-inner">
+            <h2 className="text-2xl font-semibold text-gray-800 mb-4">Company Details</h2>
+            {selectedCompany ? (
+              <div className="space-y-4">
+                <div className="flex items-center gap-3">
+                  {CARD_SIDES.map(side => selectedCompany.images?.[side] && (
+                    <button
+                      key={side}
+                      onClick={() => setViewerSide(side)}
+                      className="border border-gray-200 rounded-md overflow-hidden hover:ring-2 hover:ring-indigo-400"
+                      title={`View ${side} of card`}
+                    >
+                      {/* eslint-disable-next-line @next/next/no-img-element */}
+                      <img src={selectedCompany.images[side].url} alt={`Card ${side}`} className="h-20 w-32 object-cover" />
+                    </button>
+                  ))}
+                  {canEdit && !selectedCompany.images?.back && (
+                    <>
+                      <label htmlFor="back-image-upload" className="cursor-pointer text-sm font-semibold text-indigo-600 hover:underline">
+                        Add back image
+                      </label>
+                      <input
+                        id="back-image-upload"
+                        type="file"
+                        accept="image/*"
+                        onChange={handleBackImageChange}
+                        ref={backImageInputRef}
+                        className="hidden"
+                      />
+                    </>
+                  )}
+                </div>
+                <CardDetailFields card={selectedCompany} latest={selectedCard} />
+                <CompanySuggestions
+                  card={selectedCard}
+                  canEdit={canEdit}
+                  lookingUp={enrichment.lookupIds.includes(selectedCard.id)}
+                  onLookup={() => extractionQueue.online ? enrichment.enrichCard(selectedCard) : setMessage('Connect to the internet to look up company details.')}
+                  onAccept={fields => enrichment.accept(selectedCard, fields)}
+                  onDismiss={() => enrichment.dismiss(selectedCard)}
+                />
+                <CardTags
+                  cardId={selectedCard.id}
+                  tags={selectedCard.tags || []}
+                  knownTags={knownTags}
+                  canEdit={canEdit}
+                  onAdd={tag => changes.addTag(selectedCard, tag)}
+                  onRemove={tag => changes.removeTag(selectedCard, tag)}
+                  onSelect={tag => listView.updateView({ tag })}
+                />
+                {selectedCompany.uploadedBy && activeVault?.kind === 'workspace' && (
+                  <p className="text-xs text-gray-500">
+                    Added by {uploaderLabels[selectedCompany.uploadedBy] || selectedCompany.uploadedBy}
+                    {selectedCompany.timestamp ? ` on ${new Date(selectedCompany.timestamp).toLocaleDateString()}` : ''}
+                  </p>
+                )}
+                <button
+                  onClick={() => transfer.saveToContacts(selectedCompany)}
+                  className="text-sm font-semibold text-indigo-600 hover:underline"
+                >
+                  Save to phone contacts
+                </button>
+                <button
+                  onClick={() => setHistoryFor(selectedCompany)}
+                  className="ml-4 text-sm font-semibold text-indigo-600 hover:underline"
+                >
+                  View history
+                </button>
+                <div className={`flex gap-3 pt-4 ${canEdit ? '' : 'hidden'}`}>
+                  <button
+                    onClick={() => handleEditClick(selectedCompany)}
+                    className="btn-secondary py-2 px-4 rounded-full font-semibold text-sm shadow-md flex items-center gap-2"
+                  >
+                    <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" viewBox="0 0 20 20" fill="currentColor">
+                      <path d="M13.586 3.586a2 2 0 112.828 2.828l-7.793 7.793A2 2 0 017.07 14.92l-2.121.354a1 1 0 00-1.06 1.06l-.354 2.121a2 2 0 01-1.414 1.414l-7.793-7.793a2 2 0 01-2.828-2.828l7.793-7.793a2 2 0 012.828 0z" />
+                    </svg>
+                    Edit
+                  </button>
+                  <button
+                    onClick={() => trash.requestDelete(selectedCompany)}
+                    className="btn-danger text-white py-2 px-4 rounded-full font-semibold text-sm shadow-md flex items-center gap-2"
+                  >
+                    <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" viewBox="0 0 20 20" fill="currentColor">
+                      <path fillRule="evenodd" d="M9 2a1 1 0 00-.894.553L7.382 4H4a1 1 0 000 2v10a2 2 0 002 2h8a2 2 0 002-2V6a1 1 0 100-2h-3.382l-.724-1.447A1 1 0 0011 2H9zM7 8a1 1 0 011-1h4a1 1 0 110 2H8a1 1 0 01-1-1zm.002 6.75l1.5-3.5L10 14l1.5-3.5L13 14h-2.5l-1.5-3.5-1.5 3.5H7.002z" clipRule="evenodd" />
+                    </svg>
+                    Delete
+                  </button>
+                </div>
+                <CardActivity
+                  card={selectedCard}
+                  canEdit={canEdit}
+                  authorLabels={activeVault?.kind === 'workspace' ? uploaderLabels : null}
+                  onAddNote={text => changes.addNote(selectedCard, text)}
+                  onDeleteNote={note => changes.deleteNote(selectedCard, note)}
+                  onAddReminder={(dueDate, note) => changes.addReminder(selectedCard, dueDate, note)}
+                  onToggleReminder={(reminder, done) => changes.toggleReminder(selectedCard, reminder, done)}
+                  onDeleteReminder={reminder => changes.deleteReminder(selectedCard, reminder)}
+                  onExportReminder={reminder => transfer.exportReminders([{ card: selectedCard, reminder }])}
+                />
+              </div>
+            ) : (
+              <p className="text-gray-500 italic">Select a company from the list to view its details.</p>
+            )}
+          </div>
+        </section>
+      </main>
+
+      {/* Camera Modal */}
+      {showCameraModal && (
+        <CameraCapture
+          autoCrop={extractionSettings.autoCrop}
+          autoCapture={extractionSettings.autoCapture}
+          onCapture={handleCameraCapture}
+          onError={cameraError => { setMessage(cameraError); setShowCameraModal(false); }}
+          onClose={() => setShowCameraModal(false)}
+        />
+      )}
+
+      {/* Auth Modal */}
+      {showAuthModal && auth && (
+        <AuthModal
+          auth={auth}
+          onSignedIn={handleSignedIn}
+          onClose={() => setShowAuthModal(false)}
+        />
+      )}
+
+      {/* Workspace Members Modal */}
+      {showWorkspaceModal && backend?.workspaces && userId && activeVault?.kind === 'workspace' && (
+        <WorkspaceModal
+          workspaces={backend.workspaces}
+          workspace={activeVault}
+          userId={userId}
+          onLeft={() => { setShowWorkspaceModal(false); selectVault(PERSONAL_VAULT_ID); }}
+          onClose={() => setShowWorkspaceModal(false)}
+        />
+      )}
+
+      {/* Extraction Settings Modal */}
+      {showExtractionSettings && (
+        <ExtractionSettingsModal
+          settings={extractionSettings}
+          onSave={handleSaveExtractionSettings}
+          onClose={() => setShowExtractionSettings(false)}
+        />
+      )}
+
+      {/* Create Workspace Modal */}
+      {showCreateWorkspace && (
+        <div className="fixed inset-0 flex items-center justify-center z-50 modal-overlay">
+          <div className="bg-white p-8 rounded-lg shadow-xl max-w-sm w-full">
+            <h3 className="text-2xl font-semibold text-gray-800 mb-6">New Workspace</h3>
+            <form onSubmit={handleCreateWorkspace} className="space-y-4">
+              <div>
+                <label htmlFor="workspaceName" className="block text-sm font-medium text-gray-700">Name</label>
+                <input
+                  type="text"
+                  id="workspaceName"
+                  value={newWorkspaceName}
+                  onChange={e => setNewWorkspaceName(e.target.value)}
+                  required
+                  className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm p-2 focus:ring-indigo-500 focus:border-indigo-500"
+                />
+              </div>
+              <div className="flex justify-end gap-4 pt-4">
+                <button type="submit" disabled={loading} className="btn-primary text-white py-2 px-5 rounded-full font-semibold disabled:opacity-50">
+                  Create
+                </button>
+                <button type="button" onClick={() => setShowCreateWorkspace(false)} className="btn-secondary py-2 px-5 rounded-full font-semibold">
+                  Cancel
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+
+      {/* CSV Export Modal */}
+      {transfer.exportCards && (
+        <CsvExportModal
+          initialOptions={transfer.csvExportOptions}
+          totalCount={transfer.exportCards.length}
+          filteredCount={applyListView(transfer.exportCards, listView.view, userId).length}
+          onExport={transfer.exportCsv}
+          onClose={transfer.closeCsvExport}
+        />
+      )}
+
+      {/* CSV/XLSX Import Modal */}
+      {transfer.spreadsheetImport && (
+        <CsvImportModal
+          fileName={transfer.spreadsheetImport.fileName}
+          rows={transfer.spreadsheetImport.rows}
+          existing={transfer.spreadsheetImport.existing}
+          importing={loading}
+          onImport={transfer.importSpreadsheet}
+          onClose={transfer.closeSpreadsheetImport}
+        />
+      )}
+
+      {/* Image Viewer */}
+      {viewerSide && selectedCompany?.images && (
+        <ImageViewer
+          images={selectedCompany.images}
+          initialSide={viewerSide}
+          onClose={() => setViewerSide(null)}
+        />
+      )}
+
+      {/* Review Modal */}
+      {review.pendingReview && (
+        <ReviewModal
+          key={review.pendingReview.queueItemId}
+          review={review.pendingReview}
+          saving={review.savingReview}
+          onAccept={review.accept}
+          onDiscard={review.discard}
+          onClose={review.closeReview}
+        />
+      )}
+
+      {/* Duplicate Merge Dialog */}
+      {review.pendingReview && review.pendingMerge && (
+        <MergeDialog
+          incoming={normalizeCardData(review.pendingMerge.data)}
+          matches={review.pendingMerge.matches}
+          saving={review.savingReview}
+          onMerge={review.merge}
+          onSaveAsNew={review.saveMergeAsNew}
+          onCancel={review.cancelMerge}
+        />
+      )}
+
+      {/* Delete Confirmation Modal */}
+      {trash.cardToDelete && (
+        <div className="fixed inset-0 flex items-center justify-center z-50 modal-overlay">
+          <div className="bg-white p-8 rounded-lg shadow-xl max-w-sm w-full text-center">
+            <h3 className="text-xl font-semibold text-red-600 mb-4">Confirm Deletion</h3>
+            <p className="text-gray-700 mb-6">Move the card for "{trash.cardToDelete.companyName || 'this company'}" to the trash? You can restore it for {TRASH_RETENTION_DAYS} days.</p>
+            <div className="flex justify-center gap-4">
+              <button
+                onClick={trash.confirmDelete}
+                className="btn-danger text-white py-2 px-5 rounded-full font-semibold"
+              >
+                Delete
+              </button>
+              <button
+                onClick={trash.cancelDelete}
+                className="btn-secondary py-2 px-5 rounded-full font-semibold"
+              >
+                Cancel
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {historyFor && repository && activeVault && (
+        <HistoryModal
+          repository={repository}
+          card={historyFor === 'vault' ? undefined : historyFor}
+          authorLabels={activeVault.kind === 'workspace' ? uploaderLabels : null}
+          canEdit={canEdit}
+          onUndo={changes.undo}
+          onClose={() => setHistoryFor(null)}
+        />
+      )}
+
+      {showTrash && (
+        <TrashModal
+          cards={trashedCards}
+          canEdit={canEdit}
+          onRestore={trash.restore}
+          onPurge={trash.purge}
+          onClose={() => setShowTrash(false)}
+        />
+      )}
+
+      {showIntegrations && authUser && activeVault && (
+        <IntegrationsModal
+          user={authUser}
+          vault={vaultRef(activeVault, userId)}
+          vaultName={activeVault.name}
+          onClose={() => setShowIntegrations(false)}
+        />
+      )}
+
+      {/* Edit Modal */}
+      {showEditModal && (
+        <div className="fixed inset-0 flex items-center justify-center z-50 modal-overlay">
+          <div className="bg-white p-8 rounded-lg shadow-xl max-w-lg w-full max-h-full overflow-y-auto">
+            <h3 className="text-2xl font-semibold text-gray-800 mb-6">Edit Company Card</h3>
+            <form onSubmit={handleEditSubmit} className="space-y-4">
+              <ContactFieldsEditor
+                idPrefix="edit"
+                data={editFormData}
+                flags={editFlags}
+                onChange={data => setEditFormData(prev => ({ ...prev, ...data }))}
+              />
+              <div className="flex justify-end gap-4 pt-4">
+                <button
+                  type="submit"
+                  className="btn-primary text-white py-2 px-5 rounded-full font-semibold"
+                >
+                  Save Changes
+                </button>
+                <button
+                  type="button"
+                  onClick={() => setShowEditModal(false)}
+                  className="btn-secondary py-2 px-5 rounded-full font-semibold"
+                >
+                  Cancel
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default CardVault;
+
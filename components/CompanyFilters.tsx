@@ -0,0 +1,110 @@
+'use client';
+
+import React from 'react';
+import { DEFAULT_LIST_VIEW, ListView, SortKey } from '../lib/search';
+
+interface CompanyFiltersProps {
+  view: ListView;
+  uploaders: string[];
+  currentUserId: string | null;
+  uploaderLabels: Record<string, string>;
+  tags: string[];
+  dueCount: number;
+  onChange: (changes: Partial<ListView>) => void;
+  onReset: () => void;
+}
+
+const SORT_LABELS: Record<SortKey, string> = {
+  date: 'Date added',
+  companyName: 'Company name',
+  contactPerson: 'Contact',
+};
+
+const inputClass = 'block w-full border border-gray-300 rounded-md shadow-sm p-2 text-sm focus:ring-indigo-500 focus:border-indigo-500';
+
+// Search box, uploader/tag/date filters, the due follow-ups toggle and sort controls for the company list
+function CompanyFilters({ view, uploaders, currentUserId, uploaderLabels, tags, dueCount, onChange, onReset }: CompanyFiltersProps) {
+  const isFiltered = (Object.keys(DEFAULT_LIST_VIEW) as (keyof ListView)[]).some(key => view[key] !== DEFAULT_LIST_VIEW[key]);
+
+  return (
+    <div className="space-y-2 mb-4">
+      <input
+        type="search"
+        value={view.q}
+        onChange={e => onChange({ q: e.target.value })}
+        placeholder="Search cards..."
+        aria-label="Search cards"
+        className={inputClass}
+      />
+      <div className="grid grid-cols-2 gap-2">
+        <select
+          value={view.uploader}
+          onChange={e => onChange({ uploader: e.target.value })}
+          aria-label="Filter by uploader"
+          className={inputClass}
+        >
+          <option value="">All uploaders</option>
+          {currentUserId && <option value="me">Me</option>}
+          {uploaders.filter(uploader => uploader !== currentUserId).map(uploader => (
+            <option key={uploader} value={uploader}>{uploaderLabels[uploader] || `${uploader.slice(0, 8)}…`}</option>
+          ))}
+        </select>
+        <div className="flex gap-2">
+          <select
+            value={view.sort}
+            onChange={e => onChange({ sort: e.target.value as SortKey })}
+            aria-label="Sort by"
+            className={inputClass}
+          >
+            {(Object.keys(SORT_LABELS) as SortKey[]).map(key => (
+              <option key={key} value={key}>{SORT_LABELS[key]}</option>
+            ))}
+          </select>
+          <button
+            type="button"
+            onClick={() => onChange({ dir: view.dir === 'asc' ? 'desc' : 'asc' })}
+            className="btn-secondary px-3 rounded-md text-sm font-semibold"
+            aria-label={view.dir === 'asc' ? 'Sort ascending' : 'Sort descending'}
+            title={view.dir === 'asc' ? 'Ascending' : 'Descending'}
+          >
+            {view.dir === 'asc' ? '↑' : '↓'}
+          </button>
+        </div>
+        <select
+          value={view.tag}
+          onChange={e => onChange({ tag: e.target.value })}
+          aria-label="Filter by tag"
+          className={inputClass}
+        >
+          <option value="">All tags</option>
+          {/* Keep a tag from a shared link selectable even if this vault doesn't use it */}
+          {view.tag && !tags.includes(view.tag) && <option value={view.tag}>{view.tag}</option>}
+          {tags.map(tag => <option key={tag} value={tag}>{tag}</option>)}
+        </select>
+        <button
+          type="button"
+          onClick={() => onChange({ due: view.due ? '' : 'today' })}
+          aria-pressed={!!view.due}
+          className={`${view.due ? 'btn-primary text-white' : 'btn-secondary'} px-3 rounded-md text-sm font-semibold`}
+        >
+          Due today{dueCount > 0 ? ` (${dueCount})` : ''}
+        </button>
+        <label className="text-xs text-gray-500">
+          From
+          <input type="date" value={view.from} onChange={e => onChange({ from: e.target.value })} className={inputClass} />
+        </label>
+        <label className="text-xs text-gray-500">
+          To
+          <input type="date" value={view.to} onChange={e => onChange({ to: e.target.value })} className={inputClass} />
+        </label>
+      </div>
+      {isFiltered && (
+        <button type="button" onClick={onReset} className="text-xs font-semibold text-indigo-600 hover:underline">
+          Clear search and filters
+        </button>
+      )}
+    </div>
+  );
+}
+
+export default CompanyFilters;
@@ -0,0 +1,76 @@
+'use client';
+
+import React from 'react';
+import { SOCIAL_NETWORK_LABELS } from '../lib/contactFields';
+import { hasSuggestions, needsEnrichment, pendingSuggestions, PROFILE_FIELD_LABELS, PROFILE_FIELDS, websiteDomain } from '../lib/enrichment';
+import { CompanyData, CompanyProfile } from '../lib/types';
+
+interface CompanySuggestionsProps {
+  card: CompanyData;
+  canEdit: boolean;
+  lookingUp: boolean;
+  onLookup: () => void;
+  onAccept: (fields: (keyof CompanyProfile)[]) => void;
+  onDismiss: () => void;
+}
+
+// Details found on the card's website, each waiting to be accepted, plus the lookup's progress
+function CompanySuggestions({ card, canEdit, lookingUp, onLookup, onAccept, onDismiss }: CompanySuggestionsProps) {
+  const domain = websiteDomain(card.website);
+  if (!domain || !canEdit) return null;
+  const pending = pendingSuggestions(card);
+  const fields = PROFILE_FIELDS.filter(field => pending[field] !== undefined);
+  const failed = !needsEnrichment(card) && card.enrichment.status === 'failed';
+
+  if (lookingUp) return <p className="text-sm text-gray-500 italic">Looking up {domain}…</p>;
+
+  if (needsEnrichment(card) || failed) {
+    return (
+      <p className="text-sm text-gray-500">
+        {failed && `Could not read ${domain}: ${card.enrichment.error} `}
+        <button type="button" onClick={onLookup} className="font-semibold text-indigo-600 hover:underline">
+          {failed ? 'Try again' : `Look up company details on ${domain}`}
+        </button>
+      </p>
+    );
+  }
+
+  if (!hasSuggestions(pending)) return null;
+
+  return (
+    <div className="border border-indigo-200 bg-indigo-50 rounded-lg p-4 space-y-3">
+      <p className="text-sm font-medium text-indigo-900">Suggested from {domain}:</p>
+      {fields.map(field => (
+        <div key={field} className="flex items-start gap-3">
+          <div className="flex-1 min-w-0">
+            <p className="text-xs font-medium text-gray-500">{PROFILE_FIELD_LABELS[field]}</p>
+            {field === 'logoUrl' && (
+              // eslint-disable-next-line @next/next/no-img-element
+              <img src={pending.logoUrl} alt={`${domain} logo`} referrerPolicy="no-referrer" className="h-12 max-w-[12rem] object-contain mt-1 bg-white rounded" />
+            )}
+            {field === 'description' && <p dir="auto" className="text-sm text-gray-800">{pending.description}</p>}
+            {field === 'socialProfiles' && pending.socialProfiles.map(profile => (
+              <p key={profile.value} className="text-sm text-gray-800 break-all">
+                <span className="text-xs text-gray-500 mr-2">{SOCIAL_NETWORK_LABELS[profile.network]}</span>
+                <a href={profile.value} target="_blank" rel="noopener noreferrer" className="hover:underline">{profile.value}</a>
+              </p>
+            ))}
+          </div>
+          <button type="button" onClick={() => onAccept([field])} className="text-sm font-semibold text-indigo-600 hover:underline">
+            Accept
+          </button>
+        </div>
+      ))}
+      <div className="flex gap-3">
+        <button type="button" onClick={() => onAccept(fields)} className="btn-secondary py-1 px-4 rounded-full font-semibold text-sm">
+          Accept all
+        </button>
+        <button type="button" onClick={onDismiss} className="text-sm font-semibold text-gray-600 hover:underline">
+          Dismiss
+        </button>
+      </div>
+    </div>
+  );
+}
+
+export default CompanySuggestions;
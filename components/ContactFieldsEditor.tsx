@@ -0,0 +1,201 @@
+'use client';
+
+import React from 'react';
+import {
+  ADDRESS_PART_LABELS,
+  ADDRESS_PARTS,
+  EMAIL_TYPE_LABELS,
+  EMAIL_TYPES,
+  PHONE_TYPE_LABELS,
+  PHONE_TYPES,
+  primaryPhone,
+  SOCIAL_NETWORK_LABELS,
+  SOCIAL_NETWORKS,
+  withPrimaryFields,
+} from '../lib/contactFields';
+import { needsLatinNames } from '../lib/scripts';
+import { ContactEmail, ContactPhone, ExtractedCardData, ExtractedField, FIELD_LABELS, PostalAddress, SocialProfile } from '../lib/types';
+import { FieldFlag, FieldFlags, validateField } from '../lib/validation';
+import FieldFlagNote, { flagBorderClass } from './FieldFlagNote';
+
+interface ContactFieldsEditorProps {
+  idPrefix: string;
+  data: ExtractedCardData;
+  flags: FieldFlags;
+  onChange: (data: ExtractedCardData) => void;
+}
+
+interface ListEntry {
+  value: string;
+}
+
+interface ListSectionProps<T extends ListEntry> {
+  id: string;
+  label: string;
+  addLabel: string;
+  entries: T[];
+  kindKey: keyof T;
+  kinds: string[];
+  kindLabels: Record<string, string>;
+  inputType: string;
+  newEntry: () => T;
+  entryFlag: (entry: T, index: number) => FieldFlag | undefined;
+  onChange: (entries: T[]) => void;
+}
+
+const SINGLE_FIELDS: ExtractedField[] = ['companyName', 'contactPerson', 'jobTitle', 'website'];
+
+// Shown under the original names only on cards that aren't in Latin script
+const LATIN_NAME_FIELDS: Partial<Record<ExtractedField, ExtractedField>> = {
+  companyName: 'companyNameLatin',
+  contactPerson: 'contactPersonLatin',
+};
+
+const inputClass = 'rounded-md shadow-sm p-2 focus:ring-indigo-500 focus:border-indigo-500';
+
+// One row per value, each with a type select and a remove button
+function ListSection<T extends ListEntry>({ id, label, addLabel, entries, kindKey, kinds, kindLabels, inputType, newEntry, entryFlag, onChange }: ListSectionProps<T>) {
+  const update = (index: number, changes: Partial<T>) =>
+    onChange(entries.map((entry, i) => (i === index ? { ...entry, ...changes } : entry)));
+
+  return (
+    <fieldset>
+      <legend className="block text-sm font-medium text-gray-700">{label}</legend>
+      {entries.map((entry, index) => {
+        const flag = entryFlag(entry, index);
+        return (
+          <div key={index}>
+            <div className="flex gap-2 mt-1">
+              <select
+                aria-label={`${label} ${index + 1} type`}
+                value={String(entry[kindKey])}
+                onChange={e => update(index, { [kindKey]: e.target.value } as Partial<T>)}
+                className={`border border-gray-300 text-sm ${inputClass}`}
+              >
+                {kinds.map(kind => <option key={kind} value={kind}>{kindLabels[kind]}</option>)}
+              </select>
+              <input
+                type={inputType}
+                dir="ltr"
+                id={index === 0 ? id : undefined}
+                aria-label={`${label} ${index + 1}`}
+                value={entry.value}
+                onChange={e => update(index, { value: e.target.value } as Partial<T>)}
+                className={`flex-1 min-w-0 border ${flagBorderClass(flag)} ${inputClass}`}
+              />
+              <button
+                type="button"
+                onClick={() => onChange(entries.filter((_, i) => i !== index))}
+                aria-label={`Remove ${label.toLowerCase()} ${index + 1}`}
+                className="px-2 text-gray-400 hover:text-red-600"
+              >
+                &times;
+              </button>
+            </div>
+            <FieldFlagNote flag={flag} />
+          </div>
+        );
+      })}
+      <button type="button" onClick={() => onChange([...entries, newEntry()])} className="mt-1 text-sm font-semibold text-indigo-600 hover:underline">
+        + {addLabel}
+      </button>
+    </fieldset>
+  );
+}
+
+// Card fields form shared by the review and edit dialogs. Every change re-derives the primary
+// phone, email and address, so flags and saves see the same values as the lists.
+function ContactFieldsEditor({ idPrefix, data, flags, onChange }: ContactFieldsEditorProps) {
+  const change = (changes: ExtractedCardData) => onChange(withPrimaryFields({ ...data, ...changes }));
+  const phones = data.phones || [];
+  const emails = data.emails || [];
+  const primaryPhoneIndex = phones.findIndex(phone => phone.value === primaryPhone(phones));
+
+  const changeAddress = (part: keyof PostalAddress, value: string) =>
+    change({ postalAddress: { ...(data.postalAddress || {}), [part]: value } });
+
+  const fields = needsLatinNames(data)
+    ? SINGLE_FIELDS.flatMap(field => (LATIN_NAME_FIELDS[field] ? [field, LATIN_NAME_FIELDS[field]] : [field]))
+    : SINGLE_FIELDS;
+
+  return (
+    <div className="space-y-4">
+      {fields.map(field => (
+        <div key={field}>
+          <label htmlFor={`${idPrefix}-${field}`} className="block text-sm font-medium text-gray-700">{FIELD_LABELS[field]}</label>
+          <input
+            type={field === 'website' ? 'url' : 'text'}
+            // Names and addresses may be right to left; a URL never is
+            dir={field === 'website' ? 'ltr' : 'auto'}
+            id={`${idPrefix}-${field}`}
+            name={field}
+            value={data[field] || ''}
+            onChange={e => change({ [field]: e.target.value })}
+            className={`mt-1 block w-full border ${flagBorderClass(flags[field])} ${inputClass}`}
+          />
+          <FieldFlagNote flag={flags[field]} />
+        </div>
+      ))}
+      <ListSection
+        id={`${idPrefix}-phones`}
+        label="Phone Numbers"
+        addLabel="Add phone number"
+        entries={phones}
+        kindKey="type"
+        kinds={PHONE_TYPES}
+        kindLabels={PHONE_TYPE_LABELS}
+        inputType="tel"
+        newEntry={(): ContactPhone => ({ type: phones.length === 0 ? 'work' : 'mobile', value: '' })}
+        // The primary number carries the extraction confidence; the others are only checked for validity
+        entryFlag={(phone, index) => (index === primaryPhoneIndex ? flags.phoneNumber : validateField('phoneNumber', phone.value) || undefined)}
+        onChange={entries => change({ phones: entries })}
+      />
+      <ListSection
+        id={`${idPrefix}-emails`}
+        label="Email Addresses"
+        addLabel="Add email address"
+        entries={emails}
+        kindKey="type"
+        kinds={EMAIL_TYPES}
+        kindLabels={EMAIL_TYPE_LABELS}
+        inputType="email"
+        newEntry={(): ContactEmail => ({ type: 'work', value: '' })}
+        entryFlag={(email, index) => (index === 0 ? flags.email : validateField('email', email.value) || undefined)}
+        onChange={entries => change({ emails: entries })}
+      />
+      <ListSection
+        id={`${idPrefix}-social`}
+        label="Social Profiles"
+        addLabel="Add social profile"
+        entries={data.socialProfiles || []}
+        kindKey="network"
+        kinds={SOCIAL_NETWORKS}
+        kindLabels={SOCIAL_NETWORK_LABELS}
+        inputType="text"
+        newEntry={(): SocialProfile => ({ network: 'linkedin', value: '' })}
+        entryFlag={() => undefined}
+        onChange={entries => change({ socialProfiles: entries })}
+      />
+      <fieldset>
+        <legend className="block text-sm font-medium text-gray-700">{FIELD_LABELS.address}</legend>
+        <div className="grid grid-cols-2 gap-2 mt-1">
+          {ADDRESS_PARTS.map(part => (
+            <input
+              key={part}
+              type="text"
+              dir="auto"
+              aria-label={ADDRESS_PART_LABELS[part]}
+              placeholder={ADDRESS_PART_LABELS[part]}
+              value={(data.postalAddress && data.postalAddress[part]) || ''}
+              onChange={e => changeAddress(part, e.target.value)}
+              className={`${part === 'street' ? 'col-span-2' : ''} border ${flagBorderClass(flags.address)} ${inputClass}`}
+            />
+          ))}
+        </div>
+        <FieldFlagNote flag={flags.address} />
+      </fieldset>
+    </div>
+  );
+}
+
+export default ContactFieldsEditor;
@@ -0,0 +1,120 @@
+'use client';
+
+import React, { useState } from 'react';
+import {
+  CSV_COLUMN_LABELS,
+  CSV_COLUMNS,
+  CSV_DATE_FORMAT_LABELS,
+  CSV_DELIMITER_LABELS,
+  CsvColumn,
+  CsvDateFormat,
+  CsvDelimiter,
+  CsvExportOptions,
+} from '../lib/csv';
+
+interface CsvExportModalProps {
+  initialOptions: CsvExportOptions;
+  totalCount: number;
+  filteredCount: number;
+  onExport: (options: CsvExportOptions, filteredOnly: boolean) => void;
+  onClose: () => void;
+}
+
+const selectClass = 'mt-1 block w-full border border-gray-300 rounded-md shadow-sm p-2 focus:ring-indigo-500 focus:border-indigo-500';
+
+// Column, delimiter and date format choices for the CSV download
+function CsvExportModal({ initialOptions, totalCount, filteredCount, onExport, onClose }: CsvExportModalProps) {
+  const [options, setOptions] = useState(initialOptions);
+  const [filteredOnly, setFilteredOnly] = useState(filteredCount < totalCount);
+
+  const toggleColumn = (column: CsvColumn, checked: boolean) => {
+    // Keep the columns in their usual order whatever order they are ticked in
+    setOptions(prev => ({
+      ...prev,
+      columns: CSV_COLUMNS.filter(candidate => (candidate === column ? checked : prev.columns.includes(candidate))),
+    }));
+  };
+
+  return (
+    <div className="fixed inset-0 flex items-center justify-center z-50 modal-overlay p-4">
+      <div className="bg-white p-8 rounded-lg shadow-xl max-w-md w-full max-h-full overflow-y-auto">
+        <h3 className="text-2xl font-semibold text-gray-800 mb-6">Download CSV</h3>
+
+        <fieldset className="mb-4">
+          <legend className="block text-sm font-medium text-gray-700 mb-1">Columns</legend>
+          <div className="grid grid-cols-2 gap-1">
+            {CSV_COLUMNS.map(column => (
+              <label key={column} className="flex items-center gap-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={options.columns.includes(column)}
+                  onChange={e => toggleColumn(column, e.target.checked)}
+                />
+                {CSV_COLUMN_LABELS[column]}
+              </label>
+            ))}
+          </div>
+        </fieldset>
+
+        <div className="space-y-4">
+          <label className="block text-sm font-medium text-gray-700">
+            Delimiter
+            <select
+              value={options.delimiter}
+              onChange={e => setOptions(prev => ({ ...prev, delimiter: e.target.value as CsvDelimiter }))}
+              className={selectClass}
+            >
+              {(Object.keys(CSV_DELIMITER_LABELS) as CsvDelimiter[]).map(delimiter => (
+                <option key={delimiter} value={delimiter}>{CSV_DELIMITER_LABELS[delimiter]}</option>
+              ))}
+            </select>
+          </label>
+          <label className="block text-sm font-medium text-gray-700">
+            Date format
+            <select
+              value={options.dateFormat}
+              onChange={e => setOptions(prev => ({ ...prev, dateFormat: e.target.value as CsvDateFormat }))}
+              className={selectClass}
+            >
+              {(Object.keys(CSV_DATE_FORMAT_LABELS) as CsvDateFormat[]).map(format => (
+                <option key={format} value={format}>{CSV_DATE_FORMAT_LABELS[format]}</option>
+              ))}
+            </select>
+          </label>
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={options.includeBom}
+              onChange={e => setOptions(prev => ({ ...prev, includeBom: e.target.checked }))}
+            />
+            Add a UTF-8 byte order mark (needed for Excel)
+          </label>
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={filteredOnly}
+              disabled={filteredCount === totalCount}
+              onChange={e => setFilteredOnly(e.target.checked)}
+            />
+            Only the {filteredCount} card{filteredCount === 1 ? '' : 's'} matching the current search and filters
+          </label>
+        </div>
+
+        <div className="flex justify-end gap-4 pt-6">
+          <button
+            onClick={() => onExport(options, filteredOnly)}
+            disabled={options.columns.length === 0}
+            className="btn-primary text-white py-2 px-5 rounded-full font-semibold disabled:opacity-50"
+          >
+            Download
+          </button>
+          <button onClick={onClose} className="btn-secondary py-2 px-5 rounded-full font-semibold">
+            Cancel
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default CsvExportModal;
@@ -0,0 +1,155 @@
+'use client';
+
+import React, { useMemo, useState } from 'react';
+import { CompanyData } from '../lib/types';
+import { findDuplicates } from '../lib/duplicates';
+import { normalizeCardData } from '../lib/validation';
+import { ColumnMapping, CSV_COLUMN_LABELS, guessColumnMapping, IMPORT_FIELDS, ImportField, ImportRow, mapImportRows } from '../lib/csv';
+
+interface CsvImportModalProps {
+  fileName: string;
+  rows: string[][];
+  existing: CompanyData[];
+  importing: boolean;
+  onImport: (rows: ImportRow[]) => void;
+  onClose: () => void;
+}
+
+// Rows shown in the preview; everything is still validated and imported
+const PREVIEW_ROWS = 50;
+
+// Column mapping, preview and per-row validation for a CSV or XLSX import
+function CsvImportModal({ fileName, rows, existing, importing, onImport, onClose }: CsvImportModalProps) {
+  const [hasHeader, setHasHeader] = useState(true);
+  const columnCount = Math.max(0, ...rows.map(row => row.length));
+  const headers = Array.from({ length: columnCount }, (_, i) => (hasHeader && rows[0]?.[i]?.trim()) || `Column ${i + 1}`);
+  const [mapping, setMapping] = useState<ColumnMapping>(() => guessColumnMapping(rows[0] || []));
+
+  const toggleHeader = (checked: boolean) => {
+    setHasHeader(checked);
+    setMapping(checked ? guessColumnMapping(rows[0] || []) : {});
+  };
+
+  const setColumn = (field: ImportField, value: string) => {
+    setMapping(prev => {
+      const next = { ...prev };
+      if (value === '') delete next[field];
+      else next[field] = Number(value);
+      return next;
+    });
+  };
+
+  // Errors block a row; rows matching a card in the vault or an earlier row are skipped as duplicates
+  const { importRows, duplicates } = useMemo(() => {
+    const mapped = mapImportRows(hasHeader ? rows.slice(1) : rows, mapping).map(row => ({
+      ...row,
+      rowNumber: hasHeader ? row.rowNumber : row.rowNumber - 1,
+    }));
+    const known: CompanyData[] = [...existing];
+    const duplicateRows = new Set<number>();
+    mapped.forEach(row => {
+      if (row.errors.length > 0) return;
+      const data = normalizeCardData(row.data);
+      if (findDuplicates(data, known).length > 0) {
+        duplicateRows.add(row.rowNumber);
+      } else {
+        known.push({ id: `row-${row.rowNumber}`, ...data });
+      }
+    });
+    return { importRows: mapped, duplicates: duplicateRows };
+  }, [rows, mapping, hasHeader, existing]);
+
+  const readyRows = importRows.filter(row => row.errors.length === 0 && !duplicates.has(row.rowNumber));
+  const errorCount = importRows.filter(row => row.errors.length > 0).length;
+  const mappedFields = IMPORT_FIELDS.filter(field => mapping[field] !== undefined);
+
+  return (
+    <div className="fixed inset-0 flex items-center justify-center z-50 modal-overlay p-4">
+      <div className="bg-white p-6 md:p-8 rounded-lg shadow-xl max-w-5xl w-full max-h-full overflow-y-auto">
+        <h3 className="text-2xl font-semibold text-gray-800 mb-1">Import Cards</h3>
+        <p className="text-sm text-gray-500 mb-6">{fileName}</p>
+
+        <h4 className="text-lg font-semibold text-gray-800 mb-2">Columns</h4>
+        <label className="flex items-center gap-2 text-sm text-gray-700 mb-3">
+          <input type="checkbox" checked={hasHeader} onChange={e => toggleHeader(e.target.checked)} />
+          First row is a header
+        </label>
+        <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-4 gap-3 mb-6">
+          {IMPORT_FIELDS.map(field => (
+            <label key={field} className="block text-sm font-medium text-gray-700">
+              {CSV_COLUMN_LABELS[field]}
+              <select
+                value={mapping[field] ?? ''}
+                onChange={e => setColumn(field, e.target.value)}
+                className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm p-2 text-sm focus:ring-indigo-500 focus:border-indigo-500"
+              >
+                <option value="">Don&apos;t import</option>
+                {headers.map((header, index) => (
+                  <option key={index} value={index}>{header}</option>
+                ))}
+              </select>
+            </label>
+          ))}
+        </div>
+
+        <h4 className="text-lg font-semibold text-gray-800 mb-2">Preview</h4>
+        <p className="text-sm text-gray-600 mb-2">
+          {readyRows.length} of {importRows.length} row{importRows.length === 1 ? '' : 's'} ready to import
+          {errorCount > 0 && `, ${errorCount} with errors`}
+          {duplicates.size > 0 && `, ${duplicates.size} already in the vault`}.
+        </p>
+        <div className="overflow-x-auto border border-gray-200 rounded-md mb-2">
+          <table className="min-w-full text-sm">
+            <thead className="bg-gray-50 text-left text-gray-600">
+              <tr>
+                <th className="p-2">Row</th>
+                {mappedFields.map(field => (
+                  <th key={field} className="p-2 whitespace-nowrap">{CSV_COLUMN_LABELS[field]}</th>
+                ))}
+                <th className="p-2">Status</th>
+              </tr>
+            </thead>
+            <tbody>
+              {importRows.slice(0, PREVIEW_ROWS).map(row => (
+                <tr key={row.rowNumber} className={`border-t border-gray-100 ${row.errors.length > 0 ? 'bg-red-50' : duplicates.has(row.rowNumber) ? 'bg-gray-50 text-gray-400' : ''}`}>
+                  <td className="p-2 text-gray-500">{row.rowNumber}</td>
+                  {mappedFields.map(field => (
+                    <td key={field} className="p-2 max-w-xs truncate">
+                      {field === 'timestamp'
+                        ? (row.timestamp ? new Date(row.timestamp).toLocaleDateString() : '')
+                        : row.cells[field]}
+                    </td>
+                  ))}
+                  <td className="p-2 text-xs">
+                    {row.errors.map(error => <p key={error} className="text-red-600">{error}</p>)}
+                    {row.errors.length === 0 && duplicates.has(row.rowNumber) && <p>Already in the vault</p>}
+                    {row.warnings.map(warning => <p key={warning} className="text-yellow-700">{warning}</p>)}
+                    {row.errors.length === 0 && !duplicates.has(row.rowNumber) && row.warnings.length === 0 && <p className="text-green-700">OK</p>}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+        {importRows.length > PREVIEW_ROWS && (
+          <p className="text-xs text-gray-500">Showing the first {PREVIEW_ROWS} rows; every row is checked before import.</p>
+        )}
+
+        <div className="flex justify-end gap-4 pt-6">
+          <button
+            onClick={() => onImport(readyRows)}
+            disabled={importing || readyRows.length === 0}
+            className="btn-primary text-white py-2 px-5 rounded-full font-semibold disabled:opacity-50"
+          >
+            Import {readyRows.length} Card{readyRows.length === 1 ? '' : 's'}
+          </button>
+          <button onClick={onClose} disabled={importing} className="btn-secondary py-2 px-5 rounded-full font-semibold">
+            Cancel
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default CsvImportModal;
@@ -0,0 +1,124 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { fetchExtractorStatus } from '../lib/extractClient';
+import { EXTRACTOR_LABELS } from '../lib/extraction';
+import { ExtractionSettings, EXTRACTOR_IDS } from '../lib/extractionSettings';
+import { ExtractorStatus } from '../lib/types';
+
+interface ExtractionSettingsModalProps {
+  settings: ExtractionSettings;
+  onSave: (settings: ExtractionSettings) => void;
+  onClose: () => void;
+}
+
+const PROVIDER_DESCRIPTIONS = {
+  gemini: 'Most accurate. Needs a connection and GEMINI_API_KEY on the server.',
+  openai: 'Any OpenAI-compatible vision model. Needs a connection and OPENAI_API_KEY on the server.',
+  tesseract: 'Reads cards on this device, even offline. Less accurate; the first use downloads about 15 MB.',
+};
+
+// Choose the extraction provider for this device, whether to fall back to the others and how card photos are taken
+function ExtractionSettingsModal({ settings, onSave, onClose }: ExtractionSettingsModalProps) {
+  const [formData, setFormData] = useState<ExtractionSettings>(settings);
+  const [statuses, setStatuses] = useState<ExtractorStatus[] | null>(null);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    fetchExtractorStatus()
+      .then(result => setStatuses(result.providers))
+      .catch(err => {
+        console.error("Error loading extraction providers:", err);
+        setError('Could not check which providers are configured. You may be offline.');
+      });
+  }, []);
+
+  const statusLabel = (id: ExtractionSettings['provider']) => {
+    const status = statuses?.find(entry => entry.id === id);
+    if (!status) return '';
+    return status.configured ? ' (available)' : ' (not configured)';
+  };
+
+  const handleSubmit = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    onSave(formData);
+  };
+
+  return (
+    <div className="fixed inset-0 flex items-center justify-center z-50 modal-overlay">
+      <div className="bg-white p-8 rounded-lg shadow-xl max-w-lg w-full">
+        <h3 className="text-2xl font-semibold text-gray-800 mb-6">Card Reading</h3>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <fieldset>
+            <legend className="block text-sm font-medium text-gray-700">Provider</legend>
+            <div className="mt-2 space-y-3">
+              {EXTRACTOR_IDS.map(id => (
+                <label key={id} className="flex items-start gap-2 text-sm">
+                  <input
+                    type="radio"
+                    name="provider"
+                    value={id}
+                    checked={formData.provider === id}
+                    onChange={() => setFormData(prev => ({ ...prev, provider: id }))}
+                    className="mt-1"
+                  />
+                  <span>
+                    <span className="font-medium text-gray-800">{EXTRACTOR_LABELS[id]}{statusLabel(id)}</span>
+                    <span className="block text-gray-500">{PROVIDER_DESCRIPTIONS[id]}</span>
+                  </span>
+                </label>
+              ))}
+            </div>
+          </fieldset>
+          <label className="flex items-start gap-2 text-sm">
+            <input
+              type="checkbox"
+              checked={formData.fallback}
+              onChange={e => setFormData(prev => ({ ...prev, fallback: e.target.checked }))}
+              className="mt-1"
+            />
+            <span>
+              <span className="font-medium text-gray-800">Try the other providers if this one fails</span>
+              <span className="block text-gray-500">Offline OCR is used last, so cards can still be read without a connection.</span>
+            </span>
+          </label>
+          <label className="flex items-start gap-2 text-sm">
+            <input
+              type="checkbox"
+              checked={formData.autoCrop}
+              onChange={e => setFormData(prev => ({ ...prev, autoCrop: e.target.checked }))}
+              className="mt-1"
+            />
+            <span>
+              <span className="font-medium text-gray-800">Crop and straighten card photos</span>
+              <span className="block text-gray-500">Finds the card's edges in photos and uploads and cuts away the background before reading it.</span>
+            </span>
+          </label>
+          <label className="flex items-start gap-2 text-sm">
+            <input
+              type="checkbox"
+              checked={formData.autoCapture}
+              onChange={e => setFormData(prev => ({ ...prev, autoCapture: e.target.checked }))}
+              className="mt-1"
+            />
+            <span>
+              <span className="font-medium text-gray-800">Take the photo automatically</span>
+              <span className="block text-gray-500">The camera snaps the card once it has been held steady inside the frame.</span>
+            </span>
+          </label>
+          {error && <p className="text-sm text-red-600">{error}</p>}
+          <div className="flex justify-end gap-4 pt-2">
+            <button type="submit" className="btn-primary text-white py-2 px-5 rounded-full font-semibold">
+              Save
+            </button>
+            <button type="button" onClick={onClose} className="btn-secondary py-2 px-5 rounded-full font-semibold">
+              Cancel
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
+
+export default ExtractionSettingsModal;
@@ -0,0 +1,22 @@
+'use client';
+
+import React from 'react';
+import { FieldFlag } from '../lib/validation';
+
+// Border classes for an input or detail row, depending on how the field was flagged
+export const flagBorderClass = (flag?: FieldFlag): string => {
+  if (!flag) return 'border-gray-300';
+  return flag.status === 'invalid' ? 'border-red-500 bg-red-50' : 'border-yellow-400 bg-yellow-50';
+};
+
+// Short explanation shown under a field that is invalid or was extracted with low confidence
+function FieldFlagNote({ flag }: { flag?: FieldFlag }) {
+  if (!flag) return null;
+  return (
+    <p className={`mt-1 text-xs font-medium ${flag.status === 'invalid' ? 'text-red-600' : 'text-yellow-700'}`}>
+      {flag.status === 'invalid' ? 'Invalid: ' : 'Check: '}{flag.message}
+    </p>
+  );
+}
+
+export default FieldFlagNote;
@@ -0,0 +1,95 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { CardRepository } from '../lib/cardRepository';
+import { AUDIT_ACTION_LABELS, AuditEntry, describeChanges, formatFieldValue } from '../lib/history';
+import { CARD_FIELD_LABELS, CompanyData } from '../lib/types';
+
+interface HistoryModalProps {
+  repository: CardRepository;
+  // One card's history; the whole vault's audit log when not set
+  card?: CompanyData;
+  authorLabels: Record<string, string> | null;
+  canEdit: boolean;
+  onUndo: (entry: AuditEntry) => void;
+  onClose: () => void;
+}
+
+// A card's change history with per-change undo, or the vault-wide audit log
+function HistoryModal({ repository, card, authorLabels, canEdit, onUndo, onClose }: HistoryModalProps) {
+  const [entries, setEntries] = useState<AuditEntry[] | null>(null);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    const onError = (err: Error) => {
+      console.error("Error loading history:", err);
+      setError(`Could not load the history: ${err.message}`);
+    };
+    return card
+      ? repository.subscribeToCardHistory(card.id, setEntries, onError)
+      : repository.subscribeToAuditLog(setEntries, onError);
+  }, [repository, card?.id]);
+
+  const author = (uid: string | null) => {
+    if (!uid) return '';
+    if (!authorLabels) return ' by you';
+    return ` by ${authorLabels[uid] || `${uid.slice(0, 8)}…`}`;
+  };
+
+  return (
+    <div className="fixed inset-0 flex items-center justify-center z-50 modal-overlay p-4">
+      <div className="bg-white p-6 md:p-8 rounded-lg shadow-xl max-w-2xl w-full max-h-full overflow-y-auto">
+        <h3 className="text-2xl font-semibold text-gray-800 mb-4">
+          {card ? `History of ${card.companyName || card.contactPerson || 'this card'}` : 'Activity Log'}
+        </h3>
+        {error && <p className="text-sm text-red-600 mb-4">{error}</p>}
+        {!entries && !error && <p className="text-sm text-gray-500 italic">Loading...</p>}
+        {entries && entries.length === 0 && <p className="text-sm text-gray-500 italic">No changes recorded yet.</p>}
+        <ol className="space-y-4">
+          {entries?.map(entry => (
+            <li key={entry.id} className="border border-gray-200 rounded-md p-3">
+              <div className="flex items-start justify-between gap-3">
+                <div>
+                  <p className="text-sm font-semibold text-gray-800">
+                    {AUDIT_ACTION_LABELS[entry.action]}
+                    {!card && <span className="font-normal text-gray-600"> · {entry.cardLabel}</span>}
+                  </p>
+                  <p className="text-xs text-gray-500">
+                    {new Date(entry.at).toLocaleString()}{author(entry.by)}
+                    {!card && entry.changes.length > 0 && ` · ${describeChanges(entry)}`}
+                  </p>
+                </div>
+                {card && canEdit && entry.action !== 'purge' && (
+                  <button type="button" onClick={() => onUndo(entry)} className="text-sm font-semibold text-indigo-600 hover:underline whitespace-nowrap">
+                    {entry.action === 'delete' ? 'Restore' : 'Undo this change'}
+                  </button>
+                )}
+              </div>
+              {card && entry.changes.length > 0 && (
+                <table className="mt-2 w-full text-sm">
+                  <tbody>
+                    {entry.changes.map(change => (
+                      <tr key={change.field} className="align-top">
+                        <th scope="row" className="pr-3 py-1 text-left font-medium text-gray-500 whitespace-nowrap">{CARD_FIELD_LABELS[change.field]}</th>
+                        <td className="py-1 text-red-700 line-through break-words">{formatFieldValue(change.field, change.before)}</td>
+                        <td className="px-2 py-1 text-gray-400">→</td>
+                        <td className="py-1 text-green-700 break-words">{formatFieldValue(change.field, change.after)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </li>
+          ))}
+        </ol>
+        <div className="flex justify-end pt-4">
+          <button type="button" onClick={onClose} className="btn-secondary py-2 px-5 rounded-full font-semibold">
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default HistoryModal;
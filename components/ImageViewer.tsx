@@ -0,0 +1,68 @@
+'use client';
+
+import React, { useState } from 'react';
+import { CARD_SIDES, CardImages, CardSide } from '../lib/types';
+
+interface ImageViewerProps {
+  images: CardImages;
+  initialSide?: CardSide;
+  onClose: () => void;
+}
+
+const MIN_ZOOM = 1;
+const MAX_ZOOM = 5;
+const ZOOM_STEP = 0.5;
+
+const clampZoom = (zoom: number) => Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, zoom));
+
+// Full-screen viewer for the original card photos, with zoom and front/back switching
+function ImageViewer({ images, initialSide = 'front', onClose }: ImageViewerProps) {
+  const sides = CARD_SIDES.filter(side => images[side]);
+  const [side, setSide] = useState<CardSide>(images[initialSide] ? initialSide : sides[0]);
+  const [zoom, setZoom] = useState(MIN_ZOOM);
+  const image = images[side];
+
+  const handleWheel = (e: React.WheelEvent<HTMLDivElement>) => {
+    setZoom(prev => clampZoom(prev - Math.sign(e.deltaY) * ZOOM_STEP));
+  };
+
+  if (!image) return null;
+
+  return (
+    <div className="fixed inset-0 flex items-center justify-center z-50 modal-overlay p-4" onClick={onClose}>
+      <div className="bg-white p-4 rounded-xl shadow-2xl max-w-5xl w-full flex flex-col gap-3" onClick={e => e.stopPropagation()}>
+        <div className="flex flex-wrap justify-between items-center gap-2">
+          <div className="flex gap-2">
+            {sides.map(s => (
+              <button
+                key={s}
+                onClick={() => { setSide(s); setZoom(MIN_ZOOM); }}
+                className={`py-1 px-3 rounded-full text-sm font-semibold capitalize ${s === side ? 'btn-primary text-white' : 'btn-secondary'}`}
+              >
+                {s}
+              </button>
+            ))}
+          </div>
+          <div className="flex items-center gap-2">
+            <button onClick={() => setZoom(prev => clampZoom(prev - ZOOM_STEP))} className="btn-secondary py-1 px-3 rounded-full text-sm font-bold" aria-label="Zoom out">−</button>
+            <span className="text-sm text-gray-600 w-12 text-center">{Math.round(zoom * 100)}%</span>
+            <button onClick={() => setZoom(prev => clampZoom(prev + ZOOM_STEP))} className="btn-secondary py-1 px-3 rounded-full text-sm font-bold" aria-label="Zoom in">+</button>
+            <button onClick={() => setZoom(MIN_ZOOM)} className="btn-secondary py-1 px-3 rounded-full text-sm font-semibold">Reset</button>
+            <button onClick={onClose} className="btn-secondary py-1 px-3 rounded-full text-sm font-semibold">Close</button>
+          </div>
+        </div>
+        <div className="overflow-auto bg-gray-900 rounded-lg max-h-[75vh]" onWheel={handleWheel}>
+          {/* eslint-disable-next-line @next/next/no-img-element */}
+          <img
+            src={image.url}
+            alt={`Business card ${side}`}
+            style={{ width: `${zoom * 100}%`, maxWidth: 'none' }}
+            className="mx-auto block"
+          />
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default ImageViewer;
@@ -0,0 +1,319 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { User } from 'firebase/auth';
+import {
+  ApiToken,
+  externalName,
+  FieldMapping,
+  IntegrationConfig,
+  MAPPED_FIELD_LABELS,
+  MAPPED_FIELDS,
+  MappedField,
+  validateFieldMapping,
+  VaultRef,
+  WEBHOOK_EVENT_LABELS,
+  WEBHOOK_EVENTS,
+  WebhookDelivery,
+  WebhookEndpoint,
+  WebhookEvent,
+} from '../lib/integrations';
+import { createApiToken, fetchIntegrations, generateWebhookSecret, revokeApiToken, saveIntegrations } from '../lib/integrationsClient';
+
+interface IntegrationsModalProps {
+  user: User;
+  vault: VaultRef;
+  vaultName: string;
+  onClose: () => void;
+}
+
+const inputClass = 'border border-gray-300 rounded-md shadow-sm p-2 text-sm focus:ring-indigo-500 focus:border-indigo-500';
+
+const formatTime = (time: number | null) => (time ? new Date(time).toLocaleString() : 'Never');
+
+// Webhooks, the CRM field mapping, API tokens and the delivery log for a vault; shown to its owner
+function IntegrationsModal({ user, vault, vaultName, onClose }: IntegrationsModalProps) {
+  const [config, setConfig] = useState<IntegrationConfig | null>(null);
+  const [tokens, setTokens] = useState<ApiToken[]>([]);
+  const [deliveries, setDeliveries] = useState<WebhookDelivery[]>([]);
+  // Secrets of webhooks added or rotated in this session, shown until the dialog closes
+  const [newSecrets, setNewSecrets] = useState<Record<string, string>>({});
+  const [tokenName, setTokenName] = useState('');
+  const [newToken, setNewToken] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+  const [notice, setNotice] = useState('');
+
+  const load = () =>
+    fetchIntegrations(user, vault)
+      .then(result => {
+        setConfig(result.config);
+        setTokens(result.tokens);
+        setDeliveries(result.deliveries);
+      })
+      .catch(err => {
+        console.error("Error loading integrations:", err);
+        setError(`Could not load integrations: ${err.message}`);
+      });
+
+  useEffect(() => {
+    load();
+  }, [vault.kind, vault.id]);
+
+  const updateEndpoint = (id: string, changes: Partial<WebhookEndpoint>) =>
+    setConfig(prev => ({ ...prev, webhooks: prev.webhooks.map(endpoint => (endpoint.id === id ? { ...endpoint, ...changes } : endpoint)) }));
+
+  const toggleEvent = (endpoint: WebhookEndpoint, event: WebhookEvent, checked: boolean) =>
+    updateEndpoint(endpoint.id, { events: WEBHOOK_EVENTS.filter(e => (e === event ? checked : endpoint.events.includes(e))) });
+
+  const rotateSecret = (id: string) => {
+    const secret = generateWebhookSecret();
+    setNewSecrets(prev => ({ ...prev, [id]: secret }));
+    updateEndpoint(id, { secret });
+  };
+
+  const addEndpoint = () => {
+    const endpoint: WebhookEndpoint = {
+      id: crypto.randomUUID(),
+      url: '',
+      events: [...WEBHOOK_EVENTS],
+      active: true,
+      secret: generateWebhookSecret(),
+      createdAt: Date.now(),
+    };
+    setConfig(prev => ({ ...prev, webhooks: [...prev.webhooks, endpoint] }));
+    setNewSecrets(prev => ({ ...prev, [endpoint.id]: endpoint.secret }));
+  };
+
+  const removeEndpoint = (id: string) => setConfig(prev => ({ ...prev, webhooks: prev.webhooks.filter(endpoint => endpoint.id !== id) }));
+
+  const updateMapping = (field: MappedField, name: string) =>
+    setConfig(prev => ({ ...prev, fieldMapping: { ...prev.fieldMapping, [field]: name } as FieldMapping }));
+
+  const mappingError = config ? validateFieldMapping(config.fieldMapping) : null;
+
+  const handleSave = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    if (mappingError) return;
+    try {
+      setSaving(true);
+      setError('');
+      const result = await saveIntegrations(user, vault, config);
+      setConfig(result.config);
+      setNotice('Integration settings saved.');
+    } catch (err) {
+      console.error("Error saving integrations:", err);
+      setError(`Could not save: ${err.message}`);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleCreateToken = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    try {
+      setError('');
+      const { token, info } = await createApiToken(user, vault, tokenName);
+      setTokens(prev => [info, ...prev]);
+      setNewToken(token);
+      setTokenName('');
+    } catch (err) {
+      console.error("Error creating API token:", err);
+      setError(`Could not create the token: ${err.message}`);
+    }
+  };
+
+  const handleRevokeToken = async (token: ApiToken) => {
+    try {
+      setError('');
+      await revokeApiToken(user, vault, token.id);
+      setTokens(prev => prev.filter(existing => existing.id !== token.id));
+    } catch (err) {
+      console.error("Error revoking API token:", err);
+      setError(`Could not revoke the token: ${err.message}`);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 flex items-center justify-center z-50 modal-overlay p-4">
+      <div className="bg-white p-6 md:p-8 rounded-lg shadow-xl max-w-3xl w-full max-h-full overflow-y-auto">
+        <h3 className="text-2xl font-semibold text-gray-800 mb-2">Integrations</h3>
+        <p className="text-sm text-gray-600 mb-4">
+          Send changes to the cards in {vaultName} to your CRM, and let it read and write cards through the REST API.
+        </p>
+        {error && <p className="text-sm text-red-600 mb-4">{error}</p>}
+        {notice && <p className="text-sm text-green-700 mb-4">{notice}</p>}
+        {!config && !error && <p className="text-sm text-gray-500 italic">Loading...</p>}
+
+        {config && (
+          <form onSubmit={handleSave} className="space-y-6">
+            <section>
+              <h4 className="text-lg font-semibold text-gray-800">Webhooks</h4>
+              <p className="text-sm text-gray-600 mb-2">
+                Each change is POSTed as JSON, signed with the webhook&apos;s secret in the X-CardVault-Signature header. See the README for how to check it.
+              </p>
+              {config.webhooks.length === 0 && <p className="text-sm text-gray-500 italic">No webhooks yet.</p>}
+              <ul className="space-y-3">
+                {config.webhooks.map(endpoint => (
+                  <li key={endpoint.id} className="border border-gray-200 rounded-md p-3 space-y-2">
+                    <div className="flex gap-2">
+                      <input
+                        type="url"
+                        value={endpoint.url}
+                        onChange={e => updateEndpoint(endpoint.id, { url: e.target.value })}
+                        placeholder="https://crm.example.com/hooks/cardvault"
+                        aria-label="Webhook URL"
+                        required
+                        className={`flex-1 min-w-0 ${inputClass}`}
+                      />
+                      <button type="button" onClick={() => removeEndpoint(endpoint.id)} aria-label="Remove webhook" className="px-2 text-gray-400 hover:text-red-600">
+                        &times;
+                      </button>
+                    </div>
+                    <div className="flex flex-wrap gap-4 text-sm">
+                      {WEBHOOK_EVENTS.map(event => (
+                        <label key={event} className="flex items-center gap-1">
+                          <input type="checkbox" checked={endpoint.events.includes(event)} onChange={e => toggleEvent(endpoint, event, e.target.checked)} />
+                          {WEBHOOK_EVENT_LABELS[event]}
+                        </label>
+                      ))}
+                      <label className="flex items-center gap-1">
+                        <input type="checkbox" checked={endpoint.active} onChange={e => updateEndpoint(endpoint.id, { active: e.target.checked })} />
+                        Active
+                      </label>
+                    </div>
+                    {newSecrets[endpoint.id] ? (
+                      <p className="text-xs text-gray-600">
+                        Signing secret, shown only until you close this dialog: <code className="bg-gray-100 rounded px-1 break-all">{newSecrets[endpoint.id]}</code>
+                      </p>
+                    ) : (
+                      <button type="button" onClick={() => rotateSecret(endpoint.id)} className="text-xs font-semibold text-indigo-600 hover:underline">
+                        Generate a new secret
+                      </button>
+                    )}
+                  </li>
+                ))}
+              </ul>
+              <button type="button" onClick={addEndpoint} className="mt-2 text-sm font-semibold text-indigo-600 hover:underline">
+                + Add webhook
+              </button>
+            </section>
+
+            <section>
+              <h4 className="text-lg font-semibold text-gray-800">Field Mapping</h4>
+              <p className="text-sm text-gray-600 mb-2">
+                The name your CRM uses for each field, in webhook payloads and the REST API. Untick a field to leave it out.
+              </p>
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                {MAPPED_FIELDS.map(field => {
+                  const name = externalName(config.fieldMapping, field);
+                  return (
+                    <div key={field} className="flex items-center gap-2 text-sm">
+                      <input
+                        type="checkbox"
+                        checked={name !== ''}
+                        onChange={e => updateMapping(field, e.target.checked ? field : '')}
+                        aria-label={`Include ${MAPPED_FIELD_LABELS[field]}`}
+                      />
+                      <span className="w-40 text-gray-700">{MAPPED_FIELD_LABELS[field]}</span>
+                      <input
+                        type="text"
+                        value={name}
+                        disabled={name === ''}
+                        onChange={e => updateMapping(field, e.target.value)}
+                        aria-label={`CRM name for ${MAPPED_FIELD_LABELS[field]}`}
+                        className={`flex-1 min-w-0 disabled:bg-gray-100 ${inputClass}`}
+                      />
+                    </div>
+                  );
+                })}
+              </div>
+              {mappingError && <p className="text-sm text-red-600 mt-2">{mappingError}</p>}
+            </section>
+
+            <div className="flex justify-end">
+              <button type="submit" disabled={saving || !!mappingError} className="btn-primary text-white py-2 px-5 rounded-full font-semibold disabled:opacity-50">
+                {saving ? 'Saving...' : 'Save Webhooks & Mapping'}
+              </button>
+            </div>
+          </form>
+        )}
+
+        {config && (
+          <section className="mt-6">
+            <h4 className="text-lg font-semibold text-gray-800">API Tokens</h4>
+            <p className="text-sm text-gray-600 mb-2">
+              Tokens can list, read and upsert this vault&apos;s cards at <code className="bg-gray-100 rounded px-1">/api/cards</code>. Send one as <code className="bg-gray-100 rounded px-1">Authorization: Bearer &lt;token&gt;</code>.
+            </p>
+            {newToken && (
+              <p className="text-sm bg-amber-50 border border-amber-200 rounded-md p-3 mb-2">
+                Copy your new token now; it won&apos;t be shown again: <code className="break-all">{newToken}</code>
+              </p>
+            )}
+            <ul className="space-y-2 mb-2">
+              {tokens.map(token => (
+                <li key={token.id} className="flex flex-wrap items-center justify-between gap-2 text-sm border border-gray-200 rounded-md p-2">
+                  <span>
+                    <span className="font-medium text-gray-800">{token.name}</span>
+                    <span className="text-gray-500"> · {token.prefix}… · created {formatTime(token.createdAt)} · last used {formatTime(token.lastUsedAt)}</span>
+                  </span>
+                  <button type="button" onClick={() => handleRevokeToken(token)} className="text-sm font-semibold text-red-600 hover:underline">
+                    Revoke
+                  </button>
+                </li>
+              ))}
+            </ul>
+            <form onSubmit={handleCreateToken} className="flex gap-2">
+              <input
+                type="text"
+                value={tokenName}
+                onChange={e => setTokenName(e.target.value)}
+                placeholder="Token name, e.g. HubSpot sync"
+                aria-label="Token name"
+                className={`flex-1 min-w-0 ${inputClass}`}
+              />
+              <button type="submit" className="btn-secondary py-1 px-4 rounded-full font-semibold text-sm">
+                Create token
+              </button>
+            </form>
+          </section>
+        )}
+
+        {config && (
+          <section className="mt-6">
+            <div className="flex items-center justify-between">
+              <h4 className="text-lg font-semibold text-gray-800">Recent Deliveries</h4>
+              <button type="button" onClick={load} className="text-sm font-semibold text-indigo-600 hover:underline">
+                Refresh
+              </button>
+            </div>
+            {deliveries.length === 0 && <p className="text-sm text-gray-500 italic">No webhooks sent yet.</p>}
+            <ul className="mt-2 space-y-1 text-sm">
+              {deliveries.map(delivery => (
+                <li key={delivery.id} className="flex flex-wrap gap-x-2">
+                  <span className={delivery.status === 'delivered' ? 'text-green-700 font-medium' : 'text-red-600 font-medium'}>
+                    {delivery.status === 'delivered' ? 'Delivered' : 'Failed'}
+                  </span>
+                  <span className="text-gray-800">{delivery.event}</span>
+                  <span className="text-gray-500 break-all">{delivery.url}</span>
+                  <span className="text-gray-500">
+                    {formatTime(delivery.at)} · {delivery.attempts} attempt{delivery.attempts === 1 ? '' : 's'}
+                    {delivery.error ? ` · ${delivery.error}` : ''}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </section>
+        )}
+
+        <div className="flex justify-end pt-6">
+          <button type="button" onClick={onClose} className="btn-secondary py-2 px-5 rounded-full font-semibold">
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default IntegrationsModal;
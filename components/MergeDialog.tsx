@@ -0,0 +1,147 @@
+'use client';
+
+import React, { useState } from 'react';
+import { mergeContactLists, sameEmail, samePhone, withContactLists } from '../lib/contactFields';
+import { DuplicateMatch } from '../lib/duplicates';
+import { EXTRACTED_FIELDS, FIELD_LABELS, ExtractedCardData, ExtractedField } from '../lib/types';
+
+type Pick = 'existing' | 'incoming';
+
+interface MergeDialogProps {
+  incoming: ExtractedCardData;
+  matches: DuplicateMatch[];
+  saving: boolean;
+  onMerge: (match: DuplicateMatch, merged: ExtractedCardData, takenFromIncoming: ExtractedField[]) => void;
+  onSaveAsNew: () => void;
+  onCancel: () => void;
+}
+
+const LATIN_NAME_FIELDS: ExtractedField[] = ['companyNameLatin', 'contactPersonLatin'];
+
+// Keep what is already stored unless it is blank
+const defaultPicks = (incoming: ExtractedCardData, match: DuplicateMatch): Record<ExtractedField, Pick> =>
+  Object.fromEntries(EXTRACTED_FIELDS.map(field => [
+    field,
+    !match.company[field] && incoming[field] ? 'incoming' : 'existing'
+  ])) as Record<ExtractedField, Pick>;
+
+// Side-by-side comparison of a new card and a likely duplicate, with a pick per field
+function MergeDialog({ incoming, matches, saving, onMerge, onSaveAsNew, onCancel }: MergeDialogProps) {
+  const [matchIndex, setMatchIndex] = useState(0);
+  const match = matches[matchIndex];
+  const [picks, setPicks] = useState(() => defaultPicks(incoming, match));
+
+  const selectMatch = (index: number) => {
+    setMatchIndex(index);
+    setPicks(defaultPicks(incoming, matches[index]));
+  };
+
+  const handleMerge = () => {
+    const merged: ExtractedCardData = {};
+    const takenFromIncoming: ExtractedField[] = [];
+    for (const field of EXTRACTED_FIELDS) {
+      if (picks[field] === 'incoming') {
+        merged[field] = incoming[field] || '';
+        takenFromIncoming.push(field);
+      } else {
+        merged[field] = match.company[field] || '';
+      }
+    }
+    // Numbers, emails and profiles from both cards are kept, with the picked side's first so its
+    // value stays the primary; the structured address follows the picked address
+    const existing = withContactLists(match.company);
+    const added = withContactLists(incoming);
+    const pickedFirst = (field: ExtractedField) => (picks[field] === 'incoming' ? [added, existing] : [existing, added]);
+    const [phonesFirst, phonesSecond] = pickedFirst('phoneNumber');
+    const [emailsFirst, emailsSecond] = pickedFirst('email');
+    merged.phones = mergeContactLists(phonesFirst.phones, phonesSecond.phones, samePhone);
+    merged.emails = mergeContactLists(emailsFirst.emails, emailsSecond.emails, sameEmail);
+    merged.socialProfiles = mergeContactLists(existing.socialProfiles, added.socialProfiles, sameEmail);
+    const addressSide = pickedFirst('address')[0];
+    if (addressSide.postalAddress) merged.postalAddress = addressSide.postalAddress;
+    onMerge(match, merged, takenFromIncoming);
+  };
+
+  const renderOption = (field: ExtractedField, pick: Pick, value?: string) => (
+    <label
+      className={`flex-1 flex items-start gap-2 p-2 rounded-md border cursor-pointer ${picks[field] === pick ? 'border-indigo-500 bg-indigo-50' : 'border-gray-200'}`}
+    >
+      <input
+        type="radio"
+        name={`merge-${field}`}
+        checked={picks[field] === pick}
+        onChange={() => setPicks(prev => ({ ...prev, [field]: pick }))}
+        className="mt-1"
+      />
+      <span dir="auto" className={`text-sm break-words ${value ? 'text-gray-800' : 'text-gray-400 italic'}`}>{value || 'Empty'}</span>
+    </label>
+  );
+
+  return (
+    <div className="fixed inset-0 flex items-center justify-center z-50 modal-overlay p-4">
+      <div className="bg-white p-6 md:p-8 rounded-lg shadow-xl max-w-3xl w-full max-h-full overflow-y-auto">
+        <h3 className="text-2xl font-semibold text-gray-800 mb-2">Possible Duplicate</h3>
+        <p className="text-sm text-gray-600 mb-4">
+          This card looks like one already in the vault ({match.reasons.join(', ').toLowerCase()}). Choose which value to keep for each field.
+        </p>
+        {matches.length > 1 && (
+          <div className="mb-4">
+            <label htmlFor="merge-match" className="block text-sm font-medium text-gray-700">Compare with</label>
+            <select
+              id="merge-match"
+              value={matchIndex}
+              onChange={e => selectMatch(Number(e.target.value))}
+              className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm p-2"
+            >
+              {matches.map((m, index) => (
+                <option key={m.company.id} value={index}>
+                  {m.company.companyName || 'N/A'} — {m.company.contactPerson || 'No Contact'}
+                </option>
+              ))}
+            </select>
+          </div>
+        )}
+        <div className="grid grid-cols-[8rem_1fr_1fr] gap-2 items-center text-sm font-semibold text-gray-500 mb-2">
+          <span></span>
+          <span>Existing card</span>
+          <span>New scan</span>
+        </div>
+        <div className="space-y-2">
+          {/* The Latin-script names only matter when one of the cards has them */}
+          {EXTRACTED_FIELDS.filter(field => !LATIN_NAME_FIELDS.includes(field) || match.company[field] || incoming[field]).map(field => (
+            <div key={field} className="grid grid-cols-[8rem_1fr_1fr] gap-2 items-stretch">
+              <span className="text-sm font-medium text-gray-700 self-center">{FIELD_LABELS[field]}</span>
+              {renderOption(field, 'existing', match.company[field])}
+              {renderOption(field, 'incoming', incoming[field])}
+            </div>
+          ))}
+        </div>
+        <div className="flex flex-wrap justify-end gap-3 pt-6">
+          <button
+            onClick={handleMerge}
+            disabled={saving}
+            className="btn-primary text-white py-2 px-5 rounded-full font-semibold disabled:opacity-50"
+          >
+            {saving ? 'Saving...' : 'Merge'}
+          </button>
+          <button
+            onClick={onSaveAsNew}
+            disabled={saving}
+            className="btn-secondary py-2 px-5 rounded-full font-semibold disabled:opacity-50"
+          >
+            Save as New Card
+          </button>
+          <button
+            onClick={onCancel}
+            disabled={saving}
+            className="btn-secondary py-2 px-5 rounded-full font-semibold disabled:opacity-50"
+          >
+            Back to Review
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default MergeDialog;
@@ -0,0 +1,93 @@
+'use client';
+
+import React, { useState } from 'react';
+import { ExtractedCardData, PendingReview } from '../lib/types';
+import { codeFormatLabel } from '../lib/cardCodes';
+import { withContactLists } from '../lib/contactFields';
+import { EXTRACTOR_LABELS } from '../lib/extraction';
+import { getFieldFlags, markEditedFields } from '../lib/validation';
+import ContactFieldsEditor from './ContactFieldsEditor';
+
+interface ReviewModalProps {
+  review: PendingReview;
+  saving: boolean;
+  onAccept: (data: ExtractedCardData) => void;
+  onDiscard: () => void;
+  onClose?: () => void;
+}
+
+// Shows the captured card (both sides when there are two) next to the extracted fields so they can be corrected before saving
+function ReviewModal({ review, saving, onAccept, onDiscard, onClose }: ReviewModalProps) {
+  // Scans queued before the contact lists existed only have the single values
+  const [formData, setFormData] = useState<ExtractedCardData>(() => withContactLists(review.data));
+  const flags = getFieldFlags(formData, markEditedFields(review.extraction, review.data, formData));
+  const codeUrls = review.data.codeUrls || [];
+  const hasSourceNotes = !!review.provider || !!review.codeFormat || codeUrls.length > 0;
+
+  const handleSubmit = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    onAccept(formData);
+  };
+
+  return (
+    <div className="fixed inset-0 flex items-center justify-center z-50 modal-overlay p-4">
+      <div className="bg-white p-6 md:p-8 rounded-lg shadow-xl max-w-4xl w-full max-h-full overflow-y-auto">
+        <h3 className={`text-2xl font-semibold text-gray-800 ${hasSourceNotes ? 'mb-1' : 'mb-6'}`}>Review Extracted Details</h3>
+        {hasSourceNotes && (
+          <div className="text-sm text-gray-500 mb-6 space-y-1">
+            {review.codeFormat && <p>Contact details read from the card&apos;s {codeFormatLabel(review.codeFormat)}.</p>}
+            {review.provider && (
+              <p>
+                Read by {EXTRACTOR_LABELS[review.provider]}
+                {review.provider === 'tesseract' && ' — offline OCR is less accurate, so check every field.'}
+              </p>
+            )}
+            {codeUrls.length > 0 && <p className="break-all">Links in the card&apos;s code, kept with the card: {codeUrls.join(', ')}</p>}
+          </div>
+        )}
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          <div className="flex flex-col items-center gap-2 bg-gray-100 rounded-lg p-2">
+            {/* eslint-disable-next-line @next/next/no-img-element */}
+            <img src={review.imageSrc} alt="Captured business card" className={`rounded-md object-contain ${review.backImageSrc ? 'max-h-60' : 'max-h-96'}`} />
+            {review.backImageSrc && (
+              // eslint-disable-next-line @next/next/no-img-element
+              <img src={review.backImageSrc} alt="Back of the business card" className="rounded-md max-h-60 object-contain" />
+            )}
+          </div>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <ContactFieldsEditor idPrefix="review" data={formData} flags={flags} onChange={setFormData} />
+            <div className="flex justify-end gap-4 pt-4">
+              <button
+                type="submit"
+                disabled={saving}
+                className="btn-primary text-white py-2 px-5 rounded-full font-semibold disabled:opacity-50"
+              >
+                {saving ? 'Saving...' : 'Accept'}
+              </button>
+              <button
+                type="button"
+                onClick={onDiscard}
+                disabled={saving}
+                className="btn-secondary py-2 px-5 rounded-full font-semibold disabled:opacity-50"
+              >
+                Discard
+              </button>
+              {onClose && (
+                <button
+                  type="button"
+                  onClick={onClose}
+                  disabled={saving}
+                  className="btn-secondary py-2 px-5 rounded-full font-semibold disabled:opacity-50"
+                >
+                  Review Later
+                </button>
+              )}
+            </div>
+          </form>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default ReviewModal;
@@ -0,0 +1,34 @@
+'use client';
+
+import React from 'react';
+
+interface SyncStatusProps {
+  online: boolean;
+  pendingWrites: boolean;
+  queuedScans: number;
+}
+
+// Header badge showing whether card changes and queued scans have reached the server
+function SyncStatus({ online, pendingWrites, queuedScans }: SyncStatusProps) {
+  let label: string;
+  let dotClass: string;
+  if (!online) {
+    label = queuedScans > 0 ? `Offline · ${queuedScans} scan${queuedScans === 1 ? '' : 's'} waiting` : 'Offline · changes saved on this device';
+    dotClass = 'bg-yellow-500';
+  } else if (pendingWrites || queuedScans > 0) {
+    label = 'Syncing…';
+    dotClass = 'bg-blue-500 animate-pulse';
+  } else {
+    label = 'All changes synced';
+    dotClass = 'bg-green-500';
+  }
+
+  return (
+    <span className="inline-flex items-center gap-1 text-xs text-gray-600" role="status">
+      <span className={`h-2 w-2 rounded-full ${dotClass}`} aria-hidden="true" />
+      {label}
+    </span>
+  );
+}
+
+export default SyncStatus;
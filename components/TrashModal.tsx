@@ -0,0 +1,66 @@
+'use client';
+
+import React, { useState } from 'react';
+import { purgeTime, TRASH_RETENTION_DAYS } from '../lib/history';
+import { CompanyData } from '../lib/types';
+
+interface TrashModalProps {
+  cards: CompanyData[];
+  canEdit: boolean;
+  onRestore: (card: CompanyData) => void;
+  onPurge: (card: CompanyData) => void;
+  onClose: () => void;
+}
+
+// Deleted cards, which can be restored until they are purged
+function TrashModal({ cards, canEdit, onRestore, onPurge, onClose }: TrashModalProps) {
+  // Permanent deletion takes a second click on the same card
+  const [confirmingId, setConfirmingId] = useState<string | null>(null);
+  const sorted = [...cards].sort((a, b) => (b.deletedAt || 0) - (a.deletedAt || 0));
+
+  return (
+    <div className="fixed inset-0 flex items-center justify-center z-50 modal-overlay p-4">
+      <div className="bg-white p-6 md:p-8 rounded-lg shadow-xl max-w-2xl w-full max-h-full overflow-y-auto">
+        <h3 className="text-2xl font-semibold text-gray-800 mb-2">Trash</h3>
+        <p className="text-sm text-gray-600 mb-4">
+          Deleted cards are kept here for {TRASH_RETENTION_DAYS} days, then deleted permanently along with their images.
+        </p>
+        {sorted.length === 0 && <p className="text-sm text-gray-500 italic">The trash is empty.</p>}
+        <ul className="space-y-3">
+          {sorted.map(card => (
+            <li key={card.id} className="flex flex-wrap items-center justify-between gap-3 border border-gray-200 rounded-md p-3">
+              <div>
+                <p className="font-semibold text-gray-900">{card.companyName || 'N/A'}</p>
+                <p className="text-sm text-gray-600">{card.contactPerson || 'No Contact'}</p>
+                <p className="text-xs text-gray-500">
+                  Deleted {new Date(card.deletedAt).toLocaleDateString()} · purged {new Date(purgeTime(card)).toLocaleDateString()}
+                </p>
+              </div>
+              {canEdit && (
+                <div className="flex gap-2">
+                  <button type="button" onClick={() => onRestore(card)} className="btn-primary text-white py-1 px-4 rounded-full font-semibold text-sm">
+                    Restore
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => (confirmingId === card.id ? onPurge(card) : setConfirmingId(card.id))}
+                    className="btn-danger text-white py-1 px-4 rounded-full font-semibold text-sm"
+                  >
+                    {confirmingId === card.id ? 'Confirm delete' : 'Delete forever'}
+                  </button>
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+        <div className="flex justify-end pt-4">
+          <button type="button" onClick={onClose} className="btn-secondary py-2 px-5 rounded-full font-semibold">
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default TrashModal;
@@ -0,0 +1,104 @@
+'use client';
+
+import React from 'react';
+import { QueueItem, QueueItemStatus } from '../lib/useExtractionQueue';
+
+interface UploadQueueProps {
+  items: QueueItem[];
+  unflaggedCount: number;
+  onReview: (item: QueueItem) => void;
+  onRetry: (id: string) => void;
+  onRemove: (id: string) => void;
+  onClearFinished: () => void;
+  onSaveAllUnflagged: () => void;
+  online: boolean;
+}
+
+const STATUS_STYLES: Record<QueueItemStatus, { label: string; className: string }> = {
+  pending: { label: 'Pending', className: 'bg-gray-200 text-gray-700' },
+  extracting: { label: 'Extracting', className: 'bg-blue-100 text-blue-700' },
+  review: { label: 'Needs review', className: 'bg-yellow-100 text-yellow-800' },
+  saving: { label: 'Saving', className: 'bg-blue-100 text-blue-700' },
+  uploading: { label: 'Uploading photos', className: 'bg-blue-100 text-blue-700' },
+  saved: { label: 'Saved', className: 'bg-green-100 text-green-700' },
+  failed: { label: 'Failed', className: 'bg-red-100 text-red-700' },
+};
+
+// Per-card progress for batch uploads
+function UploadQueue({ items, unflaggedCount, onReview, onRetry, onRemove, onClearFinished, onSaveAllUnflagged, online }: UploadQueueProps) {
+  if (items.length === 0) return null;
+
+  const savedCount = items.filter(item => item.status === 'saved').length;
+
+  return (
+    <div className="mt-6 text-left">
+      <div className="flex flex-wrap justify-between items-center gap-2 mb-3">
+        <p className="text-sm font-medium text-gray-700">
+          {savedCount} of {items.length} saved
+        </p>
+        <div className="flex gap-2">
+          {unflaggedCount > 0 && (
+            <button
+              onClick={onSaveAllUnflagged}
+              className="btn-primary text-white py-1 px-3 rounded-full text-xs font-semibold"
+            >
+              Save {unflaggedCount} without warnings
+            </button>
+          )}
+          {savedCount > 0 && (
+            <button
+              onClick={onClearFinished}
+              className="btn-secondary py-1 px-3 rounded-full text-xs font-semibold"
+            >
+              Clear saved
+            </button>
+          )}
+        </div>
+      </div>
+      <ul className="space-y-2 max-h-72 overflow-y-auto pr-2">
+        {items.map(item => (
+          <li key={item.id} className="flex items-center gap-3 bg-white border border-gray-200 rounded-lg p-2">
+            {/* eslint-disable-next-line @next/next/no-img-element */}
+            <img src={item.previewUrl} alt="" className="h-10 w-16 object-cover rounded" />
+            {item.backPreviewUrl && (
+              // eslint-disable-next-line @next/next/no-img-element
+              <img src={item.backPreviewUrl} alt="" title="Back of the card" className="h-10 w-16 object-cover rounded -ml-2" />
+            )}
+            <div className="flex-1 min-w-0">
+              <p className="text-sm text-gray-800 truncate">
+                {item.result?.data.companyName || item.result?.data.contactPerson || item.fileName}
+              </p>
+              {item.error && <p className="text-xs text-red-600 truncate" title={item.error}>{item.error}</p>}
+            </div>
+            {(item.status === 'pending' || item.status === 'uploading') && !online ? (
+              <span className="text-xs font-semibold px-2 py-1 rounded-full bg-yellow-100 text-yellow-800">
+                {item.status === 'uploading' ? 'Saved; photos wait for connection' : 'Waiting for connection'}
+              </span>
+            ) : (
+              <span className={`text-xs font-semibold px-2 py-1 rounded-full ${STATUS_STYLES[item.status].className}`}>
+                {STATUS_STYLES[item.status].label}
+              </span>
+            )}
+            {item.status === 'review' && (
+              <button onClick={() => onReview(item)} className="text-xs font-semibold text-indigo-600 hover:underline">
+                Review
+              </button>
+            )}
+            {item.status === 'failed' && (
+              <button onClick={() => onRetry(item.id)} className="text-xs font-semibold text-indigo-600 hover:underline">
+                Retry
+              </button>
+            )}
+            {item.status !== 'extracting' && item.status !== 'saving' && (
+              <button onClick={() => onRemove(item.id)} className="text-xs text-gray-500 hover:text-red-600" aria-label={`Remove ${item.fileName}`}>
+                ✕
+              </button>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+export default UploadQueue;
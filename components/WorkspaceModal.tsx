@@ -0,0 +1,190 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { Invitation, Vault, WorkspaceMember, WorkspaceRole } from '../lib/types';
+import { invitationLink, ROLE_LABELS, WorkspaceService } from '../lib/workspaces';
+
+interface WorkspaceModalProps {
+  workspaces: WorkspaceService;
+  workspace: Vault;
+  userId: string;
+  onLeft: () => void;
+  onClose: () => void;
+}
+
+const inputClass = 'block w-full border border-gray-300 rounded-md shadow-sm p-2 text-sm focus:ring-indigo-500 focus:border-indigo-500';
+
+// Member list, role changes and invitations for a team workspace
+function WorkspaceModal({ workspaces, workspace, userId, onLeft, onClose }: WorkspaceModalProps) {
+  const [members, setMembers] = useState<WorkspaceMember[]>([]);
+  const [invitations, setInvitations] = useState<Invitation[]>([]);
+  const [inviteEmail, setInviteEmail] = useState('');
+  const [inviteRole, setInviteRole] = useState<Invitation['role']>('editor');
+  const [copiedLink, setCopiedLink] = useState('');
+  const [error, setError] = useState('');
+  const isOwner = workspace.role === 'owner';
+
+  useEffect(() => {
+    const reportError = (err: Error) => {
+      console.error("Error loading workspace:", err);
+      setError(err.message);
+    };
+    const unsubscribeMembers = workspaces.subscribeToMembers(workspace.id, setMembers, reportError);
+    const unsubscribeInvitations = isOwner
+      ? workspaces.subscribeToInvitations({ workspaceId: workspace.id }, setInvitations, reportError)
+      : () => undefined;
+    return () => {
+      unsubscribeMembers();
+      unsubscribeInvitations();
+    };
+  }, [workspaces, workspace.id, isOwner]);
+
+  const run = async (action: () => Promise<unknown>) => {
+    setError('');
+    try {
+      await action();
+    } catch (err) {
+      console.error("Workspace action failed:", err);
+      setError(err.message);
+    }
+  };
+
+  const handleInviteByEmail = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    run(async () => {
+      await workspaces.createInvitation(workspace, userId, inviteRole, inviteEmail);
+      setInviteEmail('');
+    });
+  };
+
+  const handleCreateLink = () => run(async () => {
+    const invitation = await workspaces.createInvitation(workspace, userId, inviteRole, null);
+    const link = invitationLink(invitation);
+    await navigator.clipboard?.writeText(link).catch(() => undefined);
+    setCopiedLink(link);
+  });
+
+  const handleLeave = () => run(async () => {
+    await workspaces.removeMember(workspace.id, userId);
+    onLeft();
+  });
+
+  const owners = members.filter(member => member.role === 'owner');
+  const isLastOwner = isOwner && owners.length <= 1;
+
+  return (
+    <div className="fixed inset-0 flex items-center justify-center z-50 modal-overlay p-4">
+      <div className="bg-white p-6 md:p-8 rounded-lg shadow-xl max-w-lg w-full max-h-full overflow-y-auto">
+        <h3 className="text-2xl font-semibold text-gray-800 mb-1">{workspace.name}</h3>
+        <p className="text-sm text-gray-500 mb-6">Your role: {ROLE_LABELS[workspace.role]}</p>
+
+        <h4 className="text-lg font-semibold text-gray-800 mb-2">Members</h4>
+        <ul className="space-y-2 mb-6">
+          {members.map(member => (
+            <li key={member.uid} className="flex items-center gap-2 text-sm">
+              <span className="flex-1 truncate">
+                {member.email || member.displayName || member.uid}{member.uid === userId ? ' (you)' : ''}
+              </span>
+              {isOwner && member.uid !== userId ? (
+                <>
+                  <select
+                    value={member.role}
+                    onChange={e => run(() => workspaces.updateMemberRole(workspace.id, member.uid, e.target.value as WorkspaceRole))}
+                    aria-label={`Role for ${member.email || member.uid}`}
+                    className="border border-gray-300 rounded-md py-1 px-2"
+                  >
+                    {(Object.keys(ROLE_LABELS) as WorkspaceRole[]).map(role => (
+                      <option key={role} value={role}>{ROLE_LABELS[role]}</option>
+                    ))}
+                  </select>
+                  <button
+                    onClick={() => run(() => workspaces.removeMember(workspace.id, member.uid))}
+                    className="text-xs text-gray-500 hover:text-red-600"
+                  >
+                    Remove
+                  </button>
+                </>
+              ) : (
+                <span className="text-gray-500">{ROLE_LABELS[member.role]}</span>
+              )}
+            </li>
+          ))}
+        </ul>
+
+        {isOwner && (
+          <>
+            <h4 className="text-lg font-semibold text-gray-800 mb-2">Invite</h4>
+            <form onSubmit={handleInviteByEmail} className="flex gap-2 mb-2">
+              <input
+                type="email"
+                value={inviteEmail}
+                onChange={e => setInviteEmail(e.target.value)}
+                placeholder="colleague@example.com"
+                required
+                aria-label="Email to invite"
+                className={inputClass}
+              />
+              <select
+                value={inviteRole}
+                onChange={e => setInviteRole(e.target.value as Invitation['role'])}
+                aria-label="Role for invitation"
+                className="border border-gray-300 rounded-md px-2 text-sm"
+              >
+                <option value="editor">{ROLE_LABELS.editor}</option>
+                <option value="viewer">{ROLE_LABELS.viewer}</option>
+              </select>
+              <button type="submit" className="btn-primary text-white py-2 px-4 rounded-full text-sm font-semibold">
+                Invite
+              </button>
+            </form>
+            <button onClick={handleCreateLink} className="text-sm font-semibold text-indigo-600 hover:underline">
+              Create invite link ({ROLE_LABELS[inviteRole]})
+            </button>
+            {copiedLink && (
+              <p className="text-xs text-gray-600 mt-1 break-all">
+                Link copied: <span className="font-mono">{copiedLink}</span>
+              </p>
+            )}
+
+            {invitations.length > 0 && (
+              <>
+                <h4 className="text-sm font-semibold text-gray-700 mt-4 mb-2">Pending invitations</h4>
+                <ul className="space-y-1 mb-2">
+                  {invitations.map(invitation => (
+                    <li key={invitation.id} className="flex items-center gap-2 text-sm">
+                      <span className="flex-1 truncate">{invitation.email || 'Invite link'} · {ROLE_LABELS[invitation.role]}</span>
+                      <button
+                        onClick={() => run(() => workspaces.revokeInvitation(invitation.id))}
+                        className="text-xs text-gray-500 hover:text-red-600"
+                      >
+                        Revoke
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              </>
+            )}
+          </>
+        )}
+
+        {error && <p className="text-sm text-red-600 mt-4">{error}</p>}
+
+        <div className="flex justify-between items-center pt-6">
+          <button
+            onClick={handleLeave}
+            disabled={isLastOwner}
+            title={isLastOwner ? 'Make someone else an owner before leaving' : undefined}
+            className="text-sm text-red-600 hover:underline disabled:opacity-50 disabled:no-underline"
+          >
+            Leave workspace
+          </button>
+          <button onClick={onClose} className="btn-secondary py-2 px-5 rounded-full font-semibold">
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default WorkspaceModal;
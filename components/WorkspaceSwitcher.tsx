@@ -0,0 +1,47 @@
+'use client';
+
+import React from 'react';
+import { Vault } from '../lib/types';
+import { ROLE_LABELS } from '../lib/workspaces';
+
+interface WorkspaceSwitcherProps {
+  vaults: Vault[];
+  activeVault: Vault | null;
+  canCreate: boolean;
+  onSelect: (vaultId: string) => void;
+  onCreate: () => void;
+  onManage: () => void;
+}
+
+// Header control for switching between the private vault and team workspaces
+function WorkspaceSwitcher({ vaults, activeVault, canCreate, onSelect, onCreate, onManage }: WorkspaceSwitcherProps) {
+  return (
+    <div className="flex flex-wrap justify-center items-center gap-2 mt-2 text-sm">
+      <label htmlFor="workspace-switcher" className="text-gray-500">Workspace:</label>
+      <select
+        id="workspace-switcher"
+        value={activeVault?.id || ''}
+        onChange={e => onSelect(e.target.value)}
+        className="border border-gray-300 rounded-md shadow-sm py-1 px-2 bg-white focus:ring-indigo-500 focus:border-indigo-500"
+      >
+        {vaults.map(vault => (
+          <option key={vault.id} value={vault.id}>
+            {vault.name}{vault.kind === 'workspace' ? ` (${ROLE_LABELS[vault.role]})` : ''}
+          </option>
+        ))}
+      </select>
+      {activeVault?.kind === 'workspace' && (
+        <button onClick={onManage} className="font-semibold text-indigo-600 hover:underline">
+          Members
+        </button>
+      )}
+      {canCreate && (
+        <button onClick={onCreate} className="font-semibold text-indigo-600 hover:underline">
+          New workspace
+        </button>
+      )}
+    </div>
+  );
+}
+
+export default WorkspaceSwitcher;
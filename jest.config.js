@@ -0,0 +1,11 @@
+const nextJest = require('next/jest');
+
+// Uses the app's own Next.js compiler settings, so tests see the code exactly as the build does
+const createJestConfig = nextJest({ dir: './' });
+
+module.exports = createJestConfig({
+  testEnvironment: 'jsdom',
+  setupFilesAfterEnv: ['<rootDir>/__tests__/support/setup.ts'],
+  // Only *.test files are suites; __tests__/support holds the fakes they share
+  testMatch: ['<rootDir>/__tests__/**/*.test.[jt]s?(x)'],
+});
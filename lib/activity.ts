@@ -0,0 +1,111 @@
+// Tags, notes and follow-up reminders recorded on a card after it is saved.
+//
+// They are written with arrayUnion/arrayRemove rather than by replacing the whole card, so notes
+// added on two devices while offline are both kept, and they don't count as field edits for the
+// conflict check in lib/sync.ts.
+
+import { CardNote, CompanyData, Reminder } from './types';
+import { foldText } from './text';
+
+export interface DueReminder {
+  card: CompanyData;
+  reminder: Reminder;
+}
+
+export type TimelineKind = 'added' | 'note' | 'reminder' | 'completed';
+
+export interface TimelineEntry {
+  key: string;
+  kind: TimelineKind;
+  at: number;
+  by?: string | null;
+  text: string;
+  note?: CardNote;
+}
+
+// Tags keep the case they were first typed in but compare without case or accents
+export const normalizeTag = (tag: string): string => tag.replace(/\s+/g, ' ').trim();
+
+export const sameTag = (a: string, b: string): boolean => foldText(a) === foldText(b);
+
+export const hasTag = (card: CompanyData, tag: string): boolean => (card.tags || []).some(existing => sameTag(existing, tag));
+
+// Every tag used in the vault, for suggestions and the tag filter
+export const collectTags = (cards: CompanyData[]): string[] => {
+  const tags: string[] = [];
+  cards.forEach(card => (card.tags || []).forEach(tag => {
+    if (!tags.some(existing => sameTag(existing, tag))) tags.push(tag);
+  }));
+  return tags.sort((a, b) => a.localeCompare(b, undefined, { sensitivity: 'base' }));
+};
+
+const newId = (): string => crypto.randomUUID();
+
+export const createNote = (text: string, userId: string | null): CardNote => ({
+  id: newId(),
+  text: text.trim(),
+  createdAt: Date.now(),
+  createdBy: userId,
+});
+
+export const createReminder = (dueDate: string, note: string, userId: string | null): Reminder => ({
+  id: newId(),
+  dueDate,
+  note: note.trim(),
+  done: false,
+  createdAt: Date.now(),
+  createdBy: userId,
+});
+
+export const completeReminder = (reminder: Reminder, done: boolean): Reminder => {
+  const updated: Reminder = { ...reminder, done };
+  // Firestore rejects undefined, so the field is left out rather than cleared
+  if (done) updated.completedAt = Date.now();
+  else delete updated.completedAt;
+  return updated;
+};
+
+// yyyy-mm-dd in local time, comparable as a string with Reminder.dueDate
+export const localDateKey = (date = new Date()): string => {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+// Overdue reminders count as due, so nothing drops off the list by being missed
+export const isReminderDue = (reminder: Reminder, today: string): boolean => !reminder.done && reminder.dueDate <= today;
+
+export const hasDueReminder = (card: CompanyData, today: string): boolean =>
+  (card.reminders || []).some(reminder => isReminderDue(reminder, today));
+
+// What CompanyData.nextDueDate should hold for these reminders
+export const nextDueDate = (reminders: Reminder[] = []): string | undefined =>
+  reminders.filter(reminder => !reminder.done).map(reminder => reminder.dueDate).sort()[0];
+
+export const openReminders = (cards: CompanyData[]): DueReminder[] =>
+  cards
+    .flatMap(card => (card.reminders || []).filter(reminder => !reminder.done).map(reminder => ({ card, reminder })))
+    .sort((a, b) => a.reminder.dueDate.localeCompare(b.reminder.dueDate));
+
+export const dueReminders = (cards: CompanyData[], today: string): DueReminder[] =>
+  openReminders(cards).filter(entry => isReminderDue(entry.reminder, today));
+
+// Notes, reminders and when the card was added, newest first
+export const activityTimeline = (card: CompanyData): TimelineEntry[] => {
+  const entries: TimelineEntry[] = (card.notes || []).map(note => ({
+    key: `note-${note.id}`,
+    kind: 'note' as TimelineKind,
+    at: note.createdAt,
+    by: note.createdBy,
+    text: note.text,
+    note,
+  }));
+  (card.reminders || []).forEach(reminder => {
+    const about = reminder.note ? `: ${reminder.note}` : '';
+    entries.push({ key: `reminder-${reminder.id}`, kind: 'reminder', at: reminder.createdAt, by: reminder.createdBy, text: `Follow-up set for ${reminder.dueDate}${about}` });
+    if (reminder.done && reminder.completedAt) {
+      entries.push({ key: `completed-${reminder.id}`, kind: 'completed', at: reminder.completedAt, text: `Follow-up done${about}` });
+    }
+  });
+  if (card.timestamp) entries.push({ key: 'added', kind: 'added', at: card.timestamp, by: card.uploadedBy, text: 'Card added' });
+  return entries.sort((a, b) => b.at - a.at);
+};
@@ -0,0 +1,125 @@
+// Access checks for the API routes. The REST API takes a vault's API token; the settings routes, the
+// webhook trigger, card reading and card images take the signed-in user's Firebase ID token. Both are
+// sent as "Authorization: Bearer <token>". Server only.
+
+import { createHash, randomBytes } from 'crypto';
+import { NextResponse } from 'next/server';
+import { adminAuth, adminDb, isAdminConfigured, serverAppId } from './firebaseAdmin';
+import { apiTokensPath, workspaceMembersPath } from './firestorePaths';
+import { ApiToken, VaultRef } from './integrations';
+import { WorkspaceRole } from './types';
+
+export class ApiError extends Error {
+  status: number;
+
+  constructor(message: string, status = 500) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = status;
+  }
+}
+
+// The JSON error response for a failed request; unexpected errors are logged
+export const errorResponse = (error: Error) => {
+  const status = error instanceof ApiError ? error.status : 500;
+  if (status >= 500) console.error("Error handling API request:", error);
+  return NextResponse.json({ error: error.message }, { status });
+};
+
+export const requireAdmin = (feature = 'Integrations') => {
+  if (!isAdminConfigured()) throw new ApiError(`${feature} are not configured on the server.`, 503);
+};
+
+const bearerToken = (request: Request): string => {
+  const match = (request.headers.get('authorization') || '').match(/^Bearer\s+(\S+)$/i);
+  if (!match) throw new ApiError('Missing "Authorization: Bearer <token>" header.', 401);
+  return match[1];
+};
+
+export const generateApiToken = (): string => `cv_${randomBytes(24).toString('base64url')}`;
+
+// Only the hash is stored, so a leaked database doesn't leak working tokens
+export const hashApiToken = (token: string): string => createHash('sha256').update(token).digest('hex');
+
+export const readVaultRef = (value: unknown): VaultRef => {
+  const ref = value as VaultRef;
+  if (!ref || (ref.kind !== 'personal' && ref.kind !== 'workspace') || typeof ref.id !== 'string' || !/^[\w-]+$/.test(ref.id)) {
+    throw new ApiError('Missing or invalid "vault".', 400);
+  }
+  return { kind: ref.kind, id: ref.id };
+};
+
+export const readJsonBody = async (request: Request): Promise<Record<string, unknown>> => {
+  try {
+    const body = await request.json();
+    if (body && typeof body === 'object' && !Array.isArray(body)) return body;
+  } catch {
+    // Reported below
+  }
+  throw new ApiError('Request body must be a JSON object.', 400);
+};
+
+// For GET and DELETE requests, which pass the vault as ?vaultKind=&vaultId=
+export const vaultRefFromQuery = (request: Request): VaultRef => {
+  const params = new URL(request.url).searchParams;
+  return readVaultRef({ kind: params.get('vaultKind'), id: params.get('vaultId') });
+};
+
+// The user's role in the vault, or null when they aren't a member
+export const vaultRole = async (uid: string, ref: VaultRef): Promise<WorkspaceRole | null> => {
+  if (ref.kind === 'personal') return ref.id === uid ? 'owner' : null;
+  const member = await adminDb().doc(`${workspaceMembersPath(serverAppId, ref.id)}/${uid}`).get();
+  return member.exists ? (member.get('role') as WorkspaceRole) : null;
+};
+
+// The vault an image path under userStoragePrefix or workspaceStoragePrefix belongs to, or null.
+// Paths with "." or ".." segments are refused: stores resolve the whole path, which could then point
+// into another vault than the one checked here.
+export const vaultRefFromStoragePath = (path: string): VaultRef | null => {
+  const segments = path.split('/');
+  if (segments.some(segment => !segment || segment === '.' || segment === '..')) return null;
+  const [appId, kind, id] = segments;
+  if (appId !== serverAppId || !id || !/^[\w-]+$/.test(id)) return null;
+  if (kind === 'users') return { kind: 'personal', id };
+  if (kind === 'workspaces') return { kind: 'workspace', id };
+  return null;
+};
+
+export const requireVaultRole = async (uid: string, ref: VaultRef, roles: WorkspaceRole[]) => {
+  const role = await vaultRole(uid, ref);
+  if (!role || !roles.includes(role)) throw new ApiError('You do not have access to this vault.', 403);
+};
+
+// The uid of the signed-in user making the request. Checking an ID token only needs the project ID,
+// not a service account, so routes that don't touch the database can use this on any deployment.
+export const verifyUser = async (request: Request): Promise<string> => {
+  if (!process.env.NEXT_PUBLIC_FIREBASE_PROJECT_ID && !isAdminConfigured()) {
+    throw new ApiError('Sign-in is not configured on the server.', 503);
+  }
+  try {
+    const decoded = await adminAuth().verifyIdToken(bearerToken(request));
+    return decoded.uid;
+  } catch (error) {
+    if (error instanceof ApiError) throw error;
+    throw new ApiError('Your sign-in has expired. Reload the page and try again.', 401);
+  }
+};
+
+// As verifyUser, for routes that go on to use the Admin SDK's database access
+export const authenticateUser = async (request: Request): Promise<string> => {
+  requireAdmin();
+  return verifyUser(request);
+};
+
+// The API token making the request. Tokens act with their creator's access, so one stops working
+// when its creator can no longer edit the vault.
+export const authenticateApiToken = async (request: Request): Promise<ApiToken> => {
+  requireAdmin();
+  const tokenRef = adminDb().doc(`${apiTokensPath(serverAppId)}/${hashApiToken(bearerToken(request))}`);
+  const snapshot = await tokenRef.get();
+  if (!snapshot.exists) throw new ApiError('Invalid API token.', 401);
+  const token = { id: snapshot.id, ...snapshot.data() } as ApiToken;
+  await requireVaultRole(token.createdBy, token.vault, ['owner', 'editor']);
+  await tokenRef.update({ lastUsedAt: Date.now() });
+  return token;
+};
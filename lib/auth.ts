@@ -0,0 +1,74 @@
+// Email/password and Google sign-in. Guests start with an anonymous account; signing up links the
+// new credential to it so the uid, and with it the guest's vault, carries over to the permanent account.
+
+import {
+  Auth,
+  AuthError,
+  createUserWithEmailAndPassword,
+  EmailAuthProvider,
+  GoogleAuthProvider,
+  linkWithCredential,
+  linkWithPopup,
+  sendEmailVerification,
+  signInWithCredential,
+  signInWithEmailAndPassword,
+  signInWithPopup,
+  User,
+} from 'firebase/auth';
+
+export type AuthMode = 'signIn' | 'signUp';
+
+const AUTH_ERROR_MESSAGES: Record<string, string> = {
+  'auth/email-already-in-use': 'An account with this email already exists. Sign in instead.',
+  'auth/credential-already-in-use': 'This account is already registered. Sign in instead.',
+  'auth/invalid-credential': 'Incorrect email or password.',
+  'auth/invalid-email': 'That email address is not valid.',
+  'auth/user-not-found': 'Incorrect email or password.',
+  'auth/wrong-password': 'Incorrect email or password.',
+  'auth/weak-password': 'Password must be at least 6 characters.',
+  'auth/popup-closed-by-user': 'Sign-in was cancelled.',
+  'auth/too-many-requests': 'Too many attempts. Please wait a moment and try again.',
+};
+
+export const describeAuthError = (error: AuthError | Error): string =>
+  ('code' in error && AUTH_ERROR_MESSAGES[error.code]) || error.message;
+
+export const signInWithEmail = async (auth: Auth, email: string, password: string, mode: AuthMode): Promise<User> => {
+  const current = auth.currentUser;
+  if (mode === 'signUp') {
+    const { user } = current?.isAnonymous
+      ? await linkWithCredential(current, EmailAuthProvider.credential(email, password))
+      : await createUserWithEmailAndPassword(auth, email, password);
+    // Invitations sent to the address only reach the account once it is verified. The account is
+    // usable without it, so a failed send doesn't fail the sign-up; it can be resent from the header.
+    await sendEmailVerification(user).catch(() => undefined);
+    return user;
+  }
+  return (await signInWithEmailAndPassword(auth, email, password)).user;
+};
+
+export const signInWithGoogle = async (auth: Auth): Promise<User> => {
+  const provider = new GoogleAuthProvider();
+  const current = auth.currentUser;
+  if (!current?.isAnonymous) {
+    return (await signInWithPopup(auth, provider)).user;
+  }
+
+  try {
+    return (await linkWithPopup(current, provider)).user;
+  } catch (error) {
+    // The Google account already has a CardVault vault: sign in to it instead of linking
+    if (error.code !== 'auth/credential-already-in-use') throw error;
+    const credential = GoogleAuthProvider.credentialFromError(error);
+    if (!credential) throw error;
+    return (await signInWithCredential(auth, credential)).user;
+  }
+};
+
+// The verified flag only reaches the ID token, and with it the security rules, once the token is
+// refreshed after the user follows the link in the email
+export const refreshEmailVerification = async (user: User): Promise<boolean> => {
+  await user.reload();
+  if (user.emailVerified) await user.getIdToken(true);
+  return user.emailVerified;
+};
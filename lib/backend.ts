@@ -0,0 +1,29 @@
+// Everything the app needs from outside the browser tab: where cards are stored, who is signed in and
+// how cards are read. createFirebaseBackend (lib/firebaseBackend.ts) is the real one; the tests build
+// one from lib/memoryCardRepository.ts and a canned extraction service, so the whole app runs with no
+// network access.
+
+import { Auth, User } from 'firebase/auth';
+import { BlobStore } from './blobStore';
+import { CardRepository } from './cardRepository';
+import { ExtractionService } from './extractionService';
+import { Vault } from './types';
+import { WorkspaceService } from './workspaces';
+
+export interface Backend {
+  // Prefixes every vault's paths, so several apps can share one Firebase project
+  appId: string;
+  // Account upgrades still talk to Firebase Auth directly; null without it, which switches them off
+  auth: Auth | null;
+  // Team workspaces and invitations; null switches them off and leaves only the private vault
+  workspaces: WorkspaceService | null;
+  blobStore: BlobStore | null;
+  extraction: ExtractionService;
+  cardRepository(vault: Vault): CardRepository;
+  // Moves the user's cards from the old shared collection into their private vault (see
+  // lib/legacyCards.ts). Resolves to how many were moved.
+  importLegacyCards(uid: string): Promise<number>;
+  // Reports the signed-in user and every change to it, signing in as a guest when nobody is. Errors
+  // are sign-in failures. Returns a function that stops listening.
+  watchUser(onUser: (user: User | null) => void, onError: (error: Error) => void): () => void;
+}
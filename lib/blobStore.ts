@@ -0,0 +1,76 @@
+// Pluggable storage for original card images. Firebase Storage is used by default;
+// set NEXT_PUBLIC_BLOB_STORE=local to keep images on the server's filesystem via /api/images instead.
+
+import { FirebaseApp } from 'firebase/app';
+import { deleteObject, FirebaseStorage, getDownloadURL, getStorage, ref, uploadBytes } from 'firebase/storage';
+import { CardImage, CardSide, IdTokenSource } from './types';
+
+export interface BlobStore {
+  put(path: string, data: Blob, contentType: string): Promise<CardImage>;
+  delete(path: string): Promise<void>;
+}
+
+const EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+  'image/gif': 'gif',
+  'image/heic': 'heic',
+};
+
+// Images live under the vault's storage prefix so storage rules can mirror the Firestore access rules
+export const cardImagePath = (storagePrefix: string, cardId: string, side: CardSide, contentType: string) =>
+  `${storagePrefix}/cards/${cardId}/${side}.${EXTENSIONS[contentType] || 'img'}`;
+
+export class FirebaseBlobStore implements BlobStore {
+  constructor(private storage: FirebaseStorage) {}
+
+  async put(path: string, data: Blob, contentType: string): Promise<CardImage> {
+    const objectRef = ref(this.storage, path);
+    await uploadBytes(objectRef, data, { contentType });
+    return { path, url: await getDownloadURL(objectRef), contentType };
+  }
+
+  async delete(path: string): Promise<void> {
+    try {
+      await deleteObject(ref(this.storage, path));
+    } catch (error) {
+      // Already gone is fine; anything else should surface
+      if (error?.code !== 'storage/object-not-found') throw error;
+    }
+  }
+}
+
+// Talks to the /api/images route, which writes to a local directory on the server. Writes are signed
+// with the user's ID token; the route checks it against the vault in the path.
+export class HttpBlobStore implements BlobStore {
+  constructor(private getIdToken: IdTokenSource, private baseUrl = '/api/images') {}
+
+  private urlFor(path: string) {
+    return `${this.baseUrl}/${path.split('/').map(encodeURIComponent).join('/')}`;
+  }
+
+  private async authorization(): Promise<Record<string, string>> {
+    const idToken = await this.getIdToken();
+    return idToken ? { Authorization: `Bearer ${idToken}` } : {};
+  }
+
+  async put(path: string, data: Blob, contentType: string): Promise<CardImage> {
+    const url = this.urlFor(path);
+    const response = await fetch(url, { method: 'PUT', headers: { 'Content-Type': contentType, ...(await this.authorization()) }, body: data });
+    if (!response.ok) {
+      throw new Error(`Image upload failed: ${response.status} ${response.statusText}`);
+    }
+    return { path, url, contentType };
+  }
+
+  async delete(path: string): Promise<void> {
+    const response = await fetch(this.urlFor(path), { method: 'DELETE', headers: await this.authorization() });
+    if (!response.ok && response.status !== 404) {
+      throw new Error(`Image delete failed: ${response.status} ${response.statusText}`);
+    }
+  }
+}
+
+export const createBlobStore = (app: FirebaseApp, getIdToken: IdTokenSource): BlobStore =>
+  process.env.NEXT_PUBLIC_BLOB_STORE === 'local' ? new HttpBlobStore(getIdToken) : new FirebaseBlobStore(getStorage(app));
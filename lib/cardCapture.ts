@@ -0,0 +1,120 @@
+// Crops, straightens and compresses card photos in the browser before they are queued for
+// extraction, for camera frames and uploaded files alike (see lib/cardDetection.ts for the maths)
+
+import { cardSize, detectCard, DETECTION_SIZE, MAX_CARD_EDGE, Quad, RgbaImage, scaleQuad, warpQuad } from './cardDetection';
+import { CardPhoto } from './types';
+import { QueuedImage } from './useExtractionQueue';
+
+export const CARD_MIME_TYPE = 'image/jpeg';
+
+// Clear enough for the models and small enough to upload quickly on a phone connection
+const JPEG_QUALITY = 0.85;
+
+// Photos cropped at a time. Each is decoded at full size, so a phone given dozens of photos at once
+// would run out of memory holding them all.
+export const CROP_CONCURRENCY = 2;
+
+// Photos are read at up to this size before straightening; more pixels only slow the warp down
+const MAX_SOURCE_EDGE = MAX_CARD_EDGE * 1.5;
+
+export interface PreparedImage {
+  image: Blob;
+  mimeType: string;
+  // False when no card was found and the whole photo was kept
+  cropped: boolean;
+}
+
+const createCanvas = (width: number, height: number): HTMLCanvasElement => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  return canvas;
+};
+
+const encode = (canvas: HTMLCanvasElement): Promise<Blob> => new Promise((resolve, reject) => {
+  canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('The image could not be encoded.'))), CARD_MIME_TYPE, JPEG_QUALITY);
+});
+
+// Draws the source at width x height and reads its pixels back
+export const readPixels = (source: CanvasImageSource, sourceWidth: number, sourceHeight: number, width: number, height: number): RgbaImage => {
+  const context = createCanvas(width, height).getContext('2d', { willReadFrequently: true });
+  context.drawImage(source, 0, 0, sourceWidth, sourceHeight, 0, 0, width, height);
+  return { width, height, data: context.getImageData(0, 0, width, height).data };
+};
+
+// The size that fits within maxEdge, never scaling up
+export const fit = (width: number, height: number, maxEdge: number) => {
+  const scale = Math.min(1, maxEdge / Math.max(width, height));
+  return { width: Math.round(width * scale), height: Math.round(height * scale), scale };
+};
+
+// Looks for the card in a video frame or image, in its full-size coordinates
+export const findCard = (source: CanvasImageSource, width: number, height: number): Quad | null => {
+  const small = fit(width, height, DETECTION_SIZE);
+  const quad = detectCard(readPixels(source, width, height, small.width, small.height));
+  return quad && scaleQuad(quad, 1 / small.scale);
+};
+
+// The card cut out along `quad` and straightened, or the whole picture scaled down when there is no quad
+export const straightenCard = async (source: CanvasImageSource, width: number, height: number, quad: Quad | null): Promise<Blob> => {
+  if (!quad) {
+    const size = fit(width, height, MAX_CARD_EDGE);
+    const canvas = createCanvas(size.width, size.height);
+    canvas.getContext('2d').drawImage(source, 0, 0, width, height, 0, 0, size.width, size.height);
+    return encode(canvas);
+  }
+  const read = fit(width, height, MAX_SOURCE_EDGE);
+  const scaledQuad = scaleQuad(quad, read.scale);
+  const size = cardSize(scaledQuad);
+  const flat = warpQuad(readPixels(source, width, height, read.width, read.height), scaledQuad, size.width, size.height);
+  const canvas = createCanvas(flat.width, flat.height);
+  canvas.getContext('2d').putImageData(new ImageData(flat.data, flat.width, flat.height), 0, 0);
+  return encode(canvas);
+};
+
+// Crops and straightens an uploaded photo. Images the browser can't decode, and small JPEGs with no
+// card found in them, are passed on untouched.
+export const prepareCardImage = async (image: Blob, mimeType: string, autoCrop: boolean): Promise<PreparedImage> => {
+  if (typeof createImageBitmap === 'undefined') return { image, mimeType, cropped: false };
+  let bitmap: ImageBitmap;
+  try {
+    bitmap = await createImageBitmap(image);
+  } catch (error) {
+    console.warn("Could not decode the image for cropping, using it as it is:", error);
+    return { image, mimeType, cropped: false };
+  }
+  try {
+    const { width, height } = bitmap;
+    const quad = autoCrop ? findCard(bitmap, width, height) : null;
+    if (!quad && mimeType === CARD_MIME_TYPE && Math.max(width, height) <= MAX_CARD_EDGE) return { image, mimeType, cropped: false };
+    return { image: await straightenCard(bitmap, width, height, quad), mimeType: CARD_MIME_TYPE, cropped: !!quad };
+  } finally {
+    bitmap.close();
+  }
+};
+
+// Crops and straightens each queued card, a couple of photos at a time and one side after the other,
+// keeping the order. A card whose photos can't be processed is queued as it was.
+export const prepareQueuedImages = async (images: QueuedImage[], autoCrop: boolean): Promise<QueuedImage[]> => {
+  const prepare = async (photo: CardPhoto): Promise<CardPhoto> => {
+    const { image, mimeType } = await prepareCardImage(photo.image, photo.mimeType, autoCrop);
+    return { image, mimeType };
+  };
+  const prepared = [...images];
+  let next = 0;
+  const worker = async () => {
+    while (next < images.length) {
+      const index = next++;
+      const queued = images[index];
+      try {
+        const front = await prepare(queued);
+        const back = queued.back && await prepare(queued.back);
+        prepared[index] = { ...queued, ...front, back };
+      } catch (error) {
+        console.error("Error cropping the card photo:", error);
+      }
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(CROP_CONCURRENCY, images.length) }, worker));
+  return prepared;
+};
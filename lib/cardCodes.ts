@@ -0,0 +1,160 @@
+// Contact details from the QR codes and barcodes printed on a card: vCards, MeCards and plain
+// links. The codes are found and decoded in the browser by lib/codeScanner.ts; this file only reads
+// what they say, so it runs anywhere.
+
+import { detectSocialNetwork, mergeContactLists, reconcileContactFields, sameEmail, samePhone } from './contactFields';
+import { ContactPhone, EXTRACTED_FIELDS, ExtractedCardData, ExtractionResult, SocialProfile } from './types';
+import { normalizeUrl } from './validation';
+import { parseVCards } from './vcard';
+
+// One decoded code; `format` is a BarcodeDetector format name such as "qr_code" or "pdf417"
+export interface ScannedCode {
+  format: string;
+  text: string;
+}
+
+// Everything the codes on one card said
+export interface CardCodes {
+  // Contact details from the first vCard or MeCard, if any
+  contact: ExtractedCardData | null;
+  contactFormat?: string;
+  // Links from codes that held nothing but a URL
+  urls: string[];
+}
+
+// MeCard values escape ; : , and \ with a backslash
+const unescapeMeCard = (value: string): string => value.replace(/\\([\\;:,])/g, '$1');
+
+// Splits on separators that are not escaped
+const splitUnescaped = (value: string, separator: string): string[] => {
+  const parts: string[] = [];
+  let current = '';
+  for (let i = 0; i < value.length; i++) {
+    const char = value[i];
+    if (char === '\\' && i + 1 < value.length) {
+      current += char + value[i + 1];
+      i++;
+    } else if (char === separator) {
+      parts.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  parts.push(current);
+  return parts;
+};
+
+// "MECARD:N:Doe,Jane;TEL:+44...;EMAIL:jane@acme.test;ORG:Acme;;". ORG and TITLE are not in the
+// original format but are written by most generators.
+export const parseMeCard = (text: string): ExtractedCardData | null => {
+  const body = text.trim().replace(/^MECARD:/i, '');
+  if (body === text.trim()) return null;
+  const fields: { name: string; value: string }[] = splitUnescaped(body, ';')
+    .map(entry => {
+      const colon = entry.indexOf(':');
+      return colon < 0 ? null : { name: entry.slice(0, colon).trim().toUpperCase(), value: entry.slice(colon + 1) };
+    })
+    .filter(field => field && field.value.trim());
+  const all = (name: string) => fields.filter(field => field.name === name).map(field => field.value);
+  const first = (name: string) => (all(name)[0] ? unescapeMeCard(all(name)[0]).trim() : '');
+
+  const data: ExtractedCardData = {};
+  const name = all('N')[0];
+  if (name) {
+    // N is "Family,Given"
+    const [family, given] = splitUnescaped(name, ',').map(part => unescapeMeCard(part).trim());
+    data.contactPerson = [given, family].filter(Boolean).join(' ');
+  }
+  const companyName = first('ORG');
+  if (companyName) data.companyName = companyName;
+  const jobTitle = first('TITLE');
+  if (jobTitle) data.jobTitle = jobTitle;
+  const phones: ContactPhone[] = all('TEL').map(value => ({ type: 'work' as const, value: unescapeMeCard(value).trim() }));
+  if (phones.length > 0) data.phones = phones;
+  const emails = all('EMAIL').map(value => ({ type: 'work' as const, value: unescapeMeCard(value).trim() }));
+  if (emails.length > 0) data.emails = emails;
+  const urls = all('URL').map(value => unescapeMeCard(value).trim());
+  const website = urls.find(url => detectSocialNetwork(url) === 'other');
+  if (website) data.website = website;
+  const socialProfiles: SocialProfile[] = urls
+    .filter(url => detectSocialNetwork(url) !== 'other')
+    .map(url => ({ network: detectSocialNetwork(url), value: url }));
+  if (socialProfiles.length > 0) data.socialProfiles = socialProfiles;
+  // ADR is "PO box,extended,street,city,region,postcode,country"
+  const address = all('ADR')[0];
+  if (address) data.address = splitUnescaped(address, ',').map(part => unescapeMeCard(part).trim()).filter(Boolean).join(', ');
+  return Object.keys(data).length > 0 ? data : null;
+};
+
+const isUrl = (text: string) => /^(https?:\/\/|www\.)\S+$/i.test(text.trim());
+
+// Sorts the decoded codes into contact details and links; anything else (product barcodes, Wi-Fi
+// settings, plain text) is ignored
+export const readCardCodes = (codes: ScannedCode[]): CardCodes => {
+  const result: CardCodes = { contact: null, urls: [] };
+  codes.forEach(({ format, text }) => {
+    const trimmed = text.trim();
+    if (!result.contact) {
+      const contact = /BEGIN:VCARD/i.test(trimmed) ? parseVCards(trimmed)[0]?.data : parseMeCard(trimmed);
+      if (contact) {
+        result.contact = contact;
+        result.contactFormat = format;
+        return;
+      }
+    }
+    if (isUrl(trimmed)) {
+      const url = normalizeUrl(trimmed) || trimmed;
+      if (!result.urls.includes(url)) result.urls.push(url);
+    }
+  });
+  return result;
+};
+
+// A code with a name or company and a way to reach them is trusted over the models, so the card
+// doesn't need to be read at all
+export const isCompleteContact = (codes: CardCodes): boolean => {
+  const contact = codes.contact;
+  if (!contact) return false;
+  const reachable = !!(contact.phones?.length || contact.emails?.length || contact.phoneNumber || contact.email);
+  return !!(contact.contactPerson || contact.companyName) && reachable;
+};
+
+// Lays what the codes said over what the models read (or over nothing, when the models were
+// skipped). Encoded values are exact, so they win over printed text read by a model; their
+// confidence is 1. Links are kept in codeUrls, and links to a social profile are added to the profiles.
+export const withCardCodes = (result: ExtractionResult | null, codes: CardCodes): ExtractionResult => {
+  if (result && !codes.contact && codes.urls.length === 0) return result;
+  const data: ExtractedCardData = { ...(result?.data || {}) };
+  const extraction = { ...(result?.extraction || {}) };
+  const contact = codes.contact;
+  if (!result) EXTRACTED_FIELDS.forEach(field => { data[field] = ''; });
+
+  if (contact) {
+    EXTRACTED_FIELDS.forEach(field => {
+      const value = contact[field];
+      if (!value) return;
+      data[field] = value;
+      extraction[field] = { confidence: 1, sourceText: value };
+    });
+    data.phones = mergeContactLists(contact.phones, data.phones, samePhone);
+    data.emails = mergeContactLists(contact.emails, data.emails, sameEmail);
+    data.socialProfiles = mergeContactLists(contact.socialProfiles, data.socialProfiles, (a, b) => a === b);
+    if (contact.postalAddress) data.postalAddress = contact.postalAddress;
+    else if (contact.address) delete data.postalAddress;
+  }
+
+  const profileLinks = codes.urls
+    .filter(url => detectSocialNetwork(url) !== 'other')
+    .map(url => ({ network: detectSocialNetwork(url), value: url }));
+  data.socialProfiles = mergeContactLists(data.socialProfiles, profileLinks, (a, b) => a === b);
+  if (codes.urls.length > 0) data.codeUrls = codes.urls;
+
+  const merged: ExtractionResult = { data: reconcileContactFields(data), extraction };
+  if (result?.provider) merged.provider = result.provider;
+  if (contact) merged.codeFormat = codes.contactFormat;
+  return merged;
+};
+
+// "QR code" for QR codes, "barcode" for the other formats, for messages about where details came from
+export const codeFormatLabel = (format: string): string => (format === 'qr_code' ? 'QR code' : 'barcode');
@@ -0,0 +1,300 @@
+// Finds a business card in a photo and straightens it into a flat rectangle. Plain pixel maths on
+// RGBA buffers, so the same code runs on camera frames, uploaded photos (see lib/cardCapture.ts)
+// and in tests.
+//
+// Detection assumes the card is roughly centred and stands out from what it lies on: the frame is
+// split into light and dark with Otsu's threshold, the region under the centre is taken as the card,
+// and its four outermost points are its corners. Anything that doesn't look like a card — too small,
+// filling the whole frame, or not four-sided — returns null and the photo is used as it is.
+
+export interface RgbaImage {
+  width: number;
+  height: number;
+  data: Uint8ClampedArray;
+}
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+// Corners clockwise from the top left
+export type Quad = [Point, Point, Point, Point];
+
+// Longest side, in pixels, of the frame the detector looks at; more detail doesn't help it
+export const DETECTION_SIZE = 240;
+
+// Longest side of the straightened card; plenty for the models and OCR, and keeps uploads small
+export const MAX_CARD_EDGE = 1600;
+
+// The card must cover this share of the frame
+const MIN_CARD_AREA = 0.12;
+const MAX_CARD_AREA = 0.92;
+
+// How closely the region has to fill the four-sided shape through its corners
+const MIN_FILL = 0.85;
+const MAX_FILL = 1.15;
+
+// Business cards are about 1.6:1; allow for square cards and strong perspective
+const MAX_ASPECT = 3;
+
+const toGray = ({ width, height, data }: RgbaImage): Float32Array => {
+  const gray = new Float32Array(width * height);
+  for (let i = 0; i < gray.length; i++) {
+    gray[i] = 0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2];
+  }
+  return gray;
+};
+
+// 3x3 box blur, so text and paper grain don't break the card into pieces
+const blur = (gray: Float32Array, width: number, height: number): Float32Array => {
+  const out = new Float32Array(gray.length);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let sum = 0;
+      let count = 0;
+      for (let dy = -1; dy <= 1; dy++) {
+        for (let dx = -1; dx <= 1; dx++) {
+          const nx = x + dx;
+          const ny = y + dy;
+          if (nx < 0 || ny < 0 || nx >= width || ny >= height) continue;
+          sum += gray[ny * width + nx];
+          count++;
+        }
+      }
+      out[y * width + x] = sum / count;
+    }
+  }
+  return out;
+};
+
+// The brightness that best splits the frame into two groups
+const otsuThreshold = (gray: Float32Array): number => {
+  const histogram = new Array(256).fill(0);
+  gray.forEach(value => { histogram[Math.min(255, Math.round(value))]++; });
+  const total = gray.length;
+  const sumAll = histogram.reduce((sum, count, level) => sum + count * level, 0);
+  let sumBelow = 0;
+  let countBelow = 0;
+  let best = 0;
+  let threshold = 128;
+  for (let level = 0; level < 256; level++) {
+    countBelow += histogram[level];
+    if (countBelow === 0) continue;
+    const countAbove = total - countBelow;
+    if (countAbove === 0) break;
+    sumBelow += level * histogram[level];
+    const meanBelow = sumBelow / countBelow;
+    const meanAbove = (sumAll - sumBelow) / countAbove;
+    const between = countBelow * countAbove * (meanBelow - meanAbove) ** 2;
+    if (between > best) {
+      best = between;
+      threshold = level;
+    }
+  }
+  return threshold;
+};
+
+// The connected region (4-neighbour) containing the start pixel
+const floodFill = (mask: Uint8Array, width: number, height: number, start: number): Uint8Array => {
+  const region = new Uint8Array(mask.length);
+  const stack = [start];
+  region[start] = 1;
+  while (stack.length > 0) {
+    const index = stack.pop();
+    const x = index % width;
+    const y = (index - x) / width;
+    const neighbours: number[] = [];
+    if (x > 0) neighbours.push(index - 1);
+    if (x < width - 1) neighbours.push(index + 1);
+    if (y > 0) neighbours.push(index - width);
+    if (y < height - 1) neighbours.push(index + width);
+    neighbours.forEach(next => {
+      if (!mask[next] || region[next]) return;
+      region[next] = 1;
+      stack.push(next);
+    });
+  }
+  return region;
+};
+
+const distance = (a: Point, b: Point) => Math.hypot(a.x - b.x, a.y - b.y);
+
+// Shoelace formula; positive when the corners run clockwise on screen
+const signedArea = (points: Point[]): number =>
+  points.reduce((sum, point, i) => {
+    const next = points[(i + 1) % points.length];
+    return sum + (point.x * next.y - next.x * point.y);
+  }, 0) / 2;
+
+export const quadArea = (quad: Quad): number => Math.abs(signedArea(quad));
+
+// Puts four corners in clockwise order starting from the top left
+const orderCorners = (points: Point[]): Quad => {
+  const centre = { x: points.reduce((sum, p) => sum + p.x, 0) / 4, y: points.reduce((sum, p) => sum + p.y, 0) / 4 };
+  const sorted = [...points].sort((a, b) => Math.atan2(a.y - centre.y, a.x - centre.x) - Math.atan2(b.y - centre.y, b.x - centre.x));
+  const first = sorted.reduce((best, point, i) => (point.x + point.y < sorted[best].x + sorted[best].y ? i : best), 0);
+  return [0, 1, 2, 3].map(i => sorted[(first + i) % 4]) as Quad;
+};
+
+const isConvex = (quad: Quad): boolean => {
+  const crosses = quad.map((point, i) => {
+    const next = quad[(i + 1) % 4];
+    const after = quad[(i + 2) % 4];
+    return (next.x - point.x) * (after.y - next.y) - (next.y - point.y) * (after.x - next.x);
+  });
+  return crosses.every(cross => cross > 0) || crosses.every(cross => cross < 0);
+};
+
+// Finds the card in a frame, in that frame's pixel coordinates; null when there isn't a clear one
+export const detectCard = (image: RgbaImage): Quad | null => {
+  const { width, height } = image;
+  const gray = blur(toGray(image), width, height);
+  const threshold = otsuThreshold(gray);
+
+  // The card is whichever side of the threshold most of the frame's centre is on
+  const light = new Uint8Array(gray.length);
+  gray.forEach((value, i) => { light[i] = value > threshold ? 1 : 0; });
+  const x0 = Math.floor(width * 0.4);
+  const y0 = Math.floor(height * 0.4);
+  const x1 = Math.ceil(width * 0.6);
+  const y1 = Math.ceil(height * 0.6);
+  let lightInCentre = 0;
+  for (let y = y0; y < y1; y++) for (let x = x0; x < x1; x++) lightInCentre += light[y * width + x];
+  const cardIsLight = lightInCentre * 2 >= (x1 - x0) * (y1 - y0);
+  const mask = cardIsLight ? light : light.map(value => 1 - value);
+
+  // Start from the card pixel closest to the centre
+  const centreX = Math.floor(width / 2);
+  const centreY = Math.floor(height / 2);
+  let start = -1;
+  for (let radius = 0; start < 0 && radius < Math.max(width, height) / 4; radius++) {
+    for (let y = centreY - radius; start < 0 && y <= centreY + radius; y++) {
+      for (let x = centreX - radius; x <= centreX + radius; x++) {
+        if (x >= 0 && y >= 0 && x < width && y < height && mask[y * width + x]) {
+          start = y * width + x;
+          break;
+        }
+      }
+    }
+  }
+  if (start < 0) return null;
+  const region = floodFill(mask, width, height, start);
+
+  // Corners are the region's extreme points: along the diagonals for a card that is roughly upright,
+  // along the axes for one turned close to 45°. Whichever four enclose more of it are the corners.
+  const extremes = {
+    minSum: { x: 0, y: 0, value: Infinity }, maxSum: { x: 0, y: 0, value: -Infinity },
+    minDiff: { x: 0, y: 0, value: Infinity }, maxDiff: { x: 0, y: 0, value: -Infinity },
+    minX: { x: 0, y: 0, value: Infinity }, maxX: { x: 0, y: 0, value: -Infinity },
+    minY: { x: 0, y: 0, value: Infinity }, maxY: { x: 0, y: 0, value: -Infinity },
+  };
+  const track = (key: keyof typeof extremes, value: number, x: number, y: number, lower: boolean) => {
+    const current = extremes[key];
+    if (lower ? value < current.value : value > current.value) extremes[key] = { x, y, value };
+  };
+  // Row spans fill in the text and logo holes, to compare the region with the quad it should fill
+  let spanArea = 0;
+  for (let y = 0; y < height; y++) {
+    let first = -1;
+    let last = -1;
+    for (let x = 0; x < width; x++) {
+      if (!region[y * width + x]) continue;
+      if (first < 0) first = x;
+      last = x;
+      // Pixel centres, so a card filling columns 0-9 spans 10 pixels
+      const px = x + 0.5;
+      const py = y + 0.5;
+      track('minSum', px + py, px, py, true);
+      track('maxSum', px + py, px, py, false);
+      track('minDiff', px - py, px, py, true);
+      track('maxDiff', px - py, px, py, false);
+      track('minX', px, px, py, true);
+      track('maxX', px, px, py, false);
+      track('minY', py, px, py, true);
+      track('maxY', py, px, py, false);
+    }
+    if (first >= 0) spanArea += last - first + 1;
+  }
+  const point = ({ x, y }: Point): Point => ({ x, y });
+  const diagonal = orderCorners([extremes.minSum, extremes.maxDiff, extremes.maxSum, extremes.minDiff].map(point));
+  const axis = orderCorners([extremes.minY, extremes.maxX, extremes.maxY, extremes.minX].map(point));
+  const quad = quadArea(axis) > quadArea(diagonal) * 1.05 ? axis : diagonal;
+
+  const area = quadArea(quad);
+  const frameArea = width * height;
+  if (area < frameArea * MIN_CARD_AREA || area > frameArea * MAX_CARD_AREA) return null;
+  if (spanArea < area * MIN_FILL || spanArea > area * MAX_FILL) return null;
+  if (!isConvex(quad)) return null;
+  const { width: cardWidth, height: cardHeight } = cardSize(quad, Infinity);
+  if (Math.max(cardWidth, cardHeight) > MAX_ASPECT * Math.min(cardWidth, cardHeight)) return null;
+  return quad;
+};
+
+// Converts a quad found on a scaled-down frame back to full-size coordinates
+export const scaleQuad = (quad: Quad, scale: number): Quad => quad.map(({ x, y }) => ({ x: x * scale, y: y * scale })) as Quad;
+
+// The largest distance any corner moved between two detections
+export const quadShift = (a: Quad, b: Quad): number => Math.max(...a.map((corner, i) => distance(corner, b[i])));
+
+// Size of the straightened card: the average length of opposite sides, fitted within maxEdge
+export const cardSize = (quad: Quad, maxEdge = MAX_CARD_EDGE): { width: number; height: number } => {
+  const [topLeft, topRight, bottomRight, bottomLeft] = quad;
+  const width = (distance(topLeft, topRight) + distance(bottomLeft, bottomRight)) / 2;
+  const height = (distance(topLeft, bottomLeft) + distance(topRight, bottomRight)) / 2;
+  const scale = Math.min(1, maxEdge / Math.max(width, height));
+  return { width: Math.max(1, Math.round(width * scale)), height: Math.max(1, Math.round(height * scale)) };
+};
+
+// Solves the 8x8 system for the homography taking the output rectangle's corners to the quad's
+const rectangleToQuad = (width: number, height: number, quad: Quad): number[] => {
+  const from = [{ x: 0, y: 0 }, { x: width, y: 0 }, { x: width, y: height }, { x: 0, y: height }];
+  const rows: number[][] = [];
+  from.forEach(({ x, y }, i) => {
+    const { x: u, y: v } = quad[i];
+    rows.push([x, y, 1, 0, 0, 0, -u * x, -u * y, u]);
+    rows.push([0, 0, 0, x, y, 1, -v * x, -v * y, v]);
+  });
+  // Gaussian elimination with partial pivoting
+  for (let col = 0; col < 8; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < 8; row++) if (Math.abs(rows[row][col]) > Math.abs(rows[pivot][col])) pivot = row;
+    [rows[col], rows[pivot]] = [rows[pivot], rows[col]];
+    for (let row = 0; row < 8; row++) {
+      if (row === col) continue;
+      const factor = rows[row][col] / rows[col][col];
+      for (let k = col; k < 9; k++) rows[row][k] -= factor * rows[col][k];
+    }
+  }
+  return [...rows.map((row, i) => row[8] / row[i]), 1];
+};
+
+// Samples the quad out of the source into a width x height image, undoing the perspective
+export const warpQuad = (source: RgbaImage, quad: Quad, width: number, height: number): RgbaImage => {
+  const [a, b, c, d, e, f, g, h] = rectangleToQuad(width, height, quad);
+  const data = new Uint8ClampedArray(width * height * 4);
+  const { data: pixels, width: sourceWidth, height: sourceHeight } = source;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const px = x + 0.5;
+      const py = y + 0.5;
+      const w = g * px + h * py + 1;
+      // Bilinear sampling between the four nearest source pixels
+      const sx = Math.min(sourceWidth - 1, Math.max(0, (a * px + b * py + c) / w - 0.5));
+      const sy = Math.min(sourceHeight - 1, Math.max(0, (d * px + e * py + f) / w - 0.5));
+      const x0 = Math.floor(sx);
+      const y0 = Math.floor(sy);
+      const x1 = Math.min(sourceWidth - 1, x0 + 1);
+      const y1 = Math.min(sourceHeight - 1, y0 + 1);
+      const fx = sx - x0;
+      const fy = sy - y0;
+      const out = (y * width + x) * 4;
+      for (let channel = 0; channel < 4; channel++) {
+        const top = pixels[(y0 * sourceWidth + x0) * 4 + channel] * (1 - fx) + pixels[(y0 * sourceWidth + x1) * 4 + channel] * fx;
+        const bottom = pixels[(y1 * sourceWidth + x0) * 4 + channel] * (1 - fx) + pixels[(y1 * sourceWidth + x1) * 4 + channel] * fx;
+        data[out + channel] = top * (1 - fy) + bottom * fy;
+      }
+    }
+  }
+  return { width, height, data };
+};
@@ -0,0 +1,132 @@
+// Storage for one vault's cards and its audit log. The app reads and writes cards only through this
+// interface: lib/firestoreCardRepository.ts is the real one, and lib/memoryCardRepository.ts keeps a
+// vault in memory for tests and for running without a backend.
+//
+// Writes return a promise that settles once the backend has the change. Firestore applies a write to
+// its local cache straight away but only settles after the server confirms it, so callers pass the
+// promise through settleWrite (lib/sync.ts) while offline.
+
+import { AuditEntry } from './history';
+import { SortDirection, SortKey } from './search';
+import { foldText } from './text';
+import { CompanyData } from './types';
+
+// Update value that removes the field from the stored card
+export const DELETE_FIELD: unique symbol = Symbol('deleteField');
+
+// Field values to write; fields that aren't named keep their stored value
+export type CardUpdate = Record<string, unknown>;
+
+// A card before it is stored; cards copied from another vault keep their id
+export type NewCard = Omit<CompanyData, 'id'> & { id?: string };
+
+// The lists that are added to and removed from item by item, so additions from two devices both stay
+export type CardListField = 'tags' | 'notes' | 'reminders';
+
+// The order the card list is read in, newest first by default (see lib/search.ts)
+export interface CardOrder {
+  sort: SortKey;
+  dir: SortDirection;
+}
+
+// A position in the list: a card's sort value, with its id to break ties between equal values
+export interface CardCursor {
+  value: string | number;
+  id: string;
+}
+
+// The stored field each sort reads. Firestore orders strings by their bytes, which would put "Zeta"
+// before "alpha" and "Émile" after everything, so the names are sorted on folded copies of them.
+export const SORT_FIELDS: Record<SortKey, 'timestamp' | 'companyNameSort' | 'contactPersonSort'> = {
+  date: 'timestamp',
+  companyName: 'companyNameSort',
+  contactPerson: 'contactPersonSort',
+};
+
+const SORT_KEYS = [['companyName', 'companyNameSort'], ['contactPerson', 'contactPersonSort']] as const;
+
+// The name as its sort field stores it
+export const sortKey = (name: string | undefined): string => foldText(name || '');
+
+// Adds the sort fields for the names the update writes. Repositories call this on every write, so
+// the sort fields never fall behind the names.
+export const withSortKeys = <T extends CardUpdate>(update: T): T => {
+  const keys: CardUpdate = {};
+  SORT_KEYS.forEach(([field, sortField]) => {
+    if (typeof update[field] === 'string') keys[sortField] = sortKey(update[field] as string);
+  });
+  return { ...update, ...keys };
+};
+
+export const cursorOf = (card: CompanyData, order: CardOrder): CardCursor => ({
+  value: card[SORT_FIELDS[order.sort]] ?? (order.sort === 'date' ? 0 : ''),
+  id: card.id,
+});
+
+// A stretch of the list: the cards after `after` (from the top when null) up to and including
+// `until`, or the first `limit` of them when there is no end yet
+export interface CardRange {
+  order: CardOrder;
+  after: CardCursor | null;
+  until?: CardCursor;
+  limit?: number;
+}
+
+// Fields cards can be looked up by exact value, to find possible duplicates without reading the vault
+export type CardLookupField = 'email' | 'phoneNumber' | 'companyName' | 'contactPerson' | 'website';
+
+export interface CardSnapshot {
+  // The cards asked for, in list order and as stored (see lib/migrations.ts for upgrading them)
+  cards: CompanyData[];
+  // Changes made on this device that the server doesn't have yet
+  hasPendingWrites: boolean;
+  // Cards whose stored version the server has confirmed in this snapshot; none while offline
+  confirmedIds: string[];
+}
+
+export interface CardRepository {
+  // Calls back with every change to the cards in the range, trashed ones included; returns a function
+  // that stops listening. Cards without the sort field are not in any range, so every card is written
+  // with companyName, contactPerson and timestamp, and their sort fields (see lib/migrations.ts).
+  subscribeToRange(range: CardRange, onChange: (snapshot: CardSnapshot) => void, onError: (error: Error) => void): () => void;
+  // Calls back with the card, or with no cards once it has been purged
+  subscribeToCard(id: string, onChange: (snapshot: CardSnapshot) => void, onError: (error: Error) => void): () => void;
+  // The cards in the trash, newest first
+  subscribeToTrash(onChange: (snapshot: CardSnapshot) => void, onError: (error: Error) => void): () => void;
+  // How many cards there are, trashed ones included, without reading them
+  countCards(): Promise<number>;
+  fetchCard(id: string): Promise<CompanyData | null>;
+  // Cards whose field is exactly `value`, at most `max` of them
+  findCards(field: CardLookupField, value: string, max: number): Promise<CompanyData[]>;
+  // Cards stored with a schemaVersion below `version`, at most `max` of them. Cards with no
+  // schemaVersion at all aren't found, as Firestore can't query for a missing field.
+  findOutdatedCards(version: number, max: number): Promise<CompanyData[]>;
+  // Calls back with every card that has an open follow-up due on or before `date` (yyyy-mm-dd),
+  // trashed ones included, earliest first. Read from the stored nextDueDate, so it covers the whole
+  // vault rather than the pages the list has loaded.
+  subscribeToDue(date: string, onChange: (snapshot: CardSnapshot) => void, onError: (error: Error) => void): () => void;
+  // One read of every card, trashed ones included, for exports and imports. The list reads a range at a time instead.
+  fetchAllCards(): Promise<CompanyData[]>;
+  // An id for a card that doesn't exist yet, so its images can be stored under it first
+  newCardId(): string;
+  createCard(id: string, card: NewCard): Promise<void>;
+  // Adds many cards in as few writes as the backend allows; returns their ids straight away
+  createCards(cards: NewCard[]): { ids: string[]; write: Promise<void> };
+  // Changes that aren't edits: images, tags, lookups and schema upgrades. They don't bump the revision
+  // and aren't logged.
+  updateCard(id: string, update: CardUpdate): Promise<void>;
+  // An edit, merge, delete, restore or undo: writes the update, bumps the revision and appends the
+  // audit log entry together
+  commitChange(id: string, update: CardUpdate, entry: Omit<AuditEntry, 'id'>): { entry: AuditEntry; write: Promise<void> };
+  // Deletes the card for good; the log entry is all that remains
+  purgeCard(id: string, entry: Omit<AuditEntry, 'id'>): Promise<void>;
+  // `derived` holds fields worked out from the list, such as nextDueDate, written in the same update
+  addToList(id: string, field: CardListField, item: unknown, derived?: CardUpdate): Promise<void>;
+  removeFromList(id: string, field: CardListField, item: unknown, derived?: CardUpdate): Promise<void>;
+  // List items can't be changed in place: the old one is removed and the new one added in one write
+  replaceInList(id: string, field: CardListField, item: unknown, replacement: unknown, derived?: CardUpdate): Promise<void>;
+  // A card's history, newest first
+  subscribeToCardHistory(id: string, onChange: (entries: AuditEntry[]) => void, onError: (error: Error) => void): () => void;
+  // The latest AUDIT_LOG_LIMIT entries for the whole vault, newest first
+  subscribeToAuditLog(onChange: (entries: AuditEntry[]) => void, onError: (error: Error) => void): () => void;
+}
@@ -0,0 +1,189 @@
+// Heuristic parser that turns OCR'd card lines into contact fields. Used by the offline OCR
+// provider, which only gets raw text back, unlike the vision models that return fields directly.
+
+import { ContactEmail, ContactPhone, EXTRACTED_FIELDS, ExtractedCardData, ExtractedField, ExtractionMeta, PhoneType, SocialProfile } from './types';
+import { ParsedExtraction } from './extraction';
+import { detectSocialNetwork, reconcileContactFields } from './contactFields';
+import { foldText } from './text';
+
+export interface OcrLine {
+  text: string;
+  // 0-100, as reported by Tesseract
+  confidence: number;
+}
+
+// Pattern matches are reliable; names and companies are guesses, so they are scored lower and
+// usually end up flagged for a second look in the review dialog
+const PATTERN_WEIGHT = 0.95;
+const GUESS_WEIGHT = 0.6;
+
+const EMAIL_PATTERN = /[a-z0-9._%+-]+@[a-z0-9.-]+\.[a-z]{2,}/i;
+const EMAIL_PATTERN_ALL = /[a-z0-9._%+-]+@[a-z0-9.-]+\.[a-z]{2,}/gi;
+const SOCIAL_PATTERN = /\b((?:https?:\/\/)?(?:[a-z]+\.)?(?:linkedin\.com|twitter\.com|x\.com|github\.com|instagram\.com|facebook\.com)\/[^\s,;]+)/i;
+const MOBILE_LABEL = /^\s*(?:mob|mobile|cell|m)\b/i;
+const HOME_LABEL = /^\s*(?:home|h)\b\s*[:.]/i;
+const WEBSITE_PATTERN = /\b((?:https?:\/\/)?(?:www\.)?[a-z0-9-]+(?:\.[a-z0-9-]+)*\.[a-z]{2,}(?:\/[^\s]*)?)/i;
+const PHONE_PATTERN = /(\+?\(?\d[\d\s().\/-]{6,}\d(?:\s*(?:ext\.?|extension|x)\s*\d+)?)/i;
+const PHONE_LABEL = /^\s*(?:tel|phone|ph|mob|mobile|cell|m|t|p|office|direct|d)\b\.?\s*:?\s*/i;
+const FAX_LABEL = /^\s*fax\b|^\s*f\s*[:.]/i;
+const COMPANY_HINT = /\b(inc|incorporated|ltd|limited|llc|llp|plc|gmbh|ag|sa|sas|bv|co|corp|corporation|company|pty|srl|group|holdings|partners|solutions|technologies|consulting|studio|labs|agency|associates)\b\.?/i;
+const ADDRESS_HINT = /\b(street|st|road|rd|avenue|ave|boulevard|blvd|lane|ln|drive|dr|way|court|ct|place|pl|square|sq|suite|ste|floor|fl|building|bldg|unit|po box|p\.o\. box|strasse|straße|str|rue|via|calle|plaza)\b\.?/i;
+const POSTCODE_HINT = /\b\d{4,6}\b|\b[A-Z]{1,2}\d[A-Z\d]?\s*\d[A-Z]{2}\b/;
+const JOB_TITLE_HINT = /\b(manager|director|ceo|cto|cfo|coo|founder|co-founder|president|vice|vp|head|lead|engineer|developer|designer|consultant|officer|partner|owner|sales|marketing|executive|assistant|specialist|analyst|architect|representative|coordinator|chief|senior|junior)\b/i;
+
+interface FieldMatch {
+  value: string;
+  line: OcrLine;
+  weight: number;
+}
+
+const meta = (match: FieldMatch) => ({
+  confidence: Math.round((match.line.confidence / 100) * match.weight * 100) / 100,
+  sourceText: match.line.text.trim(),
+});
+
+const findEmail = (lines: OcrLine[]): FieldMatch | null => {
+  for (const line of lines) {
+    const match = line.text.match(EMAIL_PATTERN);
+    if (match) return { value: match[0].toLowerCase(), line, weight: PATTERN_WEIGHT };
+  }
+  return null;
+};
+
+const findWebsite = (lines: OcrLine[]): FieldMatch | null => {
+  // Lines with www or a scheme first, then any bare domain that isn't part of an email address
+  const candidates = lines
+    .filter(line => !EMAIL_PATTERN.test(line.text) && !SOCIAL_PATTERN.test(line.text))
+    .sort((a, b) => Number(/www\.|https?:/i.test(b.text)) - Number(/www\.|https?:/i.test(a.text)));
+  for (const line of candidates) {
+    const match = line.text.match(WEBSITE_PATTERN);
+    if (match && !/^\d+(\.\d+)+$/.test(match[1])) return { value: match[1], line, weight: PATTERN_WEIGHT };
+  }
+  return null;
+};
+
+const phoneType = (text: string): PhoneType => {
+  if (FAX_LABEL.test(text)) return 'fax';
+  if (MOBILE_LABEL.test(text)) return 'mobile';
+  if (HOME_LABEL.test(text)) return 'home';
+  return 'work';
+};
+
+// Every number on the card with the type its label suggests, and the main one: the first labelled
+// or international number that isn't a fax
+const findPhones = (lines: OcrLine[]): { primary: FieldMatch | null; phones: ContactPhone[]; lines: OcrLine[] } => {
+  const phones: ContactPhone[] = [];
+  const phoneLines: OcrLine[] = [];
+  let primary: FieldMatch | null = null;
+  let fallback: FieldMatch | null = null;
+  for (const line of lines) {
+    if (EMAIL_PATTERN.test(line.text)) continue;
+    const type = phoneType(line.text);
+    const match = line.text.replace(FAX_LABEL, '').replace(/^\s*[:.]?\s*/, '').replace(PHONE_LABEL, '').match(PHONE_PATTERN);
+    if (!match || match[1].replace(/\D/g, '').length < 7) continue;
+    const value = match[1].trim();
+    phones.push({ type, value });
+    phoneLines.push(line);
+    if (type === 'fax') continue;
+    const candidate = { value, line, weight: PATTERN_WEIGHT };
+    if (!primary && (PHONE_LABEL.test(line.text) || value.startsWith('+'))) primary = candidate;
+    fallback = fallback || candidate;
+  }
+  return { primary: primary || fallback, phones, lines: phoneLines };
+};
+
+const findEmails = (lines: OcrLine[]): ContactEmail[] =>
+  lines.flatMap(line => (line.text.match(EMAIL_PATTERN_ALL) || []).map(value => ({ type: 'work' as const, value: value.toLowerCase() })));
+
+const findSocialProfiles = (lines: OcrLine[]): { profiles: SocialProfile[]; lines: OcrLine[] } => {
+  const profiles: SocialProfile[] = [];
+  const socialLines: OcrLine[] = [];
+  lines.forEach(line => {
+    const match = line.text.match(SOCIAL_PATTERN);
+    if (!match) return;
+    profiles.push({ network: detectSocialNetwork(match[1]), value: match[1] });
+    socialLines.push(line);
+  });
+  return { profiles, lines: socialLines };
+};
+
+const looksLikePersonName = (text: string): boolean => {
+  const words = text.trim().split(/\s+/);
+  if (words.length < 2 || words.length > 4) return false;
+  if (/\d|@/.test(text) || COMPANY_HINT.test(text) || JOB_TITLE_HINT.test(text) || ADDRESS_HINT.test(text)) return false;
+  // Every word starts with a capital: "Jane Doe", "JANE DOE", "Jean-Luc Picard", "A. Smith"
+  return words.every(word => /^[A-ZÀ-Þ][A-Za-zÀ-ɏ'.-]*$/.test(word));
+};
+
+// Second-level domain of the email or website, e.g. "acme" for jane@acme.co.uk
+const domainLabel = (email?: string, website?: string): string => {
+  const host = email ? email.split('@')[1] : (website || '').replace(/^https?:\/\//i, '').replace(/^www\./i, '').split('/')[0];
+  return (host || '').split('.')[0].toLowerCase();
+};
+
+export const parseCardText = (rawLines: OcrLine[]): ParsedExtraction => {
+  const lines = rawLines.filter(line => line.text.trim().length > 1);
+  const used = new Set<OcrLine>();
+  const matches: Partial<Record<ExtractedField, FieldMatch>> = {};
+  const take = (field: ExtractedField, match: FieldMatch | null) => {
+    if (!match) return;
+    matches[field] = match;
+    used.add(match.line);
+  };
+
+  take('email', findEmail(lines));
+  take('website', findWebsite(lines));
+  const phones = findPhones(lines);
+  take('phoneNumber', phones.primary);
+  phones.lines.forEach(line => used.add(line));
+  const emails = findEmails(lines);
+  const social = findSocialProfiles(lines);
+  social.lines.forEach(line => used.add(line));
+
+  // Address: the first line that looks like a street or postcode, plus the line after it when that one does too
+  const addressIndex = lines.findIndex(line => !used.has(line) && (ADDRESS_HINT.test(line.text) || (POSTCODE_HINT.test(line.text) && /[a-z]{3,}/i.test(line.text))) && !PHONE_PATTERN.test(line.text.replace(POSTCODE_HINT, '')));
+  if (addressIndex >= 0) {
+    const addressLines = [lines[addressIndex]];
+    const next = lines[addressIndex + 1];
+    if (next && !used.has(next) && (ADDRESS_HINT.test(next.text) || POSTCODE_HINT.test(next.text)) && !EMAIL_PATTERN.test(next.text)) {
+      addressLines.push(next);
+    }
+    addressLines.forEach(line => used.add(line));
+    const confidence = Math.min(...addressLines.map(line => line.confidence));
+    matches.address = {
+      value: addressLines.map(line => line.text.trim()).join(', '),
+      line: { text: addressLines.map(line => line.text.trim()).join(' / '), confidence },
+      weight: GUESS_WEIGHT + 0.2,
+    };
+  }
+
+  const remaining = lines.filter(line => !used.has(line));
+  const person = remaining.find(line => looksLikePersonName(line.text));
+  if (person) take('contactPerson', { value: person.text.trim(), line: person, weight: GUESS_WEIGHT });
+  // Job title: the first line that reads like one, preferring the line right after the name
+  const afterPerson = person ? remaining[remaining.indexOf(person) + 1] : undefined;
+  const title = afterPerson && JOB_TITLE_HINT.test(afterPerson.text) && !COMPANY_HINT.test(afterPerson.text)
+    ? afterPerson
+    : remaining.find(line => line !== person && JOB_TITLE_HINT.test(line.text) && !COMPANY_HINT.test(line.text) && !/\d/.test(line.text));
+  if (title) take('jobTitle', { value: title.text.trim(), line: title, weight: GUESS_WEIGHT });
+
+  // Company: a line with a legal suffix, else one matching the email/website domain, else the first unused line
+  const label = domainLabel(matches.email?.value, matches.website?.value);
+  const candidates = remaining.filter(line => line !== person && line !== title && !JOB_TITLE_HINT.test(line.text));
+  const company = candidates.find(line => COMPANY_HINT.test(line.text))
+    || (label.length > 2 ? candidates.find(line => foldText(line.text).replace(/[^a-z0-9]/g, '').includes(label)) : undefined)
+    || candidates.find(line => /[a-z]{2,}/i.test(line.text) && !/\d{3,}/.test(line.text));
+  if (company) take('companyName', { value: company.text.trim(), line: company, weight: GUESS_WEIGHT });
+
+  const data: ExtractedCardData = {};
+  const extraction: ExtractionMeta = {};
+  EXTRACTED_FIELDS.forEach(field => {
+    const match = matches[field];
+    data[field] = match ? match.value : '';
+    if (match) extraction[field] = meta(match);
+  });
+  data.phones = phones.phones;
+  data.emails = emails;
+  data.socialProfiles = social.profiles;
+  return { data: reconcileContactFields(data), extraction };
+};
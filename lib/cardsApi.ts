@@ -0,0 +1,159 @@
+// The card operations behind the /api/cards REST API. Writes get the same normalisation as cards
+// saved in the app, bump the revision and are recorded in the audit log, so changes made through the
+// API show up in a card's history and can be undone there. Server only.
+
+import { DocumentSnapshot, FieldPath, FieldValue, Firestore } from 'firebase-admin/firestore';
+import { normalizeTag } from './activity';
+import { ApiError } from './apiAuth';
+import { sortKey } from './cardRepository';
+import { serverAppId } from './firebaseAdmin';
+import { AuditEntry, cardLabel, fieldChanges, isTrashed } from './history';
+import { readIntegrationConfig } from './integrationStore';
+import { ApiToken, fromExternalCard, toExternalCard, VaultRef, vaultRefPaths } from './integrations';
+import { CARD_SCHEMA_VERSION, migrateCard, withListFields } from './migrations';
+import { changedFields } from './sync';
+import { CARD_FIELDS, CardField, CompanyData, ExtractedCardData } from './types';
+import { isValidEmail, normalizeCardData, validateField } from './validation';
+import { dispatchCardEvent } from './webhooks';
+
+export const API_PAGE_SIZE = 100;
+export const API_MAX_PAGE_SIZE = 500;
+
+export interface CardPage {
+  cards: Record<string, unknown>[];
+  // Pass as ?cursor= to get the next page; null on the last page
+  nextCursor: string | null;
+}
+
+const cardFromSnapshot = (snapshot: DocumentSnapshot): CompanyData =>
+  migrateCard({ id: snapshot.id, ...snapshot.data() } as CompanyData);
+
+// Only the card fields, so the rest of a stored card never reaches normalisation
+const pickCardFields = (data: Partial<CompanyData>): ExtractedCardData =>
+  Object.fromEntries(CARD_FIELDS.filter(field => field in data).map(field => [field, data[field]]));
+
+const isEmptyValue = (value: unknown) => value === undefined || value === null || value === '' || (Array.isArray(value) && value.length === 0);
+
+// Firestore rejects undefined: cleared scalars are stored as '', cleared lists as [], and a cleared
+// postal address is deleted
+const storedValue = (field: CardField, value: unknown) => {
+  if (!isEmptyValue(value)) return value;
+  if (field === 'postalAddress') return FieldValue.delete();
+  return field === 'phones' || field === 'emails' || field === 'socialProfiles' ? [] : '';
+};
+
+const invalidValues = (card: ExtractedCardData): string[] => [
+  ...(['email', 'website'] as const).map(field => validateField(field, card[field])?.message).filter(Boolean),
+  ...(card.emails || []).filter(email => !isValidEmail(email.value)).map(email => `"${email.value}" is not a valid email address`),
+];
+
+export const listCards = async (db: Firestore, ref: VaultRef, options: { limit: number; cursor?: string | null; includeDeleted?: boolean }): Promise<CardPage> => {
+  const paths = vaultRefPaths(serverAppId, ref);
+  const config = await readIntegrationConfig(db, paths.configPath);
+  let cardsQuery = db.collection(paths.cardsPath).orderBy(FieldPath.documentId()).limit(options.limit);
+  if (options.cursor) cardsQuery = cardsQuery.startAfter(options.cursor);
+  const snapshot = await cardsQuery.get();
+  // Trashed cards are filtered after the query, so a page can hold fewer cards than the limit
+  const cards = snapshot.docs.map(cardFromSnapshot).filter(card => options.includeDeleted || !isTrashed(card));
+  return {
+    cards: cards.map(card => toExternalCard(card, config.fieldMapping)),
+    nextCursor: snapshot.size === options.limit ? snapshot.docs[snapshot.size - 1].id : null,
+  };
+};
+
+export const getCard = async (db: Firestore, ref: VaultRef, id: string): Promise<Record<string, unknown>> => {
+  const paths = vaultRefPaths(serverAppId, ref);
+  const snapshot = await db.doc(`${paths.cardsPath}/${id}`).get();
+  if (!snapshot.exists) throw new ApiError('Card not found.', 404);
+  const config = await readIntegrationConfig(db, paths.configPath);
+  return toExternalCard(cardFromSnapshot(snapshot), config.fieldMapping);
+};
+
+// The card with this primary email, so a CRM can push a contact without knowing its card id
+const findCardByEmail = async (db: Firestore, cardsPath: string, email?: string): Promise<string | null> => {
+  if (!email || !email.trim()) return null;
+  const snapshot = await db.collection(cardsPath).where('email', '==', email.trim().toLowerCase()).limit(5).get();
+  const match = snapshot.docs.map(cardFromSnapshot).find(card => !isTrashed(card));
+  return match ? match.id : null;
+};
+
+// Creates a card from a request body, or updates the fields it names on an existing one: the card
+// with `id` when given, otherwise the one with the same primary email. Fires the vault's webhooks.
+export const upsertCard = async (
+  db: Firestore,
+  token: ApiToken,
+  body: Record<string, unknown>,
+  id: string | null
+): Promise<{ card: Record<string, unknown>; created: boolean }> => {
+  const paths = vaultRefPaths(serverAppId, token.vault);
+  const config = await readIntegrationConfig(db, paths.configPath);
+  const { data, errors } = fromExternalCard(body, config.fieldMapping);
+  if (errors.length > 0) throw new ApiError(errors.join(' '), 400);
+  const fields = pickCardFields(data);
+  const tags = data.tags?.map(normalizeTag).filter(Boolean);
+
+  const cardId = id || await findCardByEmail(db, paths.cardsPath, fields.email || fields.emails?.[0]?.value);
+  const cardRef = cardId ? db.doc(`${paths.cardsPath}/${cardId}`) : db.collection(paths.cardsPath).doc();
+  const snapshot = cardId ? await cardRef.get() : null;
+  const now = Date.now();
+
+  if (!snapshot?.exists) {
+    const normalized = normalizeCardData(fields);
+    if (!normalized.companyName && !normalized.contactPerson) throw new ApiError('A new card needs a company name or a contact person.', 400);
+    const invalid = invalidValues(normalized);
+    if (invalid.length > 0) throw new ApiError(`${invalid.join('. ')}.`, 400);
+    const card: Omit<CompanyData, 'id'> = {
+      ...withListFields(normalized),
+      tags: tags || [],
+      timestamp: now,
+      uploadedBy: token.createdBy,
+      schemaVersion: CARD_SCHEMA_VERSION,
+    };
+    await cardRef.set(card);
+    await dispatchCardEvent(db, token.vault, 'card.created', [cardRef.id], 'api')
+      .catch(error => console.error("Error sending webhooks:", error));
+    return { card: toExternalCard({ id: cardRef.id, ...card }, config.fieldMapping), created: true };
+  }
+
+  const existing = cardFromSnapshot(snapshot);
+  // Setting only one form of the address replaces the other, rather than keeping a stale copy
+  const merged: ExtractedCardData = { ...pickCardFields(existing), ...fields };
+  if ('postalAddress' in fields && !('address' in fields)) merged.address = '';
+  if ('address' in fields && !('postalAddress' in fields)) delete merged.postalAddress;
+  const updated = normalizeCardData(merged);
+  const invalid = invalidValues(updated);
+  if (invalid.length > 0) throw new ApiError(`${invalid.join('. ')}.`, 400);
+
+  const changed = changedFields(existing, updated);
+  const tagsChanged = !!tags && JSON.stringify(tags) !== JSON.stringify(existing.tags || []);
+  if (changed.length === 0 && !tagsChanged) return { card: toExternalCard(existing, config.fieldMapping), created: false };
+
+  // The sort and due fields go with the version, as a card stored before they existed lacks them
+  const update: Record<string, unknown> = {
+    schemaVersion: CARD_SCHEMA_VERSION,
+    companyNameSort: sortKey(updated.companyName),
+    contactPersonSort: sortKey(updated.contactPerson),
+  };
+  if (existing.nextDueDate) update.nextDueDate = existing.nextDueDate;
+  changed.forEach(field => { update[field] = storedValue(field, updated[field]); });
+  if (tagsChanged) update.tags = tags;
+  const batch = db.batch();
+  batch.update(cardRef, { ...update, updatedAt: now, updatedBy: token.createdBy, revision: FieldValue.increment(1) });
+  if (changed.length > 0) {
+    const entry: Omit<AuditEntry, 'id'> = {
+      cardId: existing.id,
+      cardLabel: cardLabel(existing),
+      action: 'edit',
+      changes: fieldChanges(existing, updated, changed),
+      at: now,
+      by: token.createdBy,
+    };
+    batch.set(db.collection(paths.auditLogPath).doc(), entry);
+  }
+  await batch.commit();
+  await dispatchCardEvent(db, token.vault, 'card.updated', [existing.id], 'api')
+    .catch(error => console.error("Error sending webhooks:", error));
+
+  const saved: CompanyData = { ...existing, ...updated, tags: tagsChanged ? tags : existing.tags, updatedAt: now, updatedBy: token.createdBy };
+  return { card: toExternalCard(saved, config.fieldMapping), created: false };
+};
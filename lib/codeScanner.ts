@@ -0,0 +1,83 @@
+// Finds QR codes and barcodes in card photos in the browser. The built-in BarcodeDetector is used
+// where the browser has one (Chrome on Android and desktop); elsewhere jsQR reads QR codes. What the
+// codes say is read by lib/cardCodes.ts.
+
+import jsQR from 'jsqr';
+import { fit, readPixels } from './cardCapture';
+import { ScannedCode } from './cardCodes';
+
+// Codes that can hold a vCard, MeCard or link. Product barcodes (EAN, UPC) never do.
+const CODE_FORMATS = ['qr_code', 'aztec', 'data_matrix', 'pdf417'];
+
+// A code takes up a small part of the card, so photos are scanned larger than for card detection
+const MAX_SCAN_EDGE = 1600;
+
+interface DetectedBarcode {
+  format: string;
+  rawValue: string;
+}
+
+interface BarcodeDetectorInstance {
+  detect(source: ImageBitmapSource): Promise<DetectedBarcode[]>;
+}
+
+interface BarcodeDetectorConstructor {
+  new (options: { formats: string[] }): BarcodeDetectorInstance;
+  getSupportedFormats(): Promise<string[]>;
+}
+
+let detectorPromise: Promise<BarcodeDetectorInstance | null> | null = null;
+
+// Not in the TypeScript DOM types yet, and missing from Safari and Firefox
+const getDetector = (): Promise<BarcodeDetectorInstance | null> => {
+  if (!detectorPromise) {
+    const Detector = (globalThis as unknown as { BarcodeDetector?: BarcodeDetectorConstructor }).BarcodeDetector;
+    detectorPromise = !Detector
+      ? Promise.resolve(null)
+      : Detector.getSupportedFormats()
+        .then(supported => {
+          const formats = CODE_FORMATS.filter(format => supported.includes(format));
+          return formats.length > 0 ? new Detector({ formats }) : null;
+        })
+        .catch(error => {
+          console.warn("BarcodeDetector is unavailable, using jsQR:", error);
+          return null;
+        });
+  }
+  return detectorPromise;
+};
+
+const scanBitmap = async (bitmap: ImageBitmap): Promise<ScannedCode[]> => {
+  const detector = await getDetector();
+  if (detector) {
+    try {
+      const found = await detector.detect(bitmap);
+      return found.map(code => ({ format: code.format, text: code.rawValue }));
+    } catch (error) {
+      console.warn("BarcodeDetector failed, trying jsQR:", error);
+    }
+  }
+  const size = fit(bitmap.width, bitmap.height, MAX_SCAN_EDGE);
+  const pixels = readPixels(bitmap, bitmap.width, bitmap.height, size.width, size.height);
+  const code = jsQR(pixels.data, pixels.width, pixels.height, { inversionAttempts: 'attemptBoth' });
+  return code && code.data ? [{ format: 'qr_code', text: code.data }] : [];
+};
+
+// Every code found on the given images (front and back of a card). A photo that can't be decoded
+// or scanned just has no codes; extraction goes ahead without them.
+export const scanCardCodes = async (images: Blob[]): Promise<ScannedCode[]> => {
+  if (typeof createImageBitmap === 'undefined') return [];
+  const codes: ScannedCode[] = [];
+  for (const image of images) {
+    let bitmap: ImageBitmap | null = null;
+    try {
+      bitmap = await createImageBitmap(image);
+      codes.push(...await scanBitmap(bitmap));
+    } catch (error) {
+      console.warn("Could not scan the card for codes:", error);
+    } finally {
+      bitmap?.close();
+    }
+  }
+  return codes;
+};
@@ -0,0 +1,87 @@
+// Fetches a company's home page for enrichment (see lib/enrichment.ts). The URL comes from a card,
+// so anyone who can save a card chooses what the server requests: it goes through fetchPublic, which
+// refuses private hosts and checks every redirect, and only the start of a page is read. Server only.
+
+import { parsePage } from './enrichment';
+import { allowPrivateHostsFromEnv, BlockedUrlError, fetchPublic, PublicFetchOptions } from './publicFetch';
+import { CompanyProfile } from './types';
+
+export class EnrichmentError extends Error {
+  status: number;
+
+  constructor(message: string, status = 500) {
+    super(message);
+    this.name = 'EnrichmentError';
+    this.status = status;
+  }
+}
+
+const FETCH_TIMEOUT_MS = 8000;
+const MAX_REDIRECTS = 3;
+// The head, where the logo and description are, comes first; social links are usually in the footer
+const MAX_PAGE_BYTES = 512 * 1024;
+
+export type SiteFetchOptions = Pick<PublicFetchOptions, 'fetch' | 'allowPrivateHosts'>;
+
+// The shared checks' errors, in the words the details panel shows
+const toEnrichmentError = (error: BlockedUrlError): EnrichmentError => {
+  if (error.reason === 'protocol') return new EnrichmentError('Only http and https websites can be read.', 400);
+  if (error.reason === 'unresolved') return new EnrichmentError(`Could not find the website ${error.hostname}.`, 404);
+  return new EnrichmentError(`${error.hostname} is not a public website.`, 400);
+};
+
+// Reads the body up to the size limit and stops the download there
+const readText = async (response: Response): Promise<string> => {
+  if (!response.body) return '';
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  while (size < MAX_PAGE_BYTES) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    chunks.push(value);
+    size += value.length;
+  }
+  await reader.cancel().catch(() => undefined);
+  return new TextDecoder().decode(Buffer.concat(chunks).subarray(0, MAX_PAGE_BYTES));
+};
+
+// The HTML of the page, and its address after redirects
+export const fetchPage = async (url: string, options: SiteFetchOptions = {}): Promise<{ html: string; url: string }> => {
+  let page: { response: Response; url: string };
+  try {
+    page = await fetchPublic(url, {
+      headers: { Accept: 'text/html,application/xhtml+xml', 'User-Agent': 'CardVault-Enrichment' },
+      signal: AbortSignal.timeout(FETCH_TIMEOUT_MS),
+    }, {
+      fetch: options.fetch,
+      allowPrivateHosts: options.allowPrivateHosts ?? allowPrivateHostsFromEnv('ENRICHMENT_ALLOW_PRIVATE_HOSTS'),
+      maxRedirects: MAX_REDIRECTS,
+    });
+  } catch (error) {
+    throw error instanceof BlockedUrlError ? toEnrichmentError(error) : error;
+  }
+  const { response } = page;
+  if (response.status >= 300 && response.status < 400 && response.headers.get('location')) throw new EnrichmentError('The website redirected too many times.', 502);
+  if (!response.ok) throw new EnrichmentError(`The website answered ${`${response.status} ${response.statusText}`.trim()}.`, 502);
+  const contentType = response.headers.get('content-type') || '';
+  if (contentType && !/html/i.test(contentType)) throw new EnrichmentError('The website did not return a web page.', 422);
+  return { html: await readText(response), url: page.url };
+};
+
+// Looks the company up at https://<domain>/, falling back to http:// when the secure site can't be reached
+export const lookupCompany = async (domain: string, options: SiteFetchOptions = {}): Promise<CompanyProfile> => {
+  let page: { html: string; url: string };
+  try {
+    page = await fetchPage(`https://${domain}/`, options);
+  } catch (error) {
+    if (error instanceof EnrichmentError) throw error;
+    try {
+      page = await fetchPage(`http://${domain}/`, options);
+    } catch (fallbackError) {
+      if (fallbackError instanceof EnrichmentError) throw fallbackError;
+      throw new EnrichmentError(`Could not reach ${domain}: ${error.message}`, 502);
+    }
+  }
+  return parsePage(page.html, page.url);
+};
@@ -0,0 +1,225 @@
+// Typed phone, email and social profile lists and the structured address, plus the single primary
+// values (phoneNumber, email, address) that are derived from them on every save
+
+import {
+  ContactEmail,
+  ContactPhone,
+  EmailType,
+  ExtractedCardData,
+  PhoneType,
+  PostalAddress,
+  SocialNetwork,
+  SocialProfile,
+} from './types';
+
+export const PHONE_TYPES: PhoneType[] = ['mobile', 'work', 'fax', 'home', 'other'];
+
+export const PHONE_TYPE_LABELS: Record<PhoneType, string> = {
+  mobile: 'Mobile',
+  work: 'Office',
+  fax: 'Fax',
+  home: 'Home',
+  other: 'Other',
+};
+
+export const EMAIL_TYPES: EmailType[] = ['work', 'personal', 'other'];
+
+export const EMAIL_TYPE_LABELS: Record<EmailType, string> = {
+  work: 'Work',
+  personal: 'Personal',
+  other: 'Other',
+};
+
+export const SOCIAL_NETWORKS: SocialNetwork[] = ['linkedin', 'twitter', 'github', 'instagram', 'facebook', 'other'];
+
+export const SOCIAL_NETWORK_LABELS: Record<SocialNetwork, string> = {
+  linkedin: 'LinkedIn',
+  twitter: 'X (Twitter)',
+  github: 'GitHub',
+  instagram: 'Instagram',
+  facebook: 'Facebook',
+  other: 'Other',
+};
+
+export const ADDRESS_PARTS: (keyof PostalAddress)[] = ['street', 'city', 'region', 'postalCode', 'country'];
+
+export const ADDRESS_PART_LABELS: Record<keyof PostalAddress, string> = {
+  street: 'Street',
+  city: 'City',
+  region: 'State / Region',
+  postalCode: 'Postal Code',
+  country: 'Country',
+};
+
+// Hosts and profile URL prefixes used to recognise a network and to turn a bare handle into a link
+const SOCIAL_HOSTS: Record<Exclude<SocialNetwork, 'other'>, { hosts: string[]; profileUrl: string }> = {
+  linkedin: { hosts: ['linkedin.com'], profileUrl: 'https://www.linkedin.com/in/' },
+  twitter: { hosts: ['twitter.com', 'x.com'], profileUrl: 'https://x.com/' },
+  github: { hosts: ['github.com'], profileUrl: 'https://github.com/' },
+  instagram: { hosts: ['instagram.com'], profileUrl: 'https://www.instagram.com/' },
+  facebook: { hosts: ['facebook.com', 'fb.com'], profileUrl: 'https://www.facebook.com/' },
+};
+
+export const detectSocialNetwork = (value: string): SocialNetwork => {
+  const host = value.trim().replace(/^https?:\/\//i, '').replace(/^www\./i, '').split('/')[0].toLowerCase();
+  const match = (Object.keys(SOCIAL_HOSTS) as Exclude<SocialNetwork, 'other'>[])
+    .find(network => SOCIAL_HOSTS[network].hosts.some(candidate => host === candidate || host.endsWith(`.${candidate}`)));
+  return match || 'other';
+};
+
+// A link for the profile, or null when the value is a handle on an unknown network
+export const socialProfileUrl = (profile: SocialProfile): string | null => {
+  const value = profile.value.trim();
+  if (/^https?:\/\//i.test(value)) return value;
+  if (/^[\w-]+(\.[\w-]+)+\//.test(value)) return `https://${value}`;
+  if (profile.network === 'other' || !value) return null;
+  return SOCIAL_HOSTS[profile.network].profileUrl + value.replace(/^@/, '');
+};
+
+// Postcodes: 4-6 digits (most of Europe, US ZIP), UK and Canadian formats
+const POSTCODE_PATTERN = /\b(\d{5}-\d{4}|\d{4,6}|[A-Z]{1,2}\d[A-Z\d]?\s*\d[A-Z]{2}|[A-Z]\d[A-Z]\s*\d[A-Z]\d)\b/i;
+// State or province code next to the postcode, as in "CA 94105" or "ON M5X 1A9"
+const REGION_CODE = /^[A-Z]{2,3}$/;
+
+// Drops blank parts, since Firestore rejects undefined values; undefined when nothing is left
+export const cleanPostalAddress = (address?: PostalAddress): PostalAddress | undefined => {
+  if (!address) return undefined;
+  const cleaned: PostalAddress = {};
+  ADDRESS_PARTS.forEach(part => {
+    const value = (address[part] || '').trim();
+    if (value) cleaned[part] = value;
+  });
+  return Object.keys(cleaned).length > 0 ? cleaned : undefined;
+};
+
+// Best-effort split of a one-line or multi-line address. The postcode line anchors it: the city
+// is next to the postcode, the street comes before it, and region and country follow it.
+export const parseAddress = (text: string): PostalAddress | undefined => {
+  const parts = text.split(/\r?\n|,/).map(part => part.trim()).filter(Boolean);
+  if (parts.length <= 1) return cleanPostalAddress({ street: parts[0] });
+
+  let postcodeIndex = -1;
+  for (let i = parts.length - 1; i >= 1; i--) {
+    if (POSTCODE_PATTERN.test(parts[i])) {
+      postcodeIndex = i;
+      break;
+    }
+  }
+
+  const address: PostalAddress = {};
+  let streetEnd: number;
+  let tail: string[];
+  if (postcodeIndex < 0) {
+    // No postcode: "street, city" or "street, ..., city, country"
+    streetEnd = parts.length === 2 ? 1 : parts.length - 2;
+    address.city = parts[streetEnd];
+    tail = parts.slice(streetEnd + 1);
+  } else {
+    const line = parts[postcodeIndex];
+    address.postalCode = line.match(POSTCODE_PATTERN)[0].trim();
+    let rest = line.replace(POSTCODE_PATTERN, '').replace(/\s+/g, ' ').trim();
+    if (REGION_CODE.test(rest)) {
+      address.region = rest;
+      rest = '';
+    }
+    if (rest) {
+      address.city = rest;
+      streetEnd = postcodeIndex;
+    } else if (postcodeIndex >= 2) {
+      address.city = parts[postcodeIndex - 1];
+      streetEnd = postcodeIndex - 1;
+    } else {
+      streetEnd = postcodeIndex;
+    }
+    tail = parts.slice(postcodeIndex + 1);
+  }
+  address.street = parts.slice(0, streetEnd).join(', ');
+  if (tail.length === 1) {
+    address.country = tail[0];
+  } else if (tail.length > 1) {
+    address.region = address.region || tail.slice(0, -1).join(', ');
+    address.country = tail[tail.length - 1];
+  }
+  return cleanPostalAddress(address);
+};
+
+export const formatPostalAddress = (address?: PostalAddress): string => {
+  if (!address) return '';
+  const regionLine = [address.region, address.postalCode].map(part => (part || '').trim()).filter(Boolean).join(' ');
+  return [address.street, address.city, regionLine, address.country]
+    .map(part => (part || '').trim())
+    .filter(Boolean)
+    .join(', ');
+};
+
+const sameAddress = (a?: PostalAddress, b?: PostalAddress): boolean =>
+  ADDRESS_PARTS.every(part => ((a && a[part]) || '') === ((b && b[part]) || ''));
+
+// Extensions as printed ("ext. 12", "x12", "#12") and in the RFC 3966 form normalised numbers use (";ext=12")
+const EXTENSION_PATTERN = /\s*(?:;\s*ext=|ext\.?|extension|x|#)\s*(\d+)$/i;
+
+// Splits a phone number into the number itself and its extension, if it has one
+export const splitPhoneExtension = (value: string): { number: string; extension: string } => {
+  const match = value.match(EXTENSION_PATTERN);
+  return match
+    ? { number: value.slice(0, match.index), extension: match[1] }
+    : { number: value, extension: '' };
+};
+
+// Local and international forms of a number compare equal on their last nine digits. Extensions
+// must match too: two extensions on one switchboard are two different people.
+const phoneKey = (value: string): string => {
+  const { number, extension } = splitPhoneExtension(value.trim());
+  return `${number.replace(/\D/g, '').slice(-9)};${extension}`;
+};
+
+export const samePhone = (a: string, b: string): boolean => {
+  const left = phoneKey(a);
+  return left.indexOf(';') >= 7 ? left === phoneKey(b) : a.trim() === b.trim();
+};
+
+export const sameEmail = (a: string, b: string): boolean => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+// Fax numbers can't be called, so the primary phone is the first number of any other type
+export const primaryPhone = (phones: ContactPhone[] = []): string =>
+  (phones.find(phone => phone.type !== 'fax') || { value: '' }).value;
+
+// Fills the lists from the single values where they don't have them yet: documents from before the
+// lists existed, merge picks, and imports that only map single columns
+export const withContactLists = <T extends ExtractedCardData>(data: T): T => {
+  const phones: ContactPhone[] = (data.phones || []).filter(phone => phone.value && phone.value.trim());
+  if (data.phoneNumber && data.phoneNumber.trim() && !phones.some(phone => samePhone(phone.value, data.phoneNumber))) {
+    phones.unshift({ type: 'work', value: data.phoneNumber.trim() });
+  }
+  const emails: ContactEmail[] = (data.emails || []).filter(email => email.value && email.value.trim());
+  if (data.email && data.email.trim() && !emails.some(email => sameEmail(email.value, data.email))) {
+    emails.unshift({ type: 'work', value: data.email.trim() });
+  }
+  const socialProfiles = (data.socialProfiles || []).filter(profile => profile.value && profile.value.trim());
+  const postalAddress = cleanPostalAddress(data.postalAddress) || (data.address ? parseAddress(data.address) : undefined);
+
+  const result: T = { ...data, phones, emails, socialProfiles };
+  if (postalAddress) result.postalAddress = postalAddress;
+  else delete result.postalAddress;
+  return result;
+};
+
+// Derives phoneNumber, email and address from the lists. The free-text address keeps its original
+// wording while the structured parts still match it, and is rebuilt from the parts once they change.
+export const withPrimaryFields = <T extends ExtractedCardData>(data: T): T => {
+  const postalAddress = cleanPostalAddress(data.postalAddress);
+  const keepAddressText = !!data.address && !!postalAddress && sameAddress(parseAddress(data.address), postalAddress);
+  return {
+    ...data,
+    phoneNumber: primaryPhone(data.phones),
+    email: data.emails && data.emails[0] ? data.emails[0].value : '',
+    address: keepAddressText ? data.address : formatPostalAddress(postalAddress),
+  };
+};
+
+// Lists and single values brought into line; used on every save
+export const reconcileContactFields = <T extends ExtractedCardData>(data: T): T => withPrimaryFields(withContactLists(data));
+
+// Union of two lists, keeping the order of the first and skipping entries it already has
+export const mergeContactLists = <T extends { value: string }>(first: T[] = [], second: T[] = [], same: (a: string, b: string) => boolean): T[] =>
+  [...first, ...second.filter(entry => !first.some(existing => same(existing.value, entry.value)))];
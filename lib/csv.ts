@@ -0,0 +1,320 @@
+// CSV export options and CSV/XLSX import: parsing, column mapping and per-row validation
+
+import { CompanyData, EXTRACTED_FIELDS, ExtractedCardData, ExtractedField, FIELD_LABELS, PhoneType, PostalAddress } from './types';
+import { ADDRESS_PART_LABELS, detectSocialNetwork, socialProfileUrl } from './contactFields';
+import { foldText } from './text';
+import { validateField } from './validation';
+
+export type CsvDelimiter = ',' | ';' | '\t';
+export type CsvDateFormat = 'iso' | 'date' | 'locale';
+
+// Columns for the typed lists and the address parts. Cells holding several values separate them with "; ".
+export type ContactDetailColumn = 'mobilePhone' | 'workPhone' | 'fax' | 'otherEmails' | 'socialProfiles' | keyof PostalAddress;
+
+export const CONTACT_DETAIL_COLUMNS: ContactDetailColumn[] = [
+  'mobilePhone', 'workPhone', 'fax', 'otherEmails', 'socialProfiles', 'street', 'city', 'region', 'postalCode', 'country',
+];
+
+export type CsvColumn = ExtractedField | ContactDetailColumn | 'timestamp' | 'uploadedBy';
+
+export const CSV_COLUMNS: CsvColumn[] = [...EXTRACTED_FIELDS, ...CONTACT_DETAIL_COLUMNS, 'timestamp', 'uploadedBy'];
+
+export const CSV_COLUMN_LABELS: Record<CsvColumn, string> = {
+  ...FIELD_LABELS,
+  mobilePhone: 'Mobile Phone',
+  workPhone: 'Office Phone',
+  fax: 'Fax',
+  otherEmails: 'Other Emails',
+  socialProfiles: 'Social Profiles',
+  ...ADDRESS_PART_LABELS,
+  timestamp: 'Date Added',
+  uploadedBy: 'Uploaded By',
+};
+
+const PHONE_COLUMN_TYPES: Partial<Record<ContactDetailColumn, PhoneType>> = {
+  mobilePhone: 'mobile',
+  workPhone: 'work',
+  fax: 'fax',
+};
+
+const LIST_SEPARATOR = '; ';
+
+export const CSV_DELIMITER_LABELS: Record<CsvDelimiter, string> = {
+  ',': 'Comma (,)',
+  ';': 'Semicolon (;)',
+  '\t': 'Tab',
+};
+
+export const CSV_DATE_FORMAT_LABELS: Record<CsvDateFormat, string> = {
+  iso: 'ISO 8601 (2024-03-05T14:30:00Z)',
+  date: 'Date only (2024-03-05)',
+  locale: 'Local date and time',
+};
+
+export interface CsvExportOptions {
+  columns: CsvColumn[];
+  delimiter: CsvDelimiter;
+  dateFormat: CsvDateFormat;
+  includeBom: boolean;
+}
+
+// The defaults are the single-value card fields plus the date and uploader. The typed phone and
+// address columns and the Latin-script names are there for spreadsheets that want them.
+export const DEFAULT_CSV_EXPORT_OPTIONS: CsvExportOptions = {
+  columns: [...EXTRACTED_FIELDS.filter(field => field !== 'companyNameLatin' && field !== 'contactPersonLatin'), 'timestamp', 'uploadedBy'],
+  delimiter: ',',
+  dateFormat: 'iso',
+  includeBom: true,
+};
+
+const formatDate = (timestamp: number, format: CsvDateFormat): string => {
+  const date = new Date(timestamp);
+  if (format === 'locale') return date.toLocaleString();
+  const iso = date.toISOString();
+  return format === 'date' ? iso.slice(0, 10) : iso.replace(/\.\d{3}Z$/, 'Z');
+};
+
+// Spreadsheets run cells starting with these as formulas, so a card reading "=HYPERLINK(...)" could
+// run in whoever opens the export. A leading apostrophe makes them text, and is dropped again on import.
+const FORMULA_START = /^[=+\-@\t\r]/;
+const FORMULA_ESCAPE = /^'(?=[=+\-@\t\r])/;
+// Phone numbers as they are stored, "+442079460000" or "+15550100199;ext=42", alone or as a list
+const E164_NUMBER = '\\+\\d{1,15}(?:;ext=\\d+)?';
+const E164_LIST = new RegExp(`^${E164_NUMBER}(?:${LIST_SEPARATOR}${E164_NUMBER})*$`);
+
+const escapeFormula = (value: string): string =>
+  FORMULA_START.test(value) && !E164_LIST.test(value) ? `'${value}` : value;
+
+const escapeCell = (raw: string, delimiter: CsvDelimiter): string => {
+  const value = escapeFormula(raw);
+  return /["\r\n]/.test(value) || value.includes(delimiter) || value !== value.trim()
+    ? `"${value.replace(/"/g, '""')}"`
+    : value;
+};
+
+const contactCellValue = (company: CompanyData, column: ExtractedField | ContactDetailColumn): string => {
+  const phoneType = PHONE_COLUMN_TYPES[column];
+  if (phoneType) {
+    return (company.phones || []).filter(phone => phone.type === phoneType).map(phone => phone.value).join(LIST_SEPARATOR);
+  }
+  switch (column) {
+    case 'otherEmails':
+      return (company.emails || []).slice(1).map(email => email.value).join(LIST_SEPARATOR);
+    case 'socialProfiles':
+      return (company.socialProfiles || []).map(profile => socialProfileUrl(profile) || profile.value).join(LIST_SEPARATOR);
+    case 'street':
+    case 'city':
+    case 'region':
+    case 'postalCode':
+    case 'country':
+      return company.postalAddress?.[column] || '';
+    default:
+      return company[column] || '';
+  }
+};
+
+export const buildCsv = (
+  companies: CompanyData[],
+  options: CsvExportOptions,
+  uploaderLabels: Record<string, string> = {}
+): string => {
+  const cellValue = (company: CompanyData, column: CsvColumn): string => {
+    if (column === 'timestamp') return company.timestamp ? formatDate(company.timestamp, options.dateFormat) : '';
+    if (column === 'uploadedBy') return company.uploadedBy ? uploaderLabels[company.uploadedBy] || company.uploadedBy : '';
+    return contactCellValue(company, column);
+  };
+  const rows = [
+    options.columns.map(column => CSV_COLUMN_LABELS[column]),
+    ...companies.map(company => options.columns.map(column => cellValue(company, column))),
+  ];
+  const csv = rows.map(row => row.map(cell => escapeCell(cell, options.delimiter)).join(options.delimiter)).join('\r\n');
+  // Excel only reads a CSV as UTF-8 when it starts with a byte order mark
+  return options.includeBom ? `\uFEFF${csv}` : csv;
+};
+
+// Picks the delimiter that splits the header line into the most columns
+const detectDelimiter = (text: string): CsvDelimiter => {
+  const firstLine = text.split(/\r\n|\n|\r/, 1)[0];
+  const counts = (Object.keys(CSV_DELIMITER_LABELS) as CsvDelimiter[]).map(delimiter => ({
+    delimiter,
+    count: firstLine.split(delimiter).length,
+  }));
+  return counts.sort((a, b) => b.count - a.count)[0].delimiter;
+};
+
+// RFC 4180 parsing: quoted cells may contain delimiters, doubled quotes and line breaks
+export const parseCsv = (text: string, delimiter: CsvDelimiter = detectDelimiter(text)): string[][] => {
+  const input = text.replace(/^\uFEFF/, '');
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"' && cell === '') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\r' || char === '\n') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+  return rows;
+};
+
+export type ImportField = ExtractedField | ContactDetailColumn | 'timestamp';
+
+// Column index in the file for each card field; fields with no column are left out
+export type ColumnMapping = Partial<Record<ImportField, number>>;
+
+export const IMPORT_FIELDS: ImportField[] = [...EXTRACTED_FIELDS, ...CONTACT_DETAIL_COLUMNS, 'timestamp'];
+
+// Header names, folded and stripped of punctuation, that are recognised for each field
+const HEADER_ALIASES: Record<ImportField, string[]> = {
+  companyName: ['companyname', 'company', 'organization', 'organisation', 'org', 'business', 'employer'],
+  companyNameLatin: ['companynamelatinscript', 'companynamelatin', 'companyromanised', 'companyromanized', 'companynameenglish', 'englishcompanyname'],
+  contactPerson: ['contactperson', 'contact', 'name', 'fullname', 'person', 'contactname'],
+  contactPersonLatin: ['contactpersonlatinscript', 'contactpersonlatin', 'nameromanised', 'nameromanized', 'nameenglish', 'englishname'],
+  jobTitle: ['jobtitle', 'title', 'position', 'role', 'designation'],
+  phoneNumber: ['phonenumber', 'phone', 'telephone', 'tel'],
+  email: ['email', 'emailaddress', 'mail', 'businessemail'],
+  website: ['website', 'web', 'url', 'homepage', 'site', 'webpage'],
+  address: ['address', 'businessaddress', 'location', 'postaladdress'],
+  mobilePhone: ['mobilephone', 'mobile', 'cell', 'cellphone', 'mobilenumber'],
+  workPhone: ['officephone', 'workphone', 'businessphone', 'directline'],
+  fax: ['fax', 'faxnumber', 'businessfax'],
+  otherEmails: ['otheremails', 'otheremail', 'email2', 'secondaryemail'],
+  socialProfiles: ['socialprofiles', 'social', 'linkedin', 'linkedinurl', 'twitter'],
+  street: ['street', 'streetaddress', 'addressline1', 'address1'],
+  city: ['city', 'town', 'locality'],
+  region: ['region', 'state', 'province', 'county'],
+  postalCode: ['postalcode', 'postcode', 'zip', 'zipcode'],
+  country: ['country', 'countryregion'],
+  timestamp: ['dateadded', 'date', 'created', 'createdat', 'timestamp', 'added'],
+};
+
+const headerKey = (header: string) => foldText(header).replace(/[^a-z0-9]/g, '');
+
+// Matches header names to fields; each column is used for at most one field
+export const guessColumnMapping = (headers: string[]): ColumnMapping => {
+  const mapping: ColumnMapping = {};
+  const used = new Set<number>();
+  IMPORT_FIELDS.forEach(field => {
+    const index = headers.findIndex((header, i) => !used.has(i) && HEADER_ALIASES[field].includes(headerKey(header)));
+    if (index >= 0) {
+      mapping[field] = index;
+      used.add(index);
+    }
+  });
+  return mapping;
+};
+
+// Spreadsheets count days from 30 December 1899
+const EXCEL_EPOCH_MS = Date.UTC(1899, 11, 30);
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Accepts ISO and other Date-parsable strings, plus XLSX date serials such as "45356.5"
+export const parseImportDate = (value: string): number | null => {
+  const trimmed = value.trim();
+  if (/^\d{4,5}(\.\d+)?$/.test(trimmed)) {
+    return Math.round(EXCEL_EPOCH_MS + parseFloat(trimmed) * DAY_MS);
+  }
+  const parsed = Date.parse(trimmed);
+  return isNaN(parsed) ? null : parsed;
+};
+
+export interface ImportRow {
+  // Row number in the file, counting the header as row 1
+  rowNumber: number;
+  data: ExtractedCardData;
+  // The mapped cells as they appear in the file, for the preview
+  cells: Partial<Record<ImportField, string>>;
+  timestamp?: number;
+  // Rows with errors are not imported
+  errors: string[];
+  // Warnings are shown but the row is still imported, as with flagged fields on a scanned card
+  warnings: string[];
+}
+
+export const mapImportRows = (rows: string[][], mapping: ColumnMapping): ImportRow[] =>
+  rows
+    .map((row, index) => ({ row, rowNumber: index + 2 }))
+    .filter(({ row }) => row.some(cell => cell.trim()))
+    .map(({ row, rowNumber }) => {
+      const data: ExtractedCardData = { phones: [], emails: [], socialProfiles: [] };
+      const cells: Partial<Record<ImportField, string>> = {};
+      const errors: string[] = [];
+      const warnings: string[] = [];
+      const cell = (field: ImportField) => {
+        const index = mapping[field];
+        const value = index === undefined ? '' : (row[index] || '').trim().replace(FORMULA_ESCAPE, '');
+        if (value) cells[field] = value;
+        return value;
+      };
+      const check = (field: ExtractedField, value: string, label: string) => {
+        const flag = validateField(field, value);
+        if (!flag) return;
+        // Phone numbers are often written without a country code, so they don't block the import
+        (field === 'phoneNumber' ? warnings : errors).push(`${label}: ${flag.message}`);
+      };
+      // A ";ext=" inside a phone number doesn't start a new entry
+      const splitList = (value: string) => value.split(/\s*(?:;(?!\s*ext=)|\n)\s*/i).filter(Boolean);
+
+      EXTRACTED_FIELDS.forEach(field => {
+        const value = cell(field);
+        if (!value) return;
+        data[field] = value;
+        check(field, value, FIELD_LABELS[field]);
+      });
+      CONTACT_DETAIL_COLUMNS.forEach(column => {
+        const value = cell(column);
+        if (!value) return;
+        const phoneType = PHONE_COLUMN_TYPES[column];
+        if (phoneType) {
+          splitList(value).forEach(phone => {
+            data.phones.push({ type: phoneType, value: phone });
+            check('phoneNumber', phone, CSV_COLUMN_LABELS[column]);
+          });
+        } else if (column === 'otherEmails') {
+          splitList(value).forEach(email => {
+            data.emails.push({ type: 'other', value: email });
+            check('email', email, CSV_COLUMN_LABELS[column]);
+          });
+        } else if (column === 'socialProfiles') {
+          splitList(value).forEach(profile => data.socialProfiles.push({ network: detectSocialNetwork(profile), value: profile }));
+        } else {
+          data.postalAddress = { ...(data.postalAddress || {}), [column]: value };
+        }
+      });
+      if (!data.companyName && !data.contactPerson) {
+        errors.push(`Needs a ${FIELD_LABELS.companyName.toLowerCase()} or ${FIELD_LABELS.contactPerson.toLowerCase()}`);
+      }
+
+      let timestamp: number | undefined;
+      const dateValue = cell('timestamp');
+      if (dateValue) {
+        timestamp = parseImportDate(dateValue) ?? undefined;
+        if (timestamp === undefined) errors.push(`${CSV_COLUMN_LABELS.timestamp}: "${dateValue}" is not a date`);
+      }
+      return { rowNumber, data, cells, timestamp, errors, warnings };
+    });
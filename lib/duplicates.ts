@@ -0,0 +1,219 @@
+// Finds existing cards that are probably the same person or company as a newly scanned one
+
+import { CardLookupField, CardRepository } from './cardRepository';
+import { isTrashed } from './history';
+import { migrateCard } from './migrations';
+import { CompanyData, EXTRACTED_FIELDS, ExtractedCardData } from './types';
+import { normalizePhoneNumber, normalizeUrl } from './validation';
+import { mergeContactLists, sameEmail, samePhone, splitPhoneExtension } from './contactFields';
+import { foldText, similarity } from './text';
+
+// Matches scoring at least this are treated as likely duplicates
+export const DUPLICATE_THRESHOLD = 0.6;
+
+export interface DuplicateMatch {
+  company: CompanyData;
+  score: number;
+  reasons: string[];
+}
+
+const COMPANY_SUFFIXES = /\b(inc|incorporated|ltd|limited|llc|llp|plc|gmbh|ag|sa|sas|bv|co|corp|corporation|company|pty|srl)\b/g;
+
+export const normalizeEmail = (email?: string): string => (email || '').trim().toLowerCase();
+
+// Compares on E.164 where possible, otherwise on the last nine digits so local and international forms
+// line up. The extension is kept, so colleagues behind one switchboard number don't match.
+export const normalizePhoneKey = (phone?: string): string => {
+  if (!phone) return '';
+  const { number, extension } = splitPhoneExtension(normalizePhoneNumber(phone) || phone);
+  const digits = number.replace(/\D/g, '');
+  if (digits.length < 7) return '';
+  return extension ? `${digits.slice(-9)};ext=${extension}` : digits.slice(-9);
+};
+
+export const websiteDomain = (website?: string): string => {
+  const url = website && normalizeUrl(website);
+  if (!url) return '';
+  return new URL(url).hostname.toLowerCase().replace(/^www\./, '');
+};
+
+export const normalizeName = (name?: string): string =>
+  foldText(name || '').replace(/[!-/:-@[-`{-~]/g, ' ').replace(COMPANY_SUFFIXES, ' ').replace(/\s+/g, ' ').trim();
+
+// Word order on cards varies ("Smith, Jane" vs "Jane Smith"), so names are also compared with their words sorted
+interface NameForms {
+  name: string;
+  sorted: string;
+}
+
+const nameForms = (names: (string | undefined)[]): NameForms[] =>
+  names.map(normalizeName).filter(Boolean).map(name => ({ name, sorted: name.split(' ').sort().join(' ') }));
+
+// Names may be in their original script on one card and romanised on the other, so compare every
+// form of each side and keep the best match. Names whose lengths are too far apart to reach 0.5 are
+// scored 0 without comparing them, which is all scoreMatch needs to know.
+const namesSimilarity = (a: NameForms[], b: NameForms[]): number =>
+  Math.max(0, ...a.flatMap(left => b.map(right => {
+    if (Math.abs(left.name.length - right.name.length) * 2 > Math.max(left.name.length, right.name.length)) return 0;
+    return Math.max(similarity(left.name, right.name), similarity(left.sorted, right.sorted));
+  })));
+
+// What a card is compared on, worked out once per card rather than once per pair
+interface MatchKeys {
+  // Every email or phone number on the card, including the primary one
+  emails: string[];
+  phones: string[];
+  domain: string;
+  companyNames: NameForms[];
+  contactNames: NameForms[];
+  hasContactName: boolean;
+}
+
+const matchKeys = (card: ExtractedCardData): MatchKeys => ({
+  emails: [card.email, ...(card.emails || []).map(email => email.value)].map(normalizeEmail).filter(Boolean),
+  phones: [card.phoneNumber, ...(card.phones || []).filter(phone => phone.type !== 'fax').map(phone => phone.value)].map(normalizePhoneKey).filter(Boolean),
+  domain: websiteDomain(card.website),
+  companyNames: nameForms([card.companyName, card.companyNameLatin]),
+  contactNames: nameForms([card.contactPerson, card.contactPersonLatin]),
+  hasContactName: !!normalizeName(card.contactPerson),
+});
+
+// Colleagues share a website, a company name and often a switchboard number, so those only count
+// towards a match that something about the person supports: the same email, a similar contact name,
+// or the same phone number with no contact name that tells them apart
+const scoreMatch = (candidate: MatchKeys, existing: MatchKeys): Omit<DuplicateMatch, 'company'> => {
+  let score = 0;
+  const reasons: string[] = [];
+
+  const emailMatch = candidate.emails.some(email => existing.emails.includes(email));
+  if (emailMatch) {
+    score += 0.6;
+    reasons.push('Same email');
+  }
+
+  const phoneMatch = candidate.phones.some(phone => existing.phones.includes(phone));
+  if (phoneMatch) {
+    score += 0.5;
+    reasons.push('Same phone number');
+  }
+
+  const contactSimilarity = namesSimilarity(candidate.contactNames, existing.contactNames);
+  const differentPeople = candidate.hasContactName && existing.hasContactName && contactSimilarity < 0.5;
+  if (!emailMatch && contactSimilarity < 0.8 && (!phoneMatch || differentPeople)) {
+    return { score: 0, reasons: [] };
+  }
+
+  if (candidate.domain && candidate.domain === existing.domain) {
+    score += 0.3;
+    reasons.push('Same website');
+  }
+
+  const companySimilarity = namesSimilarity(candidate.companyNames, existing.companyNames);
+  if (companySimilarity >= 0.8) {
+    score += 0.3 * companySimilarity;
+    reasons.push('Similar company name');
+  }
+
+  if (contactSimilarity >= 0.8) {
+    score += 0.4 * contactSimilarity;
+    reasons.push('Similar contact name');
+  }
+
+  return { score, reasons };
+};
+
+export const scoreDuplicate = (candidate: ExtractedCardData, existing: CompanyData): DuplicateMatch =>
+  ({ company: existing, ...scoreMatch(matchKeys(candidate), matchKeys(existing)) });
+
+// Likely duplicates of the candidate among the existing cards, best match first
+export const findDuplicates = (candidate: ExtractedCardData, companies: CompanyData[]): DuplicateMatch[] => {
+  const keys = matchKeys(candidate);
+  return companies
+    .map(company => ({ company, ...scoreMatch(keys, matchKeys(company)) }))
+    .filter(match => match.score >= DUPLICATE_THRESHOLD)
+    .sort((a, b) => b.score - a.score);
+};
+
+// The stored fields looked up by exact value, and how many cards to read for each
+const LOOKUP_FIELDS: CardLookupField[] = ['email', 'phoneNumber', 'website', 'companyName', 'contactPerson'];
+const LOOKUP_LIMIT = 10;
+
+// Likely duplicates anywhere in the vault without reading all of it: the cards already loaded, plus
+// any stored with the same primary email, phone number, website or name. The candidate has to be
+// normalised the way stored cards are (see normalizeCardData). Misspelt names are only caught
+// among the loaded cards.
+export const findStoredDuplicates = async (
+  candidate: ExtractedCardData,
+  repository: CardRepository,
+  loaded: CompanyData[]
+): Promise<DuplicateMatch[]> => {
+  const lookups = await Promise.all(LOOKUP_FIELDS.filter(field => candidate[field]).map(field =>
+    repository.findCards(field, candidate[field], LOOKUP_LIMIT).catch(error => {
+      console.error("Error looking up possible duplicates:", error);
+      return [] as CompanyData[];
+    })
+  ));
+  const cards = new Map(loaded.map(card => [card.id, card]));
+  lookups.flat().forEach(card => {
+    if (!cards.has(card.id) && !isTrashed(card)) cards.set(card.id, migrateCard(card));
+  });
+  return findDuplicates(candidate, Array.from(cards.values()));
+};
+
+// Keys shared by every pair of cards scoreMatch can match: an email, a phone number, or the first
+// letters of a word in the contact's name. Names misspelt at the start of every word are missed.
+const blockingKeys = (keys: MatchKeys): string[] => [
+  ...keys.emails.map(email => `email:${email}`),
+  ...keys.phones.map(phone => `phone:${phone}`),
+  ...keys.contactNames.flatMap(({ name }) => name.split(' ')).map(word => `name:${word.slice(0, 3)}`),
+];
+
+interface DedupeRecord {
+  company: CompanyData;
+  keys: MatchKeys;
+  position: number;
+}
+
+// Collapses duplicates into one record each, keeping the first card seen and filling its blanks from the others.
+// Each card is only scored against the records it shares a blocking key with, so large vaults export quickly.
+export const dedupeCompanies = (companies: CompanyData[]): CompanyData[] => {
+  const records: DedupeRecord[] = [];
+  const byKey = new Map<string, DedupeRecord[]>();
+  const index = (record: DedupeRecord, keys: MatchKeys) => blockingKeys(keys).forEach(key => {
+    const nearby = byKey.get(key);
+    if (!nearby) byKey.set(key, [record]);
+    else if (!nearby.includes(record)) nearby.push(record);
+  });
+
+  for (const company of companies) {
+    const keys = matchKeys(company);
+    let best: { record: DedupeRecord; score: number } | null = null;
+    for (const record of Array.from(new Set(blockingKeys(keys).flatMap(key => byKey.get(key) || [])))) {
+      const { score } = scoreMatch(keys, record.keys);
+      // Ties go to the card seen first
+      if (score >= DUPLICATE_THRESHOLD && (!best || score > best.score || (score === best.score && record.position < best.record.position))) {
+        best = { record, score };
+      }
+    }
+    if (!best) {
+      const record = { company: { ...company }, keys, position: records.length };
+      records.push(record);
+      index(record, keys);
+      continue;
+    }
+
+    const match = best.record;
+    for (const field of EXTRACTED_FIELDS) {
+      if (!match.company[field] && company[field]) {
+        match.company[field] = company[field];
+      }
+    }
+    match.company.phones = mergeContactLists(match.company.phones, company.phones, samePhone);
+    match.company.emails = mergeContactLists(match.company.emails, company.emails, sameEmail);
+    match.company.socialProfiles = mergeContactLists(match.company.socialProfiles, company.socialProfiles, (a, b) => a === b);
+    match.company.postalAddress = match.company.postalAddress || company.postalAddress;
+    match.keys = matchKeys(match.company);
+    index(match, match.keys);
+  }
+  return records.map(record => record.company);
+};
@@ -0,0 +1,228 @@
+// Company details from a card's website. The server fetches the home page (lib/companySite.ts) and
+// parsePage reads the logo, a short description and the company's social profiles out of it. What
+// it finds is stored on the card as suggestions, which the user accepts or dismisses in the details
+// panel; nothing is copied onto the card without them.
+
+import { detectSocialNetwork } from './contactFields';
+import { CardEnrichment, CompanyData, CompanyProfile, EnrichRequestBody, EnrichResponseBody, SocialProfile } from './types';
+import { normalizeUrl } from './validation';
+
+export const DESCRIPTION_MAX_LENGTH = 300;
+
+export const PROFILE_FIELDS: (keyof CompanyProfile)[] = ['logoUrl', 'description', 'socialProfiles'];
+
+export const PROFILE_FIELD_LABELS: Record<keyof CompanyProfile, string> = {
+  logoUrl: 'Logo',
+  description: 'About',
+  socialProfiles: 'Social Profiles',
+};
+
+// The host a card's website points at, without "www.", or null when there is no usable website
+export const websiteDomain = (website?: string): string | null => {
+  const url = website && normalizeUrl(website);
+  if (!url) return null;
+  return new URL(url).host.toLowerCase().replace(/^www\./, '');
+};
+
+// Whether the card has a website that hasn't been looked up yet, or has changed since it was
+export const needsEnrichment = (card: CompanyData): boolean => {
+  const domain = websiteDomain(card.website);
+  return !!domain && card.enrichment?.domain !== domain;
+};
+
+const NAMED_ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ' };
+
+const decodeEntities = (text: string): string =>
+  text.replace(/&(#x[\da-f]+|#\d+|[a-z]+);/gi, (entity, name: string) => {
+    if (name[0] !== '#') return NAMED_ENTITIES[name.toLowerCase()] ?? entity;
+    const code = name[1].toLowerCase() === 'x' ? parseInt(name.slice(2), 16) : parseInt(name.slice(1), 10);
+    return code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : entity;
+  });
+
+const ATTRIBUTE_PATTERN = /([^\s=/>]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>]+)))?/g;
+
+// The attributes of every <name ...> tag in the page, with names lower-cased and values decoded
+const findTags = (html: string, name: string): Record<string, string>[] =>
+  (html.match(new RegExp(`<${name}\\b[^>]*>`, 'gi')) || []).map(tag => {
+    const attributes: Record<string, string> = {};
+    const body = tag.slice(name.length + 1).replace(/\/?>$/, '');
+    Array.from(body.matchAll(ATTRIBUTE_PATTERN)).forEach(match => {
+      attributes[match[1].toLowerCase()] = decodeEntities(match[2] ?? match[3] ?? match[4] ?? '');
+    });
+    return attributes;
+  });
+
+// Objects in the page's JSON-LD blocks, with @graph lists flattened
+const readJsonLd = (html: string): Record<string, unknown>[] => {
+  const objects: Record<string, unknown>[] = [];
+  const collect = (value: unknown) => {
+    if (Array.isArray(value)) value.forEach(collect);
+    else if (value && typeof value === 'object') {
+      objects.push(value as Record<string, unknown>);
+      collect((value as Record<string, unknown>)['@graph']);
+    }
+  };
+  const pattern = /<script\b[^>]*type\s*=\s*["']?application\/ld\+json["']?[^>]*>([\s\S]*?)<\/script>/gi;
+  Array.from(html.matchAll(pattern)).forEach(match => {
+    try {
+      collect(JSON.parse(match[1]));
+    } catch {
+      // Broken JSON-LD is common; the rest of the page is still read
+    }
+  });
+  return objects;
+};
+
+const isOrganization = (object: Record<string, unknown>) =>
+  [object['@type']].flat().some(type => typeof type === 'string' && /organization|corporation|business|company/i.test(type));
+
+const asText = (value: unknown): string => {
+  if (typeof value === 'string') return value;
+  if (value && typeof value === 'object' && typeof (value as { url?: unknown }).url === 'string') return (value as { url: string }).url;
+  return '';
+};
+
+// An absolute http(s) URL for a link found on the page, or null
+const absoluteUrl = (value: string, pageUrl: string): string | null => {
+  if (!value || !value.trim()) return null;
+  try {
+    const url = new URL(value.trim(), pageUrl);
+    return url.protocol === 'http:' || url.protocol === 'https:' ? url.href : null;
+  } catch {
+    return null;
+  }
+};
+
+// The largest declared size of an icon, from sizes="180x180"; 0 when it doesn't say
+const iconSize = (sizes?: string): number =>
+  Math.max(0, ...(sizes || '').split(/\s+/).map(size => parseInt(size.split('x')[0], 10) || 0));
+
+const findLogo = (links: Record<string, string>[], metas: Record<string, string>[], organizations: Record<string, unknown>[], pageUrl: string): string | null => {
+  const relOf = (link: Record<string, string>) => (link.rel || '').toLowerCase().split(/\s+/);
+  const icons = (kind: string) => links
+    .filter(link => relOf(link).includes(kind) && link.href)
+    .sort((a, b) => iconSize(b.sizes) - iconSize(a.sizes))
+    .map(link => link.href);
+  // A declared logo first, then the largest touch icon, then the favicon
+  const candidates = [
+    ...organizations.map(organization => asText(organization.logo)),
+    ...metas.filter(meta => ['og:logo', 'logo'].includes((meta.property || meta.itemprop || '').toLowerCase())).map(meta => meta.content),
+    ...icons('apple-touch-icon'),
+    ...icons('icon'),
+    '/favicon.ico',
+  ];
+  return candidates.map(candidate => absoluteUrl(candidate, pageUrl)).find(Boolean) || null;
+};
+
+const shorten = (text: string): string => {
+  const clean = text.replace(/\s+/g, ' ').trim();
+  if (clean.length <= DESCRIPTION_MAX_LENGTH) return clean;
+  const cut = clean.slice(0, DESCRIPTION_MAX_LENGTH - 1);
+  const lastSpace = cut.lastIndexOf(' ');
+  return `${lastSpace > 0 ? cut.slice(0, lastSpace) : cut}…`;
+};
+
+const findDescription = (metas: Record<string, string>[], organizations: Record<string, unknown>[]): string | null => {
+  const meta = (key: string) => metas.find(tag => (tag.name || tag.property || '').toLowerCase() === key)?.content;
+  const description = meta('description') || meta('og:description') || meta('twitter:description')
+    || organizations.map(organization => asText(organization.description)).find(Boolean);
+  return description && description.trim() ? shorten(description) : null;
+};
+
+// Share buttons and the networks' own pages link to these, but they aren't the company's profile
+const NON_PROFILE_PATH = /^\/(share|sharer|sharearticle|intent|home|login|signup|privacy|legal|policies|help|about|dialog|hashtag|search|explore)(\b|\/|\.php)/i;
+
+const profilePath = (url: string): boolean => {
+  const path = new URL(url).pathname.replace(/\/+$/, '');
+  return path.length > 1 && !NON_PROFILE_PATH.test(path);
+};
+
+const findSocialProfiles = (anchors: Record<string, string>[], organizations: Record<string, unknown>[], pageUrl: string): SocialProfile[] => {
+  const profiles: SocialProfile[] = [];
+  const links = [
+    ...organizations.flatMap(organization => [organization.sameAs].flat().map(asText)),
+    ...anchors.map(anchor => anchor.href),
+  ];
+  links.forEach(link => {
+    const url = absoluteUrl(link, pageUrl);
+    if (!url) return;
+    const network = detectSocialNetwork(url);
+    // One profile per network; the first link is usually the company's own, further ones are people or posts
+    if (network === 'other' || profiles.some(profile => profile.network === network) || !profilePath(url)) return;
+    profiles.push({ network, value: url.replace(/[?#].*$/, '').replace(/\/+$/, '') });
+  });
+  return profiles;
+};
+
+// Reads the company details out of a home page. `pageUrl` is the page's final address, after
+// redirects, and resolves relative links.
+export const parsePage = (html: string, pageUrl: string): CompanyProfile => {
+  const links = findTags(html, 'link');
+  const metas = findTags(html, 'meta');
+  const anchors = findTags(html, 'a');
+  const organizations = readJsonLd(html).filter(isOrganization);
+
+  const profile: CompanyProfile = {};
+  const logoUrl = findLogo(links, metas, organizations, pageUrl);
+  const description = findDescription(metas, organizations);
+  const socialProfiles = findSocialProfiles(anchors, organizations, pageUrl);
+  if (logoUrl) profile.logoUrl = logoUrl;
+  if (description) profile.description = description;
+  if (socialProfiles.length > 0) profile.socialProfiles = socialProfiles;
+  return profile;
+};
+
+const profileKey = (profile: SocialProfile) => profile.value.toLowerCase().replace(/^https?:\/\/(www\.)?/, '').replace(/\/+$/, '');
+
+// The suggestions still worth showing: those for the card's current website that it doesn't have yet
+export const pendingSuggestions = (card: CompanyData): CompanyProfile => {
+  const enrichment = card.enrichment;
+  if (!enrichment || enrichment.domain !== websiteDomain(card.website)) return {};
+  const { logoUrl, description, socialProfiles } = enrichment.suggestions || {};
+  const pending: CompanyProfile = {};
+  if (logoUrl && logoUrl !== card.logoUrl) pending.logoUrl = logoUrl;
+  if (description && description !== card.companyDescription) pending.description = description;
+  const known = new Set((card.socialProfiles || []).map(profileKey));
+  const networks = new Set((card.socialProfiles || []).map(profile => profile.network));
+  const newProfiles = (socialProfiles || []).filter(profile => !known.has(profileKey(profile)) && !networks.has(profile.network));
+  if (newProfiles.length > 0) pending.socialProfiles = newProfiles;
+  return pending;
+};
+
+export const hasSuggestions = (profile: CompanyProfile): boolean => PROFILE_FIELDS.some(field => profile[field] !== undefined);
+
+// The lookup with the given suggestions taken off its list
+export const withoutSuggestions = (enrichment: CardEnrichment, fields: (keyof CompanyProfile)[]): CardEnrichment => {
+  const suggestions = { ...enrichment.suggestions };
+  fields.forEach(field => delete suggestions[field]);
+  return { ...enrichment, suggestions };
+};
+
+// The card update that accepts the given suggestions. Social profiles are added to the card's own
+// list, so accepting them is an edit; the logo and description are stored beside the card fields.
+export const acceptSuggestions = (card: CompanyData, fields: (keyof CompanyProfile)[]): Partial<CompanyData> => {
+  const pending = pendingSuggestions(card);
+  const update: Partial<CompanyData> = { enrichment: withoutSuggestions(card.enrichment, fields) };
+  if (fields.includes('logoUrl') && pending.logoUrl) update.logoUrl = pending.logoUrl;
+  if (fields.includes('description') && pending.description) update.companyDescription = pending.description;
+  if (fields.includes('socialProfiles') && pending.socialProfiles) {
+    update.socialProfiles = [...(card.socialProfiles || []), ...pending.socialProfiles];
+  }
+  return update;
+};
+
+// Browser side: asks /api/enrich to look up the card's website and turns the answer into the stored lookup
+export const requestEnrichment = async (website: string): Promise<CardEnrichment> => {
+  const requestBody: EnrichRequestBody = { website };
+  const response = await fetch('/api/enrich', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(requestBody),
+  });
+  const result: EnrichResponseBody = await response.json().catch(() => ({ error: `${response.status} ${response.statusText}` }));
+  const domain = websiteDomain(website);
+  if (!response.ok || 'error' in result) {
+    return { domain, fetchedAt: Date.now(), status: 'failed', error: 'error' in result ? result.error : response.statusText, suggestions: {} };
+  }
+  return { domain, fetchedAt: Date.now(), status: 'found', suggestions: result.profile };
+};
@@ -0,0 +1,86 @@
+// Browser-side helpers for sending card images to the /api/extract route, or to the offline OCR
+// provider, trying each configured provider in turn
+
+import { ExtractionSettings, extractorChain } from './extractionSettings';
+import { tesseractExtractor } from './tesseractExtractor';
+import { EncodedImage, ExtractionResult, ExtractorId, ExtractorsResponseBody, ExtractRequestBody, ExtractResponseBody, IdTokenSource, ServerExtractorId } from './types';
+
+// Reads an image file or blob and returns its contents as bare base64 (no data: prefix)
+export const readBlobAsBase64 = (blob: Blob): Promise<string> => new Promise((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onloadend = () => {
+    if (!reader.result || typeof reader.result !== 'string') {
+      reject(new Error('Failed to read image file.'));
+      return;
+    }
+    const base64Data = reader.result.split(',')[1];
+    if (!base64Data) {
+      reject(new Error('Could not process image data. Please try a different file.'));
+      return;
+    }
+    resolve(base64Data);
+  };
+  reader.onerror = () => reject(reader.error || new Error('Failed to read image file.'));
+  reader.readAsDataURL(blob);
+});
+
+export const requestExtraction = async (base64Data: string, mimeType: string, getIdToken: IdTokenSource, provider?: ServerExtractorId, back?: EncodedImage): Promise<ExtractionResult> => {
+  const idToken = await getIdToken();
+  if (!idToken) throw new Error('Extraction failed: sign in to read cards.');
+  const requestBody: ExtractRequestBody = { image: base64Data, mimeType, provider, back };
+  const response = await fetch('/api/extract', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${idToken}` },
+    body: JSON.stringify(requestBody)
+  });
+
+  const result: ExtractResponseBody = await response.json();
+  if (!response.ok || 'error' in result) {
+    const errorMessage = 'error' in result ? result.error : `${response.status} ${response.statusText}`;
+    console.error("Extraction request failed:", response.status, errorMessage);
+    throw new Error(`Extraction failed: ${errorMessage}`);
+  }
+  return result;
+};
+
+// Which server-side providers have credentials; the offline OCR provider is always listed as available
+export const fetchExtractorStatus = async (): Promise<ExtractorsResponseBody> => {
+  const response = await fetch('/api/extract');
+  if (!response.ok) throw new Error(`Could not load extraction providers: ${response.status} ${response.statusText}`);
+  const result: ExtractorsResponseBody = await response.json();
+  return {
+    providers: [
+      ...result.providers,
+      { id: tesseractExtractor.id, label: tesseractExtractor.label, configured: tesseractExtractor.isConfigured() },
+    ],
+  };
+};
+
+// True when the settings can still read cards without a connection
+export const canExtractOffline = (settings: ExtractionSettings) => extractorChain(settings).includes('tesseract');
+
+const runExtractor = async (provider: ExtractorId, base64Data: string, mimeType: string, getIdToken: IdTokenSource, back?: EncodedImage): Promise<ExtractionResult> => {
+  if (provider === 'tesseract') {
+    const result = await tesseractExtractor.extract(base64Data, mimeType, back);
+    return { ...result, provider };
+  }
+  const result = await requestExtraction(base64Data, mimeType, getIdToken, provider, back);
+  return { ...result, provider: result.provider || provider };
+};
+
+// Tries the providers in settings order. Server providers are skipped while offline; the last
+// error is rethrown when none of them could read the card. Both sides of a two-sided card go to the
+// same provider in one request.
+export const extractCard = async (base64Data: string, mimeType: string, settings: ExtractionSettings, getIdToken: IdTokenSource, back?: EncodedImage): Promise<ExtractionResult> => {
+  let lastError: Error | null = null;
+  for (const provider of extractorChain(settings)) {
+    if (provider === 'tesseract' ? !tesseractExtractor.isConfigured() : !navigator.onLine) continue;
+    try {
+      return await runExtractor(provider, base64Data, mimeType, getIdToken, back);
+    } catch (error) {
+      console.error(`Extraction with ${provider} failed:`, error);
+      lastError = error;
+    }
+  }
+  throw lastError || new Error('Extraction failed: no extraction provider is available.');
+};
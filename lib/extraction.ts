@@ -0,0 +1,194 @@
+// The Extractor interface shared by every provider, plus the prompt and response parsing used by
+// the vision-model providers. Safe to import on both server and client: no keys are read here.
+
+import { EmailType, EncodedImage, EXTRACTED_FIELDS, ExtractedCardData, ExtractionMeta, ExtractorId, PhoneType, PostalAddress, SocialNetwork } from './types';
+import {
+  ADDRESS_PARTS,
+  cleanPostalAddress,
+  detectSocialNetwork,
+  EMAIL_TYPES,
+  PHONE_TYPES,
+  reconcileContactFields,
+  SOCIAL_NETWORKS,
+} from './contactFields';
+import { cardScript, isLatinText } from './scripts';
+
+export class ExtractionError extends Error {
+  status: number;
+
+  constructor(message: string, status = 500) {
+    super(message);
+    this.name = 'ExtractionError';
+    this.status = status;
+  }
+}
+
+export interface ParsedExtraction {
+  data: ExtractedCardData;
+  extraction: ExtractionMeta;
+}
+
+// Reads the contact fields off a card image, and off its back when there is one. Implementations:
+// lib/gemini.ts and lib/openaiVision.ts on the server, lib/tesseractExtractor.ts in the browser.
+export interface Extractor {
+  id: ExtractorId;
+  label: string;
+  // False when credentials or browser support are missing, so the provider is skipped
+  isConfigured: () => boolean;
+  extract: (base64Data: string, mimeType: string, back?: EncodedImage) => Promise<ParsedExtraction>;
+}
+
+export const EXTRACTOR_LABELS: Record<ExtractorId, string> = {
+  gemini: 'Google Gemini',
+  openai: 'OpenAI-compatible vision model',
+  tesseract: 'Offline OCR (Tesseract)',
+};
+
+export const EXTRACTION_PROMPT = `Extract the following information from the business card image and return it as a JSON object. Prioritize the most prominent information for each field.
+
+      For every single-value field return an object with:
+      - "value": the extracted value, or an empty string if the field is not on the card
+      - "confidence": a number from 0 to 1 for how clearly the value could be read (0 when the field is missing or guessed)
+      - "sourceText": the exact text on the card the value was read from, or an empty string
+
+      "phoneNumber" and "email" are the main number and address. Also list every phone number in "phones"
+      (type one of ${PHONE_TYPES.join(', ')}), every email address in "emails" (type one of ${EMAIL_TYPES.join(', ')}),
+      and social media handles or profile URLs in "socialProfiles" (network one of ${SOCIAL_NETWORKS.join(', ')}).
+      Split the address into "postalAddress"; leave parts that are not on the card empty.
+
+      Cards can be in any language and script, and often have a second side in English. Keep every value in
+      the script it is printed in. When the company or person's name is not in Latin script, also fill in
+      "companyNameLatin" and "contactPersonLatin": use the English or romanised form printed on the card if
+      there is one, otherwise romanise it (Hepburn for Japanese, Pinyin for Chinese, Revised Romanization for
+      Korean, standard transliteration for Arabic, Cyrillic and others). Leave them empty for Latin-script names.
+      Set "language" to the ISO 639-1 code of the card's main language (e.g. "ja", "zh", "ar", "ru") and
+      "script" to the ISO 15924 code of its main script ("Jpan", "Hani", "Kore", "Arab", "Hebr", "Cyrl", "Latn").
+
+      \`\`\`json
+      {
+        "companyName": { "value": "", "confidence": 0, "sourceText": "" },
+        "companyNameLatin": { "value": "", "confidence": 0, "sourceText": "" },
+        "contactPerson": { "value": "", "confidence": 0, "sourceText": "" },
+        "contactPersonLatin": { "value": "", "confidence": 0, "sourceText": "" },
+        "jobTitle": { "value": "", "confidence": 0, "sourceText": "" },
+        "phoneNumber": { "value": "", "confidence": 0, "sourceText": "" },
+        "email": { "value": "", "confidence": 0, "sourceText": "" },
+        "website": { "value": "", "confidence": 0, "sourceText": "" },
+        "address": { "value": "", "confidence": 0, "sourceText": "" },
+        "phones": [{ "type": "mobile", "value": "" }],
+        "emails": [{ "type": "work", "value": "" }],
+        "socialProfiles": [{ "network": "linkedin", "value": "" }],
+        "postalAddress": { "street": "", "city": "", "region": "", "postalCode": "", "country": "" },
+        "language": "",
+        "script": ""
+      }
+      \`\`\`
+      `;
+
+// Added when the back of the card is sent as a second image
+const BACK_SIDE_PROMPT = `The second image is the back of the same card. Read both sides and return one combined record:
+      take each field from whichever side shows it, and list every phone number, email address and profile
+      from either side once. When one side repeats the other in a second language, keep the names in the
+      card's main script and use the other side's Latin form for "companyNameLatin" and "contactPersonLatin".
+      "sourceText" may come from either side.
+      `;
+
+// The prompt for a one- or two-sided card
+export const extractionPrompt = (twoSided: boolean) => (twoSided ? `${EXTRACTION_PROMPT}${BACK_SIDE_PROMPT}` : EXTRACTION_PROMPT);
+
+const clampConfidence = (value: unknown): number => {
+  if (typeof value !== 'number' || Number.isNaN(value)) return 0;
+  return Math.min(1, Math.max(0, value));
+};
+
+// Entries of a list field with a string value; unknown types fall back to the given default
+const parseList = <K extends string, T extends string>(raw: unknown, key: K, allowed: T[], fallback: (value: string) => T) => {
+  if (!Array.isArray(raw)) return [];
+  return raw
+    .filter(entry => entry && typeof entry === 'object' && typeof entry.value === 'string' && entry.value.trim())
+    .map(entry => {
+      const value = (entry.value as string).trim();
+      const type = allowed.includes(entry[key]) ? entry[key] as T : fallback(value);
+      return { [key]: type, value } as Record<K, T> & { value: string };
+    });
+};
+
+const parsePostalAddress = (raw: unknown): PostalAddress | undefined => {
+  if (!raw || typeof raw !== 'object') return undefined;
+  const address: PostalAddress = {};
+  ADDRESS_PARTS.forEach(part => {
+    const value = (raw as Record<string, unknown>)[part];
+    if (typeof value === 'string') address[part] = value;
+  });
+  return cleanPostalAddress(address);
+};
+
+const LANGUAGE_CODE = /^[a-z]{2,3}(-[a-z0-9]{2,8})*$/;
+const SCRIPT_CODE = /^[A-Z][a-z]{3}$/;
+
+// Keeps the reported language and script when they are well-formed codes; the script is detected
+// from the text otherwise. A Latin form that only repeats a Latin-script name is dropped.
+const withLanguage = (data: ExtractedCardData, language: unknown, script: unknown): ExtractedCardData => {
+  const languageCode = typeof language === 'string' ? language.trim().toLowerCase() : '';
+  if (LANGUAGE_CODE.test(languageCode)) data.language = languageCode;
+  if (typeof script === 'string' && SCRIPT_CODE.test(script.trim())) {
+    data.script = script.trim();
+  } else {
+    const detected = cardScript(data);
+    if (detected) data.script = detected;
+  }
+  if (isLatinText(data.companyName) && data.companyNameLatin === data.companyName) data.companyNameLatin = '';
+  if (isLatinText(data.contactPerson) && data.contactPersonLatin === data.contactPerson) data.contactPersonLatin = '';
+  return data;
+};
+
+// Checks the model output against the schema and keeps only the known fields.
+// Plain string values are accepted too and treated as having unknown (zero) confidence.
+// The lists are optional: the main phone and email are added to them when missing.
+export const parseExtractedData = (jsonString: string): ParsedExtraction => {
+  let raw: unknown;
+  try {
+    // Some models wrap JSON in a Markdown code fence even when asked not to
+    raw = JSON.parse(jsonString.replace(/^\s*```(?:json)?\s*|\s*```\s*$/g, ''));
+  } catch (parseError) {
+    console.error("Failed to parse JSON from the extraction model:", parseError, "Raw response:", jsonString);
+    throw new ExtractionError('Failed to parse extracted data. Please try again or a different image.', 502);
+  }
+
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    throw new ExtractionError('Extracted data was not a JSON object.', 502);
+  }
+
+  const data: ExtractedCardData = {};
+  const extraction: ExtractionMeta = {};
+  for (const field of EXTRACTED_FIELDS) {
+    const entry = (raw as Record<string, unknown>)[field];
+    if (entry === undefined || entry === null) {
+      data[field] = '';
+      continue;
+    }
+    if (typeof entry === 'string') {
+      data[field] = entry.trim();
+      extraction[field] = { confidence: 0, sourceText: '' };
+      continue;
+    }
+    if (typeof entry !== 'object' || typeof (entry as { value?: unknown }).value !== 'string') {
+      throw new ExtractionError(`Extracted field "${field}" did not match the response schema.`, 502);
+    }
+    const { value, confidence, sourceText } = entry as { value: string; confidence?: unknown; sourceText?: unknown };
+    data[field] = value.trim();
+    extraction[field] = {
+      confidence: data[field] ? clampConfidence(confidence) : 0,
+      sourceText: typeof sourceText === 'string' ? sourceText.trim() : ''
+    };
+  }
+
+  const lists = raw as Record<string, unknown>;
+  data.phones = parseList<'type', PhoneType>(lists.phones, 'type', PHONE_TYPES, () => 'other');
+  data.emails = parseList<'type', EmailType>(lists.emails, 'type', EMAIL_TYPES, () => 'work');
+  data.socialProfiles = parseList<'network', SocialNetwork>(lists.socialProfiles, 'network', SOCIAL_NETWORKS, detectSocialNetwork);
+  const postalAddress = parsePostalAddress(lists.postalAddress);
+  if (postalAddress) data.postalAddress = postalAddress;
+  withLanguage(data, lists.language, lists.script);
+  return { data: reconcileContactFields(data), extraction };
+};
@@ -0,0 +1,36 @@
+// How card images are read. The upload queue only uses this interface: createBrowserExtractionService sends
+// images through the provider chain in lib/extractClient.ts, and tests pass one that answers without
+// any network access.
+
+import { isCompleteContact, readCardCodes, withCardCodes } from './cardCodes';
+import { scanCardCodes } from './codeScanner';
+import { canExtractOffline, extractCard, readBlobAsBase64 } from './extractClient';
+import { ExtractionSettings } from './extractionSettings';
+import { CardPhoto, ExtractionResult, IdTokenSource } from './types';
+
+export interface ExtractionService {
+  // Reads one card with the providers chosen in settings, trying each in turn. The back of a
+  // two-sided card is read in the same request and merged into the one result.
+  extract(image: Blob, mimeType: string, settings: ExtractionSettings, back?: CardPhoto): Promise<ExtractionResult>;
+  // Whether cards can still be read without a connection
+  canExtractOffline(settings: ExtractionSettings): boolean;
+}
+
+// QR codes and barcodes are read first. A vCard or MeCard with a name and a way to reach them
+// stands in for the providers; otherwise the providers read the card and the code fills in what it has.
+// getIdToken signs the requests to the server providers.
+export const createBrowserExtractionService = (getIdToken: IdTokenSource): ExtractionService => ({
+  extract: async (image, mimeType, settings, back) => {
+    const codes = readCardCodes(await scanCardCodes(back ? [image, back.image] : [image]));
+    if (isCompleteContact(codes)) return withCardCodes(null, codes);
+    const result = await extractCard(
+      await readBlobAsBase64(image),
+      mimeType,
+      settings,
+      getIdToken,
+      back && { image: await readBlobAsBase64(back.image), mimeType: back.mimeType }
+    );
+    return withCardCodes(result, codes);
+  },
+  canExtractOffline,
+});
@@ -0,0 +1,42 @@
+// Which extraction provider this device uses, whether the others are tried when it fails, and how
+// card photos are taken and cropped.
+// Kept in localStorage: it's a per-device choice (offline OCR only makes sense on some devices).
+
+import { ExtractorId } from './types';
+
+export interface ExtractionSettings {
+  provider: ExtractorId;
+  // Try the remaining providers, ending with offline OCR, when the chosen one fails or is unreachable
+  fallback: boolean;
+  // Find the card in photos and uploads, then crop and straighten it before it is read
+  autoCrop: boolean;
+  // Take the camera photo as soon as the card has been held steady in view
+  autoCapture: boolean;
+}
+
+export const EXTRACTOR_IDS: ExtractorId[] = ['gemini', 'openai', 'tesseract'];
+
+export const DEFAULT_EXTRACTION_SETTINGS: ExtractionSettings = { provider: 'gemini', fallback: true, autoCrop: true, autoCapture: true };
+
+const STORAGE_KEY = 'cardvault.extraction';
+
+export const loadExtractionSettings = (): ExtractionSettings => {
+  if (typeof window === 'undefined') return DEFAULT_EXTRACTION_SETTINGS;
+  try {
+    const stored = JSON.parse(window.localStorage.getItem(STORAGE_KEY) || 'null');
+    if (!stored || !EXTRACTOR_IDS.includes(stored.provider)) return DEFAULT_EXTRACTION_SETTINGS;
+    return { provider: stored.provider, fallback: stored.fallback !== false, autoCrop: stored.autoCrop !== false, autoCapture: stored.autoCapture !== false };
+  } catch {
+    return DEFAULT_EXTRACTION_SETTINGS;
+  }
+};
+
+export const saveExtractionSettings = (settings: ExtractionSettings) => {
+  window.localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+};
+
+// Providers in the order they are tried: the chosen one first, then the others in list order
+export const extractorChain = (settings: ExtractionSettings): ExtractorId[] => {
+  if (!settings.fallback) return [settings.provider];
+  return [settings.provider, ...EXTRACTOR_IDS.filter(id => id !== settings.provider)];
+};
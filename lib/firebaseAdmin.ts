@@ -0,0 +1,30 @@
+// Firebase Admin SDK for the API routes that act on a vault without a signed-in browser: the
+// /api/cards REST API, webhook delivery and integration settings. The other routes only use it to
+// check the caller's ID token. Never import this from client components. Admin access bypasses firestore.rules, so the routes check access themselves (see
+// lib/apiAuth.ts).
+
+import { App, cert, getApps, initializeApp } from 'firebase-admin/app';
+import { Auth, getAuth } from 'firebase-admin/auth';
+import { Firestore, getFirestore } from 'firebase-admin/firestore';
+
+// Same default as the client page, so both sides use the same Firestore paths
+export const serverAppId = process.env.NEXT_PUBLIC_APP_ID || 'card-vault-app';
+
+// Credentials are the service account key in FIREBASE_SERVICE_ACCOUNT, or the environment's default
+// credentials (GOOGLE_APPLICATION_CREDENTIALS, or the emulators when FIRESTORE_EMULATOR_HOST is set)
+export const isAdminConfigured = (): boolean =>
+  !!(process.env.FIREBASE_SERVICE_ACCOUNT || process.env.GOOGLE_APPLICATION_CREDENTIALS || process.env.FIRESTORE_EMULATOR_HOST);
+
+const adminApp = (): App => {
+  const [existing] = getApps();
+  if (existing) return existing;
+  const serviceAccount = process.env.FIREBASE_SERVICE_ACCOUNT;
+  return initializeApp({
+    credential: serviceAccount ? cert(JSON.parse(serviceAccount)) : undefined,
+    projectId: process.env.NEXT_PUBLIC_FIREBASE_PROJECT_ID,
+  });
+};
+
+export const adminDb = (): Firestore => getFirestore(adminApp());
+
+export const adminAuth = (): Auth => getAuth(adminApp());
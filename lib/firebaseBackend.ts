@@ -0,0 +1,82 @@
+// The app's real backend: Firestore with offline persistence, Firebase Auth with guest accounts,
+// card images in the configured blob store, and extraction through /api/extract or offline OCR
+
+import { initializeApp } from 'firebase/app';
+import { getAuth, onAuthStateChanged, signInAnonymously } from 'firebase/auth';
+import { Firestore, getFirestore, initializeFirestore, persistentLocalCache, persistentMultipleTabManager } from 'firebase/firestore';
+import { Backend } from './backend';
+import { createBlobStore } from './blobStore';
+import { createBrowserExtractionService } from './extractionService';
+import { createFirestoreCardRepository } from './firestoreCardRepository';
+import { importLegacyCards } from './legacyCards';
+import { createWorkspaceService, personalVault } from './workspaces';
+
+// Firebase configuration from environment variables
+const firebaseConfig = {
+  apiKey: process.env.NEXT_PUBLIC_FIREBASE_API_KEY,
+  authDomain: process.env.NEXT_PUBLIC_FIREBASE_AUTH_DOMAIN,
+  projectId: process.env.NEXT_PUBLIC_FIREBASE_PROJECT_ID,
+  storageBucket: process.env.NEXT_PUBLIC_FIREBASE_STORAGE_BUCKET,
+  messagingSenderId: process.env.NEXT_PUBLIC_FIREBASE_MESSAGING_SENDER_ID,
+  appId: process.env.NEXT_PUBLIC_FIREBASE_APP_ID,
+};
+
+// Not Firebase's app id: the prefix of this app's data in Firestore and storage
+const appId = process.env.NEXT_PUBLIC_APP_ID || 'card-vault-app';
+
+// Debug: Log Firebase config to check if environment variables are loaded
+console.log('Firebase Config:', firebaseConfig);
+
+// Keeps cards and unsent writes in IndexedDB so the vault works offline. Falls back to the in-memory
+// cache where persistence isn't available, e.g. private browsing or a second initialisation in dev.
+const createFirestore = (app: ReturnType<typeof initializeApp>): Firestore => {
+  try {
+    return initializeFirestore(app, { localCache: persistentLocalCache({ tabManager: persistentMultipleTabManager() }) });
+  } catch (error) {
+    console.warn("Offline persistence unavailable, using the in-memory cache:", error);
+    return getFirestore(app);
+  }
+};
+
+// Browser only: call it from an effect, never while rendering on the server
+export const createFirebaseBackend = (): Backend => {
+  // Validate Firebase configuration
+  if (!firebaseConfig.apiKey || !firebaseConfig.projectId) {
+    throw new Error('Firebase configuration is incomplete. Please check your environment variables.');
+  }
+
+  console.log('Initializing Firebase with config:', firebaseConfig);
+  const app = initializeApp(firebaseConfig);
+  const db = createFirestore(app);
+  const auth = getAuth(app);
+  const idToken = async () => (auth.currentUser ? auth.currentUser.getIdToken() : null);
+  console.log('Firebase initialized successfully');
+
+  return {
+    appId,
+    auth,
+    workspaces: createWorkspaceService(db, appId),
+    blobStore: createBlobStore(app, idToken),
+    extraction: createBrowserExtractionService(idToken),
+    cardRepository: vault => createFirestoreCardRepository(db, vault),
+    importLegacyCards: uid => importLegacyCards(db, appId, uid, createFirestoreCardRepository(db, personalVault(appId, uid))),
+    watchUser: (onUser, onError) => onAuthStateChanged(auth, async (user) => {
+      if (user) {
+        console.log('User signed in:', user.uid, user.isAnonymous ? '(guest)' : '');
+        onUser(user);
+        return;
+      }
+
+      // Start everyone with a guest account; the sign-in listener fires again once it exists
+      onUser(null);
+      try {
+        console.log('Attempting anonymous sign-in...');
+        await signInAnonymously(auth);
+        console.log('Anonymous sign-in successful');
+      } catch (error) {
+        console.error("Error during authentication:", error);
+        onError(error);
+      }
+    }),
+  };
+};
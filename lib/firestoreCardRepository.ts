@@ -0,0 +1,164 @@
+// The card repository for a Firestore vault: cards in its companyCards collection and the audit log
+// beside it (see lib/firestorePaths.ts)
+
+import {
+  arrayRemove,
+  arrayUnion,
+  collection,
+  deleteField,
+  doc,
+  documentId,
+  endAt,
+  Firestore,
+  getCountFromServer,
+  getDoc,
+  getDocs,
+  increment,
+  limit,
+  onSnapshot,
+  orderBy,
+  query,
+  QueryConstraint,
+  QuerySnapshot,
+  setDoc,
+  startAfter,
+  updateDoc,
+  where,
+  writeBatch,
+} from 'firebase/firestore';
+import { CardRange, CardRepository, CardSnapshot, CardUpdate, DELETE_FIELD, SORT_FIELDS, withSortKeys } from './cardRepository';
+import { AUDIT_LOG_LIMIT, AuditEntry } from './history';
+import { CompanyData, Vault } from './types';
+
+// Firestore batches are limited to 500 writes
+const BATCH_LIMIT = 500;
+
+const toFirestore = (update: CardUpdate) =>
+  Object.fromEntries(Object.entries(withSortKeys(update)).map(([field, value]) => [field, value === DELETE_FIELD ? deleteField() : value]));
+
+const cardsOf = (snapshot: QuerySnapshot): CompanyData[] =>
+  snapshot.docs.map(cardDoc => ({ id: cardDoc.id, ...cardDoc.data() } as CompanyData));
+
+// Metadata changes tell us when writes made on this device have reached the server
+const toSnapshot = (snapshot: QuerySnapshot): CardSnapshot => ({
+  cards: cardsOf(snapshot),
+  hasPendingWrites: snapshot.metadata.hasPendingWrites,
+  confirmedIds: snapshot.metadata.fromCache ? [] : snapshot.docs.filter(cardDoc => !cardDoc.metadata.hasPendingWrites).map(cardDoc => cardDoc.id),
+});
+
+// Ordering by the id as well makes every position in the list unique, so a cursor never skips or
+// repeats cards that share a sort value. Both orderings are served by Firestore's automatic
+// single-field indexes.
+const rangeConstraints = ({ order, after, until, limit: max }: CardRange): QueryConstraint[] => {
+  const constraints: QueryConstraint[] = [orderBy(SORT_FIELDS[order.sort], order.dir), orderBy(documentId(), order.dir)];
+  if (after) constraints.push(startAfter(after.value, after.id));
+  if (until) constraints.push(endAt(until.value, until.id));
+  if (max) constraints.push(limit(max));
+  return constraints;
+};
+
+export const createFirestoreCardRepository = (db: Firestore, vault: Pick<Vault, 'cardsPath' | 'auditLogPath'>): CardRepository => {
+  const cardRef = (id: string) => doc(db, vault.cardsPath, id);
+  const entries = (snapshot: { docs: { id: string; data: () => unknown }[] }) =>
+    snapshot.docs.map(entryDoc => ({ id: entryDoc.id, ...(entryDoc.data() as object) } as AuditEntry));
+
+  const cardsRef = () => collection(db, vault.cardsPath);
+
+  return {
+    subscribeToRange: (range, onChange, onError) => onSnapshot(
+      query(cardsRef(), ...rangeConstraints(range)),
+      { includeMetadataChanges: true },
+      snapshot => onChange(toSnapshot(snapshot)),
+      onError
+    ),
+
+    subscribeToCard: (id, onChange, onError) => onSnapshot(
+      query(cardsRef(), where(documentId(), '==', id)),
+      { includeMetadataChanges: true },
+      snapshot => onChange(toSnapshot(snapshot)),
+      onError
+    ),
+
+    subscribeToTrash: (onChange, onError) => onSnapshot(
+      query(cardsRef(), where('deletedAt', '>', 0), orderBy('deletedAt', 'desc')),
+      { includeMetadataChanges: true },
+      snapshot => onChange(toSnapshot(snapshot)),
+      onError
+    ),
+
+    countCards: async () => (await getCountFromServer(cardsRef())).data().count,
+
+    fetchCard: async (id) => {
+      const snapshot = await getDoc(cardRef(id));
+      return snapshot.exists() ? { id: snapshot.id, ...snapshot.data() } as CompanyData : null;
+    },
+
+    findCards: async (field, value, max) => cardsOf(await getDocs(query(cardsRef(), where(field, '==', value), limit(max)))),
+
+    findOutdatedCards: async (version, max) => cardsOf(await getDocs(query(cardsRef(), where('schemaVersion', '<', version), limit(max)))),
+
+    subscribeToDue: (date, onChange, onError) => onSnapshot(
+      query(cardsRef(), where('nextDueDate', '<=', date), orderBy('nextDueDate')),
+      { includeMetadataChanges: true },
+      snapshot => onChange(toSnapshot(snapshot)),
+      onError
+    ),
+
+    fetchAllCards: async () => cardsOf(await getDocs(cardsRef())),
+
+    newCardId: () => doc(cardsRef()).id,
+
+    createCard: (id, { id: _id, ...card }) => setDoc(cardRef(id), withSortKeys(card)),
+
+    createCards: (cards) => {
+      const ids = cards.map(card => card.id || doc(cardsRef()).id);
+      const writes: Promise<void>[] = [];
+      for (let i = 0; i < cards.length; i += BATCH_LIMIT) {
+        const batch = writeBatch(db);
+        cards.slice(i, i + BATCH_LIMIT).forEach(({ id: _id, ...card }, index) => batch.set(cardRef(ids[i + index]), withSortKeys(card)));
+        writes.push(batch.commit());
+      }
+      return { ids, write: Promise.all(writes).then(() => undefined) };
+    },
+
+    updateCard: (id, update) => updateDoc(cardRef(id), toFirestore(update)),
+
+    commitChange: (id, update, entry) => {
+      const batch = writeBatch(db);
+      batch.update(cardRef(id), { ...toFirestore(update), updatedAt: entry.at, updatedBy: entry.by, revision: increment(1) });
+      const entryRef = doc(collection(db, vault.auditLogPath));
+      batch.set(entryRef, entry);
+      return { entry: { id: entryRef.id, ...entry }, write: batch.commit() };
+    },
+
+    purgeCard: (id, entry) => {
+      const batch = writeBatch(db);
+      batch.delete(cardRef(id));
+      batch.set(doc(collection(db, vault.auditLogPath)), entry);
+      return batch.commit();
+    },
+
+    addToList: (id, field, item, derived = {}) => updateDoc(cardRef(id), { [field]: arrayUnion(item), ...toFirestore(derived) }),
+
+    removeFromList: (id, field, item, derived = {}) => updateDoc(cardRef(id), { [field]: arrayRemove(item), ...toFirestore(derived) }),
+
+    replaceInList: (id, field, item, replacement, derived = {}) => {
+      const batch = writeBatch(db);
+      batch.update(cardRef(id), { [field]: arrayRemove(item) });
+      batch.update(cardRef(id), { [field]: arrayUnion(replacement), ...toFirestore(derived) });
+      return batch.commit();
+    },
+
+    subscribeToCardHistory: (id, onChange, onError) => onSnapshot(
+      query(collection(db, vault.auditLogPath), where('cardId', '==', id), orderBy('at', 'desc')),
+      snapshot => onChange(entries(snapshot)),
+      onError
+    ),
+
+    subscribeToAuditLog: (onChange, onError) => onSnapshot(
+      query(collection(db, vault.auditLogPath), orderBy('at', 'desc'), limit(AUDIT_LOG_LIMIT)),
+      snapshot => onChange(entries(snapshot)),
+      onError
+    ),
+  };
+};
@@ -0,0 +1,34 @@
+// Firestore and Storage locations for CardVault data. Every user has a private vault under their own uid;
+// team workspaces keep their cards, members and images under the workspace id.
+
+export const userCardsPath = (appId: string, uid: string) => `artifacts/${appId}/users/${uid}/companyCards`;
+
+// Where every visitor's cards were kept before private vaults; see lib/legacyCards.ts
+export const legacyCardsPath = (appId: string) => `artifacts/${appId}/public/data/companyCards`;
+
+export const workspacesPath = (appId: string) => `artifacts/${appId}/workspaces`;
+
+export const workspaceCardsPath = (appId: string, workspaceId: string) => `${workspacesPath(appId)}/${workspaceId}/companyCards`;
+
+export const userAuditLogPath = (appId: string, uid: string) => `artifacts/${appId}/users/${uid}/auditLog`;
+
+export const workspaceAuditLogPath = (appId: string, workspaceId: string) => `${workspacesPath(appId)}/${workspaceId}/auditLog`;
+
+export const workspaceMembersPath = (appId: string, workspaceId: string) => `${workspacesPath(appId)}/${workspaceId}/members`;
+
+export const invitationsPath = (appId: string) => `artifacts/${appId}/invitations`;
+
+export const userStoragePrefix = (appId: string, uid: string) => `${appId}/users/${uid}`;
+
+export const workspaceStoragePrefix = (appId: string, workspaceId: string) => `${appId}/workspaces/${workspaceId}`;
+
+// Integration settings, the webhook delivery log and API tokens are only accessed by the server; see lib/integrations.ts
+export const userIntegrationConfigPath = (appId: string, uid: string) => `artifacts/${appId}/users/${uid}/integrations/config`;
+
+export const workspaceIntegrationConfigPath = (appId: string, workspaceId: string) => `${workspacesPath(appId)}/${workspaceId}/integrations/config`;
+
+export const userWebhookDeliveriesPath = (appId: string, uid: string) => `artifacts/${appId}/users/${uid}/webhookDeliveries`;
+
+export const workspaceWebhookDeliveriesPath = (appId: string, workspaceId: string) => `${workspacesPath(appId)}/${workspaceId}/webhookDeliveries`;
+
+export const apiTokensPath = (appId: string) => `artifacts/${appId}/apiTokens`;
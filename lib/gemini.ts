@@ -0,0 +1,125 @@
+// Server-side helpers for calling the Gemini model. Never import this from client components:
+// it reads the API key from the server environment.
+
+import { EncodedImage, EXTRACTED_FIELDS } from './types';
+import { ADDRESS_PARTS, EMAIL_TYPES, PHONE_TYPES, SOCIAL_NETWORKS } from './contactFields';
+import { ExtractionError, Extractor, EXTRACTOR_LABELS, extractionPrompt, ParsedExtraction, parseExtractedData } from './extraction';
+
+const DEFAULT_BASE_URL = 'https://generativelanguage.googleapis.com';
+const DEFAULT_MODEL = 'gemini-2.0-flash';
+
+export interface GeminiOptions {
+  apiKey?: string;
+  baseUrl?: string;
+  model?: string;
+}
+
+const fieldSchema = {
+  type: "OBJECT",
+  properties: {
+    value: { type: "STRING" },
+    confidence: { type: "NUMBER" },
+    sourceText: { type: "STRING" }
+  },
+  required: ["value", "confidence", "sourceText"],
+  propertyOrdering: ["value", "confidence", "sourceText"]
+};
+
+const listSchema = (key: string, values: string[]) => ({
+  type: "ARRAY",
+  items: {
+    type: "OBJECT",
+    properties: {
+      [key]: { type: "STRING", enum: values },
+      value: { type: "STRING" }
+    },
+    required: [key, "value"],
+    propertyOrdering: [key, "value"]
+  }
+});
+
+const postalAddressSchema = {
+  type: "OBJECT",
+  properties: Object.fromEntries(ADDRESS_PARTS.map(part => [part, { type: "STRING" }])),
+  propertyOrdering: [...ADDRESS_PARTS]
+};
+
+const responseSchema = {
+  type: "OBJECT",
+  properties: {
+    ...Object.fromEntries(EXTRACTED_FIELDS.map(field => [field, fieldSchema])),
+    phones: listSchema("type", PHONE_TYPES),
+    emails: listSchema("type", EMAIL_TYPES),
+    socialProfiles: listSchema("network", SOCIAL_NETWORKS),
+    postalAddress: postalAddressSchema,
+    language: { type: "STRING" },
+    script: { type: "STRING" }
+  },
+  propertyOrdering: [...EXTRACTED_FIELDS, "phones", "emails", "socialProfiles", "postalAddress", "language", "script"]
+};
+
+export const buildGeminiPayload = (base64Data: string, mimeType: string, back?: EncodedImage) => ({
+  contents: [
+    {
+      role: "user",
+      parts: [
+        { text: extractionPrompt(!!back) },
+        {
+          inlineData: {
+            mimeType: mimeType,
+            data: base64Data
+          }
+        },
+        ...(back ? [{ inlineData: { mimeType: back.mimeType, data: back.image } }] : [])
+      ]
+    }
+  ],
+  generationConfig: {
+    responseMimeType: "application/json",
+    responseSchema
+  }
+});
+
+export const extractWithGemini = async (
+  base64Data: string,
+  mimeType: string,
+  options: GeminiOptions = {},
+  back?: EncodedImage
+): Promise<ParsedExtraction> => {
+  const apiKey = options.apiKey ?? process.env.GEMINI_API_KEY;
+  if (!apiKey) {
+    throw new ExtractionError('Gemini API key not configured. Please set GEMINI_API_KEY in the server environment.');
+  }
+
+  const baseUrl = (options.baseUrl ?? process.env.GEMINI_API_BASE_URL ?? DEFAULT_BASE_URL).replace(/\/+$/, '');
+  const model = options.model ?? process.env.GEMINI_MODEL ?? DEFAULT_MODEL;
+  const apiUrl = `${baseUrl}/v1beta/models/${model}:generateContent?key=${apiKey}`;
+
+  const response = await fetch(apiUrl, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(buildGeminiPayload(base64Data, mimeType, back))
+  });
+
+  if (!response.ok) {
+    const errorBody = await response.text();
+    console.error("Gemini API request failed:", response.status, response.statusText, errorBody);
+    throw new ExtractionError(`Error from Gemini API: ${response.status} ${response.statusText}.`, 502);
+  }
+
+  const result = await response.json();
+  const jsonString = result?.candidates?.[0]?.content?.parts?.[0]?.text;
+  if (typeof jsonString !== 'string') {
+    console.error("Gemini API response structure unexpected or empty candidates:", result);
+    throw new ExtractionError('Could not extract information. The API response was unexpected or empty.', 502);
+  }
+
+  return parseExtractedData(jsonString);
+};
+
+export const geminiExtractor: Extractor = {
+  id: 'gemini',
+  label: EXTRACTOR_LABELS.gemini,
+  isConfigured: () => !!process.env.GEMINI_API_KEY,
+  extract: (base64Data, mimeType, back) => extractWithGemini(base64Data, mimeType, {}, back),
+};
@@ -0,0 +1,118 @@
+// Edit history, the audit log and the trash bin.
+//
+// Every change to a card is appended to the vault's audit log in the same batch as the change
+// itself, with who made it, when, and each changed field's value before and after. A card's
+// history is the log filtered to that card. Undoing a change writes its "before" values back and
+// is logged like any other change, so an undo can be undone too.
+//
+// Deleting only moves a card to the trash by setting deletedAt. It can be restored from there
+// until it is purged, images and all, TRASH_RETENTION_DAYS later.
+
+import { DELETE_FIELD } from './cardRepository';
+import { EMAIL_TYPE_LABELS, formatPostalAddress, PHONE_TYPE_LABELS, SOCIAL_NETWORK_LABELS } from './contactFields';
+import { CARD_FIELD_LABELS, CARD_FIELDS, CardField, CompanyData, ContactEmail, ContactPhone, PostalAddress, SocialProfile } from './types';
+
+export type AuditAction = 'edit' | 'merge' | 'delete' | 'restore' | 'undo' | 'purge';
+
+export type FieldValue = CompanyData[CardField] | null;
+
+export interface FieldChange {
+  field: CardField;
+  // null when the field was empty
+  before: FieldValue;
+  after: FieldValue;
+}
+
+export interface AuditEntry {
+  id: string;
+  cardId: string;
+  // Kept so the log stays readable after the card is purged
+  cardLabel: string;
+  action: AuditAction;
+  changes: FieldChange[];
+  at: number;
+  by: string | null;
+  // For undo entries, the entry that was undone
+  undoes?: string;
+}
+
+export const AUDIT_ACTION_LABELS: Record<AuditAction, string> = {
+  edit: 'Edited',
+  merge: 'Merged a new scan',
+  delete: 'Moved to trash',
+  restore: 'Restored from trash',
+  undo: 'Undid a change',
+  purge: 'Deleted permanently',
+};
+
+export const TRASH_RETENTION_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// How many entries the vault-wide audit log shows
+export const AUDIT_LOG_LIMIT = 200;
+
+export const cardLabel = (card: CompanyData): string => card.companyName || card.contactPerson || 'Card';
+
+export const isTrashed = (card: CompanyData): boolean => !!card.deletedAt;
+
+export const purgeTime = (card: CompanyData): number => (card.deletedAt || 0) + TRASH_RETENTION_DAYS * DAY_MS;
+
+export const isPurgeDue = (card: CompanyData, now = Date.now()): boolean => isTrashed(card) && purgeTime(card) <= now;
+
+const isEmpty = (value: FieldValue | undefined): boolean =>
+  value === undefined || value === null || value === '' || (Array.isArray(value) && value.length === 0);
+
+const sameValue = (a: FieldValue | undefined, b: FieldValue | undefined): boolean =>
+  (isEmpty(a) && isEmpty(b)) || JSON.stringify(a) === JSON.stringify(b);
+
+export const fieldChanges = (before: Partial<CompanyData>, after: Partial<CompanyData>, fields: CardField[] = CARD_FIELDS): FieldChange[] =>
+  fields
+    .filter(field => !sameValue(before[field], after[field]))
+    .map(field => ({
+      field,
+      before: isEmpty(before[field]) ? null : before[field],
+      after: isEmpty(after[field]) ? null : after[field],
+    }));
+
+// Firestore rejects undefined: cleared scalars are stored as '', cleared lists as [], and a
+// cleared postal address is deleted
+export const storedFieldValue = (field: CardField, value: FieldValue | undefined) => {
+  if (!isEmpty(value)) return value;
+  if (field === 'postalAddress') return DELETE_FIELD;
+  return field === 'phones' || field === 'emails' || field === 'socialProfiles' ? [] : '';
+};
+
+// The card update that reverses an entry. Null when the entry can't be undone.
+export const undoUpdate = (entry: AuditEntry, userId: string | null): Record<string, unknown> | null => {
+  if (entry.action === 'purge') return null;
+  if (entry.action === 'delete') return { deletedAt: DELETE_FIELD, deletedBy: DELETE_FIELD };
+  if (entry.action === 'restore') return { deletedAt: Date.now(), deletedBy: userId };
+  const update: Record<string, unknown> = {};
+  entry.changes.forEach(change => { update[change.field] = storedFieldValue(change.field, change.before); });
+  return update;
+};
+
+// The changes an undo of this entry makes, for its own log entry
+export const invertChanges = (entry: AuditEntry): FieldChange[] =>
+  entry.changes.map(change => ({ field: change.field, before: change.after, after: change.before }));
+
+// One-line text for a field value in the history view
+export const formatFieldValue = (field: CardField, value: FieldValue): string => {
+  if (isEmpty(value)) return 'Empty';
+  switch (field) {
+    case 'phones':
+      return (value as ContactPhone[]).map(phone => `${PHONE_TYPE_LABELS[phone.type]}: ${phone.value}`).join(', ');
+    case 'emails':
+      return (value as ContactEmail[]).map(email => `${EMAIL_TYPE_LABELS[email.type]}: ${email.value}`).join(', ');
+    case 'socialProfiles':
+      return (value as SocialProfile[]).map(profile => `${SOCIAL_NETWORK_LABELS[profile.network]}: ${profile.value}`).join(', ');
+    case 'postalAddress':
+      return formatPostalAddress(value as PostalAddress);
+    default:
+      return String(value);
+  }
+};
+
+export const describeChanges = (entry: AuditEntry): string =>
+  entry.changes.length === 0 ? '' : entry.changes.map(change => CARD_FIELD_LABELS[change.field]).join(', ');
@@ -0,0 +1,67 @@
+// iCalendar (RFC 5545) export of follow-up reminders, so they can be added to any calendar app
+
+import { DueReminder } from './activity';
+import { escapeVCardValue, foldLine } from './vcard';
+
+// Reminders become all-day events with an alert at this time on the day they are due
+const ALERT_HOUR = 9;
+
+const dateValue = (date: string): string => date.replace(/-/g, '');
+
+const nextDay = (date: string): string => {
+  const [year, month, day] = date.split('-').map(Number);
+  const next = new Date(Date.UTC(year, month - 1, day + 1));
+  return next.toISOString().slice(0, 10).replace(/-/g, '');
+};
+
+const utcTimestamp = (time: number): string => new Date(time).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+const reminderTitle = ({ card }: DueReminder): string =>
+  `Follow up: ${card.contactPerson || card.companyName || 'contact'}${card.contactPerson && card.companyName ? ` (${card.companyName})` : ''}`;
+
+const reminderDescription = ({ card, reminder }: DueReminder): string =>
+  [reminder.note, card.phoneNumber && `Phone: ${card.phoneNumber}`, card.email && `Email: ${card.email}`]
+    .filter(Boolean)
+    .join('\n');
+
+const reminderEvent = (entry: DueReminder, stamp: string): string[] => {
+  const { reminder } = entry;
+  const description = reminderDescription(entry);
+  return [
+    'BEGIN:VEVENT',
+    // Stable across exports, so importing the file again updates the event instead of duplicating it
+    `UID:${reminder.id}@cardvault`,
+    `DTSTAMP:${stamp}`,
+    `DTSTART;VALUE=DATE:${dateValue(reminder.dueDate)}`,
+    `DTEND;VALUE=DATE:${nextDay(reminder.dueDate)}`,
+    `SUMMARY:${escapeVCardValue(reminderTitle(entry))}`,
+    ...(description ? [`DESCRIPTION:${escapeVCardValue(description)}`] : []),
+    'TRANSP:TRANSPARENT',
+    'BEGIN:VALARM',
+    'ACTION:DISPLAY',
+    `DESCRIPTION:${escapeVCardValue(reminderTitle(entry))}`,
+    `TRIGGER:PT${ALERT_HOUR}H`,
+    'END:VALARM',
+    'END:VEVENT',
+  ];
+};
+
+export const remindersToIcs = (entries: DueReminder[], now = Date.now()): string => {
+  const stamp = utcTimestamp(now);
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//CardVault//Follow-up reminders//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    ...entries.flatMap(entry => reminderEvent(entry, stamp)),
+    'END:VCALENDAR',
+  ];
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+};
+
+export const icsFileName = (entries: DueReminder[]): string => {
+  if (entries.length !== 1) return 'cardvault-follow-ups.ics';
+  const { card } = entries[0];
+  return `follow-up-${(card.contactPerson || card.companyName || 'contact').replace(/[^\w\-]+/g, '_').replace(/^_+|_+$/g, '') || 'contact'}.ics`;
+};
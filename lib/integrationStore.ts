@@ -0,0 +1,130 @@
+// Integration settings, API tokens and the webhook delivery log as stored in Firestore. Server only;
+// see lib/integrations.ts for the data shapes.
+
+import { Firestore } from 'firebase-admin/firestore';
+import { ApiError, generateApiToken, hashApiToken } from './apiAuth';
+import { serverAppId } from './firebaseAdmin';
+import { apiTokensPath } from './firestorePaths';
+import { allowPrivateHostsFromEnv, BlockedUrlError, checkPublicUrl } from './publicFetch';
+import {
+  ApiToken,
+  DEFAULT_INTEGRATION_CONFIG,
+  FieldMapping,
+  IntegrationConfig,
+  isValidWebhookUrl,
+  MAPPED_FIELDS,
+  validateFieldMapping,
+  VaultRef,
+  WEBHOOK_EVENTS,
+  WebhookDelivery,
+  WebhookEndpoint,
+} from './integrations';
+
+// How many deliveries the Integrations dialog shows
+export const DELIVERY_LOG_LIMIT = 50;
+
+export const readIntegrationConfig = async (db: Firestore, configPath: string): Promise<IntegrationConfig> => {
+  const snapshot = await db.doc(configPath).get();
+  return { ...DEFAULT_INTEGRATION_CONFIG, ...(snapshot.data() as Partial<IntegrationConfig>) };
+};
+
+// What the browser gets back: whether each endpoint has a secret, never the secret itself
+export const withoutSecrets = (config: IntegrationConfig): IntegrationConfig => ({
+  ...config,
+  webhooks: config.webhooks.map(({ secret, ...endpoint }) => ({ ...endpoint, hasSecret: !!secret })),
+});
+
+const readEndpoint = (value: Partial<WebhookEndpoint>, existing: WebhookEndpoint | undefined): WebhookEndpoint => {
+  if (!value || typeof value.id !== 'string' || !/^[\w-]+$/.test(value.id)) throw new ApiError('Every webhook needs an id.', 400);
+  const url = typeof value.url === 'string' ? value.url.trim() : '';
+  if (!isValidWebhookUrl(url)) throw new ApiError(`"${url}" is not a valid http(s) webhook URL.`, 400);
+  const events = Array.isArray(value.events) ? WEBHOOK_EVENTS.filter(event => value.events.includes(event)) : [];
+  if (events.length === 0) throw new ApiError(`Pick at least one event for ${url}.`, 400);
+  // An endpoint saved without a secret keeps the one it has
+  const secret = typeof value.secret === 'string' && value.secret ? value.secret : existing?.secret;
+  if (!secret) throw new ApiError(`The webhook for ${url} needs a signing secret.`, 400);
+  return { id: value.id, url, events, active: value.active !== false, secret, createdAt: existing?.createdAt ?? Date.now() };
+};
+
+const readFieldMapping = (value: FieldMapping): FieldMapping => {
+  const mapping: FieldMapping = {};
+  MAPPED_FIELDS.forEach(field => {
+    const name = value?.[field];
+    if (typeof name === 'string' && name.trim() !== field) mapping[field] = name.trim();
+  });
+  const error = validateFieldMapping(mapping);
+  if (error) throw new ApiError(error, 400);
+  return mapping;
+};
+
+// Webhooks are refused up front when their host is private; deliveries check again, since DNS can change
+const checkWebhookHost = async (url: string, allowPrivateHosts: boolean) => {
+  try {
+    await checkPublicUrl(new URL(url), allowPrivateHosts);
+  } catch (error) {
+    if (error instanceof BlockedUrlError) throw new ApiError(`The webhook for ${url} can't be used: ${error.message}`, 400);
+    throw error;
+  }
+};
+
+// Validates and saves the settings sent by the Integrations dialog; returns them without secrets
+export const saveIntegrationConfig = async (
+  db: Firestore,
+  configPath: string,
+  config: Partial<IntegrationConfig>,
+  allowPrivateHosts = allowPrivateHostsFromEnv('WEBHOOKS_ALLOW_PRIVATE_HOSTS')
+): Promise<IntegrationConfig> => {
+  const current = await readIntegrationConfig(db, configPath);
+  const saved: IntegrationConfig = {
+    webhooks: (Array.isArray(config.webhooks) ? config.webhooks : [])
+      .map(endpoint => readEndpoint(endpoint, current.webhooks.find(existing => existing.id === endpoint?.id))),
+    fieldMapping: readFieldMapping(config.fieldMapping),
+  };
+  await Promise.all(saved.webhooks.map(endpoint => checkWebhookHost(endpoint.url, allowPrivateHosts)));
+  await db.doc(configPath).set(saved);
+  return withoutSecrets(saved);
+};
+
+export const listApiTokens = async (db: Firestore, ref: VaultRef): Promise<ApiToken[]> => {
+  const snapshot = await db.collection(apiTokensPath(serverAppId))
+    .where('vault.kind', '==', ref.kind)
+    .where('vault.id', '==', ref.id)
+    .get();
+  return snapshot.docs
+    .map(tokenDoc => ({ id: tokenDoc.id, ...tokenDoc.data() } as ApiToken))
+    .sort((a, b) => b.createdAt - a.createdAt);
+};
+
+// Returns the new token, which is only ever shown this once, with its stored details
+export const createApiToken = async (db: Firestore, ref: VaultRef, name: string, uid: string): Promise<{ token: string; info: ApiToken }> => {
+  const token = generateApiToken();
+  const { id, ...stored }: ApiToken = {
+    id: hashApiToken(token),
+    name: name.trim() || 'API token',
+    prefix: token.slice(0, 8),
+    vault: ref,
+    createdBy: uid,
+    createdAt: Date.now(),
+    lastUsedAt: null,
+  };
+  await db.doc(`${apiTokensPath(serverAppId)}/${id}`).set(stored);
+  return { token, info: { id, ...stored } };
+};
+
+export const revokeApiToken = async (db: Firestore, ref: VaultRef, id: string) => {
+  const tokenRef = db.doc(`${apiTokensPath(serverAppId)}/${id}`);
+  const snapshot = await tokenRef.get();
+  const vault = snapshot.get('vault') as VaultRef | undefined;
+  if (!snapshot.exists || vault?.kind !== ref.kind || vault?.id !== ref.id) throw new ApiError('API token not found.', 404);
+  await tokenRef.delete();
+};
+
+export const recordDelivery = async (db: Firestore, deliveriesPath: string, delivery: WebhookDelivery) => {
+  const { id, ...stored } = delivery;
+  await db.doc(`${deliveriesPath}/${id}`).set(stored);
+};
+
+export const listDeliveries = async (db: Firestore, deliveriesPath: string): Promise<WebhookDelivery[]> => {
+  const snapshot = await db.collection(deliveriesPath).orderBy('at', 'desc').limit(DELIVERY_LOG_LIMIT).get();
+  return snapshot.docs.map(deliveryDoc => ({ id: deliveryDoc.id, ...deliveryDoc.data() } as WebhookDelivery));
+};
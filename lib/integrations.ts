@@ -0,0 +1,234 @@
+// CRM integrations: outgoing webhooks fired when cards change, API tokens for the /api/cards REST
+// API, and the field mapping both use to rename card fields to what the other system expects.
+//
+// Settings, token hashes and the delivery log live under the vault but are only read and written by
+// the server with the Admin SDK (see lib/firebaseAdmin.ts). firestore.rules gives browsers no access
+// to them, so webhook secrets and tokens never leave the server once saved.
+
+import { ADDRESS_PARTS, EMAIL_TYPES, PHONE_TYPES, SOCIAL_NETWORKS } from './contactFields';
+import {
+  userAuditLogPath,
+  userCardsPath,
+  userIntegrationConfigPath,
+  userWebhookDeliveriesPath,
+  workspaceAuditLogPath,
+  workspaceCardsPath,
+  workspaceIntegrationConfigPath,
+  workspaceWebhookDeliveriesPath,
+} from './firestorePaths';
+import { AuditAction } from './history';
+import { CARD_FIELD_LABELS, CARD_FIELDS, CardField, CompanyData, ContactListField, Vault } from './types';
+
+export type WebhookEvent = 'card.created' | 'card.updated' | 'card.deleted';
+
+export const WEBHOOK_EVENTS: WebhookEvent[] = ['card.created', 'card.updated', 'card.deleted'];
+
+export const WEBHOOK_EVENT_LABELS: Record<WebhookEvent, string> = {
+  'card.created': 'Card created',
+  'card.updated': 'Card updated',
+  'card.deleted': 'Card deleted',
+};
+
+// The event each audit log action fires. A card restored from the trash is new again to a receiver
+// that saw it deleted; a purge fires nothing, since card.deleted was sent when it went to the trash.
+export const AUDIT_ACTION_EVENTS: Partial<Record<AuditAction, WebhookEvent>> = {
+  edit: 'card.updated',
+  merge: 'card.updated',
+  undo: 'card.updated',
+  delete: 'card.deleted',
+  restore: 'card.created',
+};
+
+// Card ids per /api/webhooks/events request; larger imports are sent in several requests
+export const MAX_EVENT_CARDS = 100;
+
+export interface WebhookEndpoint {
+  id: string;
+  url: string;
+  events: WebhookEvent[];
+  active: boolean;
+  // Written by the settings dialog and never sent back; reads only say whether one is set
+  secret?: string;
+  hasSecret?: boolean;
+  createdAt: number;
+}
+
+// Card fields that can be renamed, and read and written through the API
+export type MappedField = CardField | 'tags';
+
+export const MAPPED_FIELDS: MappedField[] = [...CARD_FIELDS, 'tags'];
+
+export const MAPPED_FIELD_LABELS: Record<MappedField, string> = { ...CARD_FIELD_LABELS, tags: 'Tags' };
+
+// Always sent under these names, so they can't be used for mapped fields
+export const RESERVED_FIELD_NAMES = ['id', 'createdAt', 'updatedAt', 'deletedAt'];
+
+// The other system's name for each card field. Unmapped fields keep their own name; fields mapped
+// to '' are left out of payloads and ignored in requests.
+export type FieldMapping = Partial<Record<MappedField, string>>;
+
+export interface IntegrationConfig {
+  webhooks: WebhookEndpoint[];
+  fieldMapping: FieldMapping;
+}
+
+export const DEFAULT_INTEGRATION_CONFIG: IntegrationConfig = { webhooks: [], fieldMapping: {} };
+
+// Which vault a token or request is for. For a private vault the id is the owner's uid.
+export interface VaultRef {
+  kind: Vault['kind'];
+  id: string;
+}
+
+export interface ApiToken {
+  // The SHA-256 hash of the token; the token itself is only shown once, when it is created
+  id: string;
+  name: string;
+  // The token's first characters, to tell tokens apart in the list
+  prefix: string;
+  vault: VaultRef;
+  createdBy: string;
+  createdAt: number;
+  lastUsedAt: number | null;
+}
+
+export type DeliveryStatus = 'delivered' | 'failed';
+
+export interface WebhookDelivery {
+  id: string;
+  endpointId: string;
+  url: string;
+  event: WebhookEvent;
+  cardId: string;
+  status: DeliveryStatus;
+  attempts: number;
+  // The last response's status code; null when the receiver couldn't be reached
+  responseStatus: number | null;
+  error: string | null;
+  at: number;
+}
+
+// What the Integrations dialog loads: the settings without secrets, tokens and recent deliveries
+export interface IntegrationsResponseBody {
+  config: IntegrationConfig;
+  tokens: ApiToken[];
+  deliveries: WebhookDelivery[];
+}
+
+export const vaultRef = (vault: Vault, uid: string): VaultRef => ({ kind: vault.kind, id: vault.kind === 'personal' ? uid : vault.id });
+
+export const vaultRefPaths = (appId: string, ref: VaultRef) =>
+  ref.kind === 'personal'
+    ? {
+      cardsPath: userCardsPath(appId, ref.id),
+      auditLogPath: userAuditLogPath(appId, ref.id),
+      configPath: userIntegrationConfigPath(appId, ref.id),
+      deliveriesPath: userWebhookDeliveriesPath(appId, ref.id),
+    }
+    : {
+      cardsPath: workspaceCardsPath(appId, ref.id),
+      auditLogPath: workspaceAuditLogPath(appId, ref.id),
+      configPath: workspaceIntegrationConfigPath(appId, ref.id),
+      deliveriesPath: workspaceWebhookDeliveriesPath(appId, ref.id),
+    };
+
+export const externalName = (mapping: FieldMapping, field: MappedField): string => mapping[field] ?? field;
+
+const LIST_FIELDS: MappedField[] = ['phones', 'emails', 'socialProfiles', 'tags'];
+
+// A card as the other system sees it: mapped field names, and empty values rather than missing ones
+export const toExternalCard = (card: CompanyData, mapping: FieldMapping): Record<string, unknown> => {
+  const external: Record<string, unknown> = { id: card.id };
+  MAPPED_FIELDS.forEach(field => {
+    const name = externalName(mapping, field);
+    if (!name) return;
+    const value = card[field];
+    if (field === 'postalAddress') external[name] = value || null;
+    else if (LIST_FIELDS.includes(field)) external[name] = value || [];
+    else external[name] = value || '';
+  });
+  external.createdAt = card.timestamp ?? null;
+  external.updatedAt = card.updatedAt ?? card.timestamp ?? null;
+  external.deletedAt = card.deletedAt ?? null;
+  return external;
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> => !!value && typeof value === 'object' && !Array.isArray(value);
+
+const TYPED_LISTS: Record<Exclude<ContactListField, 'postalAddress'>, [string, string[]]> = {
+  phones: ['type', PHONE_TYPES],
+  emails: ['type', EMAIL_TYPES],
+  socialProfiles: ['network', SOCIAL_NETWORKS],
+};
+
+// Checks a list of typed values such as phones: [{ type: 'mobile', value: '+44...' }]
+const readTypedList = (value: unknown, kindKey: string, kinds: string[], name: string, errors: string[]) => {
+  if (!Array.isArray(value) || !value.every(entry => isObject(entry) && typeof entry.value === 'string' && kinds.includes(entry[kindKey] as string))) {
+    errors.push(`"${name}" must be a list of { ${kindKey}, value } objects, with ${kindKey} one of: ${kinds.join(', ')}.`);
+    return undefined;
+  }
+  return value.map(entry => ({ [kindKey]: entry[kindKey], value: entry.value }));
+};
+
+// The card fields present in a request body, read through the mapping. Properties that aren't
+// mapped fields are ignored; values of the wrong type are reported and left out.
+export const fromExternalCard = (body: Record<string, unknown>, mapping: FieldMapping): { data: Partial<CompanyData>; errors: string[] } => {
+  const data: Partial<CompanyData> = {};
+  const errors: string[] = [];
+  MAPPED_FIELDS.forEach(field => {
+    const name = externalName(mapping, field);
+    if (!name || !(name in body)) return;
+    const value = body[name] ?? '';
+    switch (field) {
+      case 'phones':
+      case 'emails':
+      case 'socialProfiles': {
+        const [kindKey, kinds] = TYPED_LISTS[field];
+        const list = readTypedList(value || [], kindKey, kinds, name, errors);
+        if (list) Object.assign(data, { [field]: list });
+        break;
+      }
+      case 'postalAddress':
+        if (value === '' || (isObject(value) && ADDRESS_PARTS.every(part => value[part] === undefined || typeof value[part] === 'string'))) {
+          data.postalAddress = value ? Object.fromEntries(ADDRESS_PARTS.filter(part => value[part]).map(part => [part, value[part]])) : undefined;
+        } else {
+          errors.push(`"${name}" must be an object with the string fields ${ADDRESS_PARTS.join(', ')}.`);
+        }
+        break;
+      case 'tags': {
+        const tags = value || [];
+        if (Array.isArray(tags) && tags.every(tag => typeof tag === 'string')) data.tags = tags;
+        else errors.push(`"${name}" must be a list of strings.`);
+        break;
+      }
+      default:
+        if (typeof value === 'string') data[field] = value;
+        else errors.push(`"${name}" must be a string.`);
+    }
+  });
+  return { data, errors };
+};
+
+// Returns an error message, or null when every mapped name is usable and unique
+export const validateFieldMapping = (mapping: FieldMapping): string | null => {
+  const names: string[] = [];
+  for (const field of MAPPED_FIELDS) {
+    const name = externalName(mapping, field);
+    if (!name) continue;
+    if (RESERVED_FIELD_NAMES.includes(name)) return `"${name}" is reserved and can't be used for ${MAPPED_FIELD_LABELS[field]}.`;
+    if (names.includes(name)) return `"${name}" is used for more than one field.`;
+    names.push(name);
+  }
+  return null;
+};
+
+// Plain http is accepted for receivers on a local server during development; the server also refuses
+// hosts that aren't public (see lib/publicFetch.ts) unless WEBHOOKS_ALLOW_PRIVATE_HOSTS is set
+export const isValidWebhookUrl = (value: string): boolean => {
+  try {
+    const url = new URL(value);
+    return url.protocol === 'https:' || url.protocol === 'http:';
+  } catch {
+    return false;
+  }
+};
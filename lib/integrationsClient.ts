@@ -0,0 +1,58 @@
+// Browser-side calls to the integration routes, signed with the current user's Firebase ID token.
+// Integrations need the Admin SDK on the server, so they are off unless NEXT_PUBLIC_ENABLE_INTEGRATIONS is set.
+
+import { User } from 'firebase/auth';
+import { ApiToken, IntegrationConfig, IntegrationsResponseBody, MAX_EVENT_CARDS, VaultRef, WebhookEvent } from './integrations';
+
+export const integrationsEnabled = process.env.NEXT_PUBLIC_ENABLE_INTEGRATIONS === 'true';
+
+const callApi = async <T>(user: User, path: string, init: RequestInit = {}): Promise<T> => {
+  const response = await fetch(path, {
+    ...init,
+    headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${await user.getIdToken()}` },
+  });
+  if (response.status === 204) return null;
+  const result = await response.json().catch(() => ({}));
+  if (!response.ok) throw new Error(result.error || `${response.status} ${response.statusText}`);
+  return result;
+};
+
+const vaultQuery = (ref: VaultRef) => `vaultKind=${ref.kind}&vaultId=${encodeURIComponent(ref.id)}`;
+
+export const fetchIntegrations = (user: User, ref: VaultRef) =>
+  callApi<IntegrationsResponseBody>(user, `/api/integrations?${vaultQuery(ref)}`);
+
+export const saveIntegrations = (user: User, ref: VaultRef, config: IntegrationConfig) =>
+  callApi<{ config: IntegrationConfig }>(user, '/api/integrations', { method: 'PUT', body: JSON.stringify({ vault: ref, config }) });
+
+export const createApiToken = (user: User, ref: VaultRef, name: string) =>
+  callApi<{ token: string; info: ApiToken }>(user, '/api/integrations/tokens', { method: 'POST', body: JSON.stringify({ vault: ref, name }) });
+
+export const revokeApiToken = (user: User, ref: VaultRef, tokenId: string) =>
+  callApi<null>(user, `/api/integrations/tokens?${vaultQuery(ref)}&tokenId=${tokenId}`, { method: 'DELETE' });
+
+// A random secret for a new webhook, for the receiver to check signatures with
+export const generateWebhookSecret = (): string =>
+  `whsec_${Array.from(crypto.getRandomValues(new Uint8Array(24)), byte => byte.toString(16).padStart(2, '0')).join('')}`;
+
+// Asks the server to fire the vault's webhooks for cards whose change has reached Firestore.
+// Failures are only logged: the change itself is saved either way.
+export const notifyCardEvent = async (user: User | null, ref: VaultRef, event: WebhookEvent, cardIds: string[]) => {
+  if (!integrationsEnabled || !user) return;
+  for (let i = 0; i < cardIds.length; i += MAX_EVENT_CARDS) {
+    try {
+      await callApi(user, '/api/webhooks/events', {
+        method: 'POST',
+        body: JSON.stringify({ vault: ref, event, cardIds: cardIds.slice(i, i + MAX_EVENT_CARDS) }),
+      });
+    } catch (error) {
+      console.error("Error sending webhook event:", error);
+    }
+  }
+};
+
+// Fires the webhooks once a write reaches Firestore, so changes made offline fire them on reconnect
+export const notifyAfterWrite = (user: User | null, ref: VaultRef, write: Promise<void>, event: WebhookEvent, cardIds: string[]) => {
+  if (!integrationsEnabled) return;
+  write.then(() => notifyCardEvent(user, ref, event, cardIds), () => undefined);
+};
@@ -0,0 +1,29 @@
+// Cards from before private vaults were kept in one collection shared by every visitor. The rules
+// still let each user read and delete the cards they added there, and this moves them into the user's
+// own vault. Once moved they are deleted from the old collection, so the import only happens once.
+
+import { collection, Firestore, getDocs, query, where, writeBatch } from 'firebase/firestore';
+import { CardRepository } from './cardRepository';
+import { legacyCardsPath } from './firestorePaths';
+import { migrateCard } from './migrations';
+import { CompanyData } from './types';
+
+// Firestore's limit on writes in one batch
+const BATCH_LIMIT = 500;
+
+// Copies the user's cards from the old shared collection into the repository, keeping their ids, then
+// removes the originals. Returns how many cards were moved.
+export const importLegacyCards = async (db: Firestore, appId: string, uid: string, repository: CardRepository): Promise<number> => {
+  const snapshot = await getDocs(query(collection(db, legacyCardsPath(appId)), where('uploadedBy', '==', uid)));
+  if (snapshot.empty) return 0;
+
+  const cards = snapshot.docs.map(card => migrateCard({ ...card.data(), id: card.id } as CompanyData));
+  await repository.createCards(cards.map(card => ({ ...card, uploadedBy: uid }))).write;
+
+  for (let i = 0; i < snapshot.docs.length; i += BATCH_LIMIT) {
+    const batch = writeBatch(db);
+    snapshot.docs.slice(i, i + BATCH_LIMIT).forEach(card => batch.delete(card.ref));
+    await batch.commit();
+  }
+  return cards.length;
+};
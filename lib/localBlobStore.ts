@@ -0,0 +1,58 @@
+// Server-side filesystem blob store used by the /api/images route, mainly for local development and tests.
+// Never import this from client components.
+
+import { mkdir, readFile, rm, writeFile } from 'fs/promises';
+import path from 'path';
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.jpg': 'image/jpeg',
+  '.png': 'image/png',
+  '.webp': 'image/webp',
+  '.gif': 'image/gif',
+  '.heic': 'image/heic',
+};
+
+export class LocalFileBlobStore {
+  private root: string;
+
+  constructor(root: string) {
+    this.root = path.resolve(root);
+  }
+
+  // Maps a store key to a file under the root, refusing anything that would escape it
+  private resolve(key: string): string {
+    const filePath = path.resolve(this.root, key);
+    if (!filePath.startsWith(this.root + path.sep)) {
+      throw new Error(`Invalid blob path: ${key}`);
+    }
+    return filePath;
+  }
+
+  async put(key: string, data: Uint8Array): Promise<void> {
+    const filePath = this.resolve(key);
+    await mkdir(path.dirname(filePath), { recursive: true });
+    await writeFile(filePath, data);
+  }
+
+  // Returns null when the file does not exist
+  async get(key: string): Promise<{ data: Buffer; contentType: string } | null> {
+    const filePath = this.resolve(key);
+    try {
+      const data = await readFile(filePath);
+      return { data, contentType: CONTENT_TYPES[path.extname(filePath).toLowerCase()] || 'application/octet-stream' };
+    } catch (error) {
+      if (error.code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await rm(this.resolve(key), { force: true });
+  }
+}
+
+// The store is only available when a directory has been configured
+export const getLocalBlobStore = (): LocalFileBlobStore | null => {
+  const root = process.env.LOCAL_BLOB_DIR;
+  return root ? new LocalFileBlobStore(root) : null;
+};
@@ -0,0 +1,185 @@
+// A card repository that keeps one vault in memory, for tests and for running the app without a
+// backend. Writes apply at once and listeners hear about them straight away, as Firestore's local
+// cache does; there is no server, so every card counts as confirmed.
+
+import { CardCursor, CardListField, CardRange, CardRepository, CardSnapshot, CardUpdate, DELETE_FIELD, NewCard, SORT_FIELDS, withSortKeys } from './cardRepository';
+import { AUDIT_LOG_LIMIT, AuditEntry, isTrashed } from './history';
+import { CompanyData } from './types';
+
+// Cards and entries are plain data, so a JSON round trip is a deep copy
+const copy = <T>(value: T): T => JSON.parse(JSON.stringify(value));
+
+const sameItem = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+// Firestore's order: by value, then by id. Strings compare by code unit, so case matters, as it does there.
+const compareCursors = (a: CardCursor, b: CardCursor): number => {
+  if (a.value !== b.value) return a.value < b.value ? -1 : 1;
+  if (a.id !== b.id) return a.id < b.id ? -1 : 1;
+  return 0;
+};
+
+export interface MemoryCardRepository extends CardRepository {
+  // The stored cards and log, for checking what the app wrote
+  cards(): CompanyData[];
+  auditLog(): AuditEntry[];
+}
+
+export const createMemoryCardRepository = (initialCards: CompanyData[] = []): MemoryCardRepository => {
+  const cards = new Map<string, CompanyData>(initialCards.map(card => [card.id, copy(card)]));
+  const log: AuditEntry[] = [];
+  const cardListeners = new Set<() => void>();
+  const logListeners = new Set<() => void>();
+  let nextId = 1;
+
+  const newId = (prefix: string) => `${prefix}-${nextId++}`;
+
+  const snapshot = (list: CompanyData[]): CardSnapshot => ({
+    cards: list.map(copy),
+    hasPendingWrites: false,
+    confirmedIds: list.map(card => card.id),
+  });
+
+  // As in Firestore, cards without the sort field are left out of every range
+  const inRange = ({ order, after, until, limit }: CardRange): CompanyData[] => {
+    const field = SORT_FIELDS[order.sort];
+    const direction = order.dir === 'asc' ? 1 : -1;
+    const position = (card: CompanyData): CardCursor => ({ value: card[field], id: card.id });
+    const sorted = Array.from(cards.values())
+      .filter(card => card[field] !== undefined)
+      .sort((a, b) => direction * compareCursors(position(a), position(b)))
+      .filter(card => (!after || direction * compareCursors(position(card), after) > 0) && (!until || direction * compareCursors(position(card), until) <= 0));
+    return limit ? sorted.slice(0, limit) : sorted;
+  };
+
+  const due = (date: string) => Array.from(cards.values())
+    .filter(card => card.nextDueDate !== undefined && card.nextDueDate <= date)
+    .sort((a, b) => a.nextDueDate.localeCompare(b.nextDueDate));
+
+  const trashed = () => Array.from(cards.values())
+    .filter(isTrashed)
+    .sort((a, b) => b.deletedAt - a.deletedAt);
+
+  const listenToCards = (read: () => CompanyData[], onChange: (snapshot: CardSnapshot) => void) => {
+    const listener = () => onChange(snapshot(read()));
+    cardListeners.add(listener);
+    listener();
+    return () => { cardListeners.delete(listener); };
+  };
+
+  const changed = () => {
+    cardListeners.forEach(listener => listener());
+    logListeners.forEach(listener => listener());
+  };
+
+  const existing = (id: string): CompanyData => {
+    const card = cards.get(id);
+    if (!card) throw new Error(`No card with id "${id}".`);
+    return card;
+  };
+
+  const applyUpdate = (card: CompanyData, update: CardUpdate) => {
+    Object.entries(withSortKeys(update)).forEach(([field, value]) => {
+      if (value === DELETE_FIELD) delete card[field];
+      else card[field] = copy(value);
+    });
+  };
+
+  const appendEntry = (entry: Omit<AuditEntry, 'id'>): AuditEntry => {
+    const stored = { id: newId('entry'), ...copy(entry) };
+    log.push(stored);
+    return stored;
+  };
+
+  // Runs a write the way Firestore reports it: a rejected promise when it fails, listeners told when it works
+  const write = (apply: () => void): Promise<void> => {
+    try {
+      apply();
+    } catch (error) {
+      return Promise.reject(error);
+    }
+    changed();
+    return Promise.resolve();
+  };
+
+  const updateList = (id: string, field: CardListField, update: (items: unknown[]) => unknown[], derived: CardUpdate = {}) => write(() => {
+    const card = existing(id);
+    card[field] = update((card[field] as unknown[]) || []) as never;
+    applyUpdate(card, derived);
+  });
+
+  const newestFirst = (entries: AuditEntry[]) => [...entries].sort((a, b) => b.at - a.at).map(copy);
+
+  const listenToLog = (read: () => AuditEntry[], onChange: (entries: AuditEntry[]) => void) => {
+    const listener = () => onChange(read());
+    logListeners.add(listener);
+    listener();
+    return () => { logListeners.delete(listener); };
+  };
+
+  return {
+    subscribeToRange: (range, onChange) => listenToCards(() => inRange(range), onChange),
+
+    subscribeToCard: (id, onChange) => listenToCards(() => (cards.has(id) ? [cards.get(id)] : []), onChange),
+
+    subscribeToTrash: (onChange) => listenToCards(trashed, onChange),
+
+    countCards: () => Promise.resolve(cards.size),
+
+    fetchCard: (id) => Promise.resolve(cards.has(id) ? copy(cards.get(id)) : null),
+
+    findCards: (field, value, max) => Promise.resolve(Array.from(cards.values()).filter(card => card[field] === value).slice(0, max).map(copy)),
+
+    findOutdatedCards: (version, max) => Promise.resolve(Array.from(cards.values())
+      .filter(card => card.schemaVersion !== undefined && card.schemaVersion < version)
+      .slice(0, max)
+      .map(copy)),
+
+    subscribeToDue: (date, onChange) => listenToCards(() => due(date), onChange),
+
+    fetchAllCards: () => Promise.resolve(Array.from(cards.values()).map(copy)),
+
+    newCardId: () => newId('card'),
+
+    createCard: (id, card: NewCard) => write(() => {
+      cards.set(id, { ...copy(withSortKeys(card)), id });
+    }),
+
+    createCards: (newCards) => {
+      const ids = newCards.map(card => card.id || newId('card'));
+      return { ids, write: write(() => newCards.forEach((card, index) => cards.set(ids[index], { ...copy(withSortKeys(card)), id: ids[index] }))) };
+    },
+
+    updateCard: (id, update) => write(() => applyUpdate(existing(id), update)),
+
+    commitChange: (id, update, entry) => {
+      let stored: AuditEntry = { id: '', ...entry };
+      const result = write(() => {
+        const card = existing(id);
+        applyUpdate(card, update);
+        Object.assign(card, { updatedAt: entry.at, updatedBy: entry.by, revision: (card.revision || 0) + 1 });
+        stored = appendEntry(entry);
+      });
+      return { entry: stored, write: result };
+    },
+
+    purgeCard: (id, entry) => write(() => {
+      existing(id);
+      cards.delete(id);
+      appendEntry(entry);
+    }),
+
+    addToList: (id, field, item, derived) => updateList(id, field, items => (items.some(existingItem => sameItem(existingItem, item)) ? items : [...items, copy(item)]), derived),
+
+    removeFromList: (id, field, item, derived) => updateList(id, field, items => items.filter(existingItem => !sameItem(existingItem, item)), derived),
+
+    replaceInList: (id, field, item, replacement, derived) => updateList(id, field, items => [...items.filter(existingItem => !sameItem(existingItem, item)), copy(replacement)], derived),
+
+    subscribeToCardHistory: (id, onChange) => listenToLog(() => newestFirst(log.filter(entry => entry.cardId === id)), onChange),
+
+    subscribeToAuditLog: (onChange) => listenToLog(() => newestFirst(log).slice(0, AUDIT_LOG_LIMIT), onChange),
+
+    cards: () => Array.from(cards.values()).map(copy),
+
+    auditLog: () => newestFirst(log),
+  };
+};
@@ -0,0 +1,102 @@
+// Upgrades card documents written by older versions of the app.
+//
+// Version 1 (no schemaVersion field): single phoneNumber, email and free-text address.
+// Version 2: typed phone and email lists, job title, social profiles and a structured address, with
+// the single values kept as derived primaries.
+// Version 3: companyName, contactPerson and timestamp are always stored, blank or not. The list is read
+// in ranges ordered by them, and Firestore leaves cards without the field out of those.
+// Version 4: companyNameSort and contactPersonSort, the folded names the name sorts read, and
+// nextDueDate, the earliest open follow-up, which the due list queries.
+//
+// Cards are upgraded in memory as they are read, so the UI only ever sees the current schema. Editors
+// also write the upgrade back (see upgradeStoredCards) so exports and other clients get it too. The
+// cards a name sort can't see yet are found by upgradeVault instead.
+//
+// The version 4 fields are derived from others, so a card whose copies have fallen behind (written
+// by an older client, say) counts as outdated too and is put right the same way.
+
+import { nextDueDate } from './activity';
+import { CardRepository, CardUpdate, DELETE_FIELD, sortKey } from './cardRepository';
+import { withContactLists } from './contactFields';
+import { CompanyData } from './types';
+
+export const CARD_SCHEMA_VERSION = 4;
+
+// Cards read and upgraded at a time by upgradeVault
+const UPGRADE_BATCH = 100;
+
+type ListFields = Pick<CompanyData, 'companyName' | 'contactPerson' | 'timestamp'>;
+const LIST_FIELDS: (keyof ListFields)[] = ['companyName', 'contactPerson', 'timestamp'];
+type SortFields = Required<Pick<CompanyData, 'companyNameSort' | 'contactPersonSort'>>;
+
+// The fields the list is ordered by, for cards written from imports and the API where they can be missing
+export const withListFields = <T extends Partial<ListFields>>(card: T): T & ListFields & SortFields => ({
+  ...card,
+  companyName: card.companyName || '',
+  contactPerson: card.contactPerson || '',
+  companyNameSort: sortKey(card.companyName),
+  contactPersonSort: sortKey(card.contactPerson),
+  timestamp: card.timestamp || 0,
+});
+
+type DerivedFields = Pick<CompanyData, 'companyNameSort' | 'contactPersonSort' | 'nextDueDate'>;
+const DERIVED_FIELDS: (keyof DerivedFields)[] = ['companyNameSort', 'contactPersonSort', 'nextDueDate'];
+
+const derivedFields = (card: CompanyData): DerivedFields => ({
+  companyNameSort: sortKey(card.companyName),
+  contactPersonSort: sortKey(card.contactPerson),
+  nextDueDate: nextDueDate(card.reminders),
+});
+
+const staleFields = (card: CompanyData): (keyof DerivedFields)[] => {
+  const derived = derivedFields(card);
+  return DERIVED_FIELDS.filter(field => card[field] !== derived[field]);
+};
+
+export const needsMigration = (card: CompanyData): boolean =>
+  (card.schemaVersion || 1) < CARD_SCHEMA_VERSION || staleFields(card).length > 0;
+
+// The single values are left exactly as stored: they become the first phone and email and the
+// parsed address, and still match those lists, so nothing the user saw changes
+export const migrateCard = (card: CompanyData): CompanyData => {
+  if (!needsMigration(card)) return card;
+  const contactLists = (card.schemaVersion || 1) < 2 ? { ...withContactLists(card), jobTitle: card.jobTitle || '' } : card;
+  const migrated: CompanyData = { ...withListFields(contactLists), ...derivedFields(contactLists), schemaVersion: CARD_SCHEMA_VERSION };
+  // Firestore rejects undefined, and migrated cards are copied to other vaults as they are
+  if (migrated.nextDueDate === undefined) delete migrated.nextDueDate;
+  return migrated;
+};
+
+// Only the fields the migration adds are written, so it can't overwrite a concurrent edit
+const migrationUpdate = (card: CompanyData): CardUpdate => {
+  const migrated = migrateCard(card);
+  const update: CardUpdate = { schemaVersion: CARD_SCHEMA_VERSION };
+  LIST_FIELDS.forEach(field => {
+    if (card[field] === undefined) Object.assign(update, { [field]: migrated[field] });
+  });
+  if ((card.schemaVersion || 1) < 2) {
+    Object.assign(update, { jobTitle: migrated.jobTitle, phones: migrated.phones, emails: migrated.emails, socialProfiles: migrated.socialProfiles });
+    if (migrated.postalAddress) update.postalAddress = migrated.postalAddress;
+  }
+  staleFields(card).forEach(field => { update[field] = migrated[field] ?? DELETE_FIELD; });
+  return update;
+};
+
+// Writes the upgrade for every outdated card in the vault; returns how many were upgraded
+export const upgradeStoredCards = async (repository: CardRepository, cards: CompanyData[]): Promise<number> => {
+  const outdated = cards.filter(needsMigration);
+  await Promise.all(outdated.map(card => repository.updateCard(card.id, migrationUpdate(card))));
+  return outdated.length;
+};
+
+// Upgrades every card stored at an older version, a batch at a time; returns how many were upgraded.
+// Cards with no schemaVersion can't be queried for, so they are left to be upgraded as the list
+// reads them in date order.
+export const upgradeVault = async (repository: CardRepository): Promise<number> => {
+  let upgraded = 0;
+  for (;;) {
+    const cards = await repository.findOutdatedCards(CARD_SCHEMA_VERSION, UPGRADE_BATCH);
+    if (cards.length === 0) return upgraded;
+    upgraded += await upgradeStoredCards(repository, cards);
+  }
+};
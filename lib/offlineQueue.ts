@@ -0,0 +1,70 @@
+// IndexedDB storage for the extraction queue, so scans captured without a connection survive a
+// reload and are picked up again once the device is back online. Devices are shared, so each scan
+// records who captured it and only comes back for that user; signing out clears the queue.
+
+import { CardPhoto, ExtractionResult } from './types';
+
+const DB_NAME = 'cardvault';
+const DB_VERSION = 1;
+const STORE = 'extractionQueue';
+
+// A queue entry as stored on the device; the preview URLs are recreated from the images on load
+export interface StoredQueueItem {
+  id: string;
+  fileName: string;
+  image: Blob;
+  mimeType: string;
+  back?: CardPhoto;
+  status: string;
+  result?: ExtractionResult;
+  error?: string;
+  autoSave: boolean;
+  // Scans stored before this was recorded have no uid, and are never restored
+  uid?: string;
+  vaultId?: string;
+  cardId?: string;
+  createdAt: number;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        if (!request.result.objectStoreNames.contains(STORE)) {
+          request.result.createObjectStore(STORE, { keyPath: 'id' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const run = async <T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const request = action(db.transaction(STORE, mode).objectStore(STORE));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export const isOfflineQueueAvailable = (): boolean => typeof indexedDB !== 'undefined';
+
+export const loadQueuedItems = async (uid: string): Promise<StoredQueueItem[]> => {
+  const items = await run<StoredQueueItem[]>('readonly', store => store.getAll());
+  return items.filter(item => item.uid === uid).sort((a, b) => a.createdAt - b.createdAt);
+};
+
+export const putQueuedItem = (item: StoredQueueItem) => run('readwrite', store => store.put(item));
+
+export const deleteQueuedItem = (id: string) => run('readwrite', store => store.delete(id));
+
+export const clearQueuedItems = () => run('readwrite', store => store.clear());
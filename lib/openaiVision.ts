@@ -0,0 +1,77 @@
+// Server-side extraction through any OpenAI-compatible chat completions API that accepts images
+// (OpenAI, Azure OpenAI, OpenRouter, a local vLLM or Ollama server). Never import this from client
+// components: it reads the API key from the server environment.
+
+import { ExtractionError, Extractor, EXTRACTOR_LABELS, extractionPrompt, ParsedExtraction, parseExtractedData } from './extraction';
+import { EncodedImage } from './types';
+
+const DEFAULT_BASE_URL = 'https://api.openai.com/v1';
+const DEFAULT_MODEL = 'gpt-4o-mini';
+
+export interface OpenAiVisionOptions {
+  apiKey?: string;
+  baseUrl?: string;
+  model?: string;
+}
+
+export const buildOpenAiPayload = (base64Data: string, mimeType: string, model: string, back?: EncodedImage) => ({
+  model,
+  messages: [
+    {
+      role: 'user',
+      content: [
+        { type: 'text', text: `${extractionPrompt(!!back)}\nRespond with the JSON object only.` },
+        { type: 'image_url', image_url: { url: `data:${mimeType};base64,${base64Data}` } },
+        ...(back ? [{ type: 'image_url', image_url: { url: `data:${back.mimeType};base64,${back.image}` } }] : [])
+      ]
+    }
+  ],
+  response_format: { type: 'json_object' },
+  temperature: 0
+});
+
+export const extractWithOpenAi = async (
+  base64Data: string,
+  mimeType: string,
+  options: OpenAiVisionOptions = {},
+  back?: EncodedImage
+): Promise<ParsedExtraction> => {
+  const apiKey = options.apiKey ?? process.env.OPENAI_API_KEY;
+  if (!apiKey) {
+    throw new ExtractionError('OpenAI-compatible API key not configured. Please set OPENAI_API_KEY in the server environment.');
+  }
+
+  const baseUrl = (options.baseUrl ?? process.env.OPENAI_API_BASE_URL ?? DEFAULT_BASE_URL).replace(/\/+$/, '');
+  const model = options.model ?? process.env.OPENAI_MODEL ?? DEFAULT_MODEL;
+
+  const response = await fetch(`${baseUrl}/chat/completions`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      Authorization: `Bearer ${apiKey}`
+    },
+    body: JSON.stringify(buildOpenAiPayload(base64Data, mimeType, model, back))
+  });
+
+  if (!response.ok) {
+    const errorBody = await response.text();
+    console.error("OpenAI-compatible API request failed:", response.status, response.statusText, errorBody);
+    throw new ExtractionError(`Error from OpenAI-compatible API: ${response.status} ${response.statusText}.`, 502);
+  }
+
+  const result = await response.json();
+  const jsonString = result?.choices?.[0]?.message?.content;
+  if (typeof jsonString !== 'string') {
+    console.error("OpenAI-compatible API response structure unexpected or empty choices:", result);
+    throw new ExtractionError('Could not extract information. The API response was unexpected or empty.', 502);
+  }
+
+  return parseExtractedData(jsonString);
+};
+
+export const openAiExtractor: Extractor = {
+  id: 'openai',
+  label: EXTRACTOR_LABELS.openai,
+  isConfigured: () => !!process.env.OPENAI_API_KEY,
+  extract: (base64Data, mimeType, back) => extractWithOpenAi(base64Data, mimeType, {}, back),
+};
@@ -0,0 +1,93 @@
+// Requests to addresses that users choose: company websites from cards (lib/companySite.ts) and
+// webhook URLs typed by vault owners (lib/webhooks.ts). Hosts that resolve to private, loopback or
+// link-local addresses are refused, so neither can be pointed at the server's own network or a cloud
+// metadata service, and redirects are followed by hand so every hop is checked. Server only.
+
+import { lookup } from 'dns/promises';
+import { isIP } from 'net';
+
+export type BlockedReason = 'protocol' | 'unresolved' | 'private';
+
+export class BlockedUrlError extends Error {
+  reason: BlockedReason;
+  hostname: string;
+
+  constructor(reason: BlockedReason, hostname: string) {
+    super(
+      reason === 'protocol' ? 'Only http and https addresses can be requested.'
+        : reason === 'unresolved' ? `Could not find ${hostname}.`
+          : `${hostname} is not a public address.`
+    );
+    this.name = 'BlockedUrlError';
+    this.reason = reason;
+    this.hostname = hostname;
+  }
+}
+
+export interface PublicFetchOptions {
+  fetch?: typeof fetch;
+  // For development and tests against a local server
+  allowPrivateHosts?: boolean;
+  // Redirects followed before the redirect response itself is returned
+  maxRedirects?: number;
+}
+
+// The opt-out for local servers is read from the named variable, and never applies in production
+export const allowPrivateHostsFromEnv = (variable: string): boolean =>
+  process.env.NODE_ENV !== 'production' && process.env[variable] === 'true';
+
+const IPV4_PRIVATE_RANGES: [number, number][] = [
+  [0x00000000, 8], // "this" network
+  [0x0a000000, 8], // 10.0.0.0/8
+  [0x64400000, 10], // carrier-grade NAT
+  [0x7f000000, 8], // loopback
+  [0xa9fe0000, 16], // link-local, including cloud metadata services
+  [0xac100000, 12], // 172.16.0.0/12
+  [0xc0a80000, 16], // 192.168.0.0/16
+  [0xe0000000, 3], // multicast and reserved
+];
+
+const isPrivateIpv4 = (address: string): boolean => {
+  const value = address.split('.').reduce((total, part) => total * 256 + Number(part), 0);
+  return IPV4_PRIVATE_RANGES.some(([base, bits]) => Math.floor(value / 2 ** (32 - bits)) === Math.floor(base / 2 ** (32 - bits)));
+};
+
+export const isPrivateAddress = (address: string): boolean => {
+  if (isIP(address) === 4) return isPrivateIpv4(address);
+  const lower = address.toLowerCase();
+  const mapped = lower.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/);
+  if (mapped) return isPrivateIpv4(mapped[1]);
+  // Loopback, unspecified, unique local and link-local
+  return lower === '::1' || lower === '::' || /^f[cd]/.test(lower) || /^fe[89ab]/.test(lower);
+};
+
+// Throws a BlockedUrlError unless the URL is http(s) and every address its host resolves to is public
+export const checkPublicUrl = async (url: URL, allowPrivateHosts = false): Promise<void> => {
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') throw new BlockedUrlError('protocol', url.hostname);
+  if (allowPrivateHosts) return;
+  const host = url.hostname.replace(/^\[|\]$/g, '');
+  let addresses: string[];
+  try {
+    addresses = isIP(host) ? [host] : (await lookup(host, { all: true })).map(entry => entry.address);
+  } catch {
+    throw new BlockedUrlError('unresolved', url.hostname);
+  }
+  if (addresses.some(isPrivateAddress)) throw new BlockedUrlError('private', url.hostname);
+};
+
+// Sends the request once each hop's host has been checked. A redirect beyond `maxRedirects` is
+// returned as it is, for the caller to report; `url` is the address that answered.
+export const fetchPublic = async (url: string, init: RequestInit, options: PublicFetchOptions = {}): Promise<{ response: Response; url: string }> => {
+  const send = options.fetch || fetch;
+  const maxRedirects = options.maxRedirects ?? 0;
+  let current = new URL(url);
+  for (let redirects = 0; ; redirects++) {
+    await checkPublicUrl(current, options.allowPrivateHosts);
+    const response = await send(current.href, { ...init, redirect: 'manual' });
+    const location = response.headers.get('location');
+    if (response.status < 300 || response.status >= 400 || !location || redirects >= maxRedirects) {
+      return { response, url: current.href };
+    }
+    current = new URL(location, current);
+  }
+};
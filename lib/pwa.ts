@@ -0,0 +1,42 @@
+// Service worker registration and photos received through the Web Share Target (see public/sw.js)
+
+import { QueuedImage } from './useExtractionQueue';
+
+// Cache the service worker stores shared photos in; keep in sync with public/sw.js
+const SHARE_CACHE = 'cardvault-share';
+
+// Query parameter the service worker adds when it opens the app with shared photos
+export const SHARED_PARAM = 'shared';
+
+// Drops a one-off parameter (an invite link, shared photos) from the address bar, keeping the rest
+export const removeUrlParam = (name: string) => {
+  const params = new URLSearchParams(window.location.search);
+  params.delete(name);
+  const query = params.toString();
+  window.history.replaceState(window.history.state, '', `${window.location.pathname}${query ? `?${query}` : ''}`);
+};
+
+// Only in production builds: a service worker caching dev bundles would fight with hot reloading
+export const registerServiceWorker = () => {
+  if (process.env.NODE_ENV !== 'production' || !('serviceWorker' in navigator)) return;
+  navigator.serviceWorker.register('/sw.js').catch(error => {
+    console.error("Service worker registration failed:", error);
+  });
+};
+
+// Reads and removes every shared photo waiting in the cache
+export const takeSharedImages = async (): Promise<QueuedImage[]> => {
+  if (typeof caches === 'undefined') return [];
+  const cache = await caches.open(SHARE_CACHE);
+  const requests = await cache.keys();
+  const images = await Promise.all(requests.map(async request => {
+    const response = await cache.match(request);
+    await cache.delete(request);
+    if (!response) return null;
+    const image = await response.blob();
+    const mimeType = response.headers.get('Content-Type') || image.type || 'image/jpeg';
+    const fileName = decodeURIComponent(response.headers.get('X-File-Name') || 'shared.jpg');
+    return { image, fileName, mimeType };
+  }));
+  return images.filter((image): image is QueuedImage => image !== null);
+};
@@ -0,0 +1,87 @@
+// Writing systems on cards: detecting the script of a piece of text, which scripts run right to
+// left, and display names for the language and script the extractor reports
+
+import { ExtractedCardData } from './types';
+
+// ISO 15924 codes for the scripts we recognise. "Jpan" is Japanese (kanji with kana), "Hani" Chinese.
+export type ScriptCode = 'Latn' | 'Cyrl' | 'Grek' | 'Arab' | 'Hebr' | 'Hani' | 'Jpan' | 'Kore' | 'Thai' | 'Deva';
+
+export const SCRIPT_LABELS: Record<ScriptCode, string> = {
+  Latn: 'Latin',
+  Cyrl: 'Cyrillic',
+  Grek: 'Greek',
+  Arab: 'Arabic',
+  Hebr: 'Hebrew',
+  Hani: 'Chinese characters',
+  Jpan: 'Japanese',
+  Kore: 'Korean',
+  Thai: 'Thai',
+  Deva: 'Devanagari',
+};
+
+const RTL_SCRIPTS: string[] = ['Arab', 'Hebr'];
+
+// Character ranges per script. Kana and Hangul are checked separately, since Japanese and Korean
+// text mixes them with Chinese characters.
+const SCRIPT_RANGES: [Exclude<ScriptCode, 'Jpan' | 'Kore'>, RegExp][] = [
+  ['Latn', /[A-Za-z\u00C0-\u024F\u1E00-\u1EFF]/g],
+  ['Cyrl', /[\u0400-\u052F]/g],
+  ['Grek', /[\u0370-\u03FF\u1F00-\u1FFF]/g],
+  ['Arab', /[\u0600-\u06FF\u0750-\u077F\u08A0-\u08FF\uFB50-\uFDFF\uFE70-\uFEFC]/g],
+  ['Hebr', /[\u0590-\u05FF\uFB1D-\uFB4F]/g],
+  ['Hani', /[\u3400-\u4DBF\u4E00-\u9FFF\uF900-\uFAFF]/g],
+  ['Thai', /[\u0E00-\u0E7F]/g],
+  ['Deva', /[\u0900-\u097F]/g],
+];
+const KANA = /[\u3040-\u30FF\u31F0-\u31FF\uFF66-\uFF9F]/g;
+const HANGUL = /[\u1100-\u11FF\u3130-\u318F\uAC00-\uD7AF]/g;
+
+const count = (text: string, pattern: RegExp): number => (text.match(pattern) || []).length;
+
+// The script most of the letters are in, or undefined when there are no letters at all
+export const detectScript = (text: string): ScriptCode | undefined => {
+  if (!text) return undefined;
+  const counts = new Map<ScriptCode, number>();
+  SCRIPT_RANGES.forEach(([script, pattern]) => counts.set(script, count(text, pattern)));
+  const kana = count(text, KANA);
+  const hangul = count(text, HANGUL);
+  if (kana > 0) counts.set('Jpan', counts.get('Hani') + kana);
+  if (hangul > 0) counts.set('Kore', counts.get('Hani') + hangul);
+  if (kana > 0 || hangul > 0) counts.delete('Hani');
+
+  let best: ScriptCode | undefined;
+  counts.forEach((value, script) => {
+    if (value > 0 && (!best || value > counts.get(best))) best = script;
+  });
+  return best;
+};
+
+export const isRtlScript = (script?: string): boolean => !!script && RTL_SCRIPTS.includes(script);
+
+export const isLatinText = (text?: string): boolean => {
+  const script = detectScript(text || '');
+  return !script || script === 'Latn';
+};
+
+// Whether the card needs the Latin-script name fields: its names are in another script, or it
+// already has Latin forms
+export const needsLatinNames = (data: ExtractedCardData): boolean =>
+  !!(data.companyNameLatin || data.contactPersonLatin) ||
+  (!!data.script && data.script !== 'Latn') ||
+  !isLatinText(data.companyName) ||
+  !isLatinText(data.contactPerson);
+
+// The script of the card's names, for cards where the extractor didn't report one
+export const cardScript = (data: ExtractedCardData): ScriptCode | undefined =>
+  detectScript([data.companyName, data.contactPerson, data.jobTitle, data.address].filter(Boolean).join(' '));
+
+// "Japanese", "Arabic" and so on in the user's language; the code itself where that isn't available
+export const languageName = (code: string): string => {
+  try {
+    return new Intl.DisplayNames(undefined, { type: 'language' }).of(code) || code;
+  } catch {
+    return code;
+  }
+};
+
+export const scriptName = (code: string): string => SCRIPT_LABELS[code as ScriptCode] || code;
@@ -0,0 +1,129 @@
+// Search, filter and sort for the company list, plus conversion to and from the URL query string
+
+import { CompanyData, EXTRACTED_FIELDS } from './types';
+import { hasDueReminder, hasTag, localDateKey } from './activity';
+import { foldText, similarity } from './text';
+
+export type SortKey = 'date' | 'companyName' | 'contactPerson';
+export type SortDirection = 'asc' | 'desc';
+
+export interface ListView {
+  q: string;
+  uploader: string;
+  from: string; // yyyy-mm-dd, inclusive
+  to: string;   // yyyy-mm-dd, inclusive
+  tag: string;
+  due: '' | 'today'; // 'today' keeps only cards with a follow-up due today or overdue
+  sort: SortKey;
+  dir: SortDirection;
+}
+
+export const DEFAULT_LIST_VIEW: ListView = {
+  q: '',
+  uploader: '',
+  from: '',
+  to: '',
+  tag: '',
+  due: '',
+  sort: 'date',
+  dir: 'desc',
+};
+
+// True when the view leaves out some cards
+export const isFiltered = (view: ListView): boolean =>
+  !!(view.q.trim() || view.uploader || view.from || view.to || view.tag || view.due);
+
+const SORT_KEYS: SortKey[] = ['date', 'companyName', 'contactPerson'];
+
+// Words shorter than this only match as substrings; longer ones also tolerate typos
+const FUZZY_MIN_LENGTH = 4;
+const FUZZY_THRESHOLD = 0.75;
+
+export const parseListView = (params: URLSearchParams): ListView => {
+  const sort = params.get('sort') as SortKey;
+  const dir = params.get('dir');
+  return {
+    q: params.get('q') || '',
+    uploader: params.get('uploader') || '',
+    from: params.get('from') || '',
+    to: params.get('to') || '',
+    tag: params.get('tag') || '',
+    due: params.get('due') === 'today' ? 'today' : '',
+    sort: SORT_KEYS.includes(sort) ? sort : DEFAULT_LIST_VIEW.sort,
+    dir: dir === 'asc' || dir === 'desc' ? dir : DEFAULT_LIST_VIEW.dir,
+  };
+};
+
+// Only non-default values are written so shared links stay short. Parameters that don't belong
+// to the list view (such as an invitation id) are kept.
+export const listViewToParams = (view: ListView, current = new URLSearchParams()): URLSearchParams => {
+  const params = new URLSearchParams(current);
+  (Object.keys(DEFAULT_LIST_VIEW) as (keyof ListView)[]).forEach(key => {
+    if (view[key] && view[key] !== DEFAULT_LIST_VIEW[key]) {
+      params.set(key, view[key]);
+    } else {
+      params.delete(key);
+    }
+  });
+  return params;
+};
+
+const searchableText = (company: CompanyData): string =>
+  foldText([
+    ...EXTRACTED_FIELDS.map(field => company[field]),
+    ...(company.phones || []).map(phone => phone.value),
+    ...(company.emails || []).map(email => email.value),
+    ...(company.socialProfiles || []).map(profile => profile.value),
+    ...(company.tags || []),
+    company.uploadedBy,
+  ].filter(Boolean).join(' '));
+
+const tokenMatches = (token: string, text: string, words: string[]): boolean => {
+  if (text.includes(token)) return true;
+  if (token.length < FUZZY_MIN_LENGTH) return false;
+  return words.some(word => similarity(token, word.slice(0, token.length + 1)) >= FUZZY_THRESHOLD);
+};
+
+// Every search word has to match some field, either as a substring or a close misspelling
+export const matchesSearch = (company: CompanyData, query: string): boolean => {
+  const tokens = foldText(query).split(/\s+/).filter(Boolean);
+  if (tokens.length === 0) return true;
+  const text = searchableText(company);
+  const words = text.split(/[\s,.;:/@()-]+/).filter(Boolean);
+  return tokens.every(token => tokenMatches(token, text, words));
+};
+
+const dayStart = (date: string) => new Date(`${date}T00:00:00`).getTime();
+const dayEnd = (date: string) => new Date(`${date}T23:59:59.999`).getTime();
+
+// The search and filters without the sort, for cards that are already in order
+export const filterCards = (companies: CompanyData[], view: ListView, currentUserId?: string | null): CompanyData[] => {
+  const uploader = view.uploader === 'me' ? currentUserId : view.uploader;
+  const from = view.from ? dayStart(view.from) : null;
+  const to = view.to ? dayEnd(view.to) : null;
+  const today = localDateKey();
+
+  return companies.filter(company =>
+    (!uploader || company.uploadedBy === uploader) &&
+    (from === null || (company.timestamp || 0) >= from) &&
+    (to === null || (company.timestamp || 0) <= to) &&
+    (!view.tag || hasTag(company, view.tag)) &&
+    (!view.due || hasDueReminder(company, today)) &&
+    matchesSearch(company, view.q)
+  );
+};
+
+// Filters and sorts a whole set of cards. The list itself is read from the repository already in
+// order (see lib/useCards.ts) and only filtered.
+export const applyListView = (companies: CompanyData[], view: ListView, currentUserId?: string | null): CompanyData[] => {
+  const filtered = filterCards(companies, view, currentUserId);
+  const direction = view.dir === 'asc' ? 1 : -1;
+  return filtered.sort((a, b) => {
+    if (view.sort === 'date') return direction * ((a.timestamp || 0) - (b.timestamp || 0));
+    const left = a[view.sort];
+    const right = b[view.sort];
+    // Blank values go last regardless of direction
+    if (!left || !right) return Number(!left) - Number(!right);
+    return direction * left.localeCompare(right, undefined, { sensitivity: 'base' });
+  });
+};
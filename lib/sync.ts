@@ -0,0 +1,44 @@
+// Offline writes and the conflict policy for cards edited on two devices.
+//
+// Policy: edits write only the fields that changed, so edits to different fields of the same card
+// on two devices both survive. When both devices changed the same field, the edit that reaches the
+// server last wins. Deleting only moves a card to the trash (see lib/history.ts), so an edit to a card
+// deleted elsewhere lands on the trashed card; once the card is purged, edits to it are dropped.
+// Every edit bumps the card's `revision`, which lets a device notice that someone else edited the
+// card between its last sync and its own edit, and tell the user which fields may have been replaced.
+
+import { CARD_FIELD_LABELS, CARD_FIELDS, CardField, CompanyData, ExtractedCardData } from './types';
+
+// Firestore keeps writes made offline in its local cache and sends them on reconnect, but the
+// promise only settles once the server has them. Offline, report failures later instead of waiting.
+export const settleWrite = (write: Promise<void>, onLateError: (error: Error) => void): Promise<void> => {
+  if (typeof navigator === 'undefined' || navigator.onLine) return write;
+  write.catch(onLateError);
+  return Promise.resolve();
+};
+
+// An edit made on this device that the server hasn't confirmed yet
+export interface PendingEdit {
+  cardId: string;
+  baseRevision: number;
+  fields: CardField[];
+  label: string;
+}
+
+// Lists and the structured address are compared by value
+const fieldValue = (data: ExtractedCardData, field: CardField): string => {
+  const value = data[field];
+  if (!value || (Array.isArray(value) && value.length === 0)) return '';
+  return typeof value === 'string' ? value : JSON.stringify(value);
+};
+
+export const changedFields = (before: ExtractedCardData, after: ExtractedCardData): CardField[] =>
+  CARD_FIELDS.filter(field => fieldValue(before, field) !== fieldValue(after, field));
+
+// After our edit syncs, the revision is one more than the one it was based on unless another
+// device's edit landed in between
+export const hasConcurrentEdit = (edit: PendingEdit, synced: CompanyData): boolean =>
+  (synced.revision || 0) > edit.baseRevision + 1;
+
+export const conflictMessage = (edit: PendingEdit): string =>
+  `"${edit.label}" was also edited on another device. Where both devices changed the same field, the edit that synced last was kept — check ${edit.fields.length === 1 ? 'this field' : 'these fields'}: ${edit.fields.map(field => CARD_FIELD_LABELS[field]).join(', ')}.`;
@@ -0,0 +1,57 @@
+// Offline OCR provider: runs Tesseract in a web worker in the browser and parses the recognised
+// lines with lib/cardText.ts; for two-sided cards the lines of both sides are parsed together. The engine and English language data are downloaded on first use
+// and cached by the browser, so later scans work without a connection or any API key.
+
+import type { Worker as OcrWorker } from 'tesseract.js';
+import { parseCardText, OcrLine } from './cardText';
+import { EXTRACTOR_LABELS, ExtractionError, Extractor } from './extraction';
+import { EncodedImage } from './types';
+
+let workerPromise: Promise<OcrWorker> | null = null;
+
+// One worker for the whole session; loading the engine is far slower than recognising a card
+const getWorker = (): Promise<OcrWorker> => {
+  if (!workerPromise) {
+    workerPromise = import('tesseract.js')
+      .then(({ createWorker, OEM }) => createWorker('eng', OEM.LSTM_ONLY))
+      .catch(error => {
+        workerPromise = null;
+        throw error;
+      });
+  }
+  return workerPromise;
+};
+
+const recognizeLines = async (worker: OcrWorker, base64Data: string, mimeType: string): Promise<OcrLine[]> => {
+  const { data } = await worker.recognize(`data:${mimeType};base64,${base64Data}`, {}, { blocks: true });
+  const lines: OcrLine[] = [];
+  (data.blocks || []).forEach(block => block.paragraphs.forEach(paragraph => paragraph.lines.forEach(line => {
+    lines.push({ text: line.text.replace(/\s+/g, ' ').trim(), confidence: line.confidence });
+  })));
+  return lines;
+};
+
+const extractWithTesseract = async (base64Data: string, mimeType: string, back?: EncodedImage) => {
+  let worker: OcrWorker;
+  try {
+    worker = await getWorker();
+  } catch (error) {
+    console.error("Error loading the OCR engine:", error);
+    throw new ExtractionError('The offline OCR engine could not be loaded. Connect once to download it, then try again.', 503);
+  }
+
+  // The front is read first so its lines win where cardText.ts takes the first match
+  const lines = await recognizeLines(worker, base64Data, mimeType);
+  if (back) lines.push(...await recognizeLines(worker, back.image, back.mimeType));
+  if (lines.length === 0) {
+    throw new ExtractionError('No text was found on the card.', 422);
+  }
+  return parseCardText(lines);
+};
+
+export const tesseractExtractor: Extractor = {
+  id: 'tesseract',
+  label: EXTRACTOR_LABELS.tesseract,
+  isConfigured: () => typeof window !== 'undefined' && typeof Worker !== 'undefined',
+  extract: extractWithTesseract,
+};
@@ -0,0 +1,35 @@
+// Small text helpers shared by duplicate detection and search
+
+// Lower-cases and strips accents so "Café" and "cafe" compare equal. Compatibility forms are folded too
+// (full-width "ＡＢＣ" and half-width katakana), as are Arabic vowel marks and the tatweel.
+export const foldText = (value: string): string =>
+  value.normalize('NFKD').replace(/[\u0300-\u036F\u064B-\u065F\u0670\u0640]/g, '').toLowerCase().trim();
+
+// Two rows reused for the whole table, since duplicate checks call this for every pair of names
+export const levenshtein = (a: string, b: string): number => {
+  if (a === b) return 0;
+  if (!a.length) return b.length;
+  if (!b.length) return a.length;
+
+  let previous = new Uint16Array(b.length + 1);
+  let current = new Uint16Array(b.length + 1);
+  for (let j = 0; j <= b.length; j++) previous[j] = j;
+  for (let i = 1; i <= a.length; i++) {
+    current[0] = i;
+    const char = a.charCodeAt(i - 1);
+    for (let j = 1; j <= b.length; j++) {
+      const substitution = previous[j - 1] + (char === b.charCodeAt(j - 1) ? 0 : 1);
+      const edit = Math.min(previous[j], current[j - 1]) + 1;
+      current[j] = substitution < edit ? substitution : edit;
+    }
+    [previous, current] = [current, previous];
+  }
+  return previous[b.length];
+};
+
+// 1 for identical strings, 0 for completely different ones
+export const similarity = (a: string, b: string): number => {
+  if (!a && !b) return 1;
+  const longest = Math.max(a.length, b.length);
+  return 1 - levenshtein(a, b) / longest;
+};
@@ -0,0 +1,294 @@
+// Shared data types used by both the client page and the API routes
+
+export interface CompanyData {
+  id: string;
+  // Names as printed on the card, in its own script
+  companyName?: string;
+  contactPerson?: string;
+  // Romanised or English forms of the names, for cards not written in Latin script
+  companyNameLatin?: string;
+  contactPersonLatin?: string;
+  jobTitle?: string;
+  // Primary phone, email and one-line address. Derived from the lists below on every save
+  // (see lib/contactFields.ts) so search, duplicate matching and flags can keep using single values.
+  phoneNumber?: string;
+  email?: string;
+  website?: string;
+  address?: string;
+  phones?: ContactPhone[];
+  emails?: ContactEmail[];
+  socialProfiles?: SocialProfile[];
+  postalAddress?: PostalAddress;
+  // Main language (ISO 639-1, e.g. "ja") and script (ISO 15924, e.g. "Jpan") of the card; see lib/scripts.ts
+  language?: string;
+  script?: string;
+  // Documents written before the typed contact lists existed have no version; see lib/migrations.ts
+  schemaVersion?: number;
+  timestamp?: number;
+  // The names folded for the name sorts (see lib/cardRepository.ts), kept in step by every write
+  companyNameSort?: string;
+  contactPersonSort?: string;
+  uploadedBy?: string;
+  extraction?: ExtractionMeta;
+  images?: CardImages;
+  // Bumped by every edit so offline edits on two devices can be noticed; see lib/sync.ts
+  revision?: number;
+  updatedAt?: number;
+  updatedBy?: string;
+  // Follow-up details added after the card is saved. Not counted as field edits, so they don't
+  // bump the revision; see lib/activity.ts
+  tags?: string[];
+  notes?: CardNote[];
+  reminders?: Reminder[];
+  // The earliest open reminder's due date, so what's due can be queried; absent when none is open
+  nextDueDate?: string;
+  // Set while the card is in the trash; it is purged once the retention period has passed
+  deletedAt?: number;
+  deletedBy?: string;
+  // Company details accepted from the card's website, and what the last lookup suggested; see lib/enrichment.ts
+  logoUrl?: string;
+  companyDescription?: string;
+  enrichment?: CardEnrichment;
+  // Links read from QR codes and barcodes on the card; see lib/cardCodes.ts
+  codeUrls?: string[];
+}
+
+// What a company's website says about it
+export interface CompanyProfile {
+  logoUrl?: string;
+  description?: string;
+  socialProfiles?: SocialProfile[];
+}
+
+export interface CardEnrichment {
+  // The website host that was looked up, so a changed website is looked up again
+  domain: string;
+  fetchedAt: number;
+  status: 'found' | 'failed';
+  error?: string;
+  // The details found that haven't been accepted or dismissed yet
+  suggestions: CompanyProfile;
+}
+
+export interface CardNote {
+  id: string;
+  text: string;
+  createdAt: number;
+  createdBy: string | null;
+}
+
+export interface Reminder {
+  id: string;
+  dueDate: string; // yyyy-mm-dd, in the user's local time zone
+  note: string;
+  done: boolean;
+  createdAt: number;
+  createdBy: string | null;
+  completedAt?: number;
+}
+
+export type PhoneType = 'mobile' | 'work' | 'fax' | 'home' | 'other';
+
+export type EmailType = 'work' | 'personal' | 'other';
+
+export type SocialNetwork = 'linkedin' | 'twitter' | 'github' | 'instagram' | 'facebook' | 'other';
+
+export interface ContactPhone {
+  type: PhoneType;
+  value: string;
+}
+
+export interface ContactEmail {
+  type: EmailType;
+  value: string;
+}
+
+// `value` is a profile URL or a handle such as "@jane"
+export interface SocialProfile {
+  network: SocialNetwork;
+  value: string;
+}
+
+export interface PostalAddress {
+  street?: string;
+  city?: string;
+  postalCode?: string;
+  region?: string;
+  country?: string;
+}
+
+// A card photo kept in the blob store; `path` is the store key, `url` is where the browser can load it
+export interface CardImage {
+  path: string;
+  url: string;
+  contentType: string;
+}
+
+export type CardSide = 'front' | 'back';
+
+export type CardImages = Partial<Record<CardSide, CardImage>>;
+
+export const CARD_SIDES: CardSide[] = ['front', 'back'];
+
+// A card photo held in the browser until the card is saved
+export interface CardPhoto {
+  image: Blob;
+  mimeType: string;
+}
+
+export type CardPhotos = Partial<Record<CardSide, CardPhoto>>;
+
+// The single-value fields the extraction model is asked to fill in, each with a confidence score
+export const EXTRACTED_FIELDS = [
+  'companyName', 'companyNameLatin', 'contactPerson', 'contactPersonLatin', 'jobTitle', 'phoneNumber', 'email', 'website', 'address',
+] as const;
+
+export type ExtractedField = typeof EXTRACTED_FIELDS[number];
+
+// The multi-valued and structured fields that go with them
+export type ContactListField = 'phones' | 'emails' | 'socialProfiles' | 'postalAddress';
+
+// Card data as returned by the extraction endpoint, before it is saved
+export type ExtractedCardData = Pick<CompanyData, ExtractedField | ContactListField | 'language' | 'script' | 'codeUrls'>;
+
+// How sure the model was about a field, and the text on the card it read it from
+export interface FieldExtraction {
+  confidence: number;
+  sourceText: string;
+}
+
+export type ExtractionMeta = Partial<Record<ExtractedField, FieldExtraction>>;
+
+// Where card text is read: hosted vision models behind /api/extract, or OCR in the browser
+export type ExtractorId = 'gemini' | 'openai' | 'tesseract';
+
+export type ServerExtractorId = Exclude<ExtractorId, 'tesseract'>;
+
+// A card photo as bare base64 (no data: prefix), the way it is sent for extraction
+export interface EncodedImage {
+  image: string;
+  mimeType: string;
+}
+
+export interface ExtractRequestBody extends EncodedImage {
+  provider?: ServerExtractorId;
+  // The back of a two-sided card, read together with the front as one card
+  back?: EncodedImage;
+}
+
+export interface ExtractionResult {
+  data: ExtractedCardData;
+  extraction: ExtractionMeta;
+  // Which provider read the card, so the review can say when a fallback was used. Unset when the
+  // card's QR code or barcode held all the details and no provider was asked.
+  provider?: ExtractorId;
+  // Format of the code the contact details were read from, e.g. "qr_code"
+  codeFormat?: string;
+}
+
+export type ExtractResponseBody = ExtractionResult | { error: string };
+
+// POST /api/enrich: looks up the company behind a card's website
+export interface EnrichRequestBody {
+  website: string;
+}
+
+export type EnrichResponseBody = { domain: string; profile: CompanyProfile } | { error: string };
+
+export interface ExtractorStatus {
+  id: ExtractorId;
+  label: string;
+  configured: boolean;
+}
+
+// GET /api/extract: which server-side providers have credentials
+export interface ExtractorsResponseBody {
+  providers: ExtractorStatus[];
+}
+
+export const FIELD_LABELS: Record<ExtractedField, string> = {
+  companyName: 'Company Name',
+  companyNameLatin: 'Company Name (Latin script)',
+  contactPerson: 'Contact Person',
+  contactPersonLatin: 'Contact Person (Latin script)',
+  jobTitle: 'Job Title',
+  phoneNumber: 'Phone Number',
+  email: 'Email',
+  website: 'Website',
+  address: 'Address',
+};
+
+// Every field a person can edit on a card, single values first
+export const CARD_FIELDS: CardField[] = [...EXTRACTED_FIELDS, 'phones', 'emails', 'socialProfiles', 'postalAddress'];
+
+export type CardField = ExtractedField | ContactListField;
+
+export const CARD_FIELD_LABELS: Record<CardField, string> = {
+  ...FIELD_LABELS,
+  phones: 'Phone Numbers',
+  emails: 'Email Addresses',
+  socialProfiles: 'Social Profiles',
+  postalAddress: 'Postal Address',
+};
+
+// An extraction waiting for the user to accept or discard it
+export interface PendingReview extends ExtractionResult {
+  imageSrc: string;
+  image?: Blob;
+  mimeType?: string;
+  backImageSrc?: string;
+  back?: CardPhoto;
+  queueItemId?: string;
+}
+
+export type WorkspaceRole = 'owner' | 'editor' | 'viewer';
+
+export interface Workspace {
+  id: string;
+  name: string;
+  ownerId: string;
+  createdAt?: number;
+}
+
+// Stored at workspaces/{workspaceId}/members/{uid}
+export interface WorkspaceMember {
+  uid: string;
+  appId: string;
+  workspaceId: string;
+  workspaceName: string;
+  role: WorkspaceRole;
+  email?: string;
+  displayName?: string;
+  // The invitation used to join; the security rules check it
+  inviteId?: string;
+  joinedAt?: number;
+}
+
+// An email invitation names one address; a link invitation (email null) can be used by anyone with the link until it expires
+export interface Invitation {
+  id: string;
+  appId: string;
+  workspaceId: string;
+  workspaceName: string;
+  email: string | null;
+  role: Exclude<WorkspaceRole, 'owner'>;
+  createdBy: string;
+  createdAt: number;
+  expiresAt: number;
+}
+
+// Where the card list currently reads from and writes to: the user's private vault or a team workspace
+export interface Vault {
+  id: string;
+  name: string;
+  kind: 'personal' | 'workspace';
+  role: WorkspaceRole;
+  cardsPath: string;
+  // Append-only record of changes to the vault's cards; see lib/history.ts
+  auditLogPath: string;
+  storagePrefix: string;
+}
+
+// The signed-in user's Firebase ID token, or null before sign-in. The API routes that act for the
+// user (card reading, local image storage) check it.
+export type IdTokenSource = () => Promise<string | null>;
@@ -0,0 +1,166 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { User } from 'firebase/auth';
+import { Backend } from './backend';
+import { CardRepository, CardUpdate, DELETE_FIELD } from './cardRepository';
+import { completeReminder, createNote, createReminder, nextDueDate } from './activity';
+import { AuditAction, AuditEntry, cardLabel, FieldChange, invertChanges, undoUpdate } from './history';
+import { AUDIT_ACTION_EVENTS, vaultRef, WebhookEvent } from './integrations';
+import { notifyAfterWrite } from './integrationsClient';
+import { migrateCard } from './migrations';
+import { settleWrite } from './sync';
+import { CardNote, CompanyData, Reminder, Vault } from './types';
+import { VIEW_ONLY_MESSAGE } from './workspaces';
+
+// The open vault as CardVault's hooks (this one, useEnrichment, useTrash, useCardReview and
+// useImportExport) see it. The repository is null until the vault can be opened.
+export interface OpenVault {
+  backend: Backend | null;
+  vault: Vault | null;
+  repository: CardRepository | null;
+  user: User | null;
+  canEdit: boolean;
+  online: boolean;
+  setMessage: (message: string) => void;
+  setLoading: (loading: boolean) => void;
+}
+
+// Writes to the open vault's cards, each with its audit log entry and webhook where it has one, and the
+// last change made here, undoable while its message is showing. `cards` are the cards already in
+// memory, looked in before the repository when undoing; `onRemoved` hears of cards an undo moves
+// back to the trash.
+export const useCardChanges = (open: OpenVault, cards: CompanyData[], onRemoved: (cardId: string) => void) => {
+  const { vault, repository, canEdit, setMessage } = open;
+  const userId = open.user?.uid ?? null;
+  const [undoable, setUndoable] = useState<{ entry: AuditEntry; message: string } | null>(null);
+
+  useEffect(() => {
+    setUndoable(null);
+  }, [vault?.id]);
+
+  const notify = (write: Promise<void>, event: WebhookEvent, cardIds: string[], target = vault) => {
+    if (target) notifyAfterWrite(open.user, vaultRef(target, userId), write, event, cardIds);
+  };
+
+  // Writes a change to a card together with its audit log entry (see lib/history.ts)
+  const commit = async (
+    card: CompanyData,
+    action: AuditAction,
+    update: CardUpdate,
+    changes: FieldChange[],
+    extra: Partial<AuditEntry> = {},
+    onLateError?: (error: Error) => void
+  ): Promise<AuditEntry> => {
+    const { entry, write } = repository.commitChange(card.id, update, {
+      cardId: card.id,
+      cardLabel: cardLabel(card),
+      action,
+      changes,
+      at: Date.now(),
+      by: userId,
+      ...extra,
+    });
+    if (AUDIT_ACTION_EVENTS[action]) notify(write, AUDIT_ACTION_EVENTS[action], [card.id]);
+    await settleWrite(write, onLateError || ((error) => {
+      console.error("Error syncing card change:", error);
+      setMessage(`Your change to "${cardLabel(card)}" could not be synced: ${error.message}`);
+    }));
+    return entry;
+  };
+
+  const announce = (entry: AuditEntry, text: string) => {
+    setMessage(text);
+    setUndoable({ entry, message: text });
+  };
+
+  const undo = async (entry: AuditEntry) => {
+    if (!canEdit) {
+      setMessage(VIEW_ONLY_MESSAGE);
+      return;
+    }
+    const stored = cards.find(company => company.id === entry.cardId) || await repository?.fetchCard(entry.cardId);
+    const card = stored && migrateCard(stored);
+    const update = undoUpdate(entry, userId);
+    if (!repository || !card || !update) {
+      setMessage('This change can no longer be undone.');
+      return;
+    }
+    // Undoing a delete is a restore and the other way round; anything else is logged as an undo
+    const action: AuditAction = entry.action === 'delete' ? 'restore' : entry.action === 'restore' ? 'delete' : 'undo';
+    try {
+      const undoEntry = await commit(card, action, update, invertChanges(entry), { undoes: entry.id });
+      announce(undoEntry, action === 'restore' ? `"${cardLabel(card)}" restored.` : 'Change undone.');
+      if (action === 'delete') onRemoved(card.id);
+    } catch (error) {
+      console.error("Error undoing change:", error);
+      setMessage(`Error undoing change: ${error.message}`);
+    }
+  };
+
+  // Tags, notes and follow-ups are added and removed item by item so additions from two devices are
+  // both kept
+  const updateActivity = async (card: CompanyData, change: (vaultCards: CardRepository) => Promise<void>, webhook = false) => {
+    if (!repository || !canEdit) {
+      setMessage(VIEW_ONLY_MESSAGE);
+      return;
+    }
+    const label = card.companyName || card.contactPerson || 'Card';
+    try {
+      const write = change(repository);
+      // Tags are part of the card a CRM sees; notes and follow-ups aren't
+      if (webhook) notify(write, 'card.updated', [card.id]);
+      await settleWrite(write, (error) => {
+        console.error("Error syncing card activity:", error);
+        setMessage(`Your change to "${label}" could not be synced: ${error.message}`);
+      });
+    } catch (error) {
+      console.error("Error updating card activity:", error);
+      setMessage(`Error updating card: ${error.message}`);
+    }
+  };
+
+  // The card's nextDueDate once its reminders are `reminders`, written with the change so the due
+  // list (see CardRepository.subscribeToDue) hears of it at once
+  const dueDateUpdate = (reminders: Reminder[]): CardUpdate => ({ nextDueDate: nextDueDate(reminders) ?? DELETE_FIELD });
+
+  const toggleReminder = async (card: CompanyData, reminder: Reminder, done: boolean) => {
+    if (!repository || !canEdit) {
+      setMessage(VIEW_ONLY_MESSAGE);
+      return;
+    }
+    try {
+      const updated = completeReminder(reminder, done);
+      const reminders = (card.reminders || []).map(existing => (existing.id === reminder.id ? updated : existing));
+      await settleWrite(repository.replaceInList(card.id, 'reminders', reminder, updated, dueDateUpdate(reminders)), (error) => {
+        console.error("Error syncing follow-up:", error);
+        setMessage(`Your follow-up change could not be synced: ${error.message}`);
+      });
+    } catch (error) {
+      console.error("Error updating follow-up:", error);
+      setMessage(`Error updating follow-up: ${error.message}`);
+    }
+  };
+
+  return {
+    undoable,
+    notify,
+    commit,
+    announce,
+    undo,
+    updateActivity,
+    addTag: (card: CompanyData, tag: string) => updateActivity(card, vaultCards => vaultCards.addToList(card.id, 'tags', tag), true),
+    removeTag: (card: CompanyData, tag: string) => updateActivity(card, vaultCards => vaultCards.removeFromList(card.id, 'tags', tag), true),
+    addNote: (card: CompanyData, text: string) => updateActivity(card, vaultCards => vaultCards.addToList(card.id, 'notes', createNote(text, userId))),
+    deleteNote: (card: CompanyData, note: CardNote) => updateActivity(card, vaultCards => vaultCards.removeFromList(card.id, 'notes', note)),
+    addReminder: (card: CompanyData, dueDate: string, note: string) => {
+      const reminder = createReminder(dueDate, note, userId);
+      return updateActivity(card, vaultCards => vaultCards.addToList(card.id, 'reminders', reminder, dueDateUpdate([...(card.reminders || []), reminder])));
+    },
+    deleteReminder: (card: CompanyData, reminder: Reminder) => updateActivity(card, vaultCards =>
+      vaultCards.removeFromList(card.id, 'reminders', reminder, dueDateUpdate((card.reminders || []).filter(existing => existing.id !== reminder.id)))),
+    toggleReminder,
+  };
+};
+
+export type CardChanges = ReturnType<typeof useCardChanges>;
@@ -0,0 +1,343 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { cardImagePath } from './blobStore';
+import { DuplicateMatch, findStoredDuplicates } from './duplicates';
+import { needsEnrichment } from './enrichment';
+import { fieldChanges } from './history';
+import { CARD_SCHEMA_VERSION } from './migrations';
+import { settleWrite } from './sync';
+import {
+  CARD_SIDES,
+  CardImages,
+  CardPhoto,
+  CardPhotos,
+  CompanyData,
+  ExtractedCardData,
+  ExtractedField,
+  ExtractionResult,
+  PendingReview,
+  Vault,
+} from './types';
+import { CardChanges, OpenVault } from './useCardChanges';
+import { Enrichment } from './useEnrichment';
+import { QueueItem, useExtractionQueue } from './useExtractionQueue';
+import { getFieldFlags, markEditedFields, normalizeCardData } from './validation';
+import { canEditCards, VIEW_ONLY_MESSAGE } from './workspaces';
+
+type ExtractionQueue = ReturnType<typeof useExtractionQueue>;
+
+// The photos of a queued or reviewed card, by side
+const cardPhotos = ({ image, mimeType, back }: { image?: Blob; mimeType?: string; back?: CardPhoto }): CardPhotos => ({
+  ...(image && { front: { image, mimeType: mimeType || 'image/jpeg' } }),
+  ...(back && { back }),
+});
+
+const isUnflagged = (item: QueueItem) =>
+  item.status === 'review' && !!item.result && Object.keys(getFieldFlags(item.result.data, item.result.extraction)).length === 0;
+
+// Saving extracted cards: the review dialog and the duplicate merge it can lead to, saving every
+// unflagged card at once, scans captured offline saved once extracted, and photos of cards saved
+// offline uploaded on reconnect. `companies` are the loaded cards, checked for duplicates before the
+// repository; `onMerged` hears of each card a review was merged into.
+export const useCardReview = (
+  open: OpenVault,
+  extractionQueue: ExtractionQueue,
+  vaults: Vault[],
+  companies: CompanyData[],
+  changes: CardChanges,
+  enrichment: Enrichment,
+  onMerged: (card: CompanyData) => void
+) => {
+  const { backend, vault: activeVault, repository, canEdit, setMessage } = open;
+  const blobStore = backend?.blobStore ?? null;
+  const userId = open.user?.uid ?? null;
+  const [pendingReview, setPendingReview] = useState<PendingReview | null>(null);
+  const [savingReview, setSavingReview] = useState(false);
+  const [pendingMerge, setPendingMerge] = useState<{ data: ExtractedCardData; matches: DuplicateMatch[] } | null>(null);
+  const autoSavingRef = useRef(new Set<string>());
+  const uploadingPhotosRef = useRef(new Set<string>());
+
+  const openReview = (item: QueueItem) => {
+    if (!item.result) return;
+    extractionQueue.updateItem(item.id, { autoReview: false });
+    setPendingReview({
+      ...item.result,
+      imageSrc: item.previewUrl,
+      image: item.image,
+      mimeType: item.mimeType,
+      backImageSrc: item.backPreviewUrl,
+      back: item.back,
+      queueItemId: item.id,
+    });
+  };
+
+  // Open single uploads and camera captures for review as soon as their extraction finishes
+  useEffect(() => {
+    if (pendingReview) return;
+    const ready = extractionQueue.items.find(item => item.status === 'review' && item.autoReview);
+    if (ready) openReview(ready);
+  }, [extractionQueue.items, pendingReview]);
+
+  // Returns the card's queue entry once saved. Offline, image uploads would wait for the connection,
+  // so the card is saved without them and the entry keeps the photos until the device reconnects.
+  const saveCard = async (
+    reviewedData: ExtractedCardData,
+    original: ExtractionResult,
+    photos: CardPhotos = {},
+    vault = activeVault
+  ): Promise<Partial<QueueItem>> => {
+    if (!backend || !vault) {
+      throw new Error('Database not initialized. Please try again.');
+    }
+    const vaultCards = backend.cardRepository(vault);
+    // Generate the id up front so the images can be stored under it before the card exists
+    const cardId = vaultCards.newCardId();
+    const images: CardImages = {};
+    const offline = !open.online;
+    try {
+      if (blobStore && !offline) {
+        for (const side of CARD_SIDES) {
+          const photo = photos[side];
+          if (photo) images[side] = await blobStore.put(cardImagePath(vault.storagePrefix, cardId, side, photo.mimeType), photo.image, photo.mimeType);
+        }
+      }
+      const write = vaultCards.createCard(cardId, {
+        ...normalizeCardData(reviewedData),
+        extraction: markEditedFields(original.extraction, original.data, reviewedData),
+        images,
+        timestamp: Date.now(),
+        uploadedBy: userId,
+        schemaVersion: CARD_SCHEMA_VERSION
+      });
+      changes.notify(write, 'card.created', [cardId], vault);
+      await settleWrite(write, (error) => {
+        console.error("Error syncing saved card:", error);
+        setMessage(`A card saved offline could not be synced: ${error.message}`);
+      });
+      enrichment.enrichCard({ id: cardId, website: reviewedData.website }, vault);
+    } catch (error) {
+      await Promise.all(Object.values(images).map(stored => blobStore.delete(stored.path).catch(() => undefined)));
+      throw error;
+    }
+    const photosWaiting = offline && !!blobStore && CARD_SIDES.some(side => photos[side]);
+    return photosWaiting ? { status: 'uploading', cardId, vaultId: vault.id } : { status: 'saved' };
+  };
+
+  // Scans captured offline are saved once extracted, into the vault they were captured for. Anything
+  // flagged, a likely duplicate, or aimed at a vault that isn't open is left in the queue for review.
+  useEffect(() => {
+    if (!open.online) return;
+    extractionQueue.items
+      .filter(item => item.status === 'review' && item.autoSave && item.result && !autoSavingRef.current.has(item.id))
+      .forEach(item => {
+        const vault = vaults.find(candidate => candidate.id === item.vaultId);
+        const clean = vault && vault.id === activeVault?.id && canEditCards(vault.role) && repository && isUnflagged(item);
+        if (!clean) {
+          extractionQueue.updateItem(item.id, { autoSave: false });
+          return;
+        }
+        autoSavingRef.current.add(item.id);
+        findStoredDuplicates(normalizeCardData(item.result.data), repository, companies)
+          .then(async matches => {
+            if (matches.length > 0) {
+              extractionQueue.updateItem(item.id, { autoSave: false });
+              return;
+            }
+            extractionQueue.updateItem(item.id, { status: 'saving' });
+            const saved = await saveCard(item.result.data, item.result, cardPhotos(item), vault);
+            extractionQueue.updateItem(item.id, { ...saved, autoSave: false });
+          })
+          .catch(error => {
+            console.error("Error saving queued card:", error);
+            extractionQueue.updateItem(item.id, { status: 'failed', autoSave: false, error: `Save failed: ${error.message}` });
+          })
+          .finally(() => autoSavingRef.current.delete(item.id));
+      });
+  }, [extractionQueue.items, open.online, activeVault?.id, repository]);
+
+  // Stores the photos of a card saved offline, on the sides the card still has no photo for
+  const uploadDeferredPhotos = async (item: QueueItem, vault: Vault) => {
+    const vaultCards = backend.cardRepository(vault);
+    const card = await vaultCards.fetchCard(item.cardId);
+    if (!card) return;
+    const photos = cardPhotos(item);
+    const images: CardImages = { ...(card.images || {}) };
+    const sides = CARD_SIDES.filter(side => photos[side] && !images[side]);
+    if (sides.length === 0) return;
+    for (const side of sides) {
+      const { image, mimeType } = photos[side];
+      images[side] = await blobStore.put(cardImagePath(vault.storagePrefix, card.id, side, mimeType), image, mimeType);
+    }
+    await vaultCards.updateCard(card.id, { images });
+  };
+
+  // Cards saved offline keep their photos in the queue until the device reconnects
+  useEffect(() => {
+    if (!open.online || !backend || !blobStore) return;
+    extractionQueue.items
+      .filter(item => item.status === 'uploading' && item.cardId && !uploadingPhotosRef.current.has(item.id))
+      .forEach(item => {
+        const vault = vaults.find(candidate => candidate.id === item.vaultId);
+        if (!vault) return;
+        uploadingPhotosRef.current.add(item.id);
+        uploadDeferredPhotos(item, vault)
+          .then(() => extractionQueue.updateItem(item.id, { status: 'saved' }))
+          .catch(error => {
+            console.error("Error uploading card photos:", error);
+            extractionQueue.updateItem(item.id, { status: 'failed', error: `Photo upload failed: ${error.message}` });
+          })
+          .finally(() => uploadingPhotosRef.current.delete(item.id));
+      });
+  }, [extractionQueue.items, open.online, backend, blobStore, vaults]);
+
+  // Runs a save for the card under review and keeps its queue entry in step
+  // Marks the reviewed card's queue item as failed, as any error before it is stored does
+  const reviewFailed = (itemId: string | undefined, error: Error) => {
+    console.error("Error saving reviewed card:", error);
+    if (itemId) extractionQueue.updateItem(itemId, { status: 'failed', error: `Save failed: ${error.message}` });
+    setMessage(`Error saving card: ${error.message}`);
+  };
+
+  const finishReview = async (save: () => Promise<Partial<QueueItem>>, successMessage: string) => {
+    if (!pendingReview) return;
+    const itemId = pendingReview.queueItemId;
+    try {
+      setSavingReview(true);
+      if (itemId) extractionQueue.updateItem(itemId, { status: 'saving' });
+      const saved = await save();
+      if (itemId) extractionQueue.updateItem(itemId, saved);
+      setMessage(saved.status === 'uploading' ? `${successMessage} Its photos will upload when you're back online.` : successMessage);
+    } catch (error) {
+      reviewFailed(itemId, error);
+    } finally {
+      setSavingReview(false);
+      setPendingMerge(null);
+      setPendingReview(null);
+    }
+  };
+
+  const accept = async (reviewedData: ExtractedCardData) => {
+    if (!pendingReview) return;
+    if (!canEdit) {
+      setMessage(VIEW_ONLY_MESSAGE);
+      return;
+    }
+    // Offer a merge instead of creating a second record for someone already in the vault
+    let matches: DuplicateMatch[];
+    try {
+      matches = repository ? await findStoredDuplicates(normalizeCardData(reviewedData), repository, companies) : [];
+    } catch (error) {
+      reviewFailed(pendingReview.queueItemId, error);
+      setPendingReview(null);
+      return;
+    }
+    if (matches.length > 0) {
+      setPendingMerge({ data: reviewedData, matches });
+      return;
+    }
+    await finishReview(
+      () => saveCard(reviewedData, pendingReview, cardPhotos(pendingReview)),
+      'Information extracted and saved successfully!'
+    );
+  };
+
+  const saveMergeAsNew = async () => {
+    if (!pendingReview || !pendingMerge) return;
+    const reviewedData = pendingMerge.data;
+    await finishReview(
+      () => saveCard(reviewedData, pendingReview, cardPhotos(pendingReview)),
+      'Information extracted and saved successfully!'
+    );
+  };
+
+  const merge = async (match: DuplicateMatch, merged: ExtractedCardData, takenFromIncoming: ExtractedField[]) => {
+    if (!pendingReview || !pendingMerge || !repository) return;
+    const existing = match.company;
+    const review = pendingReview;
+    const reviewedData = pendingMerge.data;
+
+    await finishReview(async () => {
+      const incomingExtraction = markEditedFields(review.extraction, review.data, reviewedData);
+      const extraction = { ...(existing.extraction || {}) };
+      takenFromIncoming.forEach(field => {
+        if (incomingExtraction[field]) extraction[field] = incomingExtraction[field];
+      });
+
+      const update: Partial<CompanyData> = { ...normalizeCardData(merged), extraction, schemaVersion: CARD_SCHEMA_VERSION };
+      const codeUrls = Array.from(new Set([...(existing.codeUrls || []), ...(reviewedData.codeUrls || [])]));
+      if (codeUrls.length > (existing.codeUrls || []).length) update.codeUrls = codeUrls;
+      // Keep each new photo only when the existing card has none for that side
+      const photos = cardPhotos(review);
+      const newSides = CARD_SIDES.filter(side => photos[side] && !existing.images?.[side]);
+      const photosWaiting = newSides.length > 0 && !!blobStore && !open.online;
+      if (newSides.length > 0 && blobStore && !photosWaiting) {
+        const images: CardImages = { ...(existing.images || {}) };
+        for (const side of newSides) {
+          const { image, mimeType } = photos[side];
+          images[side] = await blobStore.put(cardImagePath(activeVault.storagePrefix, existing.id, side, mimeType), image, mimeType);
+        }
+        update.images = images;
+      }
+      await changes.commit(existing, 'merge', update, fieldChanges(existing, update));
+      if (needsEnrichment({ ...existing, ...update })) enrichment.enrichCard({ ...existing, ...update });
+      onMerged({ ...existing, ...update });
+      return photosWaiting ? { status: 'uploading', cardId: existing.id, vaultId: activeVault.id } : { status: 'saved' };
+    }, 'Card merged into the existing record.');
+  };
+
+  const discard = () => {
+    if (pendingReview?.queueItemId) extractionQueue.remove(pendingReview.queueItemId);
+    setPendingReview(null);
+    setMessage('Extraction discarded.');
+  };
+
+  // Every extracted card that has no invalid or low-confidence fields
+  const unflaggedItems = extractionQueue.items.filter(isUnflagged);
+
+  // Likely duplicates are left in the queue so someone can decide how to merge them
+  const saveAllUnflagged = async () => {
+    if (!repository || !canEdit) {
+      setMessage(VIEW_ONLY_MESSAGE);
+      return;
+    }
+    let saved = 0;
+    let skipped = 0;
+    let failed = 0;
+    for (const item of unflaggedItems) {
+      try {
+        if ((await findStoredDuplicates(normalizeCardData(item.result.data), repository, companies)).length > 0) {
+          skipped++;
+          continue;
+        }
+        extractionQueue.updateItem(item.id, { status: 'saving' });
+        extractionQueue.updateItem(item.id, await saveCard(item.result.data, item.result, cardPhotos(item)));
+        saved++;
+      } catch (error) {
+        console.error("Error saving card:", error);
+        extractionQueue.updateItem(item.id, { status: 'failed', error: `Save failed: ${error.message}` });
+        failed++;
+      }
+    }
+    setMessage([
+      `Saved ${saved} card${saved === 1 ? '' : 's'}.`,
+      failed > 0 ? `${failed} could not be saved; see the queue for the errors.` : '',
+      skipped > 0 ? `${skipped} possible duplicate${skipped === 1 ? ' is' : 's are'} waiting for review.` : '',
+    ].filter(Boolean).join(' '));
+  };
+
+  return {
+    pendingReview,
+    pendingMerge,
+    savingReview,
+    openReview,
+    closeReview: () => setPendingReview(null),
+    cancelMerge: () => setPendingMerge(null),
+    accept,
+    saveMergeAsNew,
+    merge,
+    discard,
+    unflaggedItems,
+    saveAllUnflagged,
+  };
+};
@@ -0,0 +1,275 @@
+'use client';
+
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { localDateKey } from './activity';
+import { CardCursor, CardOrder, CardRepository, CardSnapshot, cursorOf } from './cardRepository';
+import { isTrashed } from './history';
+import { migrateCard, needsMigration, upgradeStoredCards, upgradeVault } from './migrations';
+import { conflictMessage, hasConcurrentEdit, PendingEdit } from './sync';
+import { CompanyData } from './types';
+
+// Cards read from the repository at a time, for the list and for each "load more"
+export const PAGE_SIZE = 50;
+
+// Pages this many either side of the ones on screen keep listening too, so scrolling a little way
+// doesn't close and reopen listeners
+const LIVE_MARGIN = 1;
+
+// A stretch of the list. The last page is read with a limit; once the next page is loaded it is fixed
+// at its last card, so cards added or removed later shift nothing into or out of the other pages.
+interface Page {
+  after: CardCursor | null;
+  until: CardCursor | null;
+  // Upgraded to the current schema, trashed ones included, as of the last snapshot heard
+  cards: CompanyData[];
+  loaded: boolean;
+  hasPendingWrites: boolean;
+}
+
+interface PageList {
+  repository: CardRepository | null;
+  sort: CardOrder['sort'];
+  dir: CardOrder['dir'];
+  pages: Page[];
+}
+
+const firstPage = (): Page => ({ after: null, until: null, cards: [], loaded: false, hasPendingWrites: false });
+
+const cursorKey = (cursor: CardCursor | null) => (cursor ? `${cursor.value}/${cursor.id}` : '');
+
+// The open vault's cards in list order, read a page at a time and upgraded to the current schema.
+// Only the pages on screen (see showCards) listen for changes; the rest keep what they last heard
+// until they are scrolled back to. The trash, the selected card and the cards with follow-ups due are
+// listened to on their own. Pass a null repository while no vault is open. Editors write schema
+// upgrades back; viewers only see them in memory (see lib/migrations.ts).
+export const useCards = (
+  repository: CardRepository | null,
+  order: CardOrder,
+  selectedId: string | null,
+  canEdit: boolean,
+  onMessage: (message: string) => void
+) => {
+  const { sort, dir } = order;
+  const [list, setList] = useState<PageList>({ repository, sort, dir, pages: [firstPage()] });
+  // Pages from an earlier vault or order are dropped as soon as it changes
+  const current = list.repository === repository && list.sort === sort && list.dir === dir;
+  const pages = current ? list.pages : [firstPage()];
+  // The pages with cards on screen, in order
+  const [shown, setShown] = useState<number[]>([0]);
+  const [trashedCards, setTrashedCards] = useState<CompanyData[]>([]);
+  const [selectedCard, setSelectedCard] = useState<CompanyData | null>(null);
+  const [selectedPendingWrites, setSelectedPendingWrites] = useState(false);
+  const [storedCount, setStoredCount] = useState<number | null>(null);
+  const [dueCards, setDueCards] = useState<CompanyData[]>([]);
+  const pendingEditsRef = useRef(new Map<string, PendingEdit>());
+  // Cards whose schema upgrade is being written, so later snapshots don't write it again
+  const upgradingRef = useRef(new Set<string>());
+  // Vaults whose outdated cards have been looked for since the page loaded
+  const sweptRef = useRef(new WeakSet<CardRepository>());
+  const listenersRef = useRef(new Map<string, () => void>());
+  const onMessageRef = useRef(onMessage);
+  onMessageRef.current = onMessage;
+  // Listeners outlive renders, so they read these when a snapshot arrives
+  const canEditRef = useRef(canEdit);
+  canEditRef.current = canEdit;
+
+  const isLive = (index: number) => shown.some(shownIndex => Math.abs(index - shownIndex) <= LIVE_MARGIN);
+
+  // Upgrades outdated cards and, once the server has an edit made here, checks whether someone else
+  // changed the card meanwhile
+  const handleSnapshot = (snapshot: CardSnapshot) => {
+    const outdated = snapshot.cards.filter(card => needsMigration(card) && !upgradingRef.current.has(card.id));
+    if (canEditRef.current && outdated.length > 0) {
+      outdated.forEach(card => upgradingRef.current.add(card.id));
+      upgradeStoredCards(repository, outdated)
+        .catch(error => console.error("Error upgrading stored cards:", error))
+        .finally(() => outdated.forEach(card => upgradingRef.current.delete(card.id)));
+    }
+
+    snapshot.confirmedIds.forEach(id => {
+      const edit = pendingEditsRef.current.get(id);
+      if (!edit) return;
+      pendingEditsRef.current.delete(id);
+      const synced = snapshot.cards.find(card => card.id === id);
+      if (synced && hasConcurrentEdit(edit, synced)) onMessageRef.current(conflictMessage(edit));
+    });
+  };
+
+  const handleError = (error: Error) => {
+    console.error("Error fetching companies:", error);
+    onMessageRef.current(`Error loading companies: ${error.message}`);
+  };
+
+  // Stop every page's listener when the vault or the order changes
+  useEffect(() => {
+    const listeners = listenersRef.current;
+    return () => {
+      listeners.forEach(stop => stop());
+      listeners.clear();
+    };
+  }, [repository, sort, dir]);
+
+  useEffect(() => {
+    setShown([0]);
+  }, [repository, sort, dir]);
+
+  // Listen to the pages near the ones on screen, and to pages still waiting for their first snapshot
+  const pageKeys = pages.map(page => `${cursorKey(page.after)}..${cursorKey(page.until)}`);
+  useEffect(() => {
+    if (!repository) return;
+    const listeners = listenersRef.current;
+    const wanted = new Map<string, number>();
+    pages.forEach((page, index) => {
+      if (!page.loaded || isLive(index)) wanted.set(`${index}:${pageKeys[index]}`, index);
+    });
+    listeners.forEach((stop, key) => {
+      if (wanted.has(key)) return;
+      stop();
+      listeners.delete(key);
+    });
+    wanted.forEach((index, key) => {
+      if (listeners.has(key)) return;
+      const { after, until } = pages[index];
+      const range = until ? { order: { sort, dir }, after, until } : { order: { sort, dir }, after, limit: PAGE_SIZE };
+      listeners.set(key, repository.subscribeToRange(range, (snapshot) => {
+        setList(previous => {
+          const base = previous.repository === repository && previous.sort === sort && previous.dir === dir
+            ? previous
+            : { repository, sort, dir, pages: [firstPage()] };
+          // A snapshot for boundaries that have since moved is superseded by the new listener's
+          const page = base.pages[index];
+          if (!page || `${cursorKey(page.after)}..${cursorKey(page.until)}` !== pageKeys[index]) return base;
+          const updated = [...base.pages];
+          updated[index] = { ...page, cards: snapshot.cards.map(migrateCard), loaded: true, hasPendingWrites: snapshot.hasPendingWrites };
+          return { ...base, pages: updated };
+        });
+        handleSnapshot(snapshot);
+      }, handleError));
+    });
+  }, [repository, sort, dir, pageKeys.join('|'), shown.join(',')]);
+
+  useEffect(() => {
+    if (!repository) {
+      setTrashedCards([]);
+      return;
+    }
+    return repository.subscribeToTrash((snapshot) => {
+      setTrashedCards(snapshot.cards.map(migrateCard));
+      handleSnapshot(snapshot);
+    }, handleError);
+  }, [repository]);
+
+  // A name sort can't see cards stored before their sort fields existed, so an editor opening
+  // the vault upgrades all of them rather than waiting for the list to read them
+  useEffect(() => {
+    if (!repository || !canEdit || sweptRef.current.has(repository)) return;
+    sweptRef.current.add(repository);
+    upgradeVault(repository).catch(error => console.error("Error upgrading stored cards:", error));
+  }, [repository, canEdit]);
+
+  // Follow-ups due today or overdue anywhere in the vault, whatever pages are loaded
+  const today = localDateKey();
+  useEffect(() => {
+    if (!repository) {
+      setDueCards([]);
+      return;
+    }
+    return repository.subscribeToDue(today, (snapshot) => {
+      setDueCards(snapshot.cards.map(migrateCard).filter(card => !isTrashed(card)));
+      handleSnapshot(snapshot);
+    }, handleError);
+  }, [repository, today]);
+
+  // The selected card is followed wherever it is in the list, so the details panel stays current
+  useEffect(() => {
+    setSelectedCard(null);
+    setSelectedPendingWrites(false);
+    if (!repository || !selectedId) return;
+    return repository.subscribeToCard(selectedId, (snapshot) => {
+      setSelectedCard(snapshot.cards[0] ? migrateCard(snapshot.cards[0]) : null);
+      setSelectedPendingWrites(snapshot.hasPendingWrites);
+      handleSnapshot(snapshot);
+    }, handleError);
+  }, [repository, selectedId]);
+
+  const lastPage = pages[pages.length - 1];
+  const hasMore = lastPage.loaded && lastPage.cards.length >= PAGE_SIZE;
+  const loadingMore = !!repository && !lastPage.loaded;
+
+  // A card edited on a page that isn't listening can show up again on one that is; the live copy wins
+  const companies = useMemo(() => {
+    const live = new Set(pages.filter((page, index) => isLive(index)).flatMap(page => page.cards.map(card => card.id)));
+    const seen = new Set<string>();
+    return pages.flatMap((page, index) => page.cards.filter(card => {
+      if (seen.has(card.id) || (!isLive(index) && live.has(card.id)) || isTrashed(card)) return false;
+      seen.add(card.id);
+      return true;
+    }));
+  }, [pages, shown.join(',')]);
+
+  const pageOf = useMemo(() => {
+    const index = new Map<string, number>();
+    pages.forEach((page, pageIndex) => page.cards.forEach(card => index.set(card.id, pageIndex)));
+    return index;
+  }, [pages]);
+
+  // Counting is one cheap aggregate read; it is redone as pages load and cards come and go
+  const loadedCount = pages.reduce((total, page) => total + page.cards.length, 0);
+  useEffect(() => {
+    setStoredCount(null);
+  }, [repository]);
+  useEffect(() => {
+    if (!repository || !lastPage.loaded || !hasMore) return;
+    let cancelled = false;
+    repository.countCards()
+      .then(count => { if (!cancelled) setStoredCount(count); })
+      // Counting needs the server, so offline the total is simply not shown
+      .catch(error => console.warn("Could not count the cards:", error));
+    return () => { cancelled = true; };
+  }, [repository, loadedCount, hasMore]);
+
+  // Cards in the vault, not counting the trash; null while it isn't known
+  let totalCount: number | null = null;
+  if (lastPage.loaded && !hasMore) totalCount = companies.length;
+  else if (storedCount !== null) totalCount = Math.max(companies.length, storedCount - trashedCards.length);
+
+  // Fixes the last page at its last card and starts reading the one after it
+  const loadMore = () => {
+    if (!hasMore) return;
+    const boundary = cursorOf(lastPage.cards[lastPage.cards.length - 1], order);
+    setList({
+      repository,
+      sort,
+      dir,
+      pages: [...pages.slice(0, -1), { ...lastPage, until: boundary }, { ...firstPage(), after: boundary }],
+    });
+  };
+
+  // Called by the list with the cards it is drawing, so the pages they came from keep listening
+  const showCards = (cards: CompanyData[]) => {
+    const indexes = Array.from(new Set(cards.map(card => pageOf.get(card.id)).filter(index => index !== undefined))).sort((a, b) => a - b);
+    const next = indexes.length > 0 ? indexes : [0];
+    setShown(previous => (previous.join(',') === next.join(',') ? previous : next));
+  };
+
+  const hasPendingWrites = selectedPendingWrites || pages.some(page => page.hasPendingWrites);
+
+  // Edits are tracked from when they are written until the server confirms them
+  const trackEdit = (edit: PendingEdit) => pendingEditsRef.current.set(edit.cardId, edit);
+  const forgetEdit = (cardId: string) => pendingEditsRef.current.delete(cardId);
+
+  return {
+    companies,
+    trashedCards,
+    dueCards,
+    selectedCard,
+    totalCount,
+    hasMore,
+    loadingMore,
+    loadMore,
+    showCards,
+    hasPendingWrites,
+    trackEdit,
+    forgetEdit,
+  };
+};
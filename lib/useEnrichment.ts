@@ -0,0 +1,58 @@
+'use client';
+
+import { useRef, useState } from 'react';
+import { acceptSuggestions, PROFILE_FIELDS, requestEnrichment, websiteDomain, withoutSuggestions } from './enrichment';
+import { fieldChanges } from './history';
+import { CARD_SCHEMA_VERSION } from './migrations';
+import { CompanyData, CompanyProfile } from './types';
+import { CardChanges, OpenVault } from './useCardChanges';
+import { canEditCards, VIEW_ONLY_MESSAGE } from './workspaces';
+
+// Company details looked up from each card's website (see lib/enrichment.ts), and taking or
+// dismissing what was found
+export const useEnrichment = (open: OpenVault, changes: CardChanges) => {
+  const { backend, repository, canEdit, setMessage } = open;
+  // Cards whose website is being looked up
+  const [lookupIds, setLookupIds] = useState<string[]>([]);
+  const queueRef = useRef<Promise<void>>(Promise.resolve());
+
+  // Looks up the card's website in the background, one card at a time, and stores what it finds as
+  // suggestions for the details panel. Skipped while offline; the panel offers the lookup later.
+  const enrichCard = (card: Pick<CompanyData, 'id' | 'website'>, vault = open.vault) => {
+    if (!backend || !vault || !canEditCards(vault.role) || !websiteDomain(card.website) || !open.online) return;
+    setLookupIds(ids => [...ids, card.id]);
+    queueRef.current = queueRef.current
+      .then(() => requestEnrichment(card.website))
+      .then(enrichment => backend.cardRepository(vault).updateCard(card.id, { enrichment }))
+      .catch(error => console.error("Error looking up company website:", error))
+      .finally(() => setLookupIds(ids => ids.filter(id => id !== card.id)));
+  };
+
+  // Social profiles are card fields, so taking them is an edit that shows in the history and can be
+  // undone; the logo and description are written like tags, without one
+  const accept = async (card: CompanyData, fields: (keyof CompanyProfile)[]) => {
+    if (!repository || !canEdit) {
+      setMessage(VIEW_ONLY_MESSAGE);
+      return;
+    }
+    const update = acceptSuggestions(card, fields);
+    if (!update.socialProfiles) {
+      await changes.updateActivity(card, vaultCards => vaultCards.updateCard(card.id, update));
+      return;
+    }
+    try {
+      const entry = await changes.commit(card, 'edit', { ...update, schemaVersion: CARD_SCHEMA_VERSION }, fieldChanges(card, update, ['socialProfiles']));
+      changes.announce(entry, 'Company details added from the website.');
+    } catch (error) {
+      console.error("Error accepting company details:", error);
+      setMessage(`Error updating card: ${error.message}`);
+    }
+  };
+
+  const dismiss = (card: CompanyData) =>
+    changes.updateActivity(card, vaultCards => vaultCards.updateCard(card.id, { enrichment: withoutSuggestions(card.enrichment, PROFILE_FIELDS) }));
+
+  return { lookupIds, enrichCard, accept, dismiss };
+};
+
+export type Enrichment = ReturnType<typeof useEnrichment>;
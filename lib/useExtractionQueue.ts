@@ -0,0 +1,249 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { ExtractionSettings } from './extractionSettings';
+import { ExtractionService } from './extractionService';
+import { clearQueuedItems, deleteQueuedItem, isOfflineQueueAvailable, loadQueuedItems, putQueuedItem, StoredQueueItem } from './offlineQueue';
+import { useOnlineStatus } from './useOnlineStatus';
+import { CardPhoto, ExtractionResult } from './types';
+
+// How many cards are sent to the extraction route at the same time
+export const EXTRACTION_CONCURRENCY = 3;
+
+// 'review' means extracted and waiting for someone to accept it; nothing is saved before that.
+// 'pending' items wait while the device is offline and start once it reconnects, unless offline OCR
+// is among the providers. 'uploading' cards were saved offline; they keep their photos here until the
+// device reconnects and the photos are stored with the card.
+export type QueueItemStatus = 'pending' | 'extracting' | 'review' | 'saving' | 'uploading' | 'saved' | 'failed';
+
+export interface QueueItem {
+  id: string;
+  fileName: string;
+  image: Blob;
+  mimeType: string;
+  previewUrl: string;
+  // The back of a two-sided card, read in the same request as the front
+  back?: CardPhoto;
+  backPreviewUrl?: string;
+  status: QueueItemStatus;
+  result?: ExtractionResult;
+  error?: string;
+  // Single uploads and camera captures open the review dialog as soon as they are extracted
+  autoReview: boolean;
+  // Captured offline: saved without review once extracted, unless something needs a second look
+  autoSave: boolean;
+  // The signed-in user who captured the card
+  uid: string;
+  // Vault the card was captured for, so a later save doesn't land in whichever vault is open then
+  vaultId?: string;
+  // The saved card, while its photos wait to be uploaded
+  cardId?: string;
+  createdAt: number;
+}
+
+export interface QueuedImage {
+  image: Blob;
+  fileName: string;
+  mimeType: string;
+  back?: CardPhoto;
+  vaultId?: string;
+}
+
+// Work that was interrupted by a reload starts again from the last step that is safe to repeat
+const restoreItem = (stored: StoredQueueItem, uid: string): QueueItem => {
+  let status = stored.status as QueueItemStatus;
+  if (status === 'extracting') status = 'pending';
+  if (status === 'saving') status = stored.result ? 'review' : 'pending';
+  return {
+    ...stored,
+    uid,
+    status,
+    previewUrl: URL.createObjectURL(stored.image),
+    backPreviewUrl: stored.back && URL.createObjectURL(stored.back.image),
+    autoReview: false,
+  };
+};
+
+const toStoredItem = ({ previewUrl, backPreviewUrl, autoReview, ...item }: QueueItem): StoredQueueItem => item;
+
+const revokePreviews = (item: QueueItem) => {
+  URL.revokeObjectURL(item.previewUrl);
+  if (item.backPreviewUrl) URL.revokeObjectURL(item.backPreviewUrl);
+};
+
+// Nothing is extracted until `service` is set, which happens once the backend has started. The queue
+// belongs to the signed-in user `uid`: switching user swaps in that user's stored scans.
+export const useExtractionQueue = (
+  service: ExtractionService | null,
+  settings: ExtractionSettings,
+  uid: string | null,
+  concurrency = EXTRACTION_CONCURRENCY
+) => {
+  const [items, setItems] = useState<QueueItem[]>([]);
+  const startedRef = useRef(new Set<string>());
+  const itemsRef = useRef<QueueItem[]>([]);
+  itemsRef.current = items;
+  const online = useOnlineStatus();
+  const offlineCapable = !!service && service.canExtractOffline(settings);
+  // Read at run time so changing providers doesn't restart the scheduler
+  const settingsRef = useRef(settings);
+  settingsRef.current = settings;
+  const serviceRef = useRef(service);
+  serviceRef.current = service;
+  const canExtractOffline = () => !!serviceRef.current && serviceRef.current.canExtractOffline(settingsRef.current);
+  const uidRef = useRef(uid);
+  uidRef.current = uid;
+  const [restored, setRestored] = useState(false);
+  // Last version of each item written to IndexedDB, to skip writes when nothing changed
+  const persistedRef = useRef(new Map<string, QueueItem>());
+
+  // Bring back the user's scans that were still queued when the page was closed. Another user's
+  // scans stay stored but leave the screen; the new map keeps them from being deleted as removed.
+  useEffect(() => {
+    setItems(prev => {
+      prev.forEach(revokePreviews);
+      return [];
+    });
+    persistedRef.current = new Map();
+    setRestored(false);
+    if (!uid) return;
+    if (!isOfflineQueueAvailable()) {
+      setRestored(true);
+      return;
+    }
+    let cancelled = false;
+    loadQueuedItems(uid)
+      .then(stored => {
+        if (cancelled) return;
+        const restoredItems = stored.map(item => restoreItem(item, uid));
+        restoredItems.forEach(item => persistedRef.current.set(item.id, item));
+        setItems(prev => [...restoredItems, ...prev]);
+      })
+      .catch(error => console.error("Error loading the offline queue:", error))
+      .finally(() => {
+        if (!cancelled) setRestored(true);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [uid]);
+
+  // Mirror unfinished items into IndexedDB; saved and removed ones are dropped from it
+  useEffect(() => {
+    if (!restored || !isOfflineQueueAvailable()) return;
+    const persisted = persistedRef.current;
+    const current = new Set<string>();
+    items.forEach(item => {
+      if (item.status === 'saved') return;
+      current.add(item.id);
+      if (persisted.get(item.id) === item) return;
+      persisted.set(item.id, item);
+      putQueuedItem(toStoredItem(item)).catch(error => console.error("Error storing queued scan:", error));
+    });
+    Array.from(persisted.keys()).forEach(id => {
+      if (current.has(id)) return;
+      persisted.delete(id);
+      deleteQueuedItem(id).catch(error => console.error("Error removing queued scan:", error));
+    });
+  }, [items, restored]);
+
+  const updateItem = useCallback((id: string, changes: Partial<QueueItem>) => {
+    setItems(prev => prev.map(item => (item.id === id ? { ...item, ...changes } : item)));
+  }, []);
+
+  const runItem = useCallback(async (item: QueueItem) => {
+    try {
+      const result = await serviceRef.current.extract(item.image, item.mimeType, settingsRef.current, item.back);
+      updateItem(item.id, { status: 'review', result, error: undefined });
+    } catch (error) {
+      console.error(`Error extracting ${item.fileName}:`, error);
+      // Losing the connection isn't a failure: the scan waits and runs again after reconnecting.
+      // With offline OCR in the chain every provider was already tried, so it really did fail.
+      const waitForConnection = !navigator.onLine && !canExtractOffline();
+      updateItem(item.id, waitForConnection ? { status: 'pending', autoSave: true } : { status: 'failed', error: error.message });
+    } finally {
+      startedRef.current.delete(item.id);
+    }
+  }, [updateItem]);
+
+  // Start pending items whenever a slot is free and the device is online (or can read cards offline)
+  useEffect(() => {
+    if (!service || (!online && !offlineCapable)) return;
+    const active = items.filter(item => item.status === 'extracting').length;
+    const slots = concurrency - active;
+    if (slots <= 0) return;
+
+    const next = items.filter(item => item.status === 'pending' && !startedRef.current.has(item.id)).slice(0, slots);
+    if (next.length === 0) return;
+
+    const nextIds = new Set(next.map(item => item.id));
+    next.forEach(item => startedRef.current.add(item.id));
+    setItems(prev => prev.map(item => (nextIds.has(item.id) ? { ...item, status: 'extracting' } : item)));
+    next.forEach(runItem);
+  }, [items, concurrency, runItem, online, offlineCapable, service]);
+
+  // Release preview URLs when the page goes away
+  useEffect(() => () => {
+    itemsRef.current.forEach(revokePreviews);
+  }, []);
+
+  const enqueue = useCallback((images: QueuedImage[]) => {
+    const owner = uidRef.current;
+    if (!owner) return;
+    // Nobody is waiting on scans that have to wait for a connection, so they shouldn't pop up a review dialog later
+    const offline = !navigator.onLine && !canExtractOffline();
+    const newItems: QueueItem[] = images.map(({ image, fileName, mimeType, back, vaultId }) => ({
+      id: crypto.randomUUID(),
+      fileName,
+      image,
+      mimeType,
+      back,
+      vaultId,
+      previewUrl: URL.createObjectURL(image),
+      backPreviewUrl: back && URL.createObjectURL(back.image),
+      status: 'pending',
+      autoReview: images.length === 1 && !offline,
+      autoSave: offline,
+      uid: owner,
+      createdAt: Date.now(),
+    }));
+    setItems(prev => [...prev, ...newItems]);
+  }, []);
+
+  // Failed extractions are sent again; failed saves go back to review with their extracted data, and
+  // failed photo uploads are tried again
+  const retry = useCallback((id: string) => {
+    setItems(prev => prev.map(item => {
+      if (item.id !== id || item.status !== 'failed') return item;
+      if (item.cardId) return { ...item, status: 'uploading', error: undefined };
+      return { ...item, status: item.result ? 'review' : 'pending', error: undefined };
+    }));
+  }, []);
+
+  const remove = useCallback((id: string) => {
+    setItems(prev => {
+      const item = prev.find(entry => entry.id === id);
+      if (item) revokePreviews(item);
+      return prev.filter(entry => entry.id !== id);
+    });
+  }, []);
+
+  const clearFinished = useCallback(() => {
+    setItems(prev => {
+      prev.filter(item => item.status === 'saved').forEach(revokePreviews);
+      return prev.filter(item => item.status !== 'saved');
+    });
+  }, []);
+
+  // Forgets every scan on the device, for signing out
+  const clear = useCallback(async () => {
+    setItems(prev => {
+      prev.forEach(revokePreviews);
+      return [];
+    });
+    persistedRef.current = new Map();
+    if (isOfflineQueueAvailable()) await clearQueuedItems();
+  }, []);
+
+  return { items, online, offlineCapable, enqueue, retry, remove, clearFinished, clear, updateItem };
+};
@@ -0,0 +1,236 @@
+'use client';
+
+import { useState } from 'react';
+import { DueReminder } from './activity';
+import { buildCsv, CsvExportOptions, DEFAULT_CSV_EXPORT_OPTIONS, ImportRow, parseCsv } from './csv';
+import { downloadBlob } from './download';
+import { dedupeCompanies, findDuplicates } from './duplicates';
+import { isTrashed } from './history';
+import { icsFileName, remindersToIcs } from './ics';
+import { CARD_SCHEMA_VERSION, migrateCard, withListFields } from './migrations';
+import { applyListView, ListView } from './search';
+import { settleWrite } from './sync';
+import { CompanyData, ExtractedCardData } from './types';
+import { CardChanges, OpenVault } from './useCardChanges';
+import { normalizeCardData } from './validation';
+import { cardsToVCard, cardToVCard, parseVCards, vcardFileName, VCardVersion } from './vcard';
+import { readXlsxRows } from './xlsx';
+import { VIEW_ONLY_MESSAGE } from './workspaces';
+
+// Exports of the whole open vault (CSV, vCard and follow-ups as .ics), single contacts handed to the
+// phone, and CSV, XLSX and vCard imports. `view` is the list's search and filters, which a CSV export
+// can be limited to.
+export const useImportExport = (
+  open: OpenVault,
+  view: ListView,
+  uploaderLabels: Record<string, string>,
+  changes: CardChanges
+) => {
+  const { repository, canEdit, setMessage, setLoading } = open;
+  const userId = open.user?.uid ?? null;
+  const [vcardVersion, setVcardVersion] = useState<VCardVersion>('3.0');
+  const [csvExportOptions, setCsvExportOptions] = useState<CsvExportOptions>(DEFAULT_CSV_EXPORT_OPTIONS);
+  // The whole vault, read when the CSV export dialog opens
+  const [exportCards, setExportCards] = useState<CompanyData[] | null>(null);
+  const [spreadsheetImport, setSpreadsheetImport] = useState<{ fileName: string; rows: string[][]; existing: CompanyData[] } | null>(null);
+
+  // Every card in the open vault, read once for exports and imports; the list only holds the pages it has loaded
+  const readAllCards = async (): Promise<CompanyData[]> =>
+    (await repository.fetchAllCards()).filter(card => !isTrashed(card)).map(migrateCard);
+
+  // Opens the CSV export dialog
+  const downloadCsv = async () => {
+    if (!repository) return;
+    try {
+      const cards = await readAllCards();
+      if (cards.length === 0) {
+        setMessage('No data to download.');
+        return;
+      }
+      setExportCards(cards);
+    } catch (error) {
+      console.error("Error reading cards for export:", error);
+      setMessage(`Error reading cards: ${error.message}`);
+    }
+  };
+
+  const exportCsv = (options: CsvExportOptions, filteredOnly: boolean) => {
+    // Scanning the same card twice should not produce two rows
+    const uniqueCompanies = dedupeCompanies(filteredOnly ? applyListView(exportCards, view, userId) : exportCards);
+    const csvString = buildCsv(uniqueCompanies, options, uploaderLabels);
+    downloadBlob(new Blob([csvString], { type: 'text/csv;charset=utf-8;' }), 'company_cards.csv');
+    setCsvExportOptions(options);
+    setExportCards(null);
+    setMessage('CSV file downloaded!');
+  };
+
+  const downloadVCard = async () => {
+    if (!repository) return;
+    try {
+      const cards = await readAllCards();
+      if (cards.length === 0) {
+        setMessage('No data to download.');
+        return;
+      }
+      const vcards = cardsToVCard(dedupeCompanies(cards), vcardVersion);
+      downloadBlob(new Blob([vcards], { type: 'text/vcard;charset=utf-8' }), 'company_cards.vcf');
+      setMessage(`vCard ${vcardVersion} file downloaded!`);
+    } catch (error) {
+      console.error("Error reading cards for export:", error);
+      setMessage(`Error reading cards: ${error.message}`);
+    }
+  };
+
+  // Hands a single card to the phone's contacts app: the share sheet where supported, otherwise a .vcf download
+  const saveToContacts = async (company: CompanyData) => {
+    const fileName = vcardFileName(company);
+    // 3.0 is the version phone contact apps import most reliably
+    const vcard = cardToVCard(company, '3.0');
+    const file = new File([vcard], fileName, { type: 'text/vcard' });
+    if (navigator.canShare?.({ files: [file] })) {
+      try {
+        await navigator.share({ files: [file], title: company.contactPerson || company.companyName });
+        return;
+      } catch (error) {
+        if (error.name === 'AbortError') return;
+        console.error("Error sharing contact:", error);
+      }
+    }
+    downloadBlob(file, fileName);
+    setMessage(`Downloaded ${fileName}. Open it to add the contact to your phone.`);
+  };
+
+  const exportReminders = (entries: DueReminder[]) => {
+    if (entries.length === 0) {
+      setMessage('No open follow-ups to export.');
+      return;
+    }
+    downloadBlob(new Blob([remindersToIcs(entries)], { type: 'text/calendar;charset=utf-8' }), icsFileName(entries));
+    setMessage(`Downloaded ${entries.length} follow-up${entries.length === 1 ? '' : 's'}. Open the file to add ${entries.length === 1 ? 'it' : 'them'} to your calendar.`);
+  };
+
+  // Follow-ups are exported from the whole vault, not just the cards the list has loaded
+  const exportAllReminders = async (selectEntries: (cards: CompanyData[]) => DueReminder[]) => {
+    if (!repository) return;
+    try {
+      exportReminders(selectEntries(await readAllCards()));
+    } catch (error) {
+      console.error("Error reading cards for export:", error);
+      setMessage(`Error reading cards: ${error.message}`);
+    }
+  };
+
+  // Adds imported cards to the open vault as the current user. Their websites aren't looked up, as an
+  // import can hold hundreds of cards; the details panel offers the lookup when one is opened.
+  const writeImportedCards = async (cards: (ExtractedCardData & { timestamp: number })[]) => {
+    const { ids, write } = repository.createCards(cards.map(card => ({ ...withListFields(card), uploadedBy: userId, schemaVersion: CARD_SCHEMA_VERSION })));
+    changes.notify(write, 'card.created', ids);
+    await settleWrite(write, (error) => {
+      console.error("Error syncing imported cards:", error);
+      setMessage(`Imported cards could not be synced: ${error.message}`);
+    });
+  };
+
+  // Reads a CSV or XLSX file and opens the import dialog for it
+  const openSpreadsheet = async (file: File) => {
+    if (!canEdit) {
+      setMessage(VIEW_ONLY_MESSAGE);
+      return;
+    }
+    try {
+      const rows = /\.xlsx$/i.test(file.name)
+        ? await readXlsxRows(await file.arrayBuffer())
+        : parseCsv(await file.text());
+      if (rows.length === 0) {
+        setMessage('The selected file is empty.');
+        return;
+      }
+      setSpreadsheetImport({ fileName: file.name, rows, existing: await readAllCards() });
+    } catch (error) {
+      console.error("Error reading import file:", error);
+      setMessage(`Could not read ${file.name}: ${error.message}`);
+    }
+  };
+
+  const importSpreadsheet = async (rows: ImportRow[]) => {
+    if (!canEdit) {
+      setMessage(VIEW_ONLY_MESSAGE);
+      return;
+    }
+    if (!repository) {
+      setMessage('Database not initialized. Please try again.');
+      return;
+    }
+    try {
+      setLoading(true);
+      await writeImportedCards(rows.map(row => ({ ...normalizeCardData(row.data), timestamp: row.timestamp ?? Date.now() })));
+      setSpreadsheetImport(null);
+      setMessage(`Imported ${rows.length} card${rows.length === 1 ? '' : 's'}.`);
+    } catch (error) {
+      console.error("Error importing cards:", error);
+      setMessage(`Error importing cards: ${error.message}`);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const importVCards = async (files: File[]) => {
+    if (files.length === 0) return;
+    if (!canEdit) {
+      setMessage(VIEW_ONLY_MESSAGE);
+      return;
+    }
+    if (!repository) {
+      setMessage('Database not initialized. Please try again.');
+      return;
+    }
+
+    try {
+      setLoading(true);
+      const contacts = (await Promise.all(files.map(file => file.text()))).flatMap(text => parseVCards(text));
+      if (contacts.length === 0) {
+        setMessage('No contacts found in the selected file.');
+        return;
+      }
+
+      // Contacts already in the vault, or repeated in the file, are skipped rather than duplicated
+      const known: CompanyData[] = await readAllCards();
+      const newCards: ExtractedCardData[] = [];
+      contacts.forEach(contact => {
+        const data = normalizeCardData(contact.data);
+        if (findDuplicates(data, known).length > 0) return;
+        newCards.push(data);
+        known.push({ id: `import-${newCards.length}`, ...data });
+      });
+
+      await writeImportedCards(newCards.map(data => ({ ...data, timestamp: Date.now() })));
+      const skipped = contacts.length - newCards.length;
+      setMessage(`Imported ${newCards.length} contact${newCards.length === 1 ? '' : 's'}.${skipped > 0 ? ` Skipped ${skipped} already in the vault.` : ''}`);
+    } catch (error) {
+      console.error("Error importing vCard:", error);
+      setMessage(`Error importing vCard: ${error.message}`);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return {
+    readAllCards,
+    vcardVersion,
+    setVcardVersion,
+    csvExportOptions,
+    exportCards,
+    downloadCsv,
+    exportCsv,
+    closeCsvExport: () => setExportCards(null),
+    downloadVCard,
+    saveToContacts,
+    exportReminders,
+    exportAllReminders,
+    spreadsheetImport,
+    openSpreadsheet,
+    importSpreadsheet,
+    closeSpreadsheetImport: () => setSpreadsheetImport(null),
+    importVCards,
+  };
+};
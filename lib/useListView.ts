@@ -0,0 +1,37 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { DEFAULT_LIST_VIEW, ListView, listViewToParams, parseListView } from './search';
+
+// Keeps the company list's search/filter/sort state in the URL query string so a view can be shared
+export const useListView = () => {
+  // `loaded` stays false until the URL has been read, so the defaults never overwrite a shared link
+  const [state, setState] = useState({ view: DEFAULT_LIST_VIEW, loaded: false });
+  const { view, loaded } = state;
+
+  // Read the initial state from the URL and follow back/forward navigation
+  useEffect(() => {
+    const readFromUrl = () => setState({ view: parseListView(new URLSearchParams(window.location.search)), loaded: true });
+    readFromUrl();
+    window.addEventListener('popstate', readFromUrl);
+    return () => window.removeEventListener('popstate', readFromUrl);
+  }, []);
+
+  // Write changes back without adding history entries for every keystroke
+  useEffect(() => {
+    if (!loaded) return;
+    const query = listViewToParams(view, new URLSearchParams(window.location.search)).toString();
+    const url = `${window.location.pathname}${query ? `?${query}` : ''}${window.location.hash}`;
+    if (url !== `${window.location.pathname}${window.location.search}${window.location.hash}`) {
+      window.history.replaceState(window.history.state, '', url);
+    }
+  }, [view, loaded]);
+
+  const updateView = useCallback((changes: Partial<ListView>) => {
+    setState(prev => ({ ...prev, view: { ...prev.view, ...changes } }));
+  }, []);
+
+  const resetView = useCallback(() => updateView(DEFAULT_LIST_VIEW), [updateView]);
+
+  return { view, updateView, resetView };
+};
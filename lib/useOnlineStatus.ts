@@ -0,0 +1,21 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+
+// Tracks the browser's online/offline events; starts as online so server rendering matches
+export const useOnlineStatus = (): boolean => {
+  const [online, setOnline] = useState(true);
+
+  useEffect(() => {
+    const update = () => setOnline(navigator.onLine);
+    update();
+    window.addEventListener('online', update);
+    window.addEventListener('offline', update);
+    return () => {
+      window.removeEventListener('online', update);
+      window.removeEventListener('offline', update);
+    };
+  }, []);
+
+  return online;
+};
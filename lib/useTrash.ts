@@ -0,0 +1,115 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { DELETE_FIELD } from './cardRepository';
+import { cardLabel, isPurgeDue, TRASH_RETENTION_DAYS } from './history';
+import { settleWrite } from './sync';
+import { CardImages, CompanyData } from './types';
+import { CardChanges, OpenVault } from './useCardChanges';
+import { VIEW_ONLY_MESSAGE } from './workspaces';
+
+// Moving cards to the trash, restoring them, and deleting them for good, either by hand or once their
+// time in the trash is up. `onRemoved` hears of each card moved to the trash.
+export const useTrash = (open: OpenVault, trashedCards: CompanyData[], changes: CardChanges, onRemoved: (cardId: string) => void) => {
+  const { backend, repository, canEdit, setMessage, setLoading } = open;
+  const blobStore = backend?.blobStore ?? null;
+  const userId = open.user?.uid ?? null;
+  // The card waiting for the user to confirm its deletion
+  const [cardToDelete, setCardToDelete] = useState<CompanyData | null>(null);
+  const purgingRef = useRef(new Set<string>());
+
+  const requestDelete = (card: CompanyData) => {
+    if (!canEdit) {
+      setMessage(VIEW_ONLY_MESSAGE);
+      return;
+    }
+    setCardToDelete(card);
+  };
+
+  const cancelDelete = () => setCardToDelete(null);
+
+  const confirmDelete = async () => {
+    const card = cardToDelete;
+    if (!canEdit) {
+      setMessage(VIEW_ONLY_MESSAGE);
+      setCardToDelete(null);
+      return;
+    }
+    if (!card || !repository) return;
+    try {
+      setLoading(true);
+      // Images stay until the card is purged from the trash, so a restore brings them back
+      const entry = await changes.commit(card, 'delete', { deletedAt: Date.now(), deletedBy: userId }, []);
+      changes.announce(entry, `"${cardLabel(card)}" moved to the trash. It will be deleted permanently after ${TRASH_RETENTION_DAYS} days.`);
+      onRemoved(card.id);
+    } catch (error) {
+      console.error("Error deleting document:", error);
+      setMessage(`Error deleting card: ${error.message}`);
+    } finally {
+      setLoading(false);
+      setCardToDelete(null);
+    }
+  };
+
+  const restore = async (card: CompanyData) => {
+    if (!repository || !canEdit) {
+      setMessage(VIEW_ONLY_MESSAGE);
+      return;
+    }
+    try {
+      const entry = await changes.commit(card, 'restore', { deletedAt: DELETE_FIELD, deletedBy: DELETE_FIELD }, []);
+      changes.announce(entry, `"${cardLabel(card)}" restored.`);
+    } catch (error) {
+      console.error("Error restoring card:", error);
+      setMessage(`Error restoring card: ${error.message}`);
+    }
+  };
+
+  // Removes a card's stored images; returns how many could not be deleted
+  const deleteCardImages = async (images?: CardImages): Promise<number> => {
+    if (!images || !blobStore) return 0;
+    const results = await Promise.allSettled(Object.values(images).map(image => blobStore.delete(image.path)));
+    const failures = results.filter(result => result.status === 'rejected');
+    failures.forEach(failure => console.error("Error deleting card image:", (failure as PromiseRejectedResult).reason));
+    return failures.length;
+  };
+
+  // Deletes the card and its images for good; the audit log entry is all that remains
+  const purgeCard = async (card: CompanyData): Promise<number> => {
+    const write = repository.purgeCard(card.id, { cardId: card.id, cardLabel: cardLabel(card), action: 'purge', changes: [], at: Date.now(), by: userId });
+    await settleWrite(write, (error) => {
+      console.error("Error deleting document:", error);
+      setMessage(`${cardLabel(card)} could not be deleted: ${error.message}`);
+    });
+    return deleteCardImages(card.images);
+  };
+
+  const purge = async (card: CompanyData) => {
+    if (!repository || !canEdit) {
+      setMessage(VIEW_ONLY_MESSAGE);
+      return;
+    }
+    try {
+      const failedImages = await purgeCard(card);
+      setMessage(failedImages > 0
+        ? `Card deleted permanently, but ${failedImages} image(s) could not be removed. Check console for details.`
+        : 'Card deleted permanently.');
+    } catch (error) {
+      console.error("Error deleting document:", error);
+      setMessage(`Error deleting card: ${error.message}`);
+    }
+  };
+
+  // Cards past their time in the trash are purged by the next editor to open the vault
+  useEffect(() => {
+    if (!repository || !canEdit) return;
+    trashedCards.filter(card => isPurgeDue(card) && !purgingRef.current.has(card.id)).forEach(card => {
+      purgingRef.current.add(card.id);
+      purgeCard(card)
+        .catch(error => console.error("Error purging card:", error))
+        .finally(() => purgingRef.current.delete(card.id));
+    });
+  }, [trashedCards, canEdit, repository]);
+
+  return { cardToDelete, requestDelete, cancelDelete, confirmDelete, restore, purge };
+};
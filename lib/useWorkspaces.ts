@@ -0,0 +1,157 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { User } from 'firebase/auth';
+import { Backend } from './backend';
+import { removeUrlParam } from './pwa';
+import { Invitation, WorkspaceMember } from './types';
+import { PERSONAL_VAULT_ID, personalVault, workspaceVault } from './workspaces';
+
+// Remembers the last workspace opened on this device
+const ACTIVE_VAULT_STORAGE_KEY = 'cardvault.activeVault';
+
+// The vaults the signed-in user can open and the one that is open, the members of an open workspace,
+// and invitations waiting for the user. Invitations sent by email only show once the address is
+// verified, because the rules refuse them before. Without backend.workspaces only the private vault
+// is offered.
+export const useWorkspaces = (
+  backend: Backend | null,
+  user: User | null,
+  emailVerified: boolean,
+  onMessage: (message: string) => void
+) => {
+  const workspaces = backend?.workspaces ?? null;
+  const appId = backend?.appId;
+  const userId = user?.uid ?? null;
+  const [memberships, setMemberships] = useState<WorkspaceMember[]>([]);
+  const [activeVaultId, setActiveVaultId] = useState(PERSONAL_VAULT_ID);
+  const [activeMembers, setActiveMembers] = useState<WorkspaceMember[]>([]);
+  const [invitations, setInvitations] = useState<Invitation[]>([]);
+  // Invite links open the app with ?invite=<id>; that invitation is shown alongside any sent by email
+  const [linkInviteId, setLinkInviteId] = useState<string | null>(null);
+
+  useEffect(() => {
+    setActiveVaultId(window.localStorage.getItem(ACTIVE_VAULT_STORAGE_KEY) || PERSONAL_VAULT_ID);
+    setLinkInviteId(new URLSearchParams(window.location.search).get('invite'));
+  }, []);
+
+  const vaults = useMemo(
+    () => (appId && userId ? [personalVault(appId, userId), ...memberships.map(membership => workspaceVault(appId, membership))] : []),
+    [appId, userId, memberships]
+  );
+  const activeVault = vaults.find(vault => vault.id === activeVaultId) || vaults[0] || null;
+
+  const selectVault = (vaultId: string) => {
+    setActiveVaultId(vaultId);
+    window.localStorage.setItem(ACTIVE_VAULT_STORAGE_KEY, vaultId);
+  };
+
+  // Workspaces the user belongs to
+  useEffect(() => {
+    if (!workspaces || !userId) {
+      setMemberships([]);
+      return;
+    }
+    return workspaces.subscribeToMemberships(userId, setMemberships, (error) => {
+      console.error("Error loading workspaces:", error);
+      onMessage(`Error loading workspaces: ${error.message}`);
+    });
+  }, [workspaces, userId]);
+
+  // Members of the open workspace, used to show who added each card
+  useEffect(() => {
+    if (!workspaces || activeVault?.kind !== 'workspace') {
+      setActiveMembers([]);
+      return;
+    }
+    return workspaces.subscribeToMembers(activeVault.id, setActiveMembers, (error) => {
+      console.error("Error loading workspace members:", error);
+    });
+  }, [workspaces, activeVault?.kind, activeVault?.id]);
+
+  const userEmail = user && !user.isAnonymous && emailVerified ? user.email : null;
+  useEffect(() => {
+    if (!workspaces || !userEmail) {
+      setInvitations([]);
+      return;
+    }
+    return workspaces.subscribeToInvitations({ email: userEmail }, setInvitations, (error) => {
+      console.error("Error loading invitations:", error);
+    });
+  }, [workspaces, userEmail]);
+
+  const clearLinkInvite = () => {
+    setLinkInviteId(null);
+    removeUrlParam('invite');
+  };
+
+  useEffect(() => {
+    if (!workspaces || !user || !linkInviteId) return;
+    workspaces.getInvitation(linkInviteId)
+      .then(invitation => {
+        if (!invitation || invitation.expiresAt <= Date.now()) {
+          onMessage('This invitation link is no longer valid.');
+          clearLinkInvite();
+        } else if (memberships.some(membership => membership.workspaceId === invitation.workspaceId)) {
+          selectVault(invitation.workspaceId);
+          clearLinkInvite();
+        } else {
+          setInvitations(prev => (prev.some(existing => existing.id === invitation.id) ? prev : [...prev, invitation]));
+        }
+      })
+      .catch(error => {
+        console.error("Error loading invitation:", error);
+        onMessage(`Could not open invitation: ${error.message}`);
+      });
+  }, [workspaces, user, linkInviteId]);
+
+  const acceptInvitation = async (invitation: Invitation) => {
+    if (!workspaces || !user) return;
+    try {
+      await workspaces.acceptInvitation(invitation, user);
+      setInvitations(prev => prev.filter(existing => existing.id !== invitation.id));
+      if (invitation.id === linkInviteId) clearLinkInvite();
+      selectVault(invitation.workspaceId);
+      onMessage(`You joined ${invitation.workspaceName}.`);
+    } catch (error) {
+      console.error("Error accepting invitation:", error);
+      onMessage(`Could not join workspace: ${error.message}`);
+    }
+  };
+
+  const declineInvitation = (invitation: Invitation) => {
+    setInvitations(prev => prev.filter(existing => existing.id !== invitation.id));
+    if (invitation.id === linkInviteId) clearLinkInvite();
+  };
+
+  // Creates the workspace and opens it; errors are the caller's to report
+  const createWorkspace = async (name: string) => {
+    if (!workspaces || !user) return;
+    const membership = await workspaces.create(user, name);
+    selectVault(membership.workspaceId);
+  };
+
+  // Names shown for uploadedBy: "You" for the current user, the member's email inside a workspace
+  const uploaderLabels = useMemo(() => {
+    const labels: Record<string, string> = {};
+    activeMembers.forEach(member => {
+      labels[member.uid] = member.email || member.displayName || member.uid;
+    });
+    if (userId) labels[userId] = 'You';
+    return labels;
+  }, [activeMembers, userId]);
+
+  // Invitations to workspaces the user hasn't joined yet
+  const openInvitations = invitations.filter(invitation => !memberships.some(membership => membership.workspaceId === invitation.workspaceId));
+
+  return {
+    vaults,
+    activeVault,
+    selectVault,
+    invitations: openInvitations,
+    acceptInvitation,
+    declineInvitation,
+    createWorkspace,
+    uploaderLabels,
+  };
+};
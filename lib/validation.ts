@@ -0,0 +1,129 @@
+// Client-side checks for extracted and edited card fields
+
+import { EXTRACTED_FIELDS, ExtractedCardData, ExtractedField, ExtractionMeta } from './types';
+import { reconcileContactFields, splitPhoneExtension, withPrimaryFields } from './contactFields';
+
+// Fields the model scored below this are highlighted as needing a second look
+export const LOW_CONFIDENCE_THRESHOLD = 0.6;
+
+// Calling code used for numbers printed without one, e.g. "44" or "1"
+const defaultCallingCode = (process.env.NEXT_PUBLIC_DEFAULT_CALLING_CODE || '').replace(/\D/g, '');
+
+export type FieldStatus = 'weak' | 'invalid';
+
+export interface FieldFlag {
+  status: FieldStatus;
+  message: string;
+}
+
+export type FieldFlags = Partial<Record<ExtractedField, FieldFlag>>;
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]{2,}$/;
+
+export const isValidEmail = (value: string): boolean => EMAIL_PATTERN.test(value.trim());
+
+// Returns the URL with a scheme added when missing, or null if it can't be a website address
+export const normalizeUrl = (value: string): string | null => {
+  const trimmed = value.trim();
+  if (!trimmed || /\s/.test(trimmed)) return null;
+  const withScheme = /^[a-z][a-z\d+.-]*:\/\//i.test(trimmed) ? trimmed : `https://${trimmed}`;
+  try {
+    const url = new URL(withScheme);
+    if (!['http:', 'https:'].includes(url.protocol) || !/\.[a-z]{2,}$/i.test(url.hostname)) return null;
+    return withScheme;
+  } catch {
+    return null;
+  }
+};
+
+// Converts a printed phone number to E.164 (+<country code><number>), or null if that isn't possible.
+// An extension is kept as an RFC 3966 suffix, e.g. "+442079460000;ext=12".
+export const normalizePhoneNumber = (value: string, callingCode = defaultCallingCode): string | null => {
+  const { number, extension } = splitPhoneExtension(value.trim());
+  const trimmed = number.trim().replace(/\(0\)/g, '');
+  if (!trimmed || /[a-z]/i.test(trimmed)) return null;
+
+  let digits: string;
+  if (trimmed.startsWith('+')) {
+    digits = trimmed.replace(/\D/g, '');
+  } else if (trimmed.startsWith('00')) {
+    digits = trimmed.replace(/\D/g, '').slice(2);
+  } else if (callingCode) {
+    digits = callingCode + trimmed.replace(/\D/g, '').replace(/^0/, '');
+  } else {
+    return null;
+  }
+
+  if (!/^[1-9]\d{7,14}$/.test(digits)) return null;
+  return extension ? `+${digits};ext=${extension}` : `+${digits}`;
+};
+
+export const validateField = (field: ExtractedField, value: string | undefined): FieldFlag | null => {
+  if (!value || !value.trim()) return null;
+
+  switch (field) {
+    case 'email':
+      return isValidEmail(value) ? null : { status: 'invalid', message: 'Not a valid email address' };
+    case 'website':
+      return normalizeUrl(value) ? null : { status: 'invalid', message: 'Not a valid website URL' };
+    case 'phoneNumber':
+      if (normalizePhoneNumber(value)) return null;
+      return {
+        status: 'invalid',
+        message: value.trim().startsWith('+') || defaultCallingCode
+          ? 'Not a valid phone number'
+          : 'Phone number has no country code'
+      };
+    default:
+      return null;
+  }
+};
+
+// Works out which fields need attention: invalid values first, then low-confidence extractions
+export const getFieldFlags = (data: ExtractedCardData, extraction?: ExtractionMeta): FieldFlags => {
+  const flags: FieldFlags = {};
+  for (const field of EXTRACTED_FIELDS) {
+    const invalid = validateField(field, data[field]);
+    if (invalid) {
+      flags[field] = invalid;
+      continue;
+    }
+    const meta = extraction?.[field];
+    if (meta && data[field] && meta.confidence < LOW_CONFIDENCE_THRESHOLD) {
+      flags[field] = {
+        status: 'weak',
+        message: `Low confidence (${Math.round(meta.confidence * 100)}%)${meta.sourceText ? ` — read from "${meta.sourceText}"` : ''}`
+      };
+    }
+  }
+  return flags;
+};
+
+// Brings the contact lists and primary values into line, then normalises phone numbers to E.164
+// and websites to full URLs where that can be done safely
+export const normalizeCardData = (data: ExtractedCardData): ExtractedCardData => {
+  const normalized: ExtractedCardData = reconcileContactFields(data);
+  normalized.phones = normalized.phones.map(phone => ({ ...phone, value: normalizePhoneNumber(phone.value) || phone.value.trim() }));
+  normalized.emails = normalized.emails.map(email => ({ ...email, value: email.value.trim().toLowerCase() }));
+  normalized.socialProfiles = normalized.socialProfiles.map(profile => ({ ...profile, value: profile.value.trim() }));
+  if (data.website) normalized.website = normalizeUrl(data.website) || data.website.trim();
+  EXTRACTED_FIELDS.forEach(field => {
+    if (typeof normalized[field] === 'string') normalized[field] = normalized[field].trim();
+  });
+  return withPrimaryFields(normalized);
+};
+
+// Fields a person has edited count as verified, so their extraction confidence no longer applies
+export const markEditedFields = (
+  extraction: ExtractionMeta | undefined,
+  before: ExtractedCardData,
+  after: ExtractedCardData
+): ExtractionMeta => {
+  const updated: ExtractionMeta = { ...(extraction || {}) };
+  for (const field of EXTRACTED_FIELDS) {
+    if ((before[field] || '') !== (after[field] || '') && updated[field]) {
+      updated[field] = { ...updated[field], confidence: 1 };
+    }
+  }
+  return updated;
+};
@@ -0,0 +1,329 @@
+// vCard 3.0 (RFC 2426) and 4.0 (RFC 6350) export and import for company cards
+
+import { CompanyData, ContactEmail, ContactPhone, EmailType, ExtractedCardData, PhoneType, PostalAddress, SocialProfile } from './types';
+import { cleanPostalAddress, detectSocialNetwork, SOCIAL_NETWORKS, withContactLists } from './contactFields';
+
+export type VCardVersion = '3.0' | '4.0';
+
+// A contact read from a .vcf file. Phones and emails are listed preferred first, so the preferred
+// ones become the card's primary phone and email.
+export interface ImportedVCard {
+  data: ExtractedCardData;
+}
+
+interface VCardProperty {
+  name: string;
+  params: Record<string, string[]>;
+  value: string;
+}
+
+// Lines longer than this many octets are folded onto continuation lines
+const MAX_LINE_OCTETS = 75;
+
+const utf8Length = (char: string): number => {
+  const code = char.charCodeAt(0);
+  if (char.length > 1) return 4;
+  if (code < 0x80) return 1;
+  if (code < 0x800) return 2;
+  return 3;
+};
+
+// Splits on whole characters so surrogate pairs and multi-byte characters are never cut in half.
+// iCalendar files use the same folding (see lib/ics.ts).
+export const foldLine = (line: string): string => {
+  const parts: string[] = [];
+  let current = '';
+  let octets = 0;
+  for (let i = 0; i < line.length; i++) {
+    const isPair = line.charCodeAt(i) >= 0xd800 && line.charCodeAt(i) <= 0xdbff && i + 1 < line.length;
+    const char = isPair ? line.slice(i, i + 2) : line[i];
+    if (isPair) i++;
+    // Continuation lines start with a space, which counts towards their length
+    const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (octets + utf8Length(char) > limit) {
+      parts.push(current);
+      current = '';
+      octets = 0;
+    }
+    current += char;
+    octets += utf8Length(char);
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+};
+
+export const escapeVCardValue = (value: string): string =>
+  value
+    .replace(/\\/g, '\\\\')
+    .replace(/\r\n|\r|\n/g, '\\n')
+    .replace(/,/g, '\\,')
+    .replace(/;/g, '\\;');
+
+export const unescapeVCardValue = (value: string): string =>
+  value.replace(/\\([\\,;nN:])/g, (_match, char: string) => (char === 'n' || char === 'N' ? '\n' : char));
+
+// Splits a structured value (N, ADR, ORG) on separators that are not escaped
+const splitStructured = (value: string, separator: ';' | ','): string[] => {
+  const parts: string[] = [];
+  let current = '';
+  for (let i = 0; i < value.length; i++) {
+    if (value[i] === '\\' && i + 1 < value.length) {
+      current += value.slice(i, i + 2);
+      i++;
+    } else if (value[i] === separator) {
+      parts.push(current);
+      current = '';
+    } else {
+      current += value[i];
+    }
+  }
+  parts.push(current);
+  return parts;
+};
+
+// Parameter values can't hold quotes or line breaks; RFC 6868 caret-encodes them
+const encodeParamValue = (value: string): string =>
+  value.replace(/\^/g, '^^').replace(/\r\n|\r|\n/g, '^n').replace(/"/g, "^'");
+
+// "Jane van der Berg" -> family "Berg", given "Jane van der"; good enough for N, which FN overrides
+const nameParts = (fullName: string): { family: string; given: string } => {
+  const words = fullName.trim().split(/\s+/);
+  if (words.length < 2) return { family: words[0] || '', given: '' };
+  return { family: words[words.length - 1], given: words.slice(0, -1).join(' ') };
+};
+
+// TYPE parameter values for each phone and email type, as written by 4.0; 3.0 uses them upper-cased
+const PHONE_VCARD_TYPES: Record<PhoneType, string[]> = {
+  mobile: ['cell', 'voice'],
+  work: ['work', 'voice'],
+  fax: ['work', 'fax'],
+  home: ['home', 'voice'],
+  other: ['voice'],
+};
+
+const EMAIL_VCARD_TYPES: Record<EmailType, string[]> = {
+  work: ['work'],
+  personal: ['home'],
+  other: [],
+};
+
+const phoneTypeFromParams = (types: string[]): PhoneType => {
+  if (types.includes('fax')) return 'fax';
+  if (types.includes('cell') || types.includes('mobile')) return 'mobile';
+  if (types.includes('home')) return 'home';
+  if (types.includes('work')) return 'work';
+  return 'other';
+};
+
+const emailTypeFromParams = (types: string[]): EmailType => (types.includes('home') ? 'personal' : 'work');
+
+const vcardTimestamp = (timestamp: number): string =>
+  new Date(timestamp).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+const typeParam = (types: string[], is4: boolean, preferred: boolean, extra: string[] = []): string => {
+  const values = [...extra, ...types];
+  if (preferred && !is4) values.push('pref');
+  const params = values.length > 0 ? `;TYPE=${values.map(value => (is4 ? value : value.toUpperCase())).join(',')}` : '';
+  return params + (preferred && is4 ? ';PREF=1' : '');
+};
+
+export const cardToVCard = (card: CompanyData, version: VCardVersion = '3.0'): string => {
+  const is4 = version === '4.0';
+  const company = withContactLists(card);
+  const fullName = company.contactPerson || company.companyName || '';
+  const { family, given } = nameParts(company.contactPerson || '');
+  const lines = [
+    'BEGIN:VCARD',
+    `VERSION:${version}`,
+    'PRODID:-//CardVault//EN',
+    `FN:${escapeVCardValue(fullName)}`,
+    `N:${escapeVCardValue(family)};${escapeVCardValue(given)};;;`,
+  ];
+  if (company.companyName) lines.push(`ORG:${escapeVCardValue(company.companyName)}`);
+  if (company.jobTitle) lines.push(`TITLE:${escapeVCardValue(company.jobTitle)}`);
+  company.phones.forEach(phone => {
+    // The primary phone (the first that isn't a fax) is marked as preferred
+    const params = typeParam(PHONE_VCARD_TYPES[phone.type], is4, phone.value === card.phoneNumber);
+    lines.push(is4
+      ? `TEL;VALUE=uri${params}:tel:${phone.value.replace(/\s/g, '')}`
+      : `TEL${params}:${escapeVCardValue(phone.value)}`);
+  });
+  company.emails.forEach((email, index) => {
+    lines.push(`EMAIL${typeParam(EMAIL_VCARD_TYPES[email.type], is4, index === 0, is4 ? [] : ['internet'])}:${escapeVCardValue(email.value)}`);
+  });
+  if (company.website) lines.push(`URL:${escapeVCardValue(company.website)}`);
+  // X-SOCIALPROFILE is what Apple and Google Contacts read; there is no standard property before RFC 9554
+  company.socialProfiles.forEach(profile => {
+    lines.push(`X-SOCIALPROFILE;TYPE=${is4 ? profile.network : profile.network.toUpperCase()}:${escapeVCardValue(profile.value)}`);
+  });
+  const postal = company.postalAddress;
+  if (postal) {
+    // ADR components: PO box; extended address; street; locality; region; postal code; country
+    const adr = ['', '', postal.street, postal.city, postal.region, postal.postalCode, postal.country]
+      .map(part => escapeVCardValue(part || ''))
+      .join(';');
+    const label = company.address || '';
+    if (is4) {
+      lines.push(`ADR;TYPE=work${label ? `;LABEL="${encodeParamValue(label)}"` : ''}:${adr}`);
+    } else {
+      lines.push(`ADR;TYPE=WORK:${adr}`);
+      if (label) lines.push(`LABEL;TYPE=WORK:${escapeVCardValue(label)}`);
+    }
+  }
+  if (company.id) lines.push(`UID:${escapeVCardValue(company.id)}`);
+  if (company.timestamp) lines.push(`REV:${vcardTimestamp(company.timestamp)}`);
+  lines.push('END:VCARD');
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+};
+
+export const cardsToVCard = (companies: CompanyData[], version: VCardVersion = '3.0'): string =>
+  companies.map(company => cardToVCard(company, version)).join('');
+
+// File name for a single card, e.g. "Jane_Doe.vcf"
+export const vcardFileName = (company: CompanyData): string =>
+  `${(company.contactPerson || company.companyName || 'contact').replace(/[^\w\-]+/g, '_').replace(/^_+|_+$/g, '') || 'contact'}.vcf`;
+
+// Joins folded lines: a line break followed by a space or tab continues the previous line
+const unfold = (text: string): string[] =>
+  text.replace(/\r\n|\r/g, '\n').replace(/\n[ \t]/g, '').split('\n');
+
+const parseProperty = (line: string): VCardProperty | null => {
+  // The value starts at the first colon that is not inside a quoted parameter value
+  let inQuotes = false;
+  let colon = -1;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') inQuotes = !inQuotes;
+    else if (line[i] === ':' && !inQuotes) {
+      colon = i;
+      break;
+    }
+  }
+  if (colon < 0) return null;
+
+  const [rawName, ...rawParams] = line.slice(0, colon).split(';');
+  // Drop group prefixes such as "item1.TEL"
+  const name = rawName.slice(rawName.lastIndexOf('.') + 1).toUpperCase();
+  const params: Record<string, string[]> = {};
+  rawParams.forEach(param => {
+    const equals = param.indexOf('=');
+    // vCard 2.1 allows bare types such as "TEL;WORK;VOICE:"
+    const key = equals < 0 ? 'TYPE' : param.slice(0, equals).toUpperCase();
+    const values = (equals < 0 ? param : param.slice(equals + 1))
+      .split(',')
+      .map(value => value.replace(/^"|"$/g, '').toLowerCase());
+    params[key] = [...(params[key] || []), ...values];
+  });
+  return { name, params, value: line.slice(colon + 1) };
+};
+
+// Preferred values first: PREF=1 (4.0) or TYPE=pref (3.0), then in file order
+const preferenceRank = (property: VCardProperty): number => {
+  const pref = property.params.PREF ? parseInt(property.params.PREF[0], 10) : NaN;
+  if (!isNaN(pref)) return pref;
+  return (property.params.TYPE || []).includes('pref') ? 1 : 101;
+};
+
+const byPreference = (properties: VCardProperty[]): VCardProperty[] =>
+  properties
+    .map((property, index) => ({ property, index }))
+    .sort((a, b) => preferenceRank(a.property) - preferenceRank(b.property) || a.index - b.index)
+    .map(entry => entry.property);
+
+const textValue = (property?: VCardProperty): string => (property ? unescapeVCardValue(property.value).trim() : '');
+
+const addressValue = (property: VCardProperty): string =>
+  splitStructured(property.value, ';')
+    .map(part => unescapeVCardValue(part).trim())
+    .filter(Boolean)
+    .join(', ');
+
+const postalAddressValue = (property: VCardProperty): PostalAddress | undefined => {
+  const [poBox, extended, street, city, region, postalCode, country] = splitStructured(property.value, ';')
+    .map(part => unescapeVCardValue(part).trim());
+  return cleanPostalAddress({
+    street: [poBox, extended, street].filter(Boolean).join(', '),
+    city,
+    region,
+    postalCode,
+    country,
+  });
+};
+
+const toCard = (properties: VCardProperty[]): ImportedVCard => {
+  const all = (name: string) => properties.filter(property => property.name === name);
+  const first = (name: string) => byPreference(all(name))[0];
+
+  const phones: ContactPhone[] = byPreference(all('TEL'))
+    .map(property => ({ type: phoneTypeFromParams(property.params.TYPE || []), value: textValue(property).replace(/^tel:/i, '') }))
+    .filter(phone => phone.value);
+  const emails: ContactEmail[] = byPreference(all('EMAIL'))
+    .map(property => ({ type: emailTypeFromParams(property.params.TYPE || []), value: textValue(property).replace(/^mailto:/i, '') }))
+    .filter(email => email.value);
+  // Profiles from X-SOCIALPROFILE (Apple, Google) or SOCIALPROFILE (RFC 9554), plus URLs that point at a known network
+  const socialProfiles: SocialProfile[] = [...all('X-SOCIALPROFILE'), ...all('SOCIALPROFILE')]
+    .map(property => {
+      const value = textValue(property);
+      const declared = (property.params.TYPE || []).find(type => SOCIAL_NETWORKS.includes(type as SocialProfile['network']));
+      return { network: (declared as SocialProfile['network']) || detectSocialNetwork(value), value };
+    })
+    .filter(profile => profile.value);
+  const urls = all('URL').map(textValue).filter(Boolean);
+  urls.filter(url => detectSocialNetwork(url) !== 'other' && !socialProfiles.some(profile => profile.value === url))
+    .forEach(url => socialProfiles.push({ network: detectSocialNetwork(url), value: url }));
+
+  let contactPerson = textValue(first('FN'));
+  const nameProperty = first('N');
+  if (!contactPerson && nameProperty) {
+    const [family, given, additional, prefix, suffix] = splitStructured(nameProperty.value, ';').map(part => unescapeVCardValue(part).trim());
+    contactPerson = [prefix, given, additional, family, suffix].filter(Boolean).join(' ');
+  }
+  const orgProperty = first('ORG');
+  // ORG is "Company;Department;..."; the card keeps the company only
+  const companyName = orgProperty ? unescapeVCardValue(splitStructured(orgProperty.value, ';')[0]).trim() : '';
+  // A contact exported with only a company name repeats it in FN
+  if (contactPerson === companyName) contactPerson = '';
+
+  const adrProperty = first('ADR');
+  const address = adrProperty ? addressValue(adrProperty) : textValue(first('LABEL')).replace(/\n+/g, ', ');
+  const postalAddress = adrProperty ? postalAddressValue(adrProperty) : undefined;
+
+  const data: ExtractedCardData = {};
+  if (companyName) data.companyName = companyName;
+  if (contactPerson) data.contactPerson = contactPerson;
+  const jobTitle = textValue(first('TITLE'));
+  if (jobTitle) data.jobTitle = jobTitle;
+  const primaryPhone = phones.find(phone => phone.type !== 'fax');
+  if (primaryPhone) data.phoneNumber = primaryPhone.value;
+  if (emails[0]) data.email = emails[0].value;
+  const website = urls.find(url => detectSocialNetwork(url) === 'other');
+  if (website) data.website = website;
+  if (address) data.address = address;
+  if (phones.length > 0) data.phones = phones;
+  if (emails.length > 0) data.emails = emails;
+  if (socialProfiles.length > 0) data.socialProfiles = socialProfiles;
+  if (postalAddress) data.postalAddress = postalAddress;
+  return { data };
+};
+
+// Reads every BEGIN:VCARD ... END:VCARD block; contacts with no usable fields are skipped
+export const parseVCards = (text: string): ImportedVCard[] => {
+  const cards: ImportedVCard[] = [];
+  let current: VCardProperty[] | null = null;
+  unfold(text.replace(/^\uFEFF/, '')).forEach(line => {
+    if (!line.trim()) return;
+    const property = parseProperty(line);
+    if (!property) return;
+    if (property.name === 'BEGIN' && property.value.trim().toUpperCase() === 'VCARD') {
+      current = [];
+    } else if (property.name === 'END' && property.value.trim().toUpperCase() === 'VCARD') {
+      if (current) {
+        const card = toCard(current);
+        if (Object.keys(card.data).length > 0) cards.push(card);
+      }
+      current = null;
+    } else if (current) {
+      current.push(property);
+    }
+  });
+  return cards;
+};
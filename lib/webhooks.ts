@@ -0,0 +1,166 @@
+// Outgoing webhooks for card changes. Each delivery is a JSON POST of one card, with its fields
+// renamed by the vault's field mapping, signed with the endpoint's secret:
+//
+//   X-CardVault-Event: card.updated
+//   X-CardVault-Delivery: <delivery id, also the payload's "id">
+//   X-CardVault-Timestamp: <milliseconds since the epoch>
+//   X-CardVault-Signature: sha256=<hex HMAC-SHA256 of "<timestamp>.<raw body>">
+//
+// Receivers should recompute the signature (verifyWebhookSignature does) and ignore old timestamps.
+// Network errors, 429 and 5xx responses are retried with backoff; every delivery, successful or not,
+// is written to the vault's delivery log. Owners choose the URL, so deliveries go through fetchPublic:
+// private hosts are refused and redirects are not followed. Server only.
+
+import { createHmac, randomUUID, timingSafeEqual } from 'crypto';
+import { Firestore } from 'firebase-admin/firestore';
+import { serverAppId } from './firebaseAdmin';
+import { readIntegrationConfig, recordDelivery } from './integrationStore';
+import { allowPrivateHostsFromEnv, BlockedUrlError, fetchPublic } from './publicFetch';
+import { toExternalCard, VaultRef, vaultRefPaths, WebhookDelivery, WebhookEndpoint, WebhookEvent } from './integrations';
+import { migrateCard } from './migrations';
+import { CompanyData } from './types';
+
+// Waits before the second and third attempts
+export const WEBHOOK_RETRY_DELAYS_MS = [1000, 4000];
+
+const WEBHOOK_TIMEOUT_MS = 10000;
+
+// Deliveries sent at once, so a large import doesn't open hundreds of connections
+const WEBHOOK_CONCURRENCY = 4;
+
+// Signatures older than this are rejected by verifyWebhookSignature
+export const SIGNATURE_TOLERANCE_MS = 5 * 60 * 1000;
+
+export interface WebhookPayload {
+  id: string;
+  event: WebhookEvent;
+  occurredAt: number;
+  // 'api' for changes made through /api/cards, so a CRM can ignore the echo of its own writes
+  source: 'app' | 'api';
+  vault: VaultRef;
+  card: Record<string, unknown>;
+}
+
+export interface DeliveryOptions {
+  fetch?: typeof fetch;
+  // For development and tests against a local receiver; WEBHOOKS_ALLOW_PRIVATE_HOSTS outside production
+  allowPrivateHosts?: boolean;
+  sleep?: (ms: number) => Promise<void>;
+  retryDelaysMs?: number[];
+}
+
+export const signWebhook = (secret: string, timestamp: number, body: string): string =>
+  `sha256=${createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')}`;
+
+// For receivers: checks the signature headers against the raw request body
+export const verifyWebhookSignature = (secret: string, body: string, timestamp: string | null, signature: string | null, now = Date.now()): boolean => {
+  const sentAt = Number(timestamp);
+  if (!signature || !Number.isFinite(sentAt) || Math.abs(now - sentAt) > SIGNATURE_TOLERANCE_MS) return false;
+  const expected = Buffer.from(signWebhook(secret, sentAt, body));
+  const actual = Buffer.from(signature);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+};
+
+const isRetryable = (status: number) => status === 429 || status >= 500;
+
+const wait = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms));
+
+// Posts the payload, retrying failures that may be temporary; returns the delivery log entry
+export const deliverWebhook = async (endpoint: WebhookEndpoint, payload: WebhookPayload, options: DeliveryOptions = {}): Promise<WebhookDelivery> => {
+  const sleep = options.sleep || wait;
+  const allowPrivateHosts = options.allowPrivateHosts ?? allowPrivateHostsFromEnv('WEBHOOKS_ALLOW_PRIVATE_HOSTS');
+  const retryDelays = options.retryDelaysMs || WEBHOOK_RETRY_DELAYS_MS;
+  const body = JSON.stringify(payload);
+  const delivery: WebhookDelivery = {
+    id: payload.id,
+    endpointId: endpoint.id,
+    url: endpoint.url,
+    event: payload.event,
+    cardId: String(payload.card.id),
+    status: 'failed',
+    attempts: 0,
+    responseStatus: null,
+    error: null,
+    at: Date.now(),
+  };
+
+  while (delivery.attempts <= retryDelays.length) {
+    if (delivery.attempts > 0) await sleep(retryDelays[delivery.attempts - 1]);
+    delivery.attempts += 1;
+    const timestamp = Date.now();
+    try {
+      const { response } = await fetchPublic(endpoint.url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'User-Agent': 'CardVault-Webhooks',
+          'X-CardVault-Event': payload.event,
+          'X-CardVault-Delivery': payload.id,
+          'X-CardVault-Timestamp': String(timestamp),
+          'X-CardVault-Signature': signWebhook(endpoint.secret, timestamp, body),
+        },
+        body,
+        signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+      }, { fetch: options.fetch, allowPrivateHosts });
+      delivery.responseStatus = response.status;
+      if (response.ok) {
+        delivery.status = 'delivered';
+        delivery.error = null;
+        return delivery;
+      }
+      const location = response.headers.get('location');
+      delivery.error = response.status >= 300 && response.status < 400 && location
+        ? `Redirected to ${location}; webhooks don't follow redirects, so save the final URL instead.`
+        : `${response.status} ${response.statusText}`.trim();
+      if (!isRetryable(response.status)) return delivery;
+    } catch (error) {
+      delivery.responseStatus = null;
+      delivery.error = error.message;
+      // The host won't become public by trying again
+      if (error instanceof BlockedUrlError) return delivery;
+    }
+  }
+  return delivery;
+};
+
+// Sends the event for each card to every active endpoint subscribed to it and logs the deliveries;
+// returns how many were attempted
+export const dispatchCardEvent = async (
+  db: Firestore,
+  ref: VaultRef,
+  event: WebhookEvent,
+  cardIds: string[],
+  source: WebhookPayload['source'],
+  options: DeliveryOptions = {}
+): Promise<number> => {
+  const paths = vaultRefPaths(serverAppId, ref);
+  const config = await readIntegrationConfig(db, paths.configPath);
+  const endpoints = config.webhooks.filter(endpoint => endpoint.active && endpoint.events.includes(event));
+  if (endpoints.length === 0 || cardIds.length === 0) return 0;
+
+  const snapshots = await db.getAll(...cardIds.map(id => db.doc(`${paths.cardsPath}/${id}`)));
+  const cards = snapshots
+    .filter(snapshot => snapshot.exists)
+    .map(snapshot => migrateCard({ id: snapshot.id, ...snapshot.data() } as CompanyData));
+  const jobs = cards.flatMap(card => endpoints.map(endpoint => ({ card, endpoint })));
+
+  let next = 0;
+  const worker = async () => {
+    while (next < jobs.length) {
+      const { card, endpoint } = jobs[next++];
+      const payload: WebhookPayload = {
+        id: randomUUID(),
+        event,
+        occurredAt: Date.now(),
+        source,
+        vault: ref,
+        card: toExternalCard(card, config.fieldMapping),
+      };
+      const delivery = await deliverWebhook(endpoint, payload, options);
+      await recordDelivery(db, paths.deliveriesPath, delivery)
+        .catch(error => console.error("Error recording webhook delivery:", error));
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(WEBHOOK_CONCURRENCY, jobs.length) }, worker));
+  return jobs.length;
+};
@@ -0,0 +1,238 @@
+// Team workspaces: creation, membership, roles and invitations. Access is enforced by firestore.rules;
+// these helpers only shape the writes the rules expect.
+
+import {
+  collection,
+  collectionGroup,
+  deleteDoc,
+  doc,
+  Firestore,
+  getDoc,
+  onSnapshot,
+  query,
+  setDoc,
+  updateDoc,
+  where,
+  writeBatch,
+} from 'firebase/firestore';
+import { User } from 'firebase/auth';
+import {
+  invitationsPath,
+  userAuditLogPath,
+  userCardsPath,
+  userStoragePrefix,
+  workspaceAuditLogPath,
+  workspaceCardsPath,
+  workspaceMembersPath,
+  workspacesPath,
+  workspaceStoragePrefix,
+} from './firestorePaths';
+import { Invitation, Vault, WorkspaceMember, WorkspaceRole } from './types';
+
+export const PERSONAL_VAULT_ID = 'personal';
+
+// Invitations stop working after a week
+const INVITATION_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+export const ROLE_LABELS: Record<WorkspaceRole, string> = {
+  owner: 'Owner',
+  editor: 'Editor',
+  viewer: 'Viewer',
+};
+
+export const canEditCards = (role?: WorkspaceRole) => role === 'owner' || role === 'editor';
+
+export const VIEW_ONLY_MESSAGE = 'You have view-only access to this workspace.';
+
+export const personalVault = (appId: string, uid: string): Vault => ({
+  id: PERSONAL_VAULT_ID,
+  name: 'My private vault',
+  kind: 'personal',
+  role: 'owner',
+  cardsPath: userCardsPath(appId, uid),
+  auditLogPath: userAuditLogPath(appId, uid),
+  storagePrefix: userStoragePrefix(appId, uid),
+});
+
+export const workspaceVault = (appId: string, membership: WorkspaceMember): Vault => ({
+  id: membership.workspaceId,
+  name: membership.workspaceName,
+  kind: 'workspace',
+  role: membership.role,
+  cardsPath: workspaceCardsPath(appId, membership.workspaceId),
+  auditLogPath: workspaceAuditLogPath(appId, membership.workspaceId),
+  storagePrefix: workspaceStoragePrefix(appId, membership.workspaceId),
+});
+
+const memberProfile = (user: User) => ({
+  uid: user.uid,
+  email: user.email?.toLowerCase() || '',
+  displayName: user.displayName || '',
+});
+
+export const createWorkspace = async (db: Firestore, appId: string, user: User, name: string): Promise<WorkspaceMember> => {
+  const workspaceRef = doc(collection(db, workspacesPath(appId)));
+  const membership: WorkspaceMember = {
+    ...memberProfile(user),
+    appId,
+    workspaceId: workspaceRef.id,
+    workspaceName: name,
+    role: 'owner',
+    joinedAt: Date.now(),
+  };
+  // One batch, so the rules can see the workspace's ownerId when checking the owner's membership
+  const batch = writeBatch(db);
+  batch.set(workspaceRef, { name, ownerId: user.uid, createdAt: Date.now() });
+  batch.set(doc(db, workspaceMembersPath(appId, workspaceRef.id), user.uid), membership);
+  await batch.commit();
+  return membership;
+};
+
+// Every workspace the user belongs to in this app
+export const subscribeToMemberships = (
+  db: Firestore,
+  appId: string,
+  uid: string,
+  onChange: (memberships: WorkspaceMember[]) => void,
+  onError: (error: Error) => void
+) =>
+  onSnapshot(
+    query(collectionGroup(db, 'members'), where('uid', '==', uid)),
+    snapshot => onChange(
+      snapshot.docs
+        .map(memberDoc => memberDoc.data() as WorkspaceMember)
+        .filter(membership => membership.appId === appId)
+        .sort((a, b) => a.workspaceName.localeCompare(b.workspaceName))
+    ),
+    onError
+  );
+
+export const subscribeToMembers = (
+  db: Firestore,
+  appId: string,
+  workspaceId: string,
+  onChange: (members: WorkspaceMember[]) => void,
+  onError: (error: Error) => void
+) =>
+  onSnapshot(
+    collection(db, workspaceMembersPath(appId, workspaceId)),
+    snapshot => onChange(snapshot.docs.map(memberDoc => memberDoc.data() as WorkspaceMember)),
+    onError
+  );
+
+export const updateMemberRole = (db: Firestore, appId: string, workspaceId: string, uid: string, role: WorkspaceRole) =>
+  updateDoc(doc(db, workspaceMembersPath(appId, workspaceId), uid), { role });
+
+// Used both for removing someone and for leaving a workspace yourself
+export const removeMember = (db: Firestore, appId: string, workspaceId: string, uid: string) =>
+  deleteDoc(doc(db, workspaceMembersPath(appId, workspaceId), uid));
+
+export const createInvitation = async (
+  db: Firestore,
+  appId: string,
+  workspace: Vault,
+  createdBy: string,
+  role: Invitation['role'],
+  email: string | null
+): Promise<Invitation> => {
+  const inviteRef = doc(collection(db, invitationsPath(appId)));
+  const invitation: Invitation = {
+    id: inviteRef.id,
+    appId,
+    workspaceId: workspace.id,
+    workspaceName: workspace.name,
+    email: email ? email.trim().toLowerCase() : null,
+    role,
+    createdBy,
+    createdAt: Date.now(),
+    expiresAt: Date.now() + INVITATION_TTL_MS,
+  };
+  await setDoc(inviteRef, invitation);
+  return invitation;
+};
+
+export const invitationLink = (invitation: Invitation) =>
+  `${window.location.origin}${window.location.pathname}?invite=${invitation.id}`;
+
+export const subscribeToInvitations = (
+  db: Firestore,
+  appId: string,
+  filter: { email: string } | { workspaceId: string },
+  onChange: (invitations: Invitation[]) => void,
+  onError: (error: Error) => void
+) => {
+  const [field, value] = 'email' in filter ? ['email', filter.email.toLowerCase()] : ['workspaceId', filter.workspaceId];
+  return onSnapshot(
+    query(collection(db, invitationsPath(appId)), where(field, '==', value)),
+    snapshot => onChange(
+      snapshot.docs
+        .map(inviteDoc => inviteDoc.data() as Invitation)
+        .filter(invitation => invitation.expiresAt > Date.now())
+    ),
+    onError
+  );
+};
+
+export const revokeInvitation = (db: Firestore, appId: string, inviteId: string) =>
+  deleteDoc(doc(db, invitationsPath(appId), inviteId));
+
+export const getInvitation = async (db: Firestore, appId: string, inviteId: string): Promise<Invitation | null> => {
+  const snapshot = await getDoc(doc(db, invitationsPath(appId), inviteId));
+  return snapshot.exists() ? (snapshot.data() as Invitation) : null;
+};
+
+// Joins the workspace with the invited role. Email invitations are used up; link invitations stay valid until they expire.
+export const acceptInvitation = async (db: Firestore, appId: string, invitation: Invitation, user: User): Promise<WorkspaceMember> => {
+  if (invitation.expiresAt <= Date.now()) {
+    throw new Error('This invitation has expired. Ask the workspace owner for a new one.');
+  }
+  if (invitation.email && invitation.email !== user.email?.toLowerCase()) {
+    throw new Error(`This invitation was sent to ${invitation.email}. Sign in with that address to accept it.`);
+  }
+
+  const membership: WorkspaceMember = {
+    ...memberProfile(user),
+    appId,
+    workspaceId: invitation.workspaceId,
+    workspaceName: invitation.workspaceName,
+    role: invitation.role,
+    inviteId: invitation.id,
+    joinedAt: Date.now(),
+  };
+  await setDoc(doc(db, workspaceMembersPath(appId, invitation.workspaceId), user.uid), membership);
+  if (invitation.email) {
+    await revokeInvitation(db, appId, invitation.id);
+  }
+  return membership;
+};
+
+// The calls above bound to one Firestore and app, which is how the UI reaches them (see lib/backend.ts)
+export interface WorkspaceService {
+  create(user: User, name: string): Promise<WorkspaceMember>;
+  subscribeToMemberships(uid: string, onChange: (memberships: WorkspaceMember[]) => void, onError: (error: Error) => void): () => void;
+  subscribeToMembers(workspaceId: string, onChange: (members: WorkspaceMember[]) => void, onError: (error: Error) => void): () => void;
+  updateMemberRole(workspaceId: string, uid: string, role: WorkspaceRole): Promise<void>;
+  removeMember(workspaceId: string, uid: string): Promise<void>;
+  createInvitation(workspace: Vault, createdBy: string, role: Invitation['role'], email: string | null): Promise<Invitation>;
+  subscribeToInvitations(
+    filter: { email: string } | { workspaceId: string },
+    onChange: (invitations: Invitation[]) => void,
+    onError: (error: Error) => void
+  ): () => void;
+  revokeInvitation(inviteId: string): Promise<void>;
+  getInvitation(inviteId: string): Promise<Invitation | null>;
+  acceptInvitation(invitation: Invitation, user: User): Promise<WorkspaceMember>;
+}
+
+export const createWorkspaceService = (db: Firestore, appId: string): WorkspaceService => ({
+  create: (user, name) => createWorkspace(db, appId, user, name),
+  subscribeToMemberships: (uid, onChange, onError) => subscribeToMemberships(db, appId, uid, onChange, onError),
+  subscribeToMembers: (workspaceId, onChange, onError) => subscribeToMembers(db, appId, workspaceId, onChange, onError),
+  updateMemberRole: (workspaceId, uid, role) => updateMemberRole(db, appId, workspaceId, uid, role),
+  removeMember: (workspaceId, uid) => removeMember(db, appId, workspaceId, uid),
+  createInvitation: (workspace, createdBy, role, email) => createInvitation(db, appId, workspace, createdBy, role, email),
+  subscribeToInvitations: (filter, onChange, onError) => subscribeToInvitations(db, appId, filter, onChange, onError),
+  revokeInvitation: inviteId => revokeInvitation(db, appId, inviteId),
+  getInvitation: inviteId => getInvitation(db, appId, inviteId),
+  acceptInvitation: (invitation, user) => acceptInvitation(db, appId, invitation, user),
+});
@@ -0,0 +1,121 @@
+// Minimal .xlsx reader: returns the cell text of the first worksheet. An .xlsx file is a zip of XML
+// parts, so this unzips the parts it needs with the browser's DecompressionStream and reads them
+// with DOMParser. Formatting, formulas and other sheets are ignored.
+
+interface ZipEntry {
+  method: number;
+  compressedSize: number;
+  localHeaderOffset: number;
+}
+
+const readZipEntries = (view: DataView): Map<string, ZipEntry> => {
+  // The end-of-central-directory record sits in the last 22 bytes plus an optional comment
+  let end = -1;
+  for (let i = view.byteLength - 22; i >= Math.max(0, view.byteLength - 22 - 0xffff); i--) {
+    if (view.getUint32(i, true) === 0x06054b50) {
+      end = i;
+      break;
+    }
+  }
+  if (end < 0) throw new Error('Not a valid .xlsx file.');
+
+  const entries = new Map<string, ZipEntry>();
+  const count = view.getUint16(end + 10, true);
+  let offset = view.getUint32(end + 16, true);
+  const decoder = new TextDecoder();
+  for (let i = 0; i < count; i++) {
+    if (view.getUint32(offset, true) !== 0x02014b50) throw new Error('The .xlsx file is damaged.');
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const name = decoder.decode(new Uint8Array(view.buffer, view.byteOffset + offset + 46, nameLength));
+    entries.set(name, {
+      method: view.getUint16(offset + 10, true),
+      compressedSize: view.getUint32(offset + 20, true),
+      localHeaderOffset: view.getUint32(offset + 42, true),
+    });
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+  return entries;
+};
+
+const readZipText = async (view: DataView, entries: Map<string, ZipEntry>, name: string): Promise<string | null> => {
+  const entry = entries.get(name);
+  if (!entry) return null;
+  const header = entry.localHeaderOffset;
+  const start = header + 30 + view.getUint16(header + 26, true) + view.getUint16(header + 28, true);
+  const data = new Uint8Array(view.buffer, view.byteOffset + start, entry.compressedSize);
+  if (entry.method === 0) return new TextDecoder().decode(data);
+  if (entry.method !== 8) throw new Error('The .xlsx file uses an unsupported compression method.');
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  return new Response(stream).text();
+};
+
+const parseXml = (text: string) => new DOMParser().parseFromString(text, 'application/xml');
+
+// Element lookups by local name, so prefixed ("x:row") and unprefixed markup both work
+const elements = (parent: Document | Element, localName: string): Element[] =>
+  Array.from(parent.getElementsByTagNameNS('*', localName));
+
+// Text of <t> runs, skipping phonetic guides (<rPh>) that some East Asian files include
+const runText = (element: Element): string =>
+  elements(element, 't')
+    .filter(t => t.parentElement?.localName !== 'rPh')
+    .map(t => t.textContent || '')
+    .join('');
+
+// "C12" -> 2
+const columnIndex = (reference: string): number => {
+  const letters = reference.replace(/\d+$/, '').toUpperCase();
+  let index = 0;
+  for (let i = 0; i < letters.length; i++) index = index * 26 + (letters.charCodeAt(i) - 64);
+  return index - 1;
+};
+
+// Path of the first worksheet, following workbook.xml's relationship ids
+const firstSheetPath = async (view: DataView, entries: Map<string, ZipEntry>): Promise<string> => {
+  const workbook = await readZipText(view, entries, 'xl/workbook.xml');
+  const relationships = await readZipText(view, entries, 'xl/_rels/workbook.xml.rels');
+  if (workbook && relationships) {
+    const sheet = elements(parseXml(workbook), 'sheet')[0];
+    const relationshipId = sheet && Array.from(sheet.attributes).find(attribute => attribute.localName === 'id')?.value;
+    const target = elements(parseXml(relationships), 'Relationship')
+      .find(relationship => relationship.getAttribute('Id') === relationshipId)
+      ?.getAttribute('Target');
+    if (target) return target.startsWith('/') ? target.slice(1) : `xl/${target}`;
+  }
+  return 'xl/worksheets/sheet1.xml';
+};
+
+export const readXlsxRows = async (data: ArrayBuffer): Promise<string[][]> => {
+  const view = new DataView(data);
+  const entries = readZipEntries(view);
+
+  const sharedStringsXml = await readZipText(view, entries, 'xl/sharedStrings.xml');
+  const sharedStrings = sharedStringsXml ? elements(parseXml(sharedStringsXml), 'si').map(runText) : [];
+
+  const sheetXml = await readZipText(view, entries, await firstSheetPath(view, entries));
+  if (!sheetXml) throw new Error('The .xlsx file has no worksheet.');
+
+  const rows: string[][] = [];
+  elements(parseXml(sheetXml), 'row').forEach((row, position) => {
+    const rowNumber = parseInt(row.getAttribute('r') || '', 10) || position + 1;
+    const cells: string[] = [];
+    elements(row, 'c').forEach((cell, cellPosition) => {
+      const reference = cell.getAttribute('r');
+      const index = reference ? columnIndex(reference) : cellPosition;
+      const type = cell.getAttribute('t');
+      const value = elements(cell, 'v')[0]?.textContent || '';
+      let text: string;
+      if (type === 's') text = sharedStrings[parseInt(value, 10)] || '';
+      else if (type === 'inlineStr') text = runText(cell);
+      else if (type === 'b') text = value === '1' ? 'TRUE' : 'FALSE';
+      else text = value;
+      while (cells.length < index) cells.push('');
+      cells[index] = text;
+    });
+    rows[rowNumber - 1] = cells;
+  });
+  // Blank rows have no <row> element, so fill the gaps
+  return Array.from(rows, row => row || []);
+};
@@ -0,0 +1,94 @@
+// CardVault service worker: caches the app shell so the app opens offline, and receives photos
+// shared from other apps (Web Share Target) and hands them to the page for extraction.
+
+const VERSION = 'v1';
+const SHELL_CACHE = `cardvault-shell-${VERSION}`;
+const STATIC_CACHE = `cardvault-static-${VERSION}`;
+// Offline OCR engine (lib/tesseractExtractor.ts) from the CDN; its language data is cached by Tesseract itself
+const OCR_CACHE = `cardvault-ocr-${VERSION}`;
+const OCR_ASSET_PREFIXES = ['https://cdn.jsdelivr.net/npm/tesseract.js@', 'https://cdn.jsdelivr.net/npm/tesseract.js-core@'];
+// Shared photos wait here until the page picks them up; keep in sync with lib/pwa.ts
+const SHARE_CACHE = 'cardvault-share';
+
+const SHELL_URLS = ['/', '/manifest.webmanifest', '/icons/icon-192.png', '/icons/icon-512.png'];
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(
+    caches.open(SHELL_CACHE)
+      .then((cache) => cache.addAll(SHELL_URLS))
+      .then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener('activate', (event) => {
+  const keep = [SHELL_CACHE, STATIC_CACHE, OCR_CACHE, SHARE_CACHE];
+  event.waitUntil(
+    caches.keys()
+      .then((keys) => Promise.all(keys.filter((key) => !keep.includes(key)).map((key) => caches.delete(key))))
+      .then(() => self.clients.claim())
+  );
+});
+
+// Stores each shared image under /shared/<n> and opens the app, which reads them from the cache
+const handleShareTarget = async (request) => {
+  const formData = await request.formData();
+  const files = formData.getAll('cards').filter((file) => file instanceof File && file.type.startsWith('image/'));
+  const cache = await caches.open(SHARE_CACHE);
+  const batch = Date.now();
+  await Promise.all(files.map((file, index) =>
+    cache.put(`/shared/${batch}-${index}`, new Response(file, {
+      headers: { 'Content-Type': file.type, 'X-File-Name': encodeURIComponent(file.name || `shared-${index}.jpg`) },
+    }))
+  ));
+  return Response.redirect(`/?shared=${files.length}`, 303);
+};
+
+// Pages: network first so deploys show up straight away, with the cached shell as the offline fallback
+const handleNavigation = async (request) => {
+  try {
+    const response = await fetch(request);
+    if (response.ok && new URL(request.url).pathname === '/') {
+      const cache = await caches.open(SHELL_CACHE);
+      cache.put('/', response.clone());
+    }
+    return response;
+  } catch (error) {
+    const cached = await caches.match(request, { ignoreSearch: true });
+    return cached || caches.match('/');
+  }
+};
+
+// Build output under /_next/static is content-hashed, and the OCR assets are versioned URLs, so a
+// cached copy never goes stale
+const handleStatic = async (request, cacheName = STATIC_CACHE) => {
+  const cached = await caches.match(request);
+  if (cached) return cached;
+  const response = await fetch(request);
+  if (response.ok) {
+    const cache = await caches.open(cacheName);
+    cache.put(request, response.clone());
+  }
+  return response;
+};
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  const url = new URL(request.url);
+  if (request.method === 'GET' && OCR_ASSET_PREFIXES.some((prefix) => request.url.startsWith(prefix))) {
+    event.respondWith(handleStatic(request, OCR_CACHE));
+    return;
+  }
+  if (url.origin !== self.location.origin) return;
+
+  if (request.method === 'POST' && url.pathname === '/share-target') {
+    event.respondWith(handleShareTarget(request));
+    return;
+  }
+  if (request.method !== 'GET' || url.pathname.startsWith('/api/')) return;
+
+  if (request.mode === 'navigate') {
+    event.respondWith(handleNavigation(request));
+  } else if (url.pathname.startsWith('/_next/static/') || url.pathname.startsWith('/icons/')) {
+    event.respondWith(handleStatic(request));
+  }
+});